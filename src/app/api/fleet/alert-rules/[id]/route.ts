@@ -0,0 +1,39 @@
+/**
+ * PATCH  /api/fleet/alert-rules/:id
+ *        any of { name, severity, condition, locationIds, cooldownMinutes, activeHours, enabled }
+ * DELETE /api/fleet/alert-rules/:id
+ *
+ * PATCH merges the fields into the rule and validates the result like
+ * a new rule; a changed rule measures its durations afresh.
+ */
+
+import { parseAlertRuleInput } from "@/lib/alert-rules";
+import { ensureSimulationRunning, getAlertRules, getLocations, updateAlertRule, deleteAlertRule } from "@/lib/simulation";
+import { notAnObject, readJsonObject } from "@/lib/request-body";
+
+type Params = { params: Promise<{ id: string }> };
+
+export async function PATCH(request: Request, { params }: Params) {
+  const { id } = await params;
+  const body = await readJsonObject(request);
+  if (!body) return notAnObject();
+
+  ensureSimulationRunning();
+  const rule = getAlertRules().find(r => r.id === id);
+  if (!rule) {
+    return Response.json({ error: `Unknown alert rule "${id}"` }, { status: 404 });
+  }
+
+  const input = parseAlertRuleInput({ ...rule, ...body }, getLocations().map(l => l.id));
+  if ("error" in input) return Response.json({ error: input.error }, { status: 400 });
+  return Response.json(updateAlertRule(id, input));
+}
+
+export async function DELETE(_request: Request, { params }: Params) {
+  const { id } = await params;
+  ensureSimulationRunning();
+  if (!deleteAlertRule(id)) {
+    return Response.json({ error: `Unknown alert rule "${id}"` }, { status: 404 });
+  }
+  return Response.json({ deleted: id });
+}
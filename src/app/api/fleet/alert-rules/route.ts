@@ -0,0 +1,28 @@
+/**
+ * GET  /api/fleet/alert-rules
+ *      → every alert rule, in creation order
+ * POST /api/fleet/alert-rules
+ *      { name, severity, condition, locationIds?, cooldownMinutes?, activeHours?, enabled? }
+ *
+ * A rule is evaluated against every machine in its locations (none =
+ * all) as the simulation runs; see `src/lib/alert-rules.ts` for the
+ * condition kinds.
+ */
+
+import { parseAlertRuleInput } from "@/lib/alert-rules";
+import { ensureSimulationRunning, getAlertRules, getLocations, createAlertRule } from "@/lib/simulation";
+import { notAnObject, readJsonObject } from "@/lib/request-body";
+
+export async function GET() {
+  ensureSimulationRunning();
+  return Response.json(getAlertRules());
+}
+
+export async function POST(request: Request) {
+  const body = await readJsonObject(request);
+  if (!body) return notAnObject();
+  ensureSimulationRunning();
+  const input = parseAlertRuleInput(body, getLocations().map(l => l.id));
+  if ("error" in input) return Response.json({ error: input.error }, { status: 400 });
+  return Response.json(createAlertRule(input));
+}
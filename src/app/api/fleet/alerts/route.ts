@@ -0,0 +1,16 @@
+/**
+ * GET /api/fleet/alerts?limit=N
+ *     → alerts fired by the alert rules, newest first (default 100)
+ */
+
+import { ensureSimulationRunning, getAlerts } from "@/lib/simulation";
+
+export async function GET(request: Request) {
+  const limit = Number(new URL(request.url).searchParams.get("limit") ?? 100);
+  if (!Number.isInteger(limit) || limit < 1 || limit > 500) {
+    return Response.json({ error: "limit must be 1–500" }, { status: 400 });
+  }
+
+  ensureSimulationRunning();
+  return Response.json(getAlerts(limit));
+}
@@ -0,0 +1,46 @@
+/**
+ * GET  /api/fleet/clock  → current virtual clock snapshot
+ * POST /api/fleet/clock  { speed?: 1|10|60|3600, paused?: boolean, step?: true }
+ *
+ * Controls the shared virtual clock. Fields are applied in order:
+ * speed, then pause/resume, then a single step.
+ */
+
+import { CLOCK_SPEEDS, type ClockSpeed } from "@/lib/clock";
+import {
+  ensureSimulationRunning,
+  getClockSnapshot,
+  setSimulationSpeed,
+  pauseSimulation,
+  resumeSimulation,
+  stepSimulation,
+} from "@/lib/simulation";
+import { notAnObject, readJsonObject } from "@/lib/request-body";
+
+export function GET() {
+  ensureSimulationRunning();
+  return Response.json(getClockSnapshot());
+}
+
+export async function POST(request: Request) {
+  const body = await readJsonObject<{ speed?: unknown; paused?: unknown; step?: unknown }>(request);
+  if (!body) return notAnObject();
+
+  if (body.speed !== undefined && !CLOCK_SPEEDS.includes(body.speed as ClockSpeed)) {
+    return Response.json(
+      { error: `speed must be one of ${CLOCK_SPEEDS.join(", ")}` },
+      { status: 400 }
+    );
+  }
+  if (body.paused !== undefined && typeof body.paused !== "boolean") {
+    return Response.json({ error: "paused must be a boolean" }, { status: 400 });
+  }
+
+  ensureSimulationRunning();
+  if (body.speed !== undefined) setSimulationSpeed(body.speed as ClockSpeed);
+  if (body.paused === true) pauseSimulation();
+  if (body.paused === false) resumeSimulation();
+  if (body.step === true) stepSimulation();
+
+  return Response.json(getClockSnapshot());
+}
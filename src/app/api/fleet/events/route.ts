@@ -0,0 +1,11 @@
+/**
+ * GET /api/fleet/events
+ * Most recent system events (hardware, stock, connectivity), newest first.
+ */
+
+import { ensureSimulationRunning } from "@/lib/simulation";
+
+export function GET() {
+  const s = ensureSimulationRunning();
+  return Response.json(s.events);
+}
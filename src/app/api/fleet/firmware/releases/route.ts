@@ -0,0 +1,22 @@
+/**
+ * POST /api/fleet/firmware/releases
+ *      { author, version, notes }
+ *
+ * Adds a firmware release (version as "x.y.z", not added before) that
+ * can then be rolled out. Machines on an older version report
+ * FIRMWARE_OUTDATED in their heartbeat from now on.
+ */
+
+import { parseReleaseInput } from "@/lib/firmware";
+import { ensureSimulationRunning, getFirmware, createFirmwareRelease } from "@/lib/simulation";
+import { notAnObject, readJsonObject } from "@/lib/request-body";
+
+export async function POST(request: Request) {
+  const body = await readJsonObject(request);
+  if (!body) return notAnObject();
+
+  ensureSimulationRunning();
+  const input = parseReleaseInput(body, getFirmware().releases);
+  if ("error" in input) return Response.json({ error: input.error }, { status: 400 });
+  return Response.json(createFirmwareRelease(input));
+}
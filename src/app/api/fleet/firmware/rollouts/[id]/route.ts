@@ -0,0 +1,33 @@
+/**
+ * PATCH /api/fleet/firmware/rollouts/:id
+ *       { author, action: "pause" | "resume" | "rollback" }
+ *
+ * Pause a running rollout (installs underway finish), resume a paused
+ * one (its health counting starts over) or roll it back: installs
+ * not yet sent are cancelled and upgraded machines reinstall the
+ * version they had. 409 when the action doesn't fit the rollout's
+ * status, or when rolling back anything but the newest rollout.
+ */
+
+import { parseRolloutAction } from "@/lib/firmware";
+import { ensureSimulationRunning, getFirmware, canChangeRollout, changeFirmwareRollout } from "@/lib/simulation";
+import { notAnObject, readJsonObject } from "@/lib/request-body";
+
+type Params = { params: Promise<{ id: string }> };
+
+export async function PATCH(request: Request, { params }: Params) {
+  const { id } = await params;
+  const body = await readJsonObject(request);
+  if (!body) return notAnObject();
+  const action = parseRolloutAction(body);
+  if ("error" in action) return Response.json({ error: action.error }, { status: 400 });
+
+  ensureSimulationRunning();
+  const rollout = getFirmware().rollouts.find(r => r.id === id);
+  if (!rollout) {
+    return Response.json({ error: `Unknown rollout "${id}"` }, { status: 404 });
+  }
+  const conflict = canChangeRollout(rollout, action.action);
+  if (conflict) return Response.json({ error: conflict }, { status: 409 });
+  return Response.json(changeFirmwareRollout(id, action));
+}
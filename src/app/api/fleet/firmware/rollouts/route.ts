@@ -0,0 +1,43 @@
+/**
+ * POST /api/fleet/firmware/rollouts
+ *      { author, version, canaryMachineIds, locationIds?, soakMinutes?, maxErrorRatio? }
+ *
+ * Starts rolling a release out: the canary machines first, then one
+ * wave per location in `locationIds` order, then every remaining
+ * machine, soaking `soakMinutes` (default 30) after each wave. Pauses
+ * by itself when upgraded machines log hardware errors more than
+ * `maxErrorRatio` (default 3) times as often as the rest of the
+ * fleet – see `src/lib/firmware.ts`.
+ *
+ * 404 for an unknown release or machine; 409 while another rollout is
+ * active or when a canary already runs the version.
+ */
+
+import { parseRolloutInput } from "@/lib/firmware";
+import {
+  ensureSimulationRunning,
+  getFirmware,
+  getLocations,
+  canStartRollout,
+  startFirmwareRollout,
+} from "@/lib/simulation";
+import { notAnObject, readJsonObject } from "@/lib/request-body";
+
+export async function POST(request: Request) {
+  const body = await readJsonObject(request);
+  if (!body) return notAnObject();
+  const s = ensureSimulationRunning();
+  const input = parseRolloutInput(body, getLocations().map(l => l.id));
+  if ("error" in input) return Response.json({ error: input.error }, { status: 400 });
+
+  if (!getFirmware().releases.some(r => r.version === input.version)) {
+    return Response.json({ error: `Unknown release "${input.version}"` }, { status: 404 });
+  }
+  const unknown = input.canaryMachineIds.find(id => !s.machines.some(m => m.id === id));
+  if (unknown) {
+    return Response.json({ error: `Unknown machine "${unknown}"` }, { status: 404 });
+  }
+  const conflict = canStartRollout(input);
+  if (conflict) return Response.json({ error: conflict }, { status: 409 });
+  return Response.json(startFirmwareRollout(input));
+}
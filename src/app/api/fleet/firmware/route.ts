@@ -0,0 +1,15 @@
+/**
+ * GET /api/fleet/firmware
+ *     → { releases, rollouts }, both newest first
+ *
+ * Firmware releases and their staged rollouts – see
+ * `src/lib/firmware.ts`. Each machine's installed version is on the
+ * machine itself (GET /api/fleet/machines).
+ */
+
+import { ensureSimulationRunning, getFirmware } from "@/lib/simulation";
+
+export async function GET() {
+  ensureSimulationRunning();
+  return Response.json(getFirmware());
+}
@@ -0,0 +1,15 @@
+/**
+ * GET /api/fleet/forecast
+ *   → { generatedAt, learnedFromHours, restockIntervalHours, slots }
+ *
+ * Per filled slot of every machine: sales velocity, predicted time
+ * the slot runs empty, recommended par level and the machine's next
+ * restock visit (see `src/lib/forecast.ts`). Always for the live fleet.
+ */
+
+import { ensureSimulationRunning, getStockForecast } from "@/lib/simulation";
+
+export function GET() {
+  ensureSimulationRunning();
+  return Response.json(getStockForecast());
+}
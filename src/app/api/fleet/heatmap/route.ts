@@ -0,0 +1,29 @@
+/**
+ * GET /api/fleet/heatmap?locationId=loc1&category=beverage&at=<ISO>
+ * Sales heatmap grid (hour × day of week) aggregated from stored
+ * transactions. Every parameter is optional; `at` ends the window
+ * at an earlier moment instead of now.
+ */
+
+import { PRODUCTS } from "@/lib/data";
+import { ensureSimulationRunning, getLocations, getSalesHeatmap } from "@/lib/simulation";
+
+export function GET(request: Request) {
+  const params = new URL(request.url).searchParams;
+  const locationId = params.get("locationId") || undefined;
+  const category = params.get("category") || undefined;
+  const at = params.get("at") ? new Date(params.get("at")!) : undefined;
+
+  ensureSimulationRunning();
+  if (locationId && !getLocations().some(l => l.id === locationId)) {
+    return Response.json({ error: `Unknown location "${locationId}"` }, { status: 404 });
+  }
+  if (category && !PRODUCTS.some(p => p.category === category)) {
+    return Response.json({ error: `Unknown category "${category}"` }, { status: 400 });
+  }
+
+  if (at && Number.isNaN(at.getTime())) {
+    return Response.json({ error: "at must be an ISO date" }, { status: 400 });
+  }
+  return Response.json(getSalesHeatmap({ locationId, category }, at));
+}
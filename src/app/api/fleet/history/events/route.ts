@@ -0,0 +1,19 @@
+/**
+ * GET /api/fleet/history/events
+ *   ?machineId&category&from&to&search&desc&offset&limit
+ * One page of the full stored system event history (newest first by
+ * default). `category` is the event category (hardware, stock, …).
+ */
+
+import { ensureSimulationRunning } from "@/lib/simulation";
+import { parseHistoryQuery } from "@/lib/history-store";
+
+export function GET(request: Request) {
+  const query = parseHistoryQuery(new URL(request.url).searchParams);
+  if ("error" in query) {
+    return Response.json({ error: query.error }, { status: 400 });
+  }
+
+  const s = ensureSimulationRunning();
+  return Response.json(s.history.queryEvents(query));
+}
@@ -0,0 +1,25 @@
+/**
+ * GET /api/fleet/history/fleet?from=<ISO>&to=<ISO>
+ * The whole dashboard (machines, stats, charts, rankings, feeds) as
+ * it looked over [from, to), rebuilt from stored history. A `to` in
+ * the future is clamped to the current virtual time.
+ */
+
+import { ensureSimulationRunning, getFleetAt } from "@/lib/simulation";
+
+export function GET(request: Request) {
+  const params = new URL(request.url).searchParams;
+  const from = new Date(params.get("from") ?? "");
+  const to = new Date(params.get("to") ?? "");
+
+  if (Number.isNaN(from.getTime()) || Number.isNaN(to.getTime())) {
+    return Response.json({ error: "from and to must be ISO dates" }, { status: 400 });
+  }
+  if (from >= to) {
+    return Response.json({ error: "from must be before to" }, { status: 400 });
+  }
+
+  const s = ensureSimulationRunning();
+  const now = s.clock.now();
+  return Response.json(getFleetAt(from, to > now ? now : to));
+}
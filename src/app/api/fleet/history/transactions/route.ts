@@ -0,0 +1,19 @@
+/**
+ * GET /api/fleet/history/transactions
+ *   ?machineId&category&from&to&search&sort&desc&offset&limit
+ * One page of the full stored transaction history (newest first by
+ * default). `category` is the product category.
+ */
+
+import { ensureSimulationRunning } from "@/lib/simulation";
+import { parseHistoryQuery } from "@/lib/history-store";
+
+export function GET(request: Request) {
+  const query = parseHistoryQuery(new URL(request.url).searchParams);
+  if ("error" in query) {
+    return Response.json({ error: query.error }, { status: 400 });
+  }
+
+  const s = ensureSimulationRunning();
+  return Response.json(s.history.queryTransactions(query));
+}
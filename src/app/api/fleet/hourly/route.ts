@@ -0,0 +1,11 @@
+/**
+ * GET /api/fleet/hourly
+ * 24 hourly buckets of revenue + foot traffic for the charts.
+ */
+
+import { ensureSimulationRunning, getHourlyData } from "@/lib/simulation";
+
+export function GET() {
+  ensureSimulationRunning();
+  return Response.json(getHourlyData());
+}
@@ -0,0 +1,34 @@
+/**
+ * PATCH /api/fleet/incidents/:id
+ *       { author, status?, assignee?, snoozeMinutes?, note? }
+ *
+ * Acknowledge or resolve an incident, (un)assign it, snooze it for N
+ * virtual minutes (0 ends the snooze) and/or add a note – see
+ * `src/lib/incidents.ts`. 409 when the status change isn't possible
+ * (e.g. the incident is already resolved).
+ */
+
+import { parseIncidentUpdate } from "@/lib/incidents";
+import { ensureSimulationRunning, getIncidents, updateIncident, canChangeStatus } from "@/lib/simulation";
+import { notAnObject, readJsonObject } from "@/lib/request-body";
+
+type Params = { params: Promise<{ id: string }> };
+
+export async function PATCH(request: Request, { params }: Params) {
+  const { id } = await params;
+  const body = await readJsonObject(request);
+  if (!body) return notAnObject();
+  const update = parseIncidentUpdate(body);
+  if ("error" in update) return Response.json({ error: update.error }, { status: 400 });
+
+  ensureSimulationRunning();
+  const incident = getIncidents().find(i => i.id === id);
+  if (!incident) {
+    return Response.json({ error: `Unknown incident "${id}"` }, { status: 404 });
+  }
+  if (update.status || update.snoozeMinutes !== undefined) {
+    const conflict = canChangeStatus(incident, update.status);
+    if (conflict) return Response.json({ error: conflict }, { status: 409 });
+  }
+  return Response.json(updateIncident(id, update));
+}
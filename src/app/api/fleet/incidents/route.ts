@@ -0,0 +1,11 @@
+/**
+ * GET /api/fleet/incidents
+ *     → every incident (alerts grouped per machine), newest first
+ */
+
+import { ensureSimulationRunning, getIncidents } from "@/lib/simulation";
+
+export async function GET() {
+  ensureSimulationRunning();
+  return Response.json(getIncidents());
+}
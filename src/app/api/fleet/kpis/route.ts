@@ -0,0 +1,33 @@
+/**
+ * GET /api/fleet/kpis?period=day|week|month&at=<ISO>
+ * Sales KPIs for the current period so far and the same stretch of
+ * the previous period, computed from stored transactions. `at`
+ * (optional) evaluates them at an earlier moment instead of now.
+ */
+
+import {
+  ensureSimulationRunning,
+  getSalesKpis,
+  KPI_PERIODS,
+  type KpiPeriod,
+} from "@/lib/simulation";
+
+export function GET(request: Request) {
+  const params = new URL(request.url).searchParams;
+  const period = params.get("period") ?? "day";
+  const at = params.get("at") ? new Date(params.get("at")!) : undefined;
+
+  if (!KPI_PERIODS.includes(period as KpiPeriod)) {
+    return Response.json(
+      { error: `period must be one of ${KPI_PERIODS.join(", ")}` },
+      { status: 400 }
+    );
+  }
+
+  if (at && Number.isNaN(at.getTime())) {
+    return Response.json({ error: "at must be an ISO date" }, { status: 400 });
+  }
+
+  ensureSimulationRunning();
+  return Response.json(getSalesKpis(period as KpiPeriod, at));
+}
@@ -0,0 +1,36 @@
+/**
+ * POST /api/fleet/locations/:id/planogram
+ *   { modelId, slots, author, note?, effectiveAt? }
+ *
+ * Roll one planogram template out to every machine of one cabinet
+ * model at a location: each machine gets it as its next version (now,
+ * or scheduled for `effectiveAt`), all sharing one rolloutId. No
+ * baseVersion check – a template deliberately replaces whatever each
+ * machine had.
+ */
+
+import { getMachineModel } from "@/lib/machine-models";
+import { ensureSimulationRunning, getLocations, rollOutPlanogramToLocation } from "@/lib/simulation";
+import { parsePlanogramVersionInput } from "@/lib/planogram";
+import { notAnObject, readJsonObject } from "@/lib/request-body";
+
+export async function POST(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params;
+  ensureSimulationRunning();
+  if (!getLocations().some(l => l.id === id)) {
+    return Response.json({ error: `Unknown location "${id}"` }, { status: 404 });
+  }
+
+  const body = await readJsonObject<{ modelId?: unknown }>(request);
+  if (!body) return notAnObject();
+  const model = typeof body.modelId === "string" ? getMachineModel(body.modelId) : undefined;
+  if (!model) return Response.json({ error: "modelId must be a known machine model" }, { status: 400 });
+
+  const input = parsePlanogramVersionInput(body, model);
+  if ("error" in input) return Response.json({ error: input.error }, { status: 400 });
+
+  return Response.json(rollOutPlanogramToLocation(id, model.id, input));
+}
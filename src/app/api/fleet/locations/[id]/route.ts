@@ -0,0 +1,50 @@
+/**
+ * PATCH  /api/fleet/locations/:id
+ *        any of { name, city, lat, lng, siteType, timezone,
+ *        openingHours, host, terms }
+ * DELETE /api/fleet/locations/:id
+ *
+ * PATCH merges the fields into the location and validates the result
+ * like a new one; its machines follow. A location can only be
+ * deleted once no machine in service is there (409) – relocate or
+ * decommission them first.
+ */
+
+import { parseLocationInput } from "@/lib/fleet-admin";
+import {
+  ensureSimulationRunning,
+  getLocations,
+  canDeleteLocation,
+  deleteLocation,
+  updateLocation,
+} from "@/lib/simulation";
+import { notAnObject, readJsonObject } from "@/lib/request-body";
+
+type Params = { params: Promise<{ id: string }> };
+
+export async function PATCH(request: Request, { params }: Params) {
+  const { id } = await params;
+  const body = await readJsonObject(request);
+  if (!body) return notAnObject();
+
+  ensureSimulationRunning();
+  const location = getLocations().find(l => l.id === id);
+  if (!location) {
+    return Response.json({ error: `Unknown location "${id}"` }, { status: 404 });
+  }
+
+  const input = parseLocationInput({ ...location, ...body });
+  if ("error" in input) return Response.json({ error: input.error }, { status: 400 });
+  return Response.json(updateLocation(id, input));
+}
+
+export async function DELETE(_request: Request, { params }: Params) {
+  const { id } = await params;
+  ensureSimulationRunning();
+  const conflict = canDeleteLocation(id);
+  if (conflict) return Response.json({ error: conflict }, { status: 409 });
+  if (!deleteLocation(id)) {
+    return Response.json({ error: `Unknown location "${id}"` }, { status: 404 });
+  }
+  return Response.json({ deleted: id });
+}
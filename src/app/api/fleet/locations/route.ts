@@ -0,0 +1,31 @@
+/**
+ * GET  /api/fleet/locations
+ *      → every location machines can be placed at
+ * POST /api/fleet/locations
+ *      { name, city, lat, lng, siteType?, timezone?, openingHours?,
+ *        host?, terms? }
+ *      → the new location
+ *
+ * Positions must be in Iceland – see `src/lib/fleet-admin.ts`. Site
+ * details left out get defaults, opening hours those usual for the
+ * site type – see `src/lib/locations.ts`.
+ */
+
+import { parseLocationInput } from "@/lib/fleet-admin";
+import { ensureSimulationRunning, getLocations, createLocation } from "@/lib/simulation";
+import { notAnObject, readJsonObject } from "@/lib/request-body";
+
+export async function GET() {
+  ensureSimulationRunning();
+  return Response.json(getLocations());
+}
+
+export async function POST(request: Request) {
+  const body = await readJsonObject(request);
+  if (!body) return notAnObject();
+  const input = parseLocationInput(body);
+  if ("error" in input) return Response.json({ error: input.error }, { status: 400 });
+
+  ensureSimulationRunning();
+  return Response.json(createLocation(input));
+}
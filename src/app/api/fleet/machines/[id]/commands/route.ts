@@ -0,0 +1,42 @@
+/**
+ * GET  /api/fleet/machines/:id/commands
+ *      → the machine's remote commands, newest first
+ * POST /api/fleet/machines/:id/commands
+ *      { author, kind, slot?: { row, col }, prices?: [{ productId, price }] }
+ *
+ * Queues a command (reboot, enter_maintenance, exit_maintenance,
+ * lock_slot, unlock_slot, push_prices, motor_self_test). It is sent
+ * as soon as the machine is reachable and not busy, and moves through
+ * queued → sent → acknowledged → succeeded/failed with the virtual
+ * clock – see `src/lib/commands.ts`.
+ */
+
+import { parseCommandInput } from "@/lib/commands";
+import { ensureSimulationRunning, getMachineCommands, sendMachineCommand } from "@/lib/simulation";
+import { notAnObject, readJsonObject } from "@/lib/request-body";
+
+type Params = { params: Promise<{ id: string }> };
+
+export async function GET(_request: Request, { params }: Params) {
+  const { id } = await params;
+  const s = ensureSimulationRunning();
+  if (!s.machines.some(m => m.id === id)) {
+    return Response.json({ error: `Unknown machine "${id}"` }, { status: 404 });
+  }
+  return Response.json(getMachineCommands(id));
+}
+
+export async function POST(request: Request, { params }: Params) {
+  const { id } = await params;
+  const body = await readJsonObject(request);
+  if (!body) return notAnObject();
+
+  const s = ensureSimulationRunning();
+  const machine = s.machines.find(m => m.id === id);
+  if (!machine) {
+    return Response.json({ error: `Unknown machine "${id}"` }, { status: 404 });
+  }
+  const input = parseCommandInput(body, machine);
+  if ("error" in input) return Response.json({ error: input.error }, { status: 400 });
+  return Response.json(sendMachineCommand(id, input));
+}
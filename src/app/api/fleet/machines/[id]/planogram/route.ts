@@ -0,0 +1,75 @@
+/**
+ * GET    /api/fleet/machines/:id/planogram
+ *        → { active, versions } (every version, newest first)
+ * PUT    /api/fleet/machines/:id/planogram
+ *        { baseVersion, slots, author, note?, effectiveAt? }
+ * DELETE /api/fleet/machines/:id/planogram?version=N
+ *        cancels a scheduled version
+ *
+ * PUT saves an edited planogram as the machine's next version,
+ * effective now or at `effectiveAt` (ISO, virtual time). The slots
+ * must fit the machine's cabinet model. Stock is
+ * carried over by the server (see `src/lib/planogram.ts`).
+ * `baseVersion` is the active version the edit started from; if
+ * another version became active meanwhile the request fails with 409
+ * instead of silently overwriting that layout.
+ */
+
+import {
+  ensureSimulationRunning,
+  getPlanogramVersions,
+  createPlanogramVersion,
+  cancelPlanogramVersion,
+} from "@/lib/simulation";
+import { parsePlanogramVersionInput } from "@/lib/planogram";
+import { notAnObject, readJsonObject } from "@/lib/request-body";
+
+type Params = { params: Promise<{ id: string }> };
+
+export async function GET(_request: Request, { params }: Params) {
+  const { id } = await params;
+  const s = ensureSimulationRunning();
+  const machine = s.machines.find(m => m.id === id);
+  if (!machine) {
+    return Response.json({ error: `Unknown machine "${id}"` }, { status: 404 });
+  }
+  return Response.json({ active: machine.planogramVersion, versions: getPlanogramVersions(id) });
+}
+
+export async function PUT(request: Request, { params }: Params) {
+  const { id } = await params;
+  const body = await readJsonObject<{ baseVersion?: unknown }>(request);
+  if (!body) return notAnObject();
+
+  const s = ensureSimulationRunning();
+  const machine = s.machines.find(m => m.id === id);
+  if (!machine) {
+    return Response.json({ error: `Unknown machine "${id}"` }, { status: 404 });
+  }
+
+  const input = parsePlanogramVersionInput(body, machine.model);
+  if ("error" in input) return Response.json({ error: input.error }, { status: 400 });
+  if (body.baseVersion !== machine.planogramVersion) {
+    return Response.json(
+      { error: `Planogram is now at v${machine.planogramVersion}; reload and edit again` },
+      { status: 409 }
+    );
+  }
+
+  return Response.json(createPlanogramVersion(id, input));
+}
+
+export async function DELETE(request: Request, { params }: Params) {
+  const { id } = await params;
+  const version = Number(new URL(request.url).searchParams.get("version"));
+  if (!Number.isInteger(version)) {
+    return Response.json({ error: "version must be an integer" }, { status: 400 });
+  }
+
+  ensureSimulationRunning();
+  const cancelled = cancelPlanogramVersion(id, version);
+  if (!cancelled) {
+    return Response.json({ error: `No scheduled version ${version} for "${id}"` }, { status: 404 });
+  }
+  return Response.json(cancelled);
+}
@@ -0,0 +1,24 @@
+/**
+ * GET /api/fleet/machines/:id/planogram/suggestion
+ *   → { machineId, slots, changes, revenuePerDay, proposedRevenuePerDay, learnedFromHours }
+ *
+ * The optimizer's proposed layout for the machine – slow movers
+ * replaced, more facings for top sellers, capacities rebalanced – with
+ * the expected revenue uplift per change (see
+ * `src/lib/planogram-optimizer.ts`). Read-only: the editor opens
+ * `slots` as a draft, and saving it goes through PUT …/planogram.
+ */
+
+import { ensureSimulationRunning, getPlanogramSuggestion } from "@/lib/simulation";
+
+type Params = { params: Promise<{ id: string }> };
+
+export async function GET(_request: Request, { params }: Params) {
+  const { id } = await params;
+  ensureSimulationRunning();
+  const suggestion = getPlanogramSuggestion(id);
+  if (!suggestion) {
+    return Response.json({ error: `Unknown machine "${id}"` }, { status: 404 });
+  }
+  return Response.json(suggestion);
+}
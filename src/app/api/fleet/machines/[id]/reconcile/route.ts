@@ -0,0 +1,32 @@
+/**
+ * POST /api/fleet/machines/:id/reconcile
+ *   { counts?: [{ row, col, stock }] }
+ *
+ * Count the machine and compare with what the transaction log
+ * predicts since its last count (see `reconcileMachine`). `counts` is
+ * a crew's physical count per slot; without it the machine's own
+ * stock is used. Returns the reconciliation with any shrinkage.
+ */
+
+import { parseSlotQuantities } from "@/lib/warehouse";
+import { ensureSimulationRunning, reconcileMachine } from "@/lib/simulation";
+import { notAnObject, readJsonObject } from "@/lib/request-body";
+
+export async function POST(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params;
+  const body = await readJsonObject<{ counts?: unknown }>(request);
+  if (!body) return notAnObject();
+
+  const counts = body.counts === undefined ? undefined : parseSlotQuantities(body.counts, "stock");
+  if (counts && "error" in counts) return Response.json({ error: counts.error }, { status: 400 });
+
+  ensureSimulationRunning();
+  const reconciliation = reconcileMachine(id, counts);
+  if (!reconciliation) {
+    return Response.json({ error: `Unknown machine "${id}"` }, { status: 404 });
+  }
+  return Response.json(reconciliation);
+}
@@ -0,0 +1,40 @@
+/**
+ * PATCH /api/fleet/machines/:id
+ *       { author, name?, locationId?, decommissioned?: true }
+ *       → the machine's record
+ *
+ * Rename, relocate or decommission a machine in service.
+ * Decommissioning is final: the machine leaves the live fleet, its
+ * history stays – see `src/lib/fleet-admin.ts`. A decommissioned
+ * machine can't be changed (409).
+ */
+
+import { parseMachineChange } from "@/lib/fleet-admin";
+import {
+  ensureSimulationRunning,
+  getLocations,
+  getMachineRecords,
+  canChangeMachine,
+  changeMachine,
+} from "@/lib/simulation";
+import { notAnObject, readJsonObject } from "@/lib/request-body";
+
+type Params = { params: Promise<{ id: string }> };
+
+export async function PATCH(request: Request, { params }: Params) {
+  const { id } = await params;
+  const body = await readJsonObject(request);
+  if (!body) return notAnObject();
+
+  ensureSimulationRunning();
+  const record = getMachineRecords().find(r => r.id === id);
+  if (!record) {
+    return Response.json({ error: `Unknown machine "${id}"` }, { status: 404 });
+  }
+  const conflict = canChangeMachine(record);
+  if (conflict) return Response.json({ error: conflict }, { status: 409 });
+
+  const change = parseMachineChange(body, getLocations().map(l => l.id));
+  if ("error" in change) return Response.json({ error: change.error }, { status: 400 });
+  return Response.json(changeMachine(id, change));
+}
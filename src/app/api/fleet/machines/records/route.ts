@@ -0,0 +1,13 @@
+/**
+ * GET /api/fleet/machines/records
+ *     → every machine the fleet ever had, decommissioned ones included:
+ *       name, serial, model, location, who registered and
+ *       decommissioned it (see `src/lib/fleet-admin.ts`)
+ */
+
+import { ensureSimulationRunning, getMachineRecords } from "@/lib/simulation";
+
+export async function GET() {
+  ensureSimulationRunning();
+  return Response.json(getMachineRecords());
+}
@@ -0,0 +1,29 @@
+/**
+ * GET  /api/fleet/machines
+ *      Current snapshot of every vending machine in service (status,
+ *      hardware, planogram).
+ * POST /api/fleet/machines
+ *      { author, name, serial, modelId, locationId }
+ *      → the new machine: online, newest firmware, empty slots
+ *
+ * Decommissioned machines aren't listed – see
+ * GET /api/fleet/machines/records and `src/lib/fleet-admin.ts`.
+ */
+
+import { parseMachineRegistration } from "@/lib/fleet-admin";
+import { ensureSimulationRunning, getLocations, getMachineRecords, registerMachine } from "@/lib/simulation";
+import { notAnObject, readJsonObject } from "@/lib/request-body";
+
+export function GET() {
+  const s = ensureSimulationRunning();
+  return Response.json(s.machines);
+}
+
+export async function POST(request: Request) {
+  const body = await readJsonObject(request);
+  if (!body) return notAnObject();
+  ensureSimulationRunning();
+  const input = parseMachineRegistration(body, getLocations().map(l => l.id), getMachineRecords());
+  if ("error" in input) return Response.json({ error: input.error }, { status: 400 });
+  return Response.json(registerMachine(input));
+}
@@ -0,0 +1,39 @@
+/**
+ * GET /api/fleet/payments?period=day|week&locationId=loc1&at=<ISO>
+ * Payment analytics from stored transactions: share and failure rate
+ * per payment method, failures by reason and by card-reader health.
+ * Every parameter is optional (period defaults to day); `at` ends the
+ * window at an earlier moment instead of now.
+ */
+
+import {
+  ensureSimulationRunning,
+  getLocations,
+  getPaymentAnalytics,
+  PAYMENT_PERIODS,
+  type PaymentPeriod,
+} from "@/lib/simulation";
+
+export function GET(request: Request) {
+  const params = new URL(request.url).searchParams;
+  const period = params.get("period") ?? "day";
+  const locationId = params.get("locationId") || undefined;
+  const at = params.get("at") ? new Date(params.get("at")!) : undefined;
+
+  if (!(period in PAYMENT_PERIODS)) {
+    return Response.json(
+      { error: `period must be one of ${Object.keys(PAYMENT_PERIODS).join(", ")}` },
+      { status: 400 }
+    );
+  }
+
+  ensureSimulationRunning();
+  if (locationId && !getLocations().some(l => l.id === locationId)) {
+    return Response.json({ error: `Unknown location "${locationId}"` }, { status: 404 });
+  }
+
+  if (at && Number.isNaN(at.getTime())) {
+    return Response.json({ error: "at must be an ISO date" }, { status: 400 });
+  }
+  return Response.json(getPaymentAnalytics(period as PaymentPeriod, locationId, at));
+}
@@ -0,0 +1,26 @@
+/**
+ * GET /api/fleet/products?rank=top|bottom&limit=N
+ * Best sellers (rank=top, default) or slow movers (rank=bottom).
+ */
+
+import {
+  ensureSimulationRunning,
+  getTopProducts,
+  getBottomProducts,
+} from "@/lib/simulation";
+
+export function GET(request: Request) {
+  ensureSimulationRunning();
+  const params = new URL(request.url).searchParams;
+  const rank = params.get("rank") ?? "top";
+  const limit = Number(params.get("limit") ?? 5);
+
+  if (rank !== "top" && rank !== "bottom") {
+    return Response.json({ error: `Unknown rank "${rank}"` }, { status: 400 });
+  }
+  if (!Number.isInteger(limit) || limit < 1) {
+    return Response.json({ error: "limit must be a positive integer" }, { status: 400 });
+  }
+
+  return Response.json(rank === "top" ? getTopProducts(limit) : getBottomProducts(limit));
+}
@@ -0,0 +1,38 @@
+/**
+ * GET  /api/fleet/simulation  → { seed, clock }
+ * POST /api/fleet/simulation  { seed?: string, replay?: boolean }
+ *
+ * POST restarts the shared simulation from a seed (or a random one
+ * when omitted). A seed with stored history resumes it, unless
+ * `replay` is true – then the history is deleted and the seed starts
+ * over from its first moment. Every connected dashboard sees the new
+ * fleet.
+ */
+
+import {
+  ensureSimulationRunning,
+  getSimulationInfo,
+  resetSimulation,
+} from "@/lib/simulation";
+import { notAnObject, readJsonObject } from "@/lib/request-body";
+
+export function GET() {
+  ensureSimulationRunning();
+  return Response.json(getSimulationInfo());
+}
+
+export async function POST(request: Request) {
+  const body = await readJsonObject<{ seed?: unknown; replay?: unknown }>(request);
+  if (!body) return notAnObject();
+
+  if (body.seed !== undefined && (typeof body.seed !== "string" || !body.seed.trim())) {
+    return Response.json({ error: "seed must be a non-empty string" }, { status: 400 });
+  }
+  if (body.replay !== undefined && typeof body.replay !== "boolean") {
+    return Response.json({ error: "replay must be true or false" }, { status: 400 });
+  }
+
+  ensureSimulationRunning();
+  resetSimulation({ seed: body.seed?.trim(), replay: body.replay });
+  return Response.json(getSimulationInfo());
+}
@@ -0,0 +1,11 @@
+/**
+ * GET /api/fleet/stats
+ * Fleet KPI summary: revenue, machine counts by status, alerts.
+ */
+
+import { ensureSimulationRunning, getFleetStats } from "@/lib/simulation";
+
+export function GET() {
+  ensureSimulationRunning();
+  return Response.json(getFleetStats());
+}
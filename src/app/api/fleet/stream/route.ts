@@ -0,0 +1,62 @@
+/**
+ * GET /api/fleet/stream
+ * Server-Sent Events stream of transactions and system events as they
+ * happen. Resumes after `Last-Event-ID` (header, or `?lastEventId=` for
+ * clients that reconnect manually); a `reset` event means "refetch".
+ */
+
+import { ensureSimulationRunning } from "@/lib/simulation";
+import { subscribeToFleetStream, formatSseMessage } from "@/lib/fleet-stream";
+
+/** Comment lines keep idle proxies from closing the connection */
+const HEARTBEAT_MS = 15_000;
+
+export function GET(request: Request) {
+  const raw =
+    request.headers.get("last-event-id") ??
+    new URL(request.url).searchParams.get("lastEventId");
+  const parsed = raw === null ? NaN : Number(raw);
+  const lastEventId = Number.isInteger(parsed) && parsed >= 0 ? parsed : null;
+
+  ensureSimulationRunning();
+
+  const encoder = new TextEncoder();
+  let cleanup = () => {};
+
+  const stream = new ReadableStream<Uint8Array>({
+    start(controller) {
+      const write = (chunk: string) => {
+        try {
+          controller.enqueue(encoder.encode(chunk));
+        } catch {
+          cleanup(); // Stream already closed
+        }
+      };
+
+      // Tell EventSource to wait 2s before reconnecting after a drop
+      write("retry: 2000\n\n");
+
+      const unsubscribe = subscribeToFleetStream(lastEventId, (message) =>
+        write(formatSseMessage(message))
+      );
+      const heartbeat = setInterval(() => write(": ping\n\n"), HEARTBEAT_MS);
+
+      cleanup = () => {
+        clearInterval(heartbeat);
+        unsubscribe();
+      };
+      request.signal.addEventListener("abort", () => cleanup());
+    },
+    cancel() {
+      cleanup();
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      "Content-Type": "text/event-stream; charset=utf-8",
+      "Cache-Control": "no-cache, no-transform",
+      Connection: "keep-alive",
+    },
+  });
+}
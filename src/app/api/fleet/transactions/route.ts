@@ -0,0 +1,11 @@
+/**
+ * GET /api/fleet/transactions
+ * Most recent sales transactions, newest first.
+ */
+
+import { ensureSimulationRunning } from "@/lib/simulation";
+
+export function GET() {
+  const s = ensureSimulationRunning();
+  return Response.json(s.transactions);
+}
@@ -0,0 +1,30 @@
+/**
+ * POST /api/fleet/warehouse/orders
+ *   { productId, quantity }
+ *
+ * Order units from the supplier. They are "on order" until the
+ * delivery arrives (after the supplier lead time, in virtual time).
+ */
+
+import { getProductById } from "@/lib/data";
+import { MAX_ORDER_QUANTITY } from "@/lib/warehouse";
+import { ensureSimulationRunning, orderStock } from "@/lib/simulation";
+import { notAnObject, readJsonObject } from "@/lib/request-body";
+
+export async function POST(request: Request) {
+  const body = await readJsonObject<{ productId?: unknown; quantity?: unknown }>(request);
+  if (!body) return notAnObject();
+  if (typeof body.productId !== "string" || !getProductById(body.productId)) {
+    return Response.json({ error: "productId must be a known product" }, { status: 400 });
+  }
+  const quantity = body.quantity;
+  if (typeof quantity !== "number" || !Number.isInteger(quantity) || quantity < 1 || quantity > MAX_ORDER_QUANTITY) {
+    return Response.json(
+      { error: `quantity must be an integer from 1 to ${MAX_ORDER_QUANTITY}` },
+      { status: 400 }
+    );
+  }
+
+  ensureSimulationRunning();
+  return Response.json(orderStock(body.productId, quantity));
+}
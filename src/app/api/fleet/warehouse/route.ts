@@ -0,0 +1,16 @@
+/**
+ * GET /api/fleet/warehouse
+ *   → { items, transfers, orders, reconciliations }
+ *
+ * The central warehouse: stock per product (on hand, reserved for
+ * pending transfers, on order from the supplier), stock transfers and
+ * purchase orders (newest first) and recent machine counts.
+ */
+
+import { ensureSimulationRunning, getWarehouse } from "@/lib/simulation";
+
+export function GET() {
+  ensureSimulationRunning();
+  const { items, transfers, orders, reconciliations } = getWarehouse();
+  return Response.json({ items, transfers, orders, reconciliations });
+}
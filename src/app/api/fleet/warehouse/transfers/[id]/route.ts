@@ -0,0 +1,29 @@
+/**
+ * PATCH /api/fleet/warehouse/transfers/:id
+ *   { status: "completed" | "cancelled" }
+ *
+ * Complete a pending transfer (the units go into the machine) or
+ * cancel it (the reservation is released). 404 unless it is pending.
+ */
+
+import { ensureSimulationRunning, completeStockTransfer, cancelStockTransfer } from "@/lib/simulation";
+import { notAnObject, readJsonObject } from "@/lib/request-body";
+
+export async function PATCH(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params;
+  const body = await readJsonObject<{ status?: unknown }>(request);
+  if (!body) return notAnObject();
+  if (body.status !== "completed" && body.status !== "cancelled") {
+    return Response.json({ error: 'status must be "completed" or "cancelled"' }, { status: 400 });
+  }
+
+  ensureSimulationRunning();
+  const transfer = body.status === "completed" ? completeStockTransfer(id) : cancelStockTransfer(id);
+  if (!transfer) {
+    return Response.json({ error: `No pending transfer "${id}"` }, { status: 404 });
+  }
+  return Response.json(transfer);
+}
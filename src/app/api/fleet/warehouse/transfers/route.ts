@@ -0,0 +1,42 @@
+/**
+ * POST /api/fleet/warehouse/transfers
+ *   { machineId, lines?: [{ row, col, quantity }], note?, complete? }
+ *
+ * Load units from the warehouse for one machine. Without `lines`
+ * every filled slot is topped up. Quantities are cut to what fits and
+ * what the warehouse has available (see `createStockTransfer`).
+ * With `complete: true` the units go straight into the machine
+ * ("restock now"); otherwise the transfer stays pending until
+ * completed with PATCH /api/fleet/warehouse/transfers/:id.
+ * 409 when nothing can be transferred.
+ */
+
+import { parseSlotQuantities } from "@/lib/warehouse";
+import { ensureSimulationRunning, createStockTransfer, completeStockTransfer } from "@/lib/simulation";
+import { notAnObject, readJsonObject } from "@/lib/request-body";
+
+export async function POST(request: Request) {
+  const body = await readJsonObject<{ machineId?: unknown; lines?: unknown; note?: unknown; complete?: unknown }>(request);
+  if (!body) return notAnObject();
+
+  const lines = body.lines === undefined ? undefined : parseSlotQuantities(body.lines, "quantity");
+  if (lines && "error" in lines) return Response.json({ error: lines.error }, { status: 400 });
+  if (body.note !== undefined && (typeof body.note !== "string" || body.note.length > 60)) {
+    return Response.json({ error: "note must be at most 60 characters" }, { status: 400 });
+  }
+
+  const s = ensureSimulationRunning();
+  const machineId = String(body.machineId);
+  if (!s.machines.some(m => m.id === machineId)) {
+    return Response.json({ error: `Unknown machine "${machineId}"` }, { status: 404 });
+  }
+
+  const transfer = createStockTransfer(machineId, lines, body.note as string | undefined)!;
+  if (transfer.lines.length === 0) {
+    return Response.json(
+      { error: "Nothing to transfer – the slots are full or the warehouse is out of stock" },
+      { status: 409 }
+    );
+  }
+  return Response.json(body.complete === true ? completeStockTransfer(transfer.id) : transfer);
+}
@@ -0,0 +1,29 @@
+/**
+ * GET /api/fleet/waste?from=<ISO>&to=<ISO>
+ * Expired perishable units written off in [from, to): totals, per
+ * product and per machine (units and ISK), newest write-offs.
+ * Without a range the last 7 days up to now are reported.
+ */
+
+import { ensureSimulationRunning, getWasteReport } from "@/lib/simulation";
+
+const DEFAULT_DAYS = 7;
+
+export function GET(request: Request) {
+  const params = new URL(request.url).searchParams;
+  const s = ensureSimulationRunning();
+  const now = s.clock.now();
+
+  const to = params.get("to") ? new Date(params.get("to")!) : now;
+  const from = params.get("from")
+    ? new Date(params.get("from")!)
+    : new Date(to.getTime() - DEFAULT_DAYS * 24 * 3_600_000);
+
+  if (Number.isNaN(from.getTime()) || Number.isNaN(to.getTime())) {
+    return Response.json({ error: "from and to must be ISO dates" }, { status: 400 });
+  }
+  if (from >= to) {
+    return Response.json({ error: "from must be before to" }, { status: 400 });
+  }
+  return Response.json(getWasteReport(from, to));
+}
@@ -0,0 +1,39 @@
+/**
+ * PATCH  /api/fleet/webhooks/:id
+ *        any of { name, url, enabled, filters, secret }
+ * DELETE /api/fleet/webhooks/:id
+ *
+ * PATCH merges the fields into the subscription and validates the
+ * result like a new one. The secret only changes when one is sent.
+ */
+
+import { parseWebhookInput } from "@/lib/webhooks";
+import { ensureSimulationRunning, getWebhooks, getLocations, updateWebhook, deleteWebhook } from "@/lib/simulation";
+import { notAnObject, readJsonObject } from "@/lib/request-body";
+
+type Params = { params: Promise<{ id: string }> };
+
+export async function PATCH(request: Request, { params }: Params) {
+  const { id } = await params;
+  const body = await readJsonObject(request);
+  if (!body) return notAnObject();
+
+  ensureSimulationRunning();
+  const webhook = getWebhooks().find(w => w.id === id);
+  if (!webhook) {
+    return Response.json({ error: `Unknown webhook "${id}"` }, { status: 404 });
+  }
+
+  const input = parseWebhookInput({ ...webhook, ...body }, getLocations().map(l => l.id));
+  if ("error" in input) return Response.json({ error: input.error }, { status: 400 });
+  return Response.json(updateWebhook(id, input));
+}
+
+export async function DELETE(_request: Request, { params }: Params) {
+  const { id } = await params;
+  ensureSimulationRunning();
+  if (!deleteWebhook(id)) {
+    return Response.json({ error: `Unknown webhook "${id}"` }, { status: 404 });
+  }
+  return Response.json({ deleted: id });
+}
@@ -0,0 +1,19 @@
+/**
+ * POST /api/fleet/webhooks/:id/test
+ *      → the delivery of a "test" payload, sent whether or not the
+ *        subscription is enabled or its filters match
+ */
+
+import { ensureSimulationRunning, sendTestWebhook } from "@/lib/simulation";
+
+type Params = { params: Promise<{ id: string }> };
+
+export async function POST(_request: Request, { params }: Params) {
+  const { id } = await params;
+  ensureSimulationRunning();
+  const delivery = sendTestWebhook(id);
+  if (!delivery) {
+    return Response.json({ error: `Unknown webhook "${id}"` }, { status: 404 });
+  }
+  return Response.json(delivery);
+}
@@ -0,0 +1,13 @@
+/**
+ * GET /api/fleet/webhooks/deliveries?subscriptionId=WH-001
+ *     → the delivery log (every attempt's status and error), newest
+ *       first; all subscriptions without `subscriptionId`
+ */
+
+import { ensureSimulationRunning, getWebhookDeliveries } from "@/lib/simulation";
+
+export async function GET(request: Request) {
+  const subscriptionId = new URL(request.url).searchParams.get("subscriptionId") ?? undefined;
+  ensureSimulationRunning();
+  return Response.json(getWebhookDeliveries(subscriptionId));
+}
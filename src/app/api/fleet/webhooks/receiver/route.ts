@@ -0,0 +1,41 @@
+/**
+ * POST /api/fleet/webhooks/receiver?status=503
+ *      A local stand-in for a webhook receiver: checks the signature
+ *      against the subscription's secret, remembers the delivery and
+ *      answers 200 – or `status` (e.g. 503 to watch the retries)
+ * GET  /api/fleet/webhooks/receiver
+ *      → what it received, newest first (the last 50)
+ */
+
+import { getSimulationState } from "@/lib/simulation";
+import { getReceived, recordReceived, verifySignature } from "@/lib/webhook-dispatcher";
+
+export async function GET() {
+  return Response.json(getReceived());
+}
+
+export async function POST(request: Request) {
+  const raw = await request.text();
+  const status = Number(new URL(request.url).searchParams.get("status") ?? 200);
+  const respondWith = Number.isInteger(status) && status >= 200 && status <= 599 ? status : 200;
+
+  const subscriptionId = request.headers.get("x-vendral-subscription");
+  const subscription = getSimulationState().webhooks.subscriptions.find(w => w.id === subscriptionId);
+  let body: unknown = raw;
+  try {
+    body = JSON.parse(raw);
+  } catch {
+    // Keep the raw text
+  }
+
+  recordReceived({
+    receivedAt: new Date(),
+    subscriptionId,
+    deliveryId: request.headers.get("x-vendral-delivery"),
+    type: request.headers.get("x-vendral-event"),
+    signatureValid: !!subscription && verifySignature(raw, request.headers.get("x-vendral-signature"), subscription.secret),
+    respondedWith: respondWith,
+    body,
+  });
+  return new Response(null, { status: respondWith });
+}
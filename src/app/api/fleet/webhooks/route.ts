@@ -0,0 +1,28 @@
+/**
+ * GET  /api/fleet/webhooks
+ *      → every subscription (secrets hidden, see `secretHint`)
+ * POST /api/fleet/webhooks
+ *      { name, url, enabled?, filters?, secret? }
+ *      → the new subscription including its secret – the only
+ *        response that shows it; one is generated if not given
+ *
+ * See `src/lib/webhooks.ts` for the payloads and signature.
+ */
+
+import { parseWebhookInput } from "@/lib/webhooks";
+import { ensureSimulationRunning, getWebhooks, getLocations, createWebhook } from "@/lib/simulation";
+import { notAnObject, readJsonObject } from "@/lib/request-body";
+
+export async function GET() {
+  ensureSimulationRunning();
+  return Response.json(getWebhooks());
+}
+
+export async function POST(request: Request) {
+  const body = await readJsonObject(request);
+  if (!body) return notAnObject();
+  ensureSimulationRunning();
+  const input = parseWebhookInput(body, getLocations().map(l => l.id));
+  if ("error" in input) return Response.json({ error: input.error }, { status: 400 });
+  return Response.json(createWebhook(input));
+}
@@ -0,0 +1,35 @@
+/**
+ * PATCH /api/fleet/work-orders/:id
+ *       { author, status?, technician?, part?: { name, quantity }, note? }
+ *
+ * Start or close a work order, (un)assign its technician, record a
+ * part used and/or add an on-site note – see `src/lib/work-orders.ts`.
+ * Closing puts the repaired component back to OK and updates the
+ * machine's status. 409 when the status change isn't possible (e.g.
+ * the work order is already closed).
+ */
+
+import { parseWorkOrderUpdate } from "@/lib/work-orders";
+import { ensureSimulationRunning, getWorkOrders, updateWorkOrder, canChangeWorkOrderStatus } from "@/lib/simulation";
+import { notAnObject, readJsonObject } from "@/lib/request-body";
+
+type Params = { params: Promise<{ id: string }> };
+
+export async function PATCH(request: Request, { params }: Params) {
+  const { id } = await params;
+  const body = await readJsonObject(request);
+  if (!body) return notAnObject();
+  const update = parseWorkOrderUpdate(body);
+  if ("error" in update) return Response.json({ error: update.error }, { status: 400 });
+
+  ensureSimulationRunning();
+  const workOrder = getWorkOrders().find(w => w.id === id);
+  if (!workOrder) {
+    return Response.json({ error: `Unknown work order "${id}"` }, { status: 404 });
+  }
+  if (update.status) {
+    const conflict = canChangeWorkOrderStatus(workOrder, update.status);
+    if (conflict) return Response.json({ error: conflict }, { status: 409 });
+  }
+  return Response.json(updateWorkOrder(id, update));
+}
@@ -0,0 +1,35 @@
+/**
+ * GET  /api/fleet/work-orders?machineId=VM-001
+ *      → work orders, newest first; every machine without `machineId`
+ * POST /api/fleet/work-orders
+ *      { author, machineId, component, title, technician? }
+ *
+ * Opens a work order by hand (component null = the machine in
+ * general); see `src/lib/work-orders.ts`. 409 when the machine
+ * already has an unclosed work order for that component.
+ */
+
+import { parseWorkOrderInput } from "@/lib/work-orders";
+import { ensureSimulationRunning, getWorkOrders, createWorkOrder, canOpenWorkOrder } from "@/lib/simulation";
+import { notAnObject, readJsonObject } from "@/lib/request-body";
+
+export async function GET(request: Request) {
+  const machineId = new URL(request.url).searchParams.get("machineId") ?? undefined;
+  ensureSimulationRunning();
+  return Response.json(getWorkOrders(machineId));
+}
+
+export async function POST(request: Request) {
+  const body = await readJsonObject(request);
+  if (!body) return notAnObject();
+  const input = parseWorkOrderInput(body);
+  if ("error" in input) return Response.json({ error: input.error }, { status: 400 });
+
+  const s = ensureSimulationRunning();
+  if (!s.machines.some(m => m.id === input.machineId)) {
+    return Response.json({ error: `Unknown machine "${input.machineId}"` }, { status: 404 });
+  }
+  const conflict = canOpenWorkOrder(input.machineId, input.component);
+  if (conflict) return Response.json({ error: conflict }, { status: 409 });
+  return Response.json(createWorkOrder(input));
+}
@@ -0,0 +1,28 @@
+/**
+ * GET /api/fleet/work-orders/settings
+ *     → { autoCreateCodes }
+ * PUT /api/fleet/work-orders/settings
+ *     { autoCreateCodes }
+ *
+ * The hardware fault codes that open a work order by themselves when
+ * a machine logs them (see `HARDWARE_FAULTS` in `src/lib/work-orders.ts`).
+ */
+
+import { parseMaintenanceSettings } from "@/lib/work-orders";
+import { ensureSimulationRunning, getMaintenanceSettings, updateMaintenanceSettings } from "@/lib/simulation";
+import { notAnObject, readJsonObject } from "@/lib/request-body";
+
+export async function GET() {
+  ensureSimulationRunning();
+  return Response.json(getMaintenanceSettings());
+}
+
+export async function PUT(request: Request) {
+  const body = await readJsonObject(request);
+  if (!body) return notAnObject();
+  const settings = parseMaintenanceSettings(body);
+  if ("error" in settings) return Response.json({ error: settings.error }, { status: 400 });
+
+  ensureSimulationRunning();
+  return Response.json(updateMaintenanceSettings(settings));
+}
@@ -9,7 +9,7 @@
  * ARCHITECTURE:
  * This page is a "shell" that provides the layout structure:
  *   ┌────┬────────────────────────────────────┐
- *   │    │  Stats Ribbon (top)                │
+ *   │    │  Clock + Date Range + Stats Ribbon │
  *   │ S  ├────────────────────────────────────┤
  *   │ I  │                                    │
  *   │ D  │  Main Content Area                 │
@@ -32,11 +32,17 @@
 import React, { useState } from "react";
 import { Sidebar, type NavTab } from "@/components/sidebar";
 import { StatsRibbon } from "@/components/stats-ribbon";
+import { ClockControls } from "@/components/clock-controls";
+import { DateRangePicker } from "@/components/date-range-picker";
 import { OverviewDashboard } from "@/components/overview-dashboard";
 import { DeviceHealth } from "@/components/device-health";
 import { SalesDashboard } from "@/components/sales-dashboard";
 import { MapView } from "@/components/map-view";
 import { PlanogramView } from "@/components/planogram-view";
+import { RestockRunView } from "@/components/restock-run-view";
+import { WarehouseView } from "@/components/warehouse-view";
+import { AlertsView } from "@/components/alerts-view";
+import { FirmwareView } from "@/components/firmware-view";
 import { SettingsPage } from "@/components/settings-page";
 import { cn } from "@/lib/utils";
 import { motion, AnimatePresence } from "framer-motion";
@@ -63,6 +69,14 @@ export default function DashboardPage() {
         return <MapView />;
       case "planogram":
         return <PlanogramView />;
+      case "restock":
+        return <RestockRunView />;
+      case "warehouse":
+        return <WarehouseView />;
+      case "alerts":
+        return <AlertsView />;
+      case "firmware":
+        return <FirmwareView />;
       case "settings":
         return <SettingsPage />;
       default:
@@ -93,6 +107,12 @@ export default function DashboardPage() {
       >
         {/* Content padding */}
         <div className="p-4 lg:p-6 space-y-4">
+          {/* Virtual clock controls (speed, pause, step) */}
+          <ClockControls />
+
+          {/* Live vs historical mode (applies to every tab) */}
+          <DateRangePicker />
+
           {/* Stats ribbon at the top (visible on all tabs) */}
           <StatsRibbon />
 
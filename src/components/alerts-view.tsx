@@ -0,0 +1,359 @@
+/**
+ * ============================================================
+ * Vendral – Alerts (Rules & Fired Alerts)
+ * ============================================================
+ *
+ * Operators decide what is worth an alert (see
+ * `src/lib/alert-rules.ts`) and track who handles it:
+ *   - Inbox: alerts grouped into incidents per machine, to
+ *     acknowledge, assign, snooze and resolve (`incident-inbox.tsx`)
+ *   - Rules: every rule with its condition, severity, scope, active
+ *     hours and cooldown; enable/disable or delete it
+ *   - New rule: pick a condition kind and fill in its fields, e.g.
+ *     "Temperature > 8°C for 10 min" at two locations
+ *   - Fired alerts: what the rules caught, newest first
+ *   - Webhooks: send events and incident changes to on-call tools
+ *     (`webhook-settings.tsx`)
+ *
+ * Rules are evaluated by the server as the simulation runs, so they
+ * keep firing with this tab closed. Alerts are always live – in
+ * historical mode this tab still shows today's rules and alerts.
+ * ============================================================
+ */
+
+"use client";
+
+import React, { useState } from "react";
+import { useSimulation } from "@/lib/simulation-context";
+import {
+  useAlertRulesQuery,
+  useAlertsQuery,
+  useCreateAlertRuleMutation,
+  useUpdateAlertRuleMutation,
+  useDeleteAlertRuleMutation,
+} from "@/lib/queries";
+import type { Location } from "@/lib/data";
+import {
+  ALERT_CONDITION_KINDS,
+  ALERT_SEVERITIES,
+  describeCondition,
+  formatActiveHours,
+  type AlertCondition,
+  type AlertConditionKind,
+  type AlertRule,
+  type AlertSeverity,
+} from "@/lib/alert-rules";
+import { formatMoment } from "@/components/date-range-picker";
+import { IncidentInbox } from "@/components/incident-inbox";
+import { WebhookSettings } from "@/components/webhook-settings";
+import { cn } from "@/lib/utils";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { Bell, BellOff, Plus, Trash2 } from "lucide-react";
+
+const inputClass =
+  "h-7 bg-white/5 border border-white/10 rounded-md px-2 text-[11px] text-foreground";
+
+const SEVERITY_STYLES: Record<AlertSeverity, string> = {
+  info: "bg-cyan-500/20 text-cyan-400",
+  warning: "bg-amber-500/20 text-amber-400",
+  critical: "bg-rose-500/20 text-rose-400",
+};
+
+/** What the form starts with after picking a condition kind */
+const DEFAULT_CONDITIONS: Record<AlertConditionKind, AlertCondition> = {
+  metric: { kind: "metric", metric: "temperature", operator: ">", threshold: 8, forMinutes: 10 },
+  status: { kind: "status", status: "error", forMinutes: 15 },
+  "no-sales": { kind: "no-sales", hours: 2 },
+  declines: { kind: "declines", count: 3 },
+  events: { kind: "events", count: 3, withinMinutes: 10 },
+  stock: { kind: "stock", atOrBelow: 0, slots: 3 },
+};
+
+const locationName = (locations: Location[], id: string) => locations.find(l => l.id === id)?.name ?? id;
+
+// ============================================================
+// RULES
+// ============================================================
+
+function RuleRow({ rule }: { rule: AlertRule }) {
+  const { locations } = useSimulation();
+  const update = useUpdateAlertRuleMutation();
+  const remove = useDeleteAlertRuleMutation();
+  const busy = update.isPending || remove.isPending;
+
+  return (
+    <div className={cn("flex items-center gap-2 p-2 rounded-lg bg-white/5 text-[11px]", !rule.enabled && "opacity-50")}>
+      <Badge className={cn("text-[9px] border-0 shrink-0", SEVERITY_STYLES[rule.severity])}>{rule.severity}</Badge>
+      <div className="flex-1 min-w-0">
+        <p className="text-foreground">
+          {rule.name} <span className="font-mono text-muted-foreground">{rule.id}</span>
+        </p>
+        <p className="text-[10px] text-muted-foreground">
+          {describeCondition(rule.condition)}
+          {" · "}
+          {rule.locationIds.length === 0 ? "all locations" : rule.locationIds.map(id => locationName(locations, id)).join(", ")}
+          {rule.activeHours && ` · ${formatActiveHours(rule.activeHours)}`}
+          {` · cooldown ${rule.cooldownMinutes} min`}
+        </p>
+      </div>
+      <Button variant="ghost" size="icon" className="w-6 h-6" disabled={busy}
+        onClick={() => update.mutate({ id: rule.id, enabled: !rule.enabled })}
+        aria-label={rule.enabled ? "Disable rule" : "Enable rule"}>
+        {rule.enabled
+          ? <Bell className="w-3.5 h-3.5 text-emerald-400" />
+          : <BellOff className="w-3.5 h-3.5 text-muted-foreground" />}
+      </Button>
+      <Button variant="ghost" size="icon" className="w-6 h-6" disabled={busy}
+        onClick={() => remove.mutate(rule.id)} aria-label="Delete rule">
+        <Trash2 className="w-3.5 h-3.5 text-rose-400" />
+      </Button>
+    </div>
+  );
+}
+
+// ============================================================
+// NEW RULE
+// ============================================================
+
+function NumberField({ label, value, onChange, step }: {
+  label: string;
+  value: number;
+  onChange: (value: number) => void;
+  step?: number;
+}) {
+  return (
+    <label className="flex flex-col gap-1 text-[10px] text-muted-foreground">
+      {label}
+      <input type="number" value={value} step={step ?? 1} onChange={(e) => onChange(Number(e.target.value))}
+        className={cn(inputClass, "w-24")} />
+    </label>
+  );
+}
+
+/** The inputs of one condition kind */
+function ConditionFields({ condition, onChange }: {
+  condition: AlertCondition;
+  onChange: (condition: AlertCondition) => void;
+}) {
+  const set = (changes: Record<string, unknown>) => onChange({ ...condition, ...changes } as AlertCondition);
+
+  switch (condition.kind) {
+    case "metric":
+      return (
+        <>
+          <select value={condition.metric} onChange={(e) => set({ metric: e.target.value })}
+            className={cn(inputClass, "self-end")} aria-label="Sensor">
+            <option value="temperature">Temperature (°C)</option>
+            <option value="connectivity">Connectivity (%)</option>
+          </select>
+          <select value={condition.operator} onChange={(e) => set({ operator: e.target.value })}
+            className={cn(inputClass, "self-end")} aria-label="Operator">
+            <option value=">">above</option>
+            <option value="<">below</option>
+          </select>
+          <NumberField label="Threshold" value={condition.threshold} step={0.5} onChange={threshold => set({ threshold })} />
+          <NumberField label="For minutes" value={condition.forMinutes} onChange={forMinutes => set({ forMinutes })} />
+        </>
+      );
+    case "status":
+      return (
+        <>
+          <select value={condition.status} onChange={(e) => set({ status: e.target.value })}
+            className={cn(inputClass, "self-end")} aria-label="Status">
+            {["warning", "error", "offline"].map(status => <option key={status} value={status}>{status}</option>)}
+          </select>
+          <NumberField label="For minutes" value={condition.forMinutes} onChange={forMinutes => set({ forMinutes })} />
+        </>
+      );
+    case "no-sales":
+      return <NumberField label="Hours without a sale" value={condition.hours} onChange={hours => set({ hours })} />;
+    case "declines":
+      return <NumberField label="Declines in a row" value={condition.count} onChange={count => set({ count })} />;
+    case "events":
+      return (
+        <>
+          <select value={condition.type ?? ""} onChange={(e) => set({ type: e.target.value || undefined })}
+            className={cn(inputClass, "self-end")} aria-label="Event type">
+            <option value="">any type</option>
+            {["info", "warning", "error"].map(type => <option key={type} value={type}>{type}</option>)}
+          </select>
+          <select value={condition.category ?? ""} onChange={(e) => set({ category: e.target.value || undefined })}
+            className={cn(inputClass, "self-end")} aria-label="Event category">
+            <option value="">any category</option>
+            {["transaction", "hardware", "stock", "connectivity", "system"].map(category =>
+              <option key={category} value={category}>{category}</option>)}
+          </select>
+          <input value={condition.code ?? ""} placeholder="Event code (optional)"
+            onChange={(e) => set({ code: e.target.value.toUpperCase() || undefined })}
+            className={cn(inputClass, "w-44 self-end")} aria-label="Event code" />
+          <NumberField label="Events" value={condition.count} onChange={count => set({ count })} />
+          <NumberField label="Within minutes" value={condition.withinMinutes} onChange={withinMinutes => set({ withinMinutes })} />
+        </>
+      );
+    case "stock":
+      return (
+        <>
+          <NumberField label="Slots" value={condition.slots} onChange={slots => set({ slots })} />
+          <NumberField label="At or below units" value={condition.atOrBelow} onChange={atOrBelow => set({ atOrBelow })} />
+        </>
+      );
+  }
+}
+
+function NewRuleForm() {
+  const { locations } = useSimulation();
+  const create = useCreateAlertRuleMutation();
+  const [name, setName] = useState("");
+  const [severity, setSeverity] = useState<AlertSeverity>("warning");
+  const [condition, setCondition] = useState<AlertCondition>(DEFAULT_CONDITIONS.metric);
+  const [locationIds, setLocationIds] = useState<string[]>([]);
+  const [cooldownMinutes, setCooldownMinutes] = useState(30);
+  const [activeHours, setActiveHours] = useState<{ from: number; to: number } | null>(null);
+
+  const toggleLocation = (id: string) =>
+    setLocationIds(locationIds.includes(id) ? locationIds.filter(l => l !== id) : [...locationIds, id]);
+
+  function submit() {
+    create.mutate(
+      { name, enabled: true, severity, condition, locationIds, cooldownMinutes, activeHours },
+      { onSuccess: () => setName("") }
+    );
+  }
+
+  return (
+    <div className="glass-card p-4 space-y-3">
+      <h3 className="text-sm font-semibold text-foreground">New Rule</h3>
+      <div className="flex flex-wrap gap-2">
+        <input value={name} onChange={(e) => setName(e.target.value)} placeholder="Rule name"
+          className={cn(inputClass, "flex-1 min-w-40")} aria-label="Rule name" />
+        <select value={severity} onChange={(e) => setSeverity(e.target.value as AlertSeverity)}
+          className={inputClass} aria-label="Severity">
+          {ALERT_SEVERITIES.map(s => <option key={s} value={s}>{s}</option>)}
+        </select>
+      </div>
+
+      <div className="flex flex-wrap gap-2">
+        <select value={condition.kind}
+          onChange={(e) => setCondition(DEFAULT_CONDITIONS[e.target.value as AlertConditionKind])}
+          className={cn(inputClass, "self-end")} aria-label="Condition">
+          {ALERT_CONDITION_KINDS.map(({ kind, label }) => <option key={kind} value={kind}>{label}</option>)}
+        </select>
+        <ConditionFields condition={condition} onChange={setCondition} />
+      </div>
+      <p className="text-[10px] text-muted-foreground">Fires on: {describeCondition(condition)}</p>
+
+      <div className="flex flex-wrap gap-1">
+        {locations.map(location => (
+          <button key={location.id} onClick={() => toggleLocation(location.id)}
+            className={cn(
+              "px-2 py-0.5 rounded-md text-[10px] border",
+              locationIds.includes(location.id)
+                ? "bg-cyan-500/20 text-cyan-400 border-cyan-500/30"
+                : "text-muted-foreground border-white/10"
+            )}>
+            {location.name}
+          </button>
+        ))}
+        <span className="text-[10px] text-muted-foreground self-center ml-1">
+          {locationIds.length === 0 ? "(none selected = every location)" : ""}
+        </span>
+      </div>
+
+      <div className="flex flex-wrap items-end gap-2">
+        <NumberField label="Cooldown minutes" value={cooldownMinutes} onChange={setCooldownMinutes} />
+        <label className="flex items-center gap-1 h-7 text-[10px] text-muted-foreground">
+          <input type="checkbox" checked={activeHours !== null}
+            onChange={(e) => setActiveHours(e.target.checked ? { from: 8, to: 20 } : null)} />
+          Only between
+        </label>
+        {activeHours && (
+          <>
+            <NumberField label="From hour" value={activeHours.from} onChange={from => setActiveHours({ ...activeHours, from })} />
+            <NumberField label="To hour" value={activeHours.to} onChange={to => setActiveHours({ ...activeHours, to })} />
+          </>
+        )}
+        <Button size="sm" className="ml-auto text-xs" disabled={create.isPending || !name.trim()} onClick={submit}>
+          <Plus className="w-3.5 h-3.5 mr-1" />
+          Add rule
+        </Button>
+      </div>
+      {create.error && <p className="text-[11px] text-rose-400">{create.error.message}</p>}
+    </div>
+  );
+}
+
+// ============================================================
+// MAIN EXPORT
+// ============================================================
+
+export function AlertsView() {
+  const { historyRange } = useSimulation();
+  const { data: rules } = useAlertRulesQuery();
+  const { data: alerts } = useAlertsQuery();
+
+  if (!rules || !alerts) {
+    return <div className="glass-card p-6 text-sm text-muted-foreground">Loading alerts…</div>;
+  }
+
+  return (
+    <div className="space-y-4">
+      {/* Header */}
+      <div className="flex flex-wrap items-center gap-3">
+        <h2 className="text-lg font-bold text-foreground">Alerts</h2>
+        <span className="text-xs text-muted-foreground">
+          {rules.filter(r => r.enabled).length} of {rules.length} rules enabled
+        </span>
+        {historyRange && (
+          <Badge variant="outline" className="text-[10px] text-amber-400 border-amber-500/30">
+            Live alerts – not part of historical mode
+          </Badge>
+        )}
+      </div>
+
+      <IncidentInbox />
+
+      <div className="grid grid-cols-1 xl:grid-cols-2 gap-4">
+        <div className="space-y-4">
+          <div className="glass-card p-4 space-y-2">
+            <h3 className="text-sm font-semibold text-foreground">Rules</h3>
+            {rules.length === 0 && <p className="text-xs text-muted-foreground">No rules – nothing raises alerts.</p>}
+            {rules.map(rule => <RuleRow key={rule.id} rule={rule} />)}
+          </div>
+          <NewRuleForm />
+        </div>
+
+        {/* Fired alerts */}
+        <div className="glass-card p-4">
+          <h3 className="text-sm font-semibold text-foreground mb-2">Fired Alerts</h3>
+          {alerts.length === 0 ? (
+            <p className="text-xs text-muted-foreground">No alerts yet.</p>
+          ) : (
+            <ScrollArea className="h-130">
+              <div className="space-y-1 pr-2">
+                {alerts.map(alert => (
+                  <div key={alert.id} className="flex items-start gap-2 p-2 rounded-lg bg-white/5 text-[11px]">
+                    <Badge className={cn("text-[9px] border-0 shrink-0", SEVERITY_STYLES[alert.severity])}>
+                      {alert.severity}
+                    </Badge>
+                    <div className="flex-1 min-w-0">
+                      <p className="text-foreground">
+                        {alert.ruleName} · {alert.machineId}{" "}
+                        <span className="text-muted-foreground">{alert.machineName}</span>
+                      </p>
+                      <p className="text-[10px] text-muted-foreground">{alert.message}</p>
+                    </div>
+                    <span className="text-[10px] text-muted-foreground shrink-0">{formatMoment(alert.firedAt)}</span>
+                  </div>
+                ))}
+              </div>
+            </ScrollArea>
+          )}
+        </div>
+      </div>
+
+      <WebhookSettings />
+    </div>
+  );
+}
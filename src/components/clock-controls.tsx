@@ -0,0 +1,91 @@
+/**
+ * ============================================================
+ * Vendral – Simulation Clock Controls
+ * ============================================================
+ *
+ * A slim bar above the stats ribbon showing the simulation's
+ * virtual date/time with controls to:
+ *   - Change speed: 1× (real time), 10×, 60×, 3600× (1 hour/second)
+ *   - Pause / resume the clock
+ *   - Step: run exactly the next transaction or event (while paused)
+ *
+ * At 3600× a full trading day plays out in under half a minute,
+ * which is handy for demoing the Sales heatmap and revenue charts.
+ * ============================================================
+ */
+
+"use client";
+
+import React from "react";
+import { useSimulation } from "@/lib/simulation-context";
+import { CLOCK_SPEEDS, formatSpeed } from "@/lib/clock";
+import { cn } from "@/lib/utils";
+import { Button } from "@/components/ui/button";
+import { Clock, Pause, Play, StepForward } from "lucide-react";
+
+export function ClockControls() {
+  const { clock, setSpeed, pause, resume, step } = useSimulation();
+
+  return (
+    <div className="glass-card px-4 py-2 flex flex-wrap items-center gap-3">
+      {/* Virtual date + time */}
+      <div className="flex items-center gap-2">
+        <Clock className={cn("w-4 h-4", clock.paused ? "text-amber-400" : "text-cyan-400")} />
+        <span className="text-xs text-muted-foreground">
+          {clock.time.toLocaleDateString("en-US", { weekday: "short", month: "short", day: "numeric" })}
+        </span>
+        <span className="text-sm font-mono font-semibold text-foreground">
+          {clock.time.toLocaleTimeString("en-US", { hour12: false })}
+        </span>
+        {clock.paused && (
+          <span className="text-[10px] font-medium text-amber-400">PAUSED</span>
+        )}
+      </div>
+
+      <div className="flex items-center gap-1 ml-auto">
+        {/* Speed selector */}
+        {CLOCK_SPEEDS.map((speed) => (
+          <button
+            key={speed}
+            onClick={() => setSpeed(speed)}
+            className={cn(
+              "text-[10px] font-mono px-2 py-1 rounded-md transition-colors",
+              clock.speed === speed
+                ? "bg-cyan-500/20 text-cyan-400"
+                : "bg-white/5 text-muted-foreground hover:bg-white/10"
+            )}
+          >
+            {formatSpeed(speed)}
+          </button>
+        ))}
+
+        {/* Pause / resume */}
+        <Button
+          variant="ghost"
+          size="icon"
+          className="h-7 w-7"
+          onClick={clock.paused ? resume : pause}
+          aria-label={clock.paused ? "Resume simulation" : "Pause simulation"}
+        >
+          {clock.paused ? (
+            <Play className="w-3.5 h-3.5 text-emerald-400" />
+          ) : (
+            <Pause className="w-3.5 h-3.5 text-muted-foreground" />
+          )}
+        </Button>
+
+        {/* Single step (only meaningful while paused) */}
+        <Button
+          variant="ghost"
+          size="icon"
+          className="h-7 w-7"
+          onClick={step}
+          disabled={!clock.paused}
+          aria-label="Step to next event"
+        >
+          <StepForward className="w-3.5 h-3.5 text-muted-foreground" />
+        </Button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,205 @@
+/**
+ * ============================================================
+ * Vendral – Date-Range Picker (Historical Mode)
+ * ============================================================
+ *
+ * A bar next to the clock controls that switches every dashboard
+ * between LIVE and HISTORICAL mode:
+ *   - Live:        the running simulation (default)
+ *   - Yesterday:   the whole of yesterday (virtual time)
+ *   - Last 7 days: the start of the day 6 days ago until now
+ *   - As of…:      one moment – "how did the fleet look last
+ *                  Tuesday 14:00?" shows that day up to 14:00
+ *   - Custom:      any from → to range
+ *
+ * Picking a range calls `setHistoryRange` on the simulation context;
+ * the views then read stored history instead of the live fleet.
+ * Machine state (status, stock, hardware) comes from the hourly
+ * snapshot nearest before the end of the range.
+ * ============================================================
+ */
+
+"use client";
+
+import React, { useState } from "react";
+import { useSimulation } from "@/lib/simulation-context";
+import { cn } from "@/lib/utils";
+import { Button } from "@/components/ui/button";
+import { CalendarRange, History, Radio } from "lucide-react";
+
+type RangeMode = "live" | "yesterday" | "week" | "asOf" | "custom";
+
+const MODES: { id: RangeMode; label: string }[] = [
+  { id: "live", label: "Live" },
+  { id: "yesterday", label: "Yesterday" },
+  { id: "week", label: "Last 7 days" },
+  { id: "asOf", label: "As of…" },
+  { id: "custom", label: "Custom" },
+];
+
+// ============================================================
+// HELPERS (also used by the planogram scheduler)
+// ============================================================
+
+/** Format a Date for <input type="datetime-local"> ("2026-10-14T14:00") */
+export function toLocalInput(date: Date): string {
+  const pad = (n: number) => String(n).padStart(2, "0");
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}` +
+    `T${pad(date.getHours())}:${pad(date.getMinutes())}`;
+}
+
+/** Parse a datetime-local value (local time); null if empty/invalid */
+export function fromLocalInput(value: string): Date | null {
+  const date = new Date(value);
+  return value && !Number.isNaN(date.getTime()) ? date : null;
+}
+
+/** Midnight at the start of `date`'s day, shifted by `days` */
+function startOfDay(date: Date, days = 0): Date {
+  const d = new Date(date);
+  d.setHours(0, 0, 0, 0);
+  d.setDate(d.getDate() + days);
+  return d;
+}
+
+/** "Tue, Oct 14 14:00" */
+export function formatMoment(date: Date): string {
+  return date.toLocaleString("en-US", {
+    weekday: "short",
+    month: "short",
+    day: "numeric",
+    hour: "2-digit",
+    minute: "2-digit",
+    hour12: false,
+  });
+}
+
+// ============================================================
+// MAIN COMPONENT
+// ============================================================
+
+export function DateRangePicker() {
+  const { clock, historyRange, setHistoryRange, snapshotTime } = useSimulation();
+  const [mode, setMode] = useState<RangeMode>("live");
+  const [fromInput, setFromInput] = useState("");
+  const [toInput, setToInput] = useState("");
+
+  // A reseed drops back to live without going through this component
+  const editing = mode === "asOf" || mode === "custom";
+  const activeMode = historyRange || editing ? mode : "live";
+  const max = toLocalInput(clock.time);
+
+  /** Presets apply immediately; "As of" and "Custom" wait for Apply */
+  function choose(next: RangeMode) {
+    setMode(next);
+    const today = startOfDay(clock.time);
+
+    if (next === "live") {
+      setHistoryRange(null);
+    } else if (next === "yesterday") {
+      setHistoryRange({ from: startOfDay(clock.time, -1), to: today });
+    } else if (next === "week") {
+      setHistoryRange({ from: startOfDay(clock.time, -6), to: clock.time });
+    } else {
+      // Start the inputs from the current range, or from "now"
+      setFromInput(toLocalInput(historyRange?.from ?? today));
+      setToInput(toLocalInput(historyRange?.to ?? clock.time));
+    }
+  }
+
+  // "As of" only needs the moment; the range is that day up to it
+  const to = fromLocalInput(toInput);
+  const from = mode === "asOf" ? (to ? startOfDay(to) : null) : fromLocalInput(fromInput);
+  const canApply = from !== null && to !== null && from < to && to <= clock.time;
+
+  return (
+    <div className="glass-card px-4 py-2 space-y-2">
+      <div className="flex flex-wrap items-center gap-2">
+        <CalendarRange className="w-4 h-4 text-cyan-400" />
+
+        {/* Mode buttons */}
+        <div className="flex items-center gap-1">
+          {MODES.map(({ id, label }) => (
+            <button
+              key={id}
+              onClick={() => choose(id)}
+              className={cn(
+                "text-[10px] px-2 py-1 rounded-md transition-colors",
+                id === activeMode
+                  ? "bg-cyan-500/20 text-cyan-400"
+                  : "bg-white/5 text-muted-foreground hover:bg-white/10"
+              )}
+            >
+              {label}
+            </button>
+          ))}
+        </div>
+
+        {/* Date inputs for the open-ended modes */}
+        {editing && (
+          <div className="flex flex-wrap items-center gap-1">
+            {mode === "custom" && (
+              <>
+                <input
+                  type="datetime-local"
+                  value={fromInput}
+                  max={max}
+                  onChange={(e) => setFromInput(e.target.value)}
+                  className="h-7 bg-white/5 border border-white/10 rounded-md px-2 text-[11px] text-foreground"
+                  aria-label="From"
+                />
+                <span className="text-[10px] text-muted-foreground">→</span>
+              </>
+            )}
+            <input
+              type="datetime-local"
+              value={toInput}
+              max={max}
+              onChange={(e) => setToInput(e.target.value)}
+              className="h-7 bg-white/5 border border-white/10 rounded-md px-2 text-[11px] text-foreground"
+              aria-label={mode === "asOf" ? "As of" : "To"}
+            />
+            <Button
+              size="sm"
+              variant="ghost"
+              className="h-7 text-[11px]"
+              disabled={!canApply}
+              onClick={() => from && to && setHistoryRange({ from, to })}
+            >
+              Apply
+            </Button>
+          </div>
+        )}
+
+        {/* Mode indicator */}
+        <div className="ml-auto flex items-center gap-1.5 text-[10px]">
+          {historyRange ? (
+            <>
+              <History className="w-3.5 h-3.5 text-amber-400" />
+              <span className="font-medium text-amber-400">HISTORICAL</span>
+            </>
+          ) : (
+            <>
+              <Radio className="w-3.5 h-3.5 text-emerald-400" />
+              <span className="font-medium text-emerald-400">LIVE</span>
+            </>
+          )}
+        </div>
+      </div>
+
+      {/* What exactly is being shown */}
+      {historyRange && (
+        <p className="text-[11px] text-muted-foreground">
+          Showing {formatMoment(historyRange.from)} → {formatMoment(historyRange.to)}.{" "}
+          {snapshotTime === undefined ? null : snapshotTime ? (
+            <>Machine state as of the {formatMoment(snapshotTime)} snapshot.</>
+          ) : (
+            <span className="text-amber-400">
+              No machine snapshot this far back – only sales and events are available.
+            </span>
+          )}
+        </p>
+      )}
+    </div>
+  );
+}
@@ -7,12 +7,15 @@
  * Shows:
  *   1. 3D-style visualization of the kiosk (SVG)
  *   2. Hardware Stack: Bill Validator, Temperature, Connectivity, etc.
- *   3. Real-time Terminal Log with monospace scrolling events
+ *   3. Terminal Log with monospace scrolling events (full stored history)
+ *   4. Remote Commands: reboot, maintenance mode, slot locks, prices,
+ *      motor self-test (see `machine-commands.tsx`)
+ *   5. Work Orders for repairing its hardware (see `work-orders.tsx`)
  *
  * DRILL-DOWN PATTERN:
  * The user selects a machine (from the overview or map), and this
  * component shows its details. If no machine is selected, it shows
- * a machine picker grid.
+ * a machine picker grid and the fleet's unclosed work orders.
  * ============================================================
  */
 
@@ -20,7 +23,11 @@
 
 import React, { useState, useEffect, useRef, useMemo } from "react";
 import { useSimulation } from "@/lib/simulation-context";
-import { formatISK, type VendingMachine } from "@/lib/data";
+import { useEventHistoryQuery } from "@/lib/queries";
+import { formatISK, getStockLevel, type VendingMachine, type SystemEvent } from "@/lib/data";
+import { describeModel } from "@/lib/machine-models";
+import { WorkOrders } from "@/components/work-orders";
+import { MachineCommands } from "@/components/machine-commands";
 import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
 import { Progress } from "@/components/ui/progress";
@@ -94,9 +101,75 @@ function HardwareRow({
 // 3D KIOSK VISUALIZATION (SVG)
 // ============================================================
 
+/** Where the product window sits inside the kiosk body (SVG units) */
+const KIOSK_WINDOW = { x: 48, y: 112, width: 104, height: 132 };
+
+/** Fill of one drawn slot by its stock level */
+const KIOSK_SLOT_FILL = {
+  empty: "rgba(244, 63, 94, 0.25)",
+  low: "rgba(245, 158, 11, 0.25)",
+  ok: "rgba(30, 41, 59, 0.6)",
+};
+
+/**
+ * The product window, drawn from the machine's cabinet model: one
+ * rectangle per slot (double-wide slots twice as wide), styled by
+ * mechanism – a coil under each spiral, shelf edges behind a glass
+ * front for belts, a door handle on each locker.
+ */
+function KioskSlots({ machine }: { machine: VendingMachine }) {
+  const { model } = machine;
+  const { x, y, width, height } = KIOSK_WINDOW;
+  const gap = 3;
+  const unit = width / model.width;
+  const rowHeight = height / model.rows.length;
+
+  return (
+    <g>
+      {/* Glass-front coolers show their whole, lit interior */}
+      {model.mechanism === "belt" && (
+        <rect x={x - 2} y={y - 2} width={width + 4} height={height + 4} rx="3"
+              fill="rgba(34, 211, 238, 0.06)" stroke="rgba(34, 211, 238, 0.25)" strokeWidth="0.75" />
+      )}
+
+      {model.rows.map((widths, row) => {
+        let offset = 0;
+        return widths.map((slotWidth, col) => {
+          const slot = machine.planogram.find(s => s.row === row && s.col === col);
+          const sx = x + offset * unit;
+          const sy = y + row * rowHeight;
+          const w = slotWidth * unit - gap;
+          const h = rowHeight - gap;
+          offset += slotWidth;
+
+          return (
+            <g key={`${row}-${col}`}>
+              <rect x={sx} y={sy} width={w} height={h} rx="2"
+                    fill={slot ? KIOSK_SLOT_FILL[getStockLevel(slot)] : KIOSK_SLOT_FILL.ok}
+                    stroke="rgba(148,163,184,0.08)" strokeWidth="0.5" />
+              {model.mechanism === "spiral" && (
+                <line x1={sx + 2} y1={sy + h - 2} x2={sx + w - 2} y2={sy + h - 2}
+                      stroke="rgba(148,163,184,0.35)" strokeWidth="1.5" strokeDasharray="1 1.5" />
+              )}
+              {model.mechanism === "belt" && (
+                <line x1={sx} y1={sy + h + gap / 2} x2={sx + w + gap} y2={sy + h + gap / 2}
+                      stroke="rgba(148,163,184,0.3)" strokeWidth="0.75" />
+              )}
+              {model.mechanism === "locker" && (
+                <circle cx={sx + w - 4} cy={sy + h / 2} r="1.5" fill="rgba(148,163,184,0.5)" />
+              )}
+            </g>
+          );
+        });
+      })}
+    </g>
+  );
+}
+
 /**
  * A simple 3D-perspective SVG rendering of a vending machine kiosk.
- * Uses gradients and shadows to create depth.
+ * Uses gradients and shadows to create depth. The product window
+ * follows the machine's cabinet model (see `KioskSlots`).
  */
 function KioskVisualization({ machine }: { machine: VendingMachine }) {
   const statusColor = machine.status === "online"
@@ -149,24 +222,10 @@ function KioskVisualization({ machine }: { machine: VendingMachine }) {
       <text x="100" y="80" textAnchor="middle" fill="rgba(148,163,184,0.5)"
             fontSize="6">{machine.id}</text>
 
-      {/* Product rows (simplified grid) */}
-      {[0, 1, 2, 3, 4].map(row => (
-        <g key={row}>
-          {[0, 1, 2].map(col => (
-            <rect
-              key={`${row}-${col}`}
-              x={52 + col * 33}
-              y={115 + row * 28}
-              width="28"
-              height="22"
-              rx="2"
-              fill="rgba(30, 41, 59, 0.6)"
-              stroke="rgba(148,163,184,0.08)"
-              strokeWidth="0.5"
-            />
-          ))}
-        </g>
-      ))}
+      {/* Product window (shelves and slots of the cabinet model) */}
+      <KioskSlots machine={machine} />
+      <text x="100" y="94" textAnchor="middle" fill="rgba(148,163,184,0.4)"
+            fontSize="5">{machine.model.name.toUpperCase()}</text>
 
       {/* Card reader slot */}
       <rect x="72" y="258" width="56" height="6" rx="2" fill="rgba(148,163,184,0.1)"
@@ -184,25 +243,42 @@ function KioskVisualization({ machine }: { machine: VendingMachine }) {
 // TERMINAL LOG COMPONENT
 // ============================================================
 
+/** Event categories the terminal can be filtered to ("" = everything) */
+const LOG_CATEGORIES: { id: "" | SystemEvent["category"]; label: string }[] = [
+  { id: "", label: "all" },
+  { id: "transaction", label: "tx" },
+  { id: "hardware", label: "hw" },
+  { id: "stock", label: "stock" },
+  { id: "connectivity", label: "net" },
+  { id: "system", label: "sys" },
+];
+
+/** How many more lines "load older" fetches */
+const LOG_PAGE_SIZE = 50;
+
 /**
  * Monospace terminal-style log viewer.
- * Shows real-time system events with timestamps and codes.
+ * Shows this machine's system events from the stored history, newest
+ * first, with a category filter and "load older" paging.
  */
 function TerminalLog({ machineId }: { machineId: string }) {
-  const { events } = useSimulation();
   const scrollRef = useRef<HTMLDivElement>(null);
+  const [category, setCategory] = useState<"" | SystemEvent["category"]>("");
+  const [limit, setLimit] = useState(LOG_PAGE_SIZE);
 
-  // Filter events for this specific machine
-  const machineEvents = events
-    .filter(e => e.machineId === machineId)
-    .slice(0, 50);
+  // Historical mode: the log ends where the selected range ends
+  const { historyRange } = useSimulation();
+  const { data: page } = useEventHistoryQuery({ machineId, category, limit, to: historyRange?.to });
+  const machineEvents = page?.items ?? [];
+  const hasOlder = (page?.total ?? 0) > machineEvents.length;
 
-  // Auto-scroll to bottom when new events arrive
+  // Keep the newest line in view when new events arrive
+  const newestId = machineEvents[0]?.id;
   useEffect(() => {
     if (scrollRef.current) {
       scrollRef.current.scrollTop = 0;
     }
-  }, [machineEvents.length]);
+  }, [newestId]);
 
   /**
    * Format a date as HH:MM:SS for the terminal timestamp.
@@ -235,6 +311,20 @@ function TerminalLog({ machineId }: { machineId: string }) {
         <span className="text-[10px] text-muted-foreground">
           terminal — {machineId}
         </span>
+        <div className="flex gap-1 ml-auto">
+          {LOG_CATEGORIES.map((c) => (
+            <button
+              key={c.id}
+              onClick={() => { setCategory(c.id); setLimit(LOG_PAGE_SIZE); }}
+              className={cn(
+                "text-[10px] px-1.5 rounded transition-colors",
+                category === c.id ? "bg-cyan-500/20 text-cyan-400" : "text-slate-500 hover:text-slate-300"
+              )}
+            >
+              {c.label}
+            </button>
+          ))}
+        </div>
       </div>
 
       {/* Log entries */}
@@ -255,6 +345,16 @@ function TerminalLog({ machineId }: { machineId: string }) {
           </div>
         ))
       )}
+
+      {/* Page further back through the stored history */}
+      {hasOlder && (
+        <button
+          onClick={() => setLimit((n) => n + LOG_PAGE_SIZE)}
+          className="mt-1 text-[11px] text-slate-500 hover:text-cyan-400 transition-colors"
+        >
+          … load older ({(page?.total ?? 0) - machineEvents.length} more)
+        </button>
+      )}
     </div>
   );
 }
@@ -311,7 +411,7 @@ function MachinePicker({
 // ============================================================
 
 export function DeviceHealth() {
-  const { machines, selectedMachine, selectMachine } = useSimulation();
+  const { machines, selectedMachine, selectMachine, periodLabel, historyRange } = useSimulation();
   // Local state for selecting a machine within this tab
   const [localMachine, setLocalMachine] = useState<VendingMachine | null>(null);
 
@@ -323,8 +423,9 @@ export function DeviceHealth() {
   );
 
   // Keep machine state fresh by finding it in the current machines array
+  // (a machine decommissioned meanwhile is gone from the live fleet)
   const currentMachine = machine
-    ? machines.find(m => m.id === machine.id) ?? machine
+    ? machines.find(m => m.id === machine.id) ?? (historyRange ? machine : null)
     : null;
 
   return (
@@ -364,13 +465,21 @@ export function DeviceHealth() {
             {currentMachine.status.toUpperCase()}
           </Badge>
         )}
+        {currentMachine?.maintenanceMode && (
+          <Badge variant="outline" className="border-amber-500/50 text-amber-400">
+            MAINTENANCE
+          </Badge>
+        )}
       </div>
 
       {!currentMachine ? (
-        <MachinePicker
-          machines={machines}
-          onSelect={(m) => setLocalMachine(m)}
-        />
+        <>
+          <MachinePicker
+            machines={machines}
+            onSelect={(m) => setLocalMachine(m)}
+          />
+          <WorkOrders machine={null} />
+        </>
       ) : (
         <div className="grid grid-cols-1 lg:grid-cols-3 gap-4">
           {/* Left: 3D Kiosk Visualization */}
@@ -380,11 +489,14 @@ export function DeviceHealth() {
             </h3>
             <KioskVisualization machine={currentMachine} />
             <div className="mt-2 text-center">
+              <p className="text-xs text-muted-foreground">
+                {currentMachine.model.name} · {describeModel(currentMachine.model)}
+              </p>
               <p className="text-xs text-muted-foreground">
                 Firmware: v{currentMachine.firmware}
               </p>
               <p className="text-xs text-muted-foreground">
-                Revenue Today: {formatISK(currentMachine.revenueToday)}
+                Revenue {periodLabel}: {formatISK(currentMachine.revenueToday)}
               </p>
             </div>
           </div>
@@ -452,7 +564,7 @@ export function DeviceHealth() {
             <div className="space-y-3">
               <div>
                 <div className="flex justify-between text-xs mb-1">
-                  <span className="text-muted-foreground">Revenue Today</span>
+                  <span className="text-muted-foreground">Revenue {periodLabel}</span>
                   <span className="text-foreground font-medium">
                     {formatISK(currentMachine.revenueToday)}
                   </span>
@@ -509,12 +621,22 @@ export function DeviceHealth() {
             </div>
           </div>
 
+          {/* Full-width Remote Commands */}
+          <div className="lg:col-span-3">
+            <MachineCommands key={currentMachine.id} machine={currentMachine} />
+          </div>
+
           {/* Full-width Terminal Log */}
           <div className="lg:col-span-3">
             <h3 className="text-sm font-semibold text-foreground mb-2">
               Terminal Log
             </h3>
-            <TerminalLog machineId={currentMachine.id} />
+            <TerminalLog key={currentMachine.id} machineId={currentMachine.id} />
+          </div>
+
+          {/* Full-width Work Orders */}
+          <div className="lg:col-span-3">
+            <WorkOrders machine={currentMachine} />
           </div>
         </div>
       )}
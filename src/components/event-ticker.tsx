@@ -38,11 +38,13 @@ import { cn } from "@/lib/utils";
 
 /**
  * Returns a relative time string like "2s ago", "1m ago".
+ * `now` is the simulation's virtual time, so ages stay correct
+ * when the clock is sped up or paused.
  * This is a simple implementation – in production you'd use
  * a library like `date-fns` or `dayjs`.
  */
-function timeAgo(date: Date): string {
-  const seconds = Math.floor((Date.now() - date.getTime()) / 1000);
+function timeAgo(date: Date, now: Date): string {
+  const seconds = Math.floor((now.getTime() - date.getTime()) / 1000);
   if (seconds < 5) return "just now";
   if (seconds < 60) return `${seconds}s ago`;
   const minutes = Math.floor(seconds / 60);
@@ -76,7 +78,7 @@ function getEventIcon(type: string, category: string) {
 }
 
 export function EventTicker() {
-  const { events } = useSimulation();
+  const { events, viewTime, historyRange } = useSimulation();
 
   // Show the most recent 30 events
   const recentEvents = events.slice(0, 30);
@@ -84,15 +86,19 @@ export function EventTicker() {
   return (
     <div className="glass-card p-4 flex flex-col h-full overflow-hidden">
       <div className="flex items-center justify-between mb-3">
-        <h3 className="text-sm font-semibold text-foreground">Live Events</h3>
-        {/* Pulsing "LIVE" indicator */}
-        <div className="flex items-center gap-1.5">
-          <span className="relative flex h-2 w-2">
-            <span className="animate-ping absolute inline-flex h-full w-full rounded-full bg-cyan-400 opacity-75" />
-            <span className="relative inline-flex rounded-full h-2 w-2 bg-cyan-500" />
-          </span>
-          <span className="text-xs font-medium text-cyan-400">LIVE</span>
-        </div>
+        <h3 className="text-sm font-semibold text-foreground">
+          {historyRange ? "Events" : "Live Events"}
+        </h3>
+        {/* Pulsing "LIVE" indicator (hidden in historical mode) */}
+        {!historyRange && (
+          <div className="flex items-center gap-1.5">
+            <span className="relative flex h-2 w-2">
+              <span className="animate-ping absolute inline-flex h-full w-full rounded-full bg-cyan-400 opacity-75" />
+              <span className="relative inline-flex rounded-full h-2 w-2 bg-cyan-500" />
+            </span>
+            <span className="text-xs font-medium text-cyan-400">LIVE</span>
+          </div>
+        )}
       </div>      {/* Scrollable event list
        * min-h-0 is critical here: flexbox children default to min-height:auto
        * which prevents them from shrinking below their content size.
@@ -127,7 +133,7 @@ export function EventTicker() {
                     </p>
                     {/* Time ago */}
                     <p className="text-[10px] text-muted-foreground mt-0.5">
-                      {timeAgo(event.timestamp)}
+                      {timeAgo(event.timestamp, viewTime)}
                     </p>
                   </div>
 
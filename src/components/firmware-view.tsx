@@ -0,0 +1,507 @@
+/**
+ * ============================================================
+ * Vendral – Firmware
+ * ============================================================
+ *
+ * Which firmware the fleet runs and how new versions reach it (see
+ * `src/lib/firmware.ts`):
+ *   - Distribution: machines per version, for the fleet and per
+ *     location (follows historical mode like the other views)
+ *   - Releases: the versions that can be rolled out; add a new one
+ *   - New rollout: pick a release, canary machines, the order of the
+ *     location waves, the soak time and the error-rate limit
+ *   - Rollouts: progress per wave, error rate of upgraded machines vs
+ *     the rest of the fleet, pause / resume / roll back, and the log
+ *
+ * Rollouts run on the server with the virtual clock, so they keep
+ * going (and pause by themselves) with this tab closed. Actions are
+ * taken under "your name", shared with the other operator tools.
+ * ============================================================
+ */
+
+"use client";
+
+import React, { useState } from "react";
+import { useSimulation } from "@/lib/simulation-context";
+import {
+  useFirmwareQuery,
+  useCreateReleaseMutation,
+  useStartRolloutMutation,
+  useRolloutActionMutation,
+} from "@/lib/queries";
+import type { Location, VendingMachine } from "@/lib/data";
+import {
+  DEFAULT_MAX_ERROR_RATIO,
+  DEFAULT_SOAK_MINUTES,
+  MAX_CANARY_MACHINES,
+  compareVersions,
+  isRolloutActive,
+  latestRelease,
+  rolloutHealth,
+  type FirmwareRelease,
+  type FirmwareRollout,
+  type RolloutStatus,
+  type RolloutTargetStatus,
+} from "@/lib/firmware";
+import { formatMoment } from "@/components/date-range-picker";
+import { PLANOGRAM_AUTHOR_KEY } from "@/components/planogram-versions";
+import { cn } from "@/lib/utils";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Cpu, Pause, Play, Plus, Rocket, Undo2 } from "lucide-react";
+
+/** Rollouts listed (the active one is always first) */
+const ROLLOUTS_SHOWN = 5;
+
+/** Log lines shown per rollout */
+const LOG_SHOWN = 8;
+
+const inputClass =
+  "h-7 bg-white/5 border border-white/10 rounded-md px-2 text-[11px] text-foreground";
+
+const ROLLOUT_STYLES: Record<RolloutStatus, string> = {
+  running: "text-cyan-400 border-cyan-500/30",
+  paused: "text-amber-400 border-amber-500/30",
+  completed: "text-emerald-400 border-emerald-500/30",
+  rolling_back: "text-rose-400 border-rose-500/30",
+  rolled_back: "text-muted-foreground border-white/10",
+};
+
+const TARGET_STYLES: Record<RolloutTargetStatus, string> = {
+  pending: "bg-white/5 text-muted-foreground",
+  installing: "bg-cyan-500/20 text-cyan-400",
+  upgraded: "bg-emerald-500/20 text-emerald-400",
+  failed: "bg-rose-500/20 text-rose-400",
+  cancelled: "bg-white/5 text-muted-foreground line-through",
+  rolling_back: "bg-amber-500/20 text-amber-400",
+  rolled_back: "bg-white/10 text-foreground",
+};
+
+/** Newest version first */
+const byVersion = (a: string, b: string) => compareVersions(b, a);
+
+// ============================================================
+// DISTRIBUTION
+// ============================================================
+
+function VersionDistribution({ machines, locations, latest }: {
+  machines: VendingMachine[];
+  locations: Location[];
+  latest: string | null;
+}) {
+  const versions = [...new Set(machines.map(m => m.firmware))].sort(byVersion);
+  const count = (list: VendingMachine[], version: string) => list.filter(m => m.firmware === version).length;
+
+  return (
+    <div className="glass-card p-4 space-y-3">
+      <h3 className="text-sm font-semibold text-foreground">Version Distribution</h3>
+      <div className="space-y-1">
+        {versions.map(version => {
+          const n = count(machines, version);
+          return (
+            <div key={version} className="flex items-center gap-2 text-[11px]">
+              <span className={cn("w-14 font-mono", version === latest ? "text-emerald-400" : "text-foreground")}>
+                v{version}
+              </span>
+              <div className="flex-1 h-2 rounded-full bg-white/5 overflow-hidden">
+                <div
+                  className={cn("h-full", version === latest ? "bg-emerald-500/60" : "bg-cyan-500/40")}
+                  style={{ width: `${(n / machines.length) * 100}%` }}
+                />
+              </div>
+              <span className="w-20 text-right text-muted-foreground">
+                {n} ({Math.round((n / machines.length) * 100)}%)
+              </span>
+            </div>
+          );
+        })}
+      </div>
+
+      <table className="w-full text-[11px]">
+        <thead>
+          <tr className="text-muted-foreground">
+            <th className="text-left font-normal">Location</th>
+            {versions.map(v => <th key={v} className="text-right font-normal font-mono">v{v}</th>)}
+          </tr>
+        </thead>
+        <tbody>
+          {locations.map(location => {
+            const here = machines.filter(m => m.location.id === location.id);
+            return (
+              <tr key={location.id} className="border-t border-white/5">
+                <td className="py-1 text-foreground">{location.name}</td>
+                {versions.map(v => (
+                  <td key={v} className="py-1 text-right text-muted-foreground">{count(here, v) || "–"}</td>
+                ))}
+              </tr>
+            );
+          })}
+        </tbody>
+      </table>
+    </div>
+  );
+}
+
+// ============================================================
+// RELEASES
+// ============================================================
+
+function Releases({ releases, machines, author }: {
+  releases: FirmwareRelease[];
+  machines: VendingMachine[];
+  author: string;
+}) {
+  const create = useCreateReleaseMutation();
+  const [version, setVersion] = useState("");
+  const [notes, setNotes] = useState("");
+
+  return (
+    <div className="glass-card p-4 space-y-2">
+      <h3 className="text-sm font-semibold text-foreground">Releases</h3>
+      <div className="space-y-1">
+        {[...releases].sort((a, b) => byVersion(a.version, b.version)).map(release => (
+          <div key={release.version} className="flex items-start gap-2 p-2 rounded-lg bg-white/5 text-[11px]">
+            <span className="font-mono text-foreground w-14 shrink-0">v{release.version}</span>
+            <div className="flex-1 min-w-0">
+              <p className="text-muted-foreground">{release.notes || "No release notes"}</p>
+              <p className="text-[10px] text-muted-foreground">
+                {release.createdBy} · {formatMoment(release.createdAt)}
+              </p>
+            </div>
+            <span className="text-[10px] text-muted-foreground shrink-0">
+              {machines.filter(m => m.firmware === release.version).length} machines
+            </span>
+          </div>
+        ))}
+      </div>
+
+      <div className="flex flex-wrap gap-1">
+        <input value={version} onChange={(e) => setVersion(e.target.value)} placeholder="3.3.0"
+          className={cn(inputClass, "w-20 font-mono")} aria-label="Version" />
+        <input value={notes} onChange={(e) => setNotes(e.target.value)} placeholder="Release notes"
+          maxLength={500} className={cn(inputClass, "flex-1 min-w-40")} aria-label="Release notes" />
+        <Button size="sm" className="h-7 text-[10px]" disabled={create.isPending || !author.trim() || !version.trim()}
+          onClick={() => create.mutate({ author, version, notes }, {
+            onSuccess: () => {
+              setVersion("");
+              setNotes("");
+            },
+          })}>
+          <Plus className="w-3 h-3 mr-1" />
+          Add release
+        </Button>
+      </div>
+      {create.error && <p className="text-[10px] text-rose-400">{create.error.message}</p>}
+    </div>
+  );
+}
+
+// ============================================================
+// NEW ROLLOUT
+// ============================================================
+
+function NewRollout({ releases, machines, locations, author, blockedBy }: {
+  releases: FirmwareRelease[];
+  machines: VendingMachine[];
+  locations: Location[];
+  author: string;
+  /** The rollout still active, if any (only one at a time) */
+  blockedBy: FirmwareRollout | undefined;
+}) {
+  const start = useStartRolloutMutation();
+  const [version, setVersion] = useState(() => latestRelease(releases)?.version ?? "");
+  const [canary, setCanary] = useState<string[]>([]);
+  const [locationIds, setLocationIds] = useState<string[]>([]);
+  const [soakMinutes, setSoakMinutes] = useState(DEFAULT_SOAK_MINUTES);
+  const [maxErrorRatio, setMaxErrorRatio] = useState(DEFAULT_MAX_ERROR_RATIO);
+
+  const eligible = machines.filter(m => m.firmware !== version);
+  const toggle = (list: string[], id: string) => (list.includes(id) ? list.filter(x => x !== id) : [...list, id]);
+
+  return (
+    <div className="glass-card p-4 space-y-3">
+      <h3 className="text-sm font-semibold text-foreground">New Rollout</h3>
+      <div className="flex flex-wrap items-center gap-2 text-[10px] text-muted-foreground">
+        Release
+        <select value={version} onChange={(e) => {
+          setVersion(e.target.value);
+          setCanary([]);
+        }} className={inputClass} aria-label="Release">
+          {[...releases].sort((a, b) => byVersion(a.version, b.version)).map(r => (
+            <option key={r.version} value={r.version}>v{r.version}</option>
+          ))}
+        </select>
+        <span>{eligible.length} of {machines.length} machines need it</span>
+      </div>
+
+      <div className="space-y-1">
+        <p className="text-[10px] text-muted-foreground">
+          1. Canary machines ({canary.length}/{MAX_CANARY_MACHINES})
+        </p>
+        <div className="flex flex-wrap gap-1">
+          {eligible.map(m => (
+            <button key={m.id} onClick={() => setCanary(toggle(canary, m.id))}
+              disabled={!canary.includes(m.id) && canary.length >= MAX_CANARY_MACHINES}
+              title={`${m.name} · v${m.firmware}`}
+              className={cn(
+                "px-2 py-0.5 rounded-md text-[10px] border font-mono disabled:opacity-40",
+                canary.includes(m.id)
+                  ? "bg-cyan-500/20 text-cyan-400 border-cyan-500/30"
+                  : "text-muted-foreground border-white/10"
+              )}>
+              {m.id}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <div className="space-y-1">
+        <p className="text-[10px] text-muted-foreground">2. Location waves, in the order clicked (optional)</p>
+        <div className="flex flex-wrap gap-1">
+          {locations.map(location => {
+            const position = locationIds.indexOf(location.id);
+            return (
+              <button key={location.id} onClick={() => setLocationIds(toggle(locationIds, location.id))}
+                className={cn(
+                  "px-2 py-0.5 rounded-md text-[10px] border",
+                  position !== -1
+                    ? "bg-cyan-500/20 text-cyan-400 border-cyan-500/30"
+                    : "text-muted-foreground border-white/10"
+                )}>
+                {position !== -1 && `${position + 1}. `}{location.name}
+              </button>
+            );
+          })}
+        </div>
+        <p className="text-[10px] text-muted-foreground">3. All remaining machines</p>
+      </div>
+
+      <div className="flex flex-wrap items-end gap-2">
+        <label className="flex flex-col gap-1 text-[10px] text-muted-foreground">
+          Soak after each wave (min)
+          <input type="number" min={0} value={soakMinutes} onChange={(e) => setSoakMinutes(Number(e.target.value))}
+            className={cn(inputClass, "w-24")} />
+        </label>
+        <label className="flex flex-col gap-1 text-[10px] text-muted-foreground">
+          Pause at error rate ×
+          <input type="number" min={1} step={0.5} value={maxErrorRatio}
+            onChange={(e) => setMaxErrorRatio(Number(e.target.value))} className={cn(inputClass, "w-24")} />
+        </label>
+        <Button size="sm" className="ml-auto text-xs"
+          disabled={start.isPending || !author.trim() || !version || canary.length === 0 || !!blockedBy}
+          onClick={() => start.mutate(
+            { author, version, canaryMachineIds: canary, locationIds, soakMinutes, maxErrorRatio },
+            { onSuccess: () => setCanary([]) }
+          )}>
+          <Rocket className="w-3.5 h-3.5 mr-1" />
+          Start rollout
+        </Button>
+      </div>
+      {blockedBy && (
+        <p className="text-[10px] text-muted-foreground">
+          {blockedBy.id} is still {blockedBy.status.replace("_", " ")} – one rollout at a time.
+        </p>
+      )}
+      {start.error && <p className="text-[10px] text-rose-400">{start.error.message}</p>}
+    </div>
+  );
+}
+
+// ============================================================
+// ROLLOUTS
+// ============================================================
+
+function RolloutCard({ rollout, fleetSize, now, newest, author }: {
+  rollout: FirmwareRollout;
+  fleetSize: number;
+  now: Date;
+  /** Only the newest rollout can be rolled back */
+  newest: boolean;
+  author: string;
+}) {
+  const act = useRolloutActionMutation();
+  const busy = act.isPending || !author.trim();
+  const health = rolloutHealth(rollout, fleetSize, now);
+  const canRollBack = newest && rollout.status !== "rolling_back" && rollout.status !== "rolled_back";
+
+  return (
+    <div className="glass-card p-4 space-y-3">
+      <div className="flex flex-wrap items-center gap-2">
+        <span className="font-mono text-[11px] text-muted-foreground">{rollout.id}</span>
+        <h3 className="text-sm font-semibold text-foreground">v{rollout.version}</h3>
+        <Badge variant="outline" className={cn("text-[9px]", ROLLOUT_STYLES[rollout.status])}>
+          {rollout.status.replace("_", " ")}
+        </Badge>
+        <span className="text-[10px] text-muted-foreground">
+          {rollout.createdBy} · {formatMoment(rollout.createdAt)} · soak {rollout.soakMinutes} min
+        </span>
+        <div className="ml-auto flex gap-1">
+          {rollout.status === "running" && (
+            <Button variant="outline" size="sm" className="h-7 text-[10px]" disabled={busy}
+              onClick={() => act.mutate({ id: rollout.id, author, action: "pause" })}>
+              <Pause className="w-3 h-3 mr-1" />
+              Pause
+            </Button>
+          )}
+          {rollout.status === "paused" && (
+            <Button variant="outline" size="sm" className="h-7 text-[10px]" disabled={busy}
+              onClick={() => act.mutate({ id: rollout.id, author, action: "resume" })}>
+              <Play className="w-3 h-3 mr-1" />
+              Resume
+            </Button>
+          )}
+          {canRollBack && (
+            <Button variant="outline" size="sm" className="h-7 text-[10px] text-rose-400" disabled={busy}
+              onClick={() => act.mutate({ id: rollout.id, author, action: "rollback" })}>
+              <Undo2 className="w-3 h-3 mr-1" />
+              Roll back
+            </Button>
+          )}
+        </div>
+      </div>
+      {rollout.pausedReason && <p className="text-[11px] text-amber-400">{rollout.pausedReason}</p>}
+      {act.error && <p className="text-[10px] text-rose-400">{act.error.message}</p>}
+
+      {/* Waves */}
+      <div className="space-y-1">
+        {rollout.waves.map((wave, i) => {
+          const targets = rollout.targets.filter(t => t.wave === i);
+          const upgraded = targets.filter(t => t.status === "upgraded").length;
+          const state = !wave.startedAt
+            ? "waiting"
+            : !wave.completedAt
+              ? "installing"
+              : i === rollout.currentWave && rollout.status !== "completed"
+                ? "soaking"
+                : "done";
+          return (
+            <div key={i} className="flex items-start gap-2 text-[11px]">
+              <span className={cn("w-32 shrink-0", i === rollout.currentWave ? "text-foreground" : "text-muted-foreground")}>
+                {i + 1}. {wave.name}
+              </span>
+              <span className="w-24 shrink-0 text-muted-foreground">
+                {upgraded}/{targets.length} · {state}
+              </span>
+              <div className="flex flex-wrap gap-1">
+                {targets.map(t => (
+                  <span key={t.machineId} title={`${t.machineName} · from v${t.fromVersion} · ${t.status}`}
+                    className={cn("px-1.5 rounded text-[10px] font-mono", TARGET_STYLES[t.status])}>
+                    {t.machineId}{t.errors > 0 && ` ·${t.errors}`}
+                  </span>
+                ))}
+              </div>
+            </div>
+          );
+        })}
+      </div>
+
+      {/* Health */}
+      {(rollout.status === "running" || rollout.status === "paused") && (
+        <p className="text-[10px] text-muted-foreground">
+          Hardware errors/h since {formatMoment(rollout.healthSince)}: upgraded{" "}
+          <span className={cn(health.breached ? "text-rose-400" : "text-foreground")}>
+            {health.upgradedRate.toFixed(1)}
+          </span>{" "}
+          ({health.upgradedHours.toFixed(1)} machine-h) vs rest of fleet {health.baselineRate.toFixed(1)}
+          {health.ratio !== null && ` – ×${health.ratio.toFixed(1)}`}, pauses above ×{rollout.maxErrorRatio}
+        </p>
+      )}
+
+      {/* Log */}
+      <div className="space-y-0.5">
+        {rollout.log.slice(-LOG_SHOWN).reverse().map((entry, i) => (
+          <p key={i} className="text-[10px] text-muted-foreground">
+            <span className="text-foreground/70">{formatMoment(entry.at)}</span> · {entry.author} · {entry.text}
+          </p>
+        ))}
+      </div>
+    </div>
+  );
+}
+
+// ============================================================
+// MAIN EXPORT
+// ============================================================
+
+export function FirmwareView() {
+  const { machines, locations, historyRange, clock } = useSimulation();
+  const { data: firmware } = useFirmwareQuery();
+  const [author, setAuthor] = useState(() =>
+    typeof window === "undefined" ? "" : localStorage.getItem(PLANOGRAM_AUTHOR_KEY) ?? ""
+  );
+
+  if (!firmware) {
+    return <div className="glass-card p-6 text-sm text-muted-foreground">Loading firmware…</div>;
+  }
+
+  const latest = latestRelease(firmware.releases)?.version ?? null;
+  const onLatest = machines.filter(m => m.firmware === latest).length;
+  const active = firmware.rollouts.find(isRolloutActive);
+  const rollouts = [
+    ...(active ? [active] : []),
+    ...firmware.rollouts.filter(r => r !== active),
+  ].slice(0, ROLLOUTS_SHOWN);
+
+  return (
+    <div className="space-y-4">
+      {/* Header */}
+      <div className="flex flex-wrap items-center gap-3">
+        <Cpu className="w-5 h-5 text-cyan-400" />
+        <h2 className="text-lg font-bold text-foreground">Firmware</h2>
+        {latest && (
+          <span className="text-xs text-muted-foreground">
+            {onLatest} of {machines.length} machines on the latest release v{latest}
+          </span>
+        )}
+        {historyRange && (
+          <Badge variant="outline" className="text-[10px] text-amber-400 border-amber-500/30">
+            Distribution as of the selected time – rollouts are live
+          </Badge>
+        )}
+        <label className="ml-auto flex items-center gap-1 text-[10px] text-muted-foreground">
+          Your name
+          <input
+            value={author}
+            maxLength={60}
+            onChange={(e) => {
+              setAuthor(e.target.value);
+              localStorage.setItem(PLANOGRAM_AUTHOR_KEY, e.target.value);
+            }}
+            placeholder="needed to act"
+            className={cn(inputClass, "w-32")}
+          />
+        </label>
+      </div>
+
+      <div className="grid grid-cols-1 xl:grid-cols-2 gap-4">
+        <div className="space-y-4">
+          <VersionDistribution machines={machines} locations={locations} latest={latest} />
+          <Releases releases={firmware.releases} machines={machines} author={author} />
+        </div>
+        <NewRollout
+          key={latest ?? ""}
+          releases={firmware.releases}
+          machines={machines}
+          locations={locations}
+          author={author}
+          blockedBy={active}
+        />
+      </div>
+
+      {rollouts.length === 0 ? (
+        <div className="glass-card p-4 text-xs text-muted-foreground">No rollouts yet.</div>
+      ) : (
+        rollouts.map(rollout => (
+          <RolloutCard
+            key={rollout.id}
+            rollout={rollout}
+            fleetSize={machines.length}
+            now={clock.time}
+            newest={rollout === firmware.rollouts[0]}
+            author={author}
+          />
+        ))
+      )}
+    </div>
+  );
+}
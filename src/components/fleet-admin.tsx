@@ -0,0 +1,459 @@
+/**
+ * ============================================================
+ * Vendral – Machines & Locations
+ * ============================================================
+ *
+ * Fleet administration in Settings (see `src/lib/fleet-admin.ts`):
+ *   - Machines: every machine the fleet ever had. Rename one, move it
+ *     to another location, or decommission it (asks once more – it
+ *     can't be undone). Decommissioned machines are hidden unless
+ *     asked for
+ *   - Register a machine: name, serial number, cabinet model and
+ *     location
+ *   - Locations: add, edit (name, city, position in Iceland, site
+ *     type, opening hours, host contact, rent and commission – see
+ *     `src/lib/locations.ts`) and delete the ones no machine is at.
+ *     Each shows whether it is open right now (virtual time)
+ *
+ * Every change is made under "your name", shared with the other
+ * operator tools, and shows in all views at once.
+ * ============================================================
+ */
+
+"use client";
+
+import React, { useState } from "react";
+import { useSimulation } from "@/lib/simulation-context";
+import {
+  useMachineRecordsQuery,
+  useRegisterMachineMutation,
+  useChangeMachineMutation,
+  useCreateLocationMutation,
+  useUpdateLocationMutation,
+  useDeleteLocationMutation,
+} from "@/lib/queries";
+import { formatISK, type DayHours, type Location, type SiteType } from "@/lib/data";
+import { MACHINE_MODELS, getMachineModel } from "@/lib/machine-models";
+import { LAT_RANGE, LNG_RANGE, type LocationInput, type MachineRecord } from "@/lib/fleet-admin";
+import { SITE_TYPES, WEEKDAYS, describeOpening, formatOpeningHours, isLocationOpen } from "@/lib/locations";
+import { PLANOGRAM_AUTHOR_KEY } from "@/components/planogram-versions";
+import { cn } from "@/lib/utils";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Check, MapPin, Pencil, Plus, Power, Server, Trash2, X } from "lucide-react";
+
+const inputClass =
+  "h-7 bg-white/5 border border-white/10 rounded-md px-2 text-[11px] text-foreground";
+
+/** Virtual "Mon Oct 19 2026" */
+const formatDay = (date: Date) => date.toDateString();
+
+// ============================================================
+// MACHINES
+// ============================================================
+
+function MachineRow({ record, locations, author }: {
+  record: MachineRecord;
+  locations: Location[];
+  author: string;
+}) {
+  const change = useChangeMachineMutation();
+  const [name, setName] = useState<string | null>(null);
+  const [confirming, setConfirming] = useState(false);
+  const busy = change.isPending || !author.trim();
+  const retired = record.decommissionedAt !== null;
+
+  return (
+    <tr className={cn("border-t border-white/5 align-top", retired && "opacity-50")}>
+      <td className="py-1 pr-2 font-mono text-muted-foreground">{record.id}</td>
+      <td className="py-1 pr-2">
+        {name === null ? (
+          <span className="flex items-center gap-1 text-foreground">
+            {record.name}
+            {!retired && (
+              <button onClick={() => setName(record.name)} aria-label="Rename">
+                <Pencil className="w-3 h-3 text-muted-foreground" />
+              </button>
+            )}
+          </span>
+        ) : (
+          <span className="flex items-center gap-1">
+            <input value={name} maxLength={60} onChange={(e) => setName(e.target.value)}
+              className={cn(inputClass, "w-36")} aria-label="Machine name" />
+            <button disabled={busy || !name.trim()} aria-label="Save name"
+              onClick={() => change.mutate({ id: record.id, author, name }, { onSuccess: () => setName(null) })}>
+              <Check className="w-3.5 h-3.5 text-emerald-400" />
+            </button>
+            <button onClick={() => setName(null)} aria-label="Cancel">
+              <X className="w-3.5 h-3.5 text-muted-foreground" />
+            </button>
+          </span>
+        )}
+        {change.error && <p className="text-[10px] text-rose-400">{change.error.message}</p>}
+      </td>
+      <td className="py-1 pr-2 font-mono text-muted-foreground">{record.serial}</td>
+      <td className="py-1 pr-2 text-muted-foreground">{getMachineModel(record.modelId)?.name ?? record.modelId}</td>
+      <td className="py-1 pr-2">
+        {retired ? (
+          <span className="text-muted-foreground">
+            {locations.find(l => l.id === record.locationId)?.name ?? record.locationId}
+          </span>
+        ) : (
+          <select value={record.locationId} disabled={busy} className={inputClass} aria-label="Location"
+            onChange={(e) => change.mutate({ id: record.id, author, locationId: e.target.value })}>
+            {locations.map(l => <option key={l.id} value={l.id}>{l.name}</option>)}
+          </select>
+        )}
+      </td>
+      <td className="py-1 pr-2 text-[10px] text-muted-foreground">
+        {retired
+          ? `Decommissioned ${formatDay(record.decommissionedAt!)} by ${record.decommissionedBy}`
+          : record.registeredAt
+            ? `Registered ${formatDay(record.registeredAt)} by ${record.registeredBy}`
+            : "Original fleet"}
+      </td>
+      <td className="py-1 text-right">
+        {!retired && (confirming ? (
+          <span className="flex justify-end gap-1">
+            <Button variant="outline" size="sm" className="h-6 text-[10px] text-rose-400" disabled={busy}
+              onClick={() => change.mutate({ id: record.id, author, decommissioned: true })}>
+              Decommission for good
+            </Button>
+            <Button variant="ghost" size="sm" className="h-6 text-[10px]" onClick={() => setConfirming(false)}>
+              Keep
+            </Button>
+          </span>
+        ) : (
+          <Button variant="ghost" size="sm" className="h-6 text-[10px]" disabled={busy}
+            onClick={() => setConfirming(true)}>
+            <Power className="w-3 h-3 mr-1" />
+            Decommission
+          </Button>
+        ))}
+      </td>
+    </tr>
+  );
+}
+
+function RegisterMachine({ locations, author }: { locations: Location[]; author: string }) {
+  const register = useRegisterMachineMutation();
+  const [name, setName] = useState("");
+  const [serial, setSerial] = useState("");
+  const [modelId, setModelId] = useState(MACHINE_MODELS[0].id);
+  const [locationId, setLocationId] = useState("");
+  // Falls back to the first location (also when the chosen one is deleted)
+  const location = locations.find(l => l.id === locationId) ?? locations[0];
+
+  return (
+    <div className="space-y-1">
+      <div className="flex flex-wrap items-center gap-1">
+        <input value={name} maxLength={60} onChange={(e) => setName(e.target.value)} placeholder="Name, e.g. Lobby East"
+          className={cn(inputClass, "w-40")} aria-label="New machine name" />
+        <input value={serial} maxLength={30} onChange={(e) => setSerial(e.target.value.toUpperCase())}
+          placeholder="Serial, e.g. VD-00021" className={cn(inputClass, "w-36 font-mono")} aria-label="Serial number" />
+        <select value={modelId} onChange={(e) => setModelId(e.target.value)} className={inputClass} aria-label="Model">
+          {MACHINE_MODELS.map(m => <option key={m.id} value={m.id}>{m.name}</option>)}
+        </select>
+        <select value={location?.id ?? ""} onChange={(e) => setLocationId(e.target.value)} className={inputClass}
+          aria-label="Location">
+          {locations.map(l => <option key={l.id} value={l.id}>{l.name}</option>)}
+        </select>
+        <Button size="sm" className="ml-auto text-xs"
+          disabled={register.isPending || !author.trim() || !name.trim() || !serial.trim() || !location}
+          onClick={() => register.mutate(
+            { author, name, serial, modelId, locationId: location.id },
+            { onSuccess: () => { setName(""); setSerial(""); } }
+          )}>
+          <Plus className="w-3.5 h-3.5 mr-1" />
+          Register machine
+        </Button>
+      </div>
+      {register.error && <p className="text-[11px] text-rose-400">{register.error.message}</p>}
+      {register.data && (
+        <p className="text-[11px] text-emerald-400">
+          {register.data.id} is online with empty slots – send it stock from the Warehouse tab.
+        </p>
+      )}
+    </div>
+  );
+}
+
+// ============================================================
+// LOCATIONS
+// ============================================================
+
+/** What a new location starts with – the rest is up to the site type */
+type NewLocation = Pick<LocationInput, "name" | "city" | "lat" | "lng" | "siteType">;
+
+/** Name, city, position and site type, for a new or an edited location */
+function LocationFields<T extends NewLocation>({ value, onChange }: { value: T; onChange: (value: T) => void }) {
+  return (
+    <>
+      <input value={value.name} maxLength={60} onChange={(e) => onChange({ ...value, name: e.target.value })}
+        placeholder="Name" className={cn(inputClass, "w-36")} aria-label="Location name" />
+      <input value={value.city} maxLength={60} onChange={(e) => onChange({ ...value, city: e.target.value })}
+        placeholder="City" className={cn(inputClass, "w-28")} aria-label="City" />
+      <input type="number" step={0.0001} min={LAT_RANGE[0]} max={LAT_RANGE[1]} value={value.lat}
+        onChange={(e) => onChange({ ...value, lat: Number(e.target.value) })}
+        className={cn(inputClass, "w-24")} aria-label="Latitude" />
+      <input type="number" step={0.0001} min={LNG_RANGE[0]} max={LNG_RANGE[1]} value={value.lng}
+        onChange={(e) => onChange({ ...value, lng: Number(e.target.value) })}
+        className={cn(inputClass, "w-24")} aria-label="Longitude" />
+      <select value={value.siteType} onChange={(e) => onChange({ ...value, siteType: e.target.value as SiteType })}
+        className={inputClass} aria-label="Site type">
+        {SITE_TYPES.map(t => <option key={t.id} value={t.id}>{t.label}</option>)}
+      </select>
+    </>
+  );
+}
+
+/** Time zone, opening hours per weekday, host contact and terms */
+function SiteDetailsFields({ value, onChange }: { value: LocationInput; onChange: (value: LocationInput) => void }) {
+  const setDay = (index: number, hours: DayHours | null) =>
+    onChange({ ...value, openingHours: value.openingHours.map((h, i) => (i === index ? hours : h)) });
+
+  return (
+    <div className="grid grid-cols-1 md:grid-cols-2 gap-2 w-full">
+      <div className="space-y-1">
+        <label className="flex items-center gap-1 text-[10px] text-muted-foreground">
+          Time zone
+          <input value={value.timezone} maxLength={60} onChange={(e) => onChange({ ...value, timezone: e.target.value })}
+            className={cn(inputClass, "w-40")} />
+        </label>
+        {WEEKDAYS.map((day, i) => {
+          const hours = value.openingHours[i];
+          return (
+            <div key={day} className="flex items-center gap-1 text-[10px] text-muted-foreground">
+              <span className="w-8">{day}</span>
+              <input type="checkbox" checked={hours !== null} aria-label={`Open on ${day}`}
+                onChange={(e) => setDay(i, e.target.checked ? { open: "09:00", close: "18:00" } : null)} />
+              {hours ? (
+                <>
+                  <input type="time" value={hours.open} onChange={(e) => setDay(i, { ...hours, open: e.target.value })}
+                    className={inputClass} aria-label={`${day} opens`} />
+                  –
+                  <input value={hours.close} maxLength={5} onChange={(e) => setDay(i, { ...hours, close: e.target.value })}
+                    className={cn(inputClass, "w-14")} aria-label={`${day} closes (up to 24:00)`} />
+                </>
+              ) : (
+                <span>closed</span>
+              )}
+            </div>
+          );
+        })}
+      </div>
+      <div className="space-y-1">
+        <p className="text-[10px] text-muted-foreground">Host contact</p>
+        <input value={value.host.name} maxLength={60} placeholder="Name"
+          onChange={(e) => onChange({ ...value, host: { ...value.host, name: e.target.value } })}
+          className={cn(inputClass, "w-full")} aria-label="Host name" />
+        <input value={value.host.email} maxLength={100} placeholder="Email"
+          onChange={(e) => onChange({ ...value, host: { ...value.host, email: e.target.value } })}
+          className={cn(inputClass, "w-full")} aria-label="Host email" />
+        <input value={value.host.phone} maxLength={30} placeholder="Phone"
+          onChange={(e) => onChange({ ...value, host: { ...value.host, phone: e.target.value } })}
+          className={cn(inputClass, "w-full")} aria-label="Host phone" />
+        <p className="text-[10px] text-muted-foreground pt-1">Terms</p>
+        <div className="flex items-center gap-1 text-[10px] text-muted-foreground">
+          <input type="number" min={0} step={1000} value={value.terms.monthlyRent}
+            onChange={(e) => onChange({ ...value, terms: { ...value.terms, monthlyRent: Number(e.target.value) } })}
+            className={cn(inputClass, "w-24")} aria-label="Monthly rent (ISK)" />
+          ISK / month +
+          <input type="number" min={0} max={100} step={0.5} value={value.terms.commissionPercent}
+            onChange={(e) => onChange({ ...value, terms: { ...value.terms, commissionPercent: Number(e.target.value) } })}
+            className={cn(inputClass, "w-16")} aria-label="Commission (%)" />
+          % of sales
+        </div>
+      </div>
+    </div>
+  );
+}
+
+function LocationRow({ location, machineCount }: { location: Location; machineCount: number }) {
+  const { clock } = useSimulation();
+  const update = useUpdateLocationMutation();
+  const remove = useDeleteLocationMutation();
+  const [draft, setDraft] = useState<LocationInput | null>(null);
+  const busy = update.isPending || remove.isPending;
+  const open = isLocationOpen(location, clock.time);
+  const host = [location.host.name, location.host.email, location.host.phone].filter(Boolean).join(" · ");
+
+  return (
+    <div className="p-2 rounded-lg bg-white/5 text-[11px]">
+      {draft ? (
+        <div className="flex flex-wrap items-center gap-1">
+          <LocationFields value={draft} onChange={setDraft} />
+          <SiteDetailsFields value={draft} onChange={setDraft} />
+          <Button variant="outline" size="sm" className="h-7 text-[10px]" disabled={busy || !draft.name.trim()}
+            onClick={() => update.mutate({ id: location.id, ...draft }, { onSuccess: () => setDraft(null) })}>
+            Save
+          </Button>
+          <Button variant="ghost" size="sm" className="h-7 text-[10px]" onClick={() => setDraft(null)}>
+            Cancel
+          </Button>
+        </div>
+      ) : (
+        <div className="flex items-start gap-2">
+          <MapPin className="w-3.5 h-3.5 text-cyan-400 shrink-0 mt-0.5" />
+          <div className="flex-1 min-w-0">
+            <p className="text-foreground">
+              {location.name} <span className="font-mono text-muted-foreground">{location.id}</span>{" "}
+              <Badge variant="outline" className={cn("text-[9px]", open ? "text-emerald-400 border-emerald-500/30" : "text-muted-foreground")}>
+                {describeOpening(location, clock.time)}
+              </Badge>
+            </p>
+            <p className="text-[10px] text-muted-foreground">
+              {SITE_TYPES.find(t => t.id === location.siteType)?.label} · {location.city} ·{" "}
+              {location.lat.toFixed(4)}, {location.lng.toFixed(4)} · {machineCount} machine{machineCount === 1 ? "" : "s"}
+            </p>
+            <p className="text-[10px] text-muted-foreground">
+              {formatOpeningHours(location.openingHours)} ({location.timezone})
+            </p>
+            <p className="text-[10px] text-muted-foreground">
+              {host || "No host contact"} · {formatISK(location.terms.monthlyRent)}/month + {location.terms.commissionPercent}% of sales
+            </p>
+          </div>
+          <Button variant="ghost" size="icon" className="w-6 h-6" aria-label="Edit"
+            onClick={() => setDraft({
+              name: location.name,
+              city: location.city,
+              lat: location.lat,
+              lng: location.lng,
+              siteType: location.siteType,
+              timezone: location.timezone,
+              openingHours: location.openingHours,
+              host: location.host,
+              terms: location.terms,
+            })}>
+            <Pencil className="w-3 h-3" />
+          </Button>
+          <Button variant="ghost" size="icon" className="w-6 h-6" disabled={busy || machineCount > 0}
+            title={machineCount > 0 ? "Move or decommission its machines first" : "Delete"}
+            onClick={() => remove.mutate(location.id)}>
+            <Trash2 className="w-3 h-3" />
+          </Button>
+        </div>
+      )}
+      {(update.error ?? remove.error) && (
+        <p className="text-[10px] text-rose-400">{(update.error ?? remove.error)?.message}</p>
+      )}
+    </div>
+  );
+}
+
+/** Somewhere in the middle of Iceland, to be adjusted */
+const NEW_LOCATION: NewLocation = { name: "", city: "", lat: 64.9, lng: -19, siteType: "mall" };
+
+function NewLocationForm() {
+  const create = useCreateLocationMutation();
+  const [draft, setDraft] = useState<NewLocation>(NEW_LOCATION);
+
+  return (
+    <div className="space-y-1">
+      <div className="flex flex-wrap items-center gap-1">
+        <LocationFields value={draft} onChange={setDraft} />
+        <span className="text-[10px] text-muted-foreground">
+          Opens {formatOpeningHours(SITE_TYPES.find(t => t.id === draft.siteType)!.defaultHours)} – edit afterwards
+        </span>
+        <Button size="sm" className="ml-auto text-xs"
+          disabled={create.isPending || !draft.name.trim() || !draft.city.trim()}
+          onClick={() => create.mutate(draft, { onSuccess: () => setDraft(NEW_LOCATION) })}>
+          <Plus className="w-3.5 h-3.5 mr-1" />
+          Add location
+        </Button>
+      </div>
+      {create.error && <p className="text-[11px] text-rose-400">{create.error.message}</p>}
+    </div>
+  );
+}
+
+// ============================================================
+// MAIN EXPORT
+// ============================================================
+
+export function FleetAdmin() {
+  const { locations } = useSimulation();
+  const { data: records } = useMachineRecordsQuery();
+  const [showRetired, setShowRetired] = useState(false);
+  const [author, setAuthor] = useState(() =>
+    typeof window === "undefined" ? "" : localStorage.getItem(PLANOGRAM_AUTHOR_KEY) ?? ""
+  );
+  if (!records) return null;
+
+  const inService = records.filter(r => !r.decommissionedAt);
+  const retired = records.length - inService.length;
+  const shown = showRetired ? records : inService;
+
+  return (
+    <div className="glass-card p-4 space-y-4">
+      <div className="flex flex-wrap items-center gap-2">
+        <Server className="w-4 h-4 text-cyan-400" />
+        <h3 className="text-sm font-semibold text-foreground">Machines & Locations</h3>
+        <span className="text-xs text-muted-foreground">
+          {inService.length} in service at {locations.length} locations
+        </span>
+        <label className="ml-auto flex items-center gap-1 text-[10px] text-muted-foreground">
+          Your name
+          <input
+            value={author}
+            maxLength={60}
+            onChange={(e) => {
+              setAuthor(e.target.value);
+              localStorage.setItem(PLANOGRAM_AUTHOR_KEY, e.target.value);
+            }}
+            placeholder="needed to act"
+            className={cn(inputClass, "w-32")}
+          />
+        </label>
+      </div>
+
+      <div>
+        <div className="flex items-center gap-2 mb-1">
+          <h4 className="text-xs font-semibold text-foreground">Machines</h4>
+          {retired > 0 && (
+            <button onClick={() => setShowRetired(!showRetired)}>
+              <Badge variant="outline" className={cn("text-[9px]", showRetired ? "text-cyan-400 border-cyan-500/30" : "text-muted-foreground")}>
+                {retired} decommissioned
+              </Badge>
+            </button>
+          )}
+        </div>
+        <div className="max-h-80 overflow-y-auto">
+          <table className="w-full text-[11px]">
+            <thead className="sticky top-0 bg-background/90">
+              <tr className="text-[10px] text-muted-foreground">
+                <th className="text-left font-normal py-1">Machine</th>
+                <th className="text-left font-normal">Name</th>
+                <th className="text-left font-normal">Serial</th>
+                <th className="text-left font-normal">Model</th>
+                <th className="text-left font-normal">Location</th>
+                <th className="text-left font-normal">History</th>
+                <th />
+              </tr>
+            </thead>
+            <tbody>
+              {shown.map(record => (
+                <MachineRow key={record.id} record={record} locations={locations} author={author} />
+              ))}
+            </tbody>
+          </table>
+        </div>
+      </div>
+      <RegisterMachine locations={locations} author={author} />
+
+      <div className="space-y-1">
+        <h4 className="text-xs font-semibold text-foreground">Locations</h4>
+        <div className="grid grid-cols-1 lg:grid-cols-2 gap-1">
+          {locations.map(location => (
+            <LocationRow
+              key={location.id}
+              location={location}
+              machineCount={inService.filter(r => r.locationId === location.id).length}
+            />
+          ))}
+        </div>
+      </div>
+      <NewLocationForm />
+    </div>
+  );
+}
@@ -24,7 +24,8 @@
 
 import React, { useState } from "react";
 import { useSimulation } from "@/lib/simulation-context";
-import { LOCATIONS, type VendingMachine, type Location, formatISK } from "@/lib/data";
+import { describeOpening } from "@/lib/locations";
+import { type VendingMachine, formatISK } from "@/lib/data";
 import { motion, AnimatePresence } from "framer-motion";
 import { cn } from "@/lib/utils";
 import { ScrollArea } from "@/components/ui/scroll-area";
@@ -75,11 +76,13 @@ const GLOW_COLORS = {
 };
 
 export function GeoMap() {
-  const { machines, selectMachine } = useSimulation();
-  const [selectedLocation, setSelectedLocation] = useState<Location | null>(null);
+  const { machines, locations, selectMachine, periodLabel, viewTime } = useSimulation();
+  const [selectedLocationId, setSelectedLocationId] = useState<string | null>(null);
+  // Looked up by id, so edits show at once and a deleted location closes the panel
+  const selectedLocation = locations.find(l => l.id === selectedLocationId) ?? null;
 
   // Group machines by location
-  const locationGroups = LOCATIONS.map(location => ({
+  const locationGroups = locations.map(location => ({
     location,
     machines: machines.filter(m => m.location.id === location.id),
   }));
@@ -89,7 +92,7 @@ export function GeoMap() {
       <div className="flex items-center justify-between mb-3">
         <h3 className="text-sm font-semibold text-foreground">Fleet Map</h3>
         <Badge variant="outline" className="text-[10px] text-cyan-400 border-cyan-500/30">
-          {LOCATIONS.length} Locations
+          {locations.length} Locations
         </Badge>
       </div>
 
@@ -149,8 +152,8 @@ export function GeoMap() {
                 <g
                   key={location.id}
                   className="cursor-pointer"
-                  onClick={() => setSelectedLocation(
-                    isSelected ? null : location
+                  onClick={() => setSelectedLocationId(
+                    isSelected ? null : location.id
                   )}
                 >
                   {/* Pulse ring for the cluster */}
@@ -223,11 +226,11 @@ export function GeoMap() {
                       {selectedLocation.name}
                     </h4>
                     <p className="text-[10px] text-muted-foreground">
-                      {selectedLocation.city}
+                      {selectedLocation.city} · {describeOpening(selectedLocation, viewTime)}
                     </p>
                   </div>
                   <button
-                    onClick={() => setSelectedLocation(null)}
+                    onClick={() => setSelectedLocationId(null)}
                     className="p-1 rounded hover:bg-white/10 text-muted-foreground"
                   >
                     <X className="w-3.5 h-3.5" />
@@ -259,7 +262,7 @@ export function GeoMap() {
                             {machine.name}
                           </p>
                           <p className="text-[10px] text-muted-foreground">
-                            {formatISK(machine.revenueToday)} today
+                            {formatISK(machine.revenueToday)} {periodLabel.toLowerCase()}
                           </p>
                         </div>
 
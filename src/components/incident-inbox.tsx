@@ -0,0 +1,246 @@
+/**
+ * ============================================================
+ * Vendral – Incident Inbox
+ * ============================================================
+ *
+ * Fired alerts grouped into one incident per machine (see
+ * `src/lib/incidents.ts`), so it is clear whether somebody is on it:
+ *   - Active: open and acknowledged incidents, most severe first
+ *   - Snoozed: hidden until their snooze ends
+ *   - Resolved: the most recent ones, with how long they took
+ *
+ * Expanding an incident shows its notes (status changes included)
+ * and the actions: acknowledge, resolve, assign to yourself, snooze
+ * and add a note. Changes are made under "your name" (remembered in
+ * the browser, shared with the planogram editor's author field).
+ * ============================================================
+ */
+
+"use client";
+
+import React, { useState } from "react";
+import { useSimulation } from "@/lib/simulation-context";
+import { useIncidentsQuery, useUpdateIncidentMutation } from "@/lib/queries";
+import {
+  SEVERITY_RANK,
+  SNOOZE_OPTIONS,
+  formatMinutes,
+  isSnoozed,
+  type Incident,
+  type IncidentUpdate,
+} from "@/lib/incidents";
+import { formatMoment } from "@/components/date-range-picker";
+import { PLANOGRAM_AUTHOR_KEY } from "@/components/planogram-versions";
+import { cn } from "@/lib/utils";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { BellRing, Check, CheckCheck, ChevronDown, ChevronRight, UserPlus } from "lucide-react";
+
+type InboxFilter = "active" | "snoozed" | "resolved";
+
+/** Resolved incidents listed */
+const RESOLVED_SHOWN = 50;
+
+const inputClass =
+  "h-7 bg-white/5 border border-white/10 rounded-md px-2 text-[11px] text-foreground";
+
+const SEVERITY_STYLES: Record<Incident["severity"], string> = {
+  info: "bg-cyan-500/20 text-cyan-400",
+  warning: "bg-amber-500/20 text-amber-400",
+  critical: "bg-rose-500/20 text-rose-400",
+};
+
+const STATUS_STYLES: Record<Incident["status"], string> = {
+  open: "text-rose-400 border-rose-500/30",
+  acknowledged: "text-amber-400 border-amber-500/30",
+  resolved: "text-emerald-400 border-emerald-500/30",
+};
+
+const minutesBetween = (from: Date, to: Date) => (to.getTime() - from.getTime()) / 60_000;
+
+// ============================================================
+// INCIDENT ROW
+// ============================================================
+
+function IncidentRow({ incident, author, now }: { incident: Incident; author: string; now: Date }) {
+  const [open, setOpen] = useState(false);
+  const [note, setNote] = useState("");
+  const update = useUpdateIncidentMutation();
+  const busy = update.isPending || !author.trim();
+  const resolved = incident.status === "resolved";
+
+  const change = (changes: Omit<IncidentUpdate, "author">, onSuccess?: () => void) =>
+    update.mutate({ id: incident.id, author, ...changes }, { onSuccess });
+
+  return (
+    <div className="p-2 rounded-lg bg-white/5 text-[11px]">
+      <button className="w-full flex items-start gap-2 text-left" onClick={() => setOpen(!open)}>
+        {open
+          ? <ChevronDown className="w-3.5 h-3.5 mt-0.5 shrink-0 text-muted-foreground" />
+          : <ChevronRight className="w-3.5 h-3.5 mt-0.5 shrink-0 text-muted-foreground" />}
+        <Badge className={cn("text-[9px] border-0 shrink-0", SEVERITY_STYLES[incident.severity])}>
+          {incident.severity}
+        </Badge>
+        <div className="flex-1 min-w-0">
+          <p className="text-foreground truncate">
+            {incident.machineId} <span className="text-muted-foreground">{incident.machineName}</span>
+            {" · "}
+            {incident.title}
+          </p>
+          <p className="text-[10px] text-muted-foreground">
+            <span className="font-mono">{incident.id}</span>
+            {` · ${incident.alertCount} alert${incident.alertCount === 1 ? "" : "s"}`}
+            {` · opened ${formatMoment(incident.openedAt)}`}
+            {resolved && incident.resolvedAt
+              ? ` · resolved in ${formatMinutes(minutesBetween(incident.openedAt, incident.resolvedAt))}`
+              : ` · ${formatMinutes(minutesBetween(incident.openedAt, now))} ago`}
+            {incident.assignee && ` · ${incident.assignee}`}
+            {isSnoozed(incident, now) && ` · snoozed until ${formatMoment(incident.snoozedUntil!)}`}
+          </p>
+        </div>
+        <Badge variant="outline" className={cn("text-[9px] shrink-0", STATUS_STYLES[incident.status])}>
+          {incident.status}
+        </Badge>
+      </button>
+
+      {open && (
+        <div className="mt-2 ml-5 space-y-2">
+          {incident.notes.length > 0 && (
+            <div className="space-y-0.5">
+              {incident.notes.map((n, i) => (
+                <p key={i} className="text-[10px] text-muted-foreground">
+                  <span className="text-foreground">{n.author}</span> · {formatMoment(n.at)} – {n.text}
+                </p>
+              ))}
+            </div>
+          )}
+
+          {!resolved && (
+            <div className="flex flex-wrap items-center gap-1">
+              {incident.status === "open" && (
+                <Button variant="outline" size="sm" className="h-7 text-[10px]" disabled={busy}
+                  onClick={() => change({ status: "acknowledged" })}>
+                  <Check className="w-3 h-3 mr-1" />
+                  Acknowledge
+                </Button>
+              )}
+              <Button variant="outline" size="sm" className="h-7 text-[10px]" disabled={busy}
+                onClick={() => change({ status: "resolved" })}>
+                <CheckCheck className="w-3 h-3 mr-1" />
+                Resolve
+              </Button>
+              <Button variant="outline" size="sm" className="h-7 text-[10px]" disabled={busy}
+                onClick={() => change({ assignee: incident.assignee === author.trim() ? null : author.trim() })}>
+                <UserPlus className="w-3 h-3 mr-1" />
+                {incident.assignee === author.trim() ? "Unassign" : "Assign to me"}
+              </Button>
+              <select
+                value=""
+                disabled={busy}
+                onChange={(e) => change({ snoozeMinutes: Number(e.target.value) })}
+                className={inputClass}
+                aria-label="Snooze"
+              >
+                <option value="" disabled>Snooze…</option>
+                {SNOOZE_OPTIONS.map(minutes => (
+                  <option key={minutes} value={minutes}>{formatMinutes(minutes)}</option>
+                ))}
+                {isSnoozed(incident, now) && <option value={0}>End snooze</option>}
+              </select>
+            </div>
+          )}
+
+          <div className="flex gap-1">
+            <input
+              value={note}
+              maxLength={500}
+              onChange={(e) => setNote(e.target.value)}
+              placeholder="Add a note"
+              className={cn(inputClass, "flex-1")}
+              aria-label="Note"
+            />
+            <Button variant="ghost" size="sm" className="h-7 text-[10px]" disabled={busy || !note.trim()}
+              onClick={() => change({ note }, () => setNote(""))}>
+              Add
+            </Button>
+          </div>
+          {update.error && <p className="text-[10px] text-rose-400">{update.error.message}</p>}
+        </div>
+      )}
+    </div>
+  );
+}
+
+// ============================================================
+// MAIN EXPORT
+// ============================================================
+
+export function IncidentInbox() {
+  const { clock } = useSimulation();
+  const { data: incidents } = useIncidentsQuery();
+  const [filter, setFilter] = useState<InboxFilter>("active");
+  const [author, setAuthor] = useState(() =>
+    typeof window === "undefined" ? "" : localStorage.getItem(PLANOGRAM_AUTHOR_KEY) ?? ""
+  );
+
+  if (!incidents) return null;
+  const now = clock.time;
+
+  const groups: Record<InboxFilter, Incident[]> = {
+    active: incidents
+      .filter(i => i.status !== "resolved" && !isSnoozed(i, now))
+      .sort((a, b) =>
+        SEVERITY_RANK[b.severity] - SEVERITY_RANK[a.severity] ||
+        Number(b.status === "open") - Number(a.status === "open") ||
+        b.lastAlertAt.getTime() - a.lastAlertAt.getTime()),
+    snoozed: incidents.filter(i => isSnoozed(i, now)),
+    resolved: incidents.filter(i => i.status === "resolved").slice(0, RESOLVED_SHOWN),
+  };
+  const shown = groups[filter];
+
+  return (
+    <div className="glass-card p-4 space-y-3">
+      <div className="flex flex-wrap items-center gap-2">
+        <BellRing className="w-4 h-4 text-rose-400" />
+        <h3 className="text-sm font-semibold text-foreground">Inbox</h3>
+        {(["active", "snoozed", "resolved"] as InboxFilter[]).map(f => (
+          <button key={f} onClick={() => setFilter(f)}
+            className={cn(
+              "px-2 py-0.5 rounded-md text-[10px] border capitalize",
+              filter === f ? "bg-cyan-500/20 text-cyan-400 border-cyan-500/30" : "text-muted-foreground border-white/10"
+            )}>
+            {f} ({f === "resolved" ? incidents.filter(i => i.status === "resolved").length : groups[f].length})
+          </button>
+        ))}
+        <label className="ml-auto flex items-center gap-1 text-[10px] text-muted-foreground">
+          Your name
+          <input
+            value={author}
+            maxLength={60}
+            onChange={(e) => {
+              setAuthor(e.target.value);
+              localStorage.setItem(PLANOGRAM_AUTHOR_KEY, e.target.value);
+            }}
+            placeholder="needed to act"
+            className={cn(inputClass, "w-32")}
+          />
+        </label>
+      </div>
+
+      {shown.length === 0 ? (
+        <p className="text-xs text-muted-foreground">
+          {filter === "active" ? "Nothing needs attention." : `No ${filter} incidents.`}
+        </p>
+      ) : (
+        <ScrollArea className="h-96">
+          <div className="space-y-1 pr-2">
+            {shown.map(incident => (
+              <IncidentRow key={incident.id} incident={incident} author={author} now={now} />
+            ))}
+          </div>
+        </ScrollArea>
+      )}
+    </div>
+  );
+}
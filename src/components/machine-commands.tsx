@@ -0,0 +1,252 @@
+/**
+ * ============================================================
+ * Vendral – Remote Commands
+ * ============================================================
+ *
+ * Send commands to the machine shown in Device Health (see
+ * `src/lib/commands.ts`):
+ *   - Reboot, enter/exit maintenance mode, motor self-test
+ *   - Lock or unlock one slot (its product isn't sold meanwhile)
+ *   - Push new prices for products the machine sells
+ *
+ * The command log underneath follows each command from queued to
+ * succeeded/failed, with the machine's answer. Commands are sent under
+ * "your name", shared with the other operator tools.
+ * ============================================================
+ */
+
+"use client";
+
+import React, { useState } from "react";
+import { useMachineCommandsQuery, useSendCommandMutation } from "@/lib/queries";
+import { formatISK, getProductById, type VendingMachine } from "@/lib/data";
+import {
+  COMMAND_TIMEOUT_MINUTES,
+  commandLabel,
+  isSlotLocked,
+  slotLabel,
+  type CommandInput,
+  type MachineCommand,
+  type PriceChange,
+} from "@/lib/commands";
+import { PLANOGRAM_AUTHOR_KEY } from "@/components/planogram-versions";
+import { cn } from "@/lib/utils";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Activity, Lock, PauseCircle, PlayCircle, Power, Send, Tag, TerminalSquare, Unlock, X } from "lucide-react";
+
+/** Commands listed */
+const COMMANDS_SHOWN = 30;
+
+const inputClass =
+  "h-7 bg-white/5 border border-white/10 rounded-md px-2 text-[11px] text-foreground";
+
+const STATUS_STYLES: Record<MachineCommand["status"], string> = {
+  queued: "text-muted-foreground border-white/10",
+  sent: "text-cyan-400 border-cyan-500/30",
+  acknowledged: "text-amber-400 border-amber-500/30",
+  succeeded: "text-emerald-400 border-emerald-500/30",
+  failed: "text-rose-400 border-rose-500/30",
+};
+
+/** Virtual "14:03:12" */
+const formatTime = (date: Date) => date.toLocaleTimeString("en-US", { hour12: false });
+
+const productName = (productId: string | null) => (productId && getProductById(productId)?.name) ?? "empty";
+
+/** "Lock slot R1 C3" / "Push prices: Coca-Cola 350 ISK" / "Install firmware v3.3.0" */
+function describeCommand(command: MachineCommand): string {
+  if (command.slot) return `${commandLabel(command.kind)} ${slotLabel(command.slot)}`;
+  if (command.firmware) return `${commandLabel(command.kind)} v${command.firmware}`;
+  if (command.prices) {
+    return `${commandLabel(command.kind)}: ${command.prices.map(p => `${productName(p.productId)} ${formatISK(p.price)}`).join(", ")}`;
+  }
+  return commandLabel(command.kind);
+}
+
+// ============================================================
+// PRICE PUSH
+// ============================================================
+
+function PricePush({ machine, send, busy }: {
+  machine: VendingMachine;
+  send: (input: Omit<CommandInput, "author">, onSuccess?: () => void) => void;
+  busy: boolean;
+}) {
+  const products = [...new Set(machine.planogram.map(sl => sl.productId).filter((id): id is string => id !== null))];
+  const [productId, setProductId] = useState(products[0] ?? "");
+  const [price, setPrice] = useState(() => machine.planogram.find(sl => sl.productId === products[0])?.price ?? 0);
+  const [prices, setPrices] = useState<PriceChange[]>([]);
+
+  const pick = (id: string) => {
+    setProductId(id);
+    setPrice(machine.planogram.find(sl => sl.productId === id)?.price ?? 0);
+  };
+
+  return (
+    <div className="space-y-1">
+      <div className="flex flex-wrap items-center gap-1">
+        <Tag className="w-3.5 h-3.5 text-muted-foreground" />
+        <select value={productId} onChange={(e) => pick(e.target.value)} className={inputClass} aria-label="Product">
+          {products.map(id => <option key={id} value={id}>{productName(id)}</option>)}
+        </select>
+        <input
+          type="number"
+          min={50}
+          step={10}
+          value={price}
+          onChange={(e) => setPrice(Number(e.target.value))}
+          className={cn(inputClass, "w-20")}
+          aria-label="New price (ISK)"
+        />
+        <Button variant="ghost" size="sm" className="h-7 text-[10px]" disabled={!productId}
+          onClick={() => setPrices([...prices.filter(p => p.productId !== productId), { productId, price }])}>
+          Add
+        </Button>
+        <Button variant="outline" size="sm" className="h-7 text-[10px]" disabled={busy || prices.length === 0}
+          onClick={() => send({ kind: "push_prices", slot: null, prices }, () => setPrices([]))}>
+          <Send className="w-3 h-3 mr-1" />
+          Push {prices.length > 0 ? prices.length : ""} price{prices.length === 1 ? "" : "s"}
+        </Button>
+      </div>
+      {prices.length > 0 && (
+        <div className="flex flex-wrap gap-1">
+          {prices.map(p => (
+            <span key={p.productId} className="flex items-center gap-1 px-2 py-0.5 rounded-md bg-white/5 text-[10px]">
+              {productName(p.productId)} {formatISK(p.price)}
+              <button onClick={() => setPrices(prices.filter(x => x !== p))} aria-label="Remove">
+                <X className="w-3 h-3 text-muted-foreground" />
+              </button>
+            </span>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
+
+// ============================================================
+// MAIN EXPORT
+// ============================================================
+
+export function MachineCommands({ machine }: { machine: VendingMachine }) {
+  const { data: commands } = useMachineCommandsQuery(machine.id);
+  const sendCommand = useSendCommandMutation();
+  const [slotIndex, setSlotIndex] = useState(0);
+  const [author, setAuthor] = useState(() =>
+    typeof window === "undefined" ? "" : localStorage.getItem(PLANOGRAM_AUTHOR_KEY) ?? ""
+  );
+  const busy = sendCommand.isPending || !author.trim();
+  const slot = machine.planogram[slotIndex] ?? machine.planogram[0];
+  const slotLocked = slot ? isSlotLocked(machine, slot) : false;
+
+  const send = (input: Omit<CommandInput, "author">, onSuccess?: () => void) =>
+    sendCommand.mutate({ machineId: machine.id, author, ...input }, { onSuccess });
+
+  return (
+    <div className="glass-card p-4 space-y-3">
+      <div className="flex flex-wrap items-center gap-2">
+        <TerminalSquare className="w-4 h-4 text-cyan-400" />
+        <h3 className="text-sm font-semibold text-foreground">Remote Commands</h3>
+        {machine.status === "offline" && (
+          <span className="text-[10px] text-muted-foreground">
+            Offline – commands wait up to {COMMAND_TIMEOUT_MINUTES} min for the machine
+          </span>
+        )}
+        <label className="ml-auto flex items-center gap-1 text-[10px] text-muted-foreground">
+          Your name
+          <input
+            value={author}
+            maxLength={60}
+            onChange={(e) => {
+              setAuthor(e.target.value);
+              localStorage.setItem(PLANOGRAM_AUTHOR_KEY, e.target.value);
+            }}
+            placeholder="needed to act"
+            className={cn(inputClass, "w-32")}
+          />
+        </label>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-1">
+        <Button variant="outline" size="sm" className="h-7 text-[10px]" disabled={busy}
+          onClick={() => send({ kind: "reboot", slot: null, prices: null })}>
+          <Power className="w-3 h-3 mr-1" />
+          Reboot
+        </Button>
+        {machine.maintenanceMode ? (
+          <Button variant="outline" size="sm" className="h-7 text-[10px]" disabled={busy}
+            onClick={() => send({ kind: "exit_maintenance", slot: null, prices: null })}>
+            <PlayCircle className="w-3 h-3 mr-1" />
+            Exit maintenance mode
+          </Button>
+        ) : (
+          <Button variant="outline" size="sm" className="h-7 text-[10px]" disabled={busy}
+            onClick={() => send({ kind: "enter_maintenance", slot: null, prices: null })}>
+            <PauseCircle className="w-3 h-3 mr-1" />
+            Enter maintenance mode
+          </Button>
+        )}
+        <Button variant="outline" size="sm" className="h-7 text-[10px]" disabled={busy}
+          onClick={() => send({ kind: "motor_self_test", slot: null, prices: null })}>
+          <Activity className="w-3 h-3 mr-1" />
+          Motor self-test
+        </Button>
+
+        {slot && (
+          <div className="flex items-center gap-1 ml-auto">
+            <select
+              value={slotIndex}
+              onChange={(e) => setSlotIndex(Number(e.target.value))}
+              className={inputClass}
+              aria-label="Slot"
+            >
+              {machine.planogram.map((sl, i) => (
+                <option key={i} value={i}>
+                  {slotLabel(sl)} · {productName(sl.productId)}{isSlotLocked(machine, sl) ? " (locked)" : ""}
+                </option>
+              ))}
+            </select>
+            <Button variant="outline" size="sm" className="h-7 text-[10px]" disabled={busy}
+              onClick={() => send({
+                kind: slotLocked ? "unlock_slot" : "lock_slot",
+                slot: { row: slot.row, col: slot.col },
+                prices: null,
+              })}>
+              {slotLocked ? <Unlock className="w-3 h-3 mr-1" /> : <Lock className="w-3 h-3 mr-1" />}
+              {slotLocked ? "Unlock" : "Lock"}
+            </Button>
+          </div>
+        )}
+      </div>
+
+      <PricePush machine={machine} send={send} busy={busy} />
+      {sendCommand.error && <p className="text-[10px] text-rose-400">{sendCommand.error.message}</p>}
+
+      {commands && commands.length > 0 && (
+        <div className="max-h-64 overflow-y-auto">
+          <table className="w-full text-[11px]">
+            <tbody>
+              {commands.slice(0, COMMANDS_SHOWN).map(command => (
+                <tr key={command.id} className="border-t border-white/5 align-top">
+                  <td className="py-1 pr-2 font-mono text-muted-foreground">{command.id}</td>
+                  <td className="py-1 pr-2 text-muted-foreground">{formatTime(command.createdAt)}</td>
+                  <td className="py-1 pr-2">
+                    <p className="text-foreground">{describeCommand(command)}</p>
+                    {command.result && <p className="text-[10px] text-muted-foreground">{command.result}</p>}
+                  </td>
+                  <td className="py-1 pr-2 text-muted-foreground">{command.issuedBy}</td>
+                  <td className="py-1 text-right">
+                    <Badge variant="outline" className={cn("text-[9px]", STATUS_STYLES[command.status])}>
+                      {command.status}
+                    </Badge>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+}
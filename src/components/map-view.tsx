@@ -19,10 +19,8 @@
 import React, { useState, useMemo } from "react";
 import { useSimulation } from "@/lib/simulation-context";
 import {
-  LOCATIONS,
   formatISK,
   type VendingMachine,
-  type Location,
 } from "@/lib/data";
 import { cn } from "@/lib/utils";
 import { motion, AnimatePresence } from "framer-motion";
@@ -178,18 +176,20 @@ function MachineCard({
 // ============================================================
 
 export function MapView() {
-  const { machines, selectMachine } = useSimulation();
-  const [selectedLocation, setSelectedLocation] = useState<Location | null>(null);
+  const { machines, locations, selectMachine } = useSimulation();
+  const [selectedLocationId, setSelectedLocationId] = useState<string | null>(null);
+  // Looked up by id, so edits show at once and a deleted location clears the filter
+  const selectedLocation = locations.find(l => l.id === selectedLocationId) ?? null;
   const [searchQuery, setSearchQuery] = useState("");
 
   // Group machines by location
   const locationGroups = useMemo(
     () =>
-      LOCATIONS.map(location => ({
+      locations.map(location => ({
         location,
         machines: machines.filter(m => m.location.id === location.id),
       })),
-    [machines]
+    [machines, locations]
   );
 
   // Filter machines based on search and selected location
@@ -232,7 +232,7 @@ export function MapView() {
         {/* Location filter chips */}
         <div className="flex flex-wrap gap-1 mb-3">
           <button
-            onClick={() => setSelectedLocation(null)}
+            onClick={() => setSelectedLocationId(null)}
             className={cn(
               "text-[10px] px-2 py-1 rounded-full transition-colors",
               !selectedLocation
@@ -242,14 +242,14 @@ export function MapView() {
           >
             All ({machines.length})
           </button>
-          {LOCATIONS.map(loc => {
+          {locations.map(loc => {
             const count = machines.filter(m => m.location.id === loc.id).length;
             return (
               <button
                 key={loc.id}
                 onClick={() =>
-                  setSelectedLocation(
-                    selectedLocation?.id === loc.id ? null : loc
+                  setSelectedLocationId(
+                    selectedLocation?.id === loc.id ? null : loc.id
                   )
                 }
                 className={cn(
@@ -293,7 +293,7 @@ export function MapView() {
             <Button
               variant="ghost"
               size="sm"
-              onClick={() => setSelectedLocation(null)}
+              onClick={() => setSelectedLocationId(null)}
               className="text-xs text-muted-foreground"
             >
               <X className="w-3 h-3 mr-1" />
@@ -372,7 +372,7 @@ export function MapView() {
                   key={location.id}
                   className="cursor-pointer"
                   onClick={() =>
-                    setSelectedLocation(isSelected ? null : location)
+                    setSelectedLocationId(isSelected ? null : location.id)
                   }
                 >
                   {/* Outer ring */}
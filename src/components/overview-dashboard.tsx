@@ -65,13 +65,15 @@ function OverviewTooltip({ active, payload, label }: { active?: boolean; payload
 // ============================================================
 
 function MiniRevenueChart() {
-  const { hourlyData } = useSimulation();
+  const { hourlyData, historyRange } = useSimulation();
 
   return (    <div className="glass-card p-4 h-full flex flex-col overflow-hidden">
       <div className="flex items-center justify-between mb-2">
-        <h3 className="text-sm font-semibold text-foreground">Revenue Today</h3>
+        <h3 className="text-sm font-semibold text-foreground">
+          {historyRange ? "Revenue by Hour" : "Revenue Today"}
+        </h3>
         <Badge variant="outline" className="text-[10px] text-cyan-400 border-cyan-500/30">
-          Live
+          {historyRange ? "History" : "Live"}
         </Badge>
       </div>
       {/* min-h-0 lets the flex child shrink below its content height
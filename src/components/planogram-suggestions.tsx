@@ -0,0 +1,129 @@
+/**
+ * ============================================================
+ * Vendral – Planogram Optimization Suggestions
+ * ============================================================
+ *
+ * The optimizer's proposal for the selected machine (see
+ * `src/lib/planogram-optimizer.ts`): every suggested slot change with
+ * its reason and expected revenue uplift per day, and the total for
+ * the machine.
+ *
+ * "Apply as draft" opens the proposed layout in the planogram editor
+ * – nothing changes until it is reviewed and saved as a version like
+ * any other edit.
+ * ============================================================
+ */
+
+"use client";
+
+import React from "react";
+import { usePlanogramSuggestionQuery } from "@/lib/queries";
+import { formatISK, getProductById, type VendingMachine } from "@/lib/data";
+import {
+  MIN_OPTIMIZER_HISTORY_HOURS,
+  type PlanogramChangeKind,
+  type PlanogramSuggestionChange,
+} from "@/lib/planogram-optimizer";
+import { type PlanogramSlotEdit } from "@/lib/planogram";
+import { cn } from "@/lib/utils";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Lightbulb, Pencil } from "lucide-react";
+
+/** Same colors as the version diff: product violet, capacity cyan */
+const KIND_STYLES: Record<PlanogramChangeKind, { label: string; className: string }> = {
+  replace: { label: "Replace", className: "bg-violet-500/20 text-violet-400" },
+  facing: { label: "Facing", className: "bg-emerald-500/20 text-emerald-400" },
+  capacity: { label: "Capacity", className: "bg-cyan-500/20 text-cyan-400" },
+};
+
+/** "Snickers → Coca-Cola" / "capacity 8 → 12" */
+function describeChange(change: PlanogramSuggestionChange): string {
+  if (change.kind === "capacity") return `capacity ${change.fromCapacity} → ${change.toCapacity}`;
+  const name = (id: string | null) => (id && getProductById(id)?.name) ?? "Empty";
+  return `${name(change.fromProductId)} → ${name(change.toProductId)}`;
+}
+
+export function PlanogramSuggestions({
+  machine,
+  onApply,
+}: {
+  machine: VendingMachine;
+  /** Open the proposed layout in the editor */
+  onApply: (slots: PlanogramSlotEdit[]) => void;
+}) {
+  const { data: suggestion } = usePlanogramSuggestionQuery(machine.id);
+  if (!suggestion) return null;
+
+  const { changes, revenuePerDay, proposedRevenuePerDay, learnedFromHours } = suggestion;
+  const uplift = proposedRevenuePerDay - revenuePerDay;
+
+  return (
+    <div className="glass-card p-4 space-y-3">
+      <div className="flex items-center gap-2">
+        <Lightbulb className="w-4 h-4 text-amber-400" />
+        <h3 className="text-sm font-semibold text-foreground">Optimization Suggestions</h3>
+        {changes.length > 0 && (
+          <Badge variant="outline" className="text-[10px] text-emerald-400 border-emerald-500/30">
+            +{formatISK(uplift)}/day
+            {revenuePerDay > 0 && ` (+${Math.round((uplift / revenuePerDay) * 100)}%)`}
+          </Badge>
+        )}
+        {changes.length > 0 && (
+          <Button
+            variant="outline"
+            size="sm"
+            className="ml-auto text-xs"
+            onClick={() => onApply(suggestion.slots)}
+          >
+            <Pencil className="w-3.5 h-3.5 mr-1" />
+            Apply as draft
+          </Button>
+        )}
+      </div>
+
+      {learnedFromHours < MIN_OPTIMIZER_HISTORY_HOURS ? (
+        <p className="text-xs text-muted-foreground">
+          Needs at least {MIN_OPTIMIZER_HISTORY_HOURS}h of sales history (has {Math.floor(learnedFromHours)}h).
+          Fast-forward the clock to collect more.
+        </p>
+      ) : revenuePerDay === 0 ? (
+        <p className="text-xs text-muted-foreground">
+          No sales in the last {Math.round(learnedFromHours)}h – nothing to optimize from.
+        </p>
+      ) : changes.length === 0 ? (
+        <p className="text-xs text-muted-foreground">The current layout already fits this machine&apos;s demand.</p>
+      ) : (
+        <>
+          <p className="text-[11px] text-muted-foreground">
+            Expected revenue {formatISK(revenuePerDay)}/day now, {formatISK(proposedRevenuePerDay)}/day with
+            these {changes.length} change{changes.length === 1 ? "" : "s"} – learned from{" "}
+            {Math.round(learnedFromHours)}h of sales, ignoring that customers switch between products.
+          </p>
+          <div className="max-h-64 overflow-y-auto space-y-1 pr-2">
+            {changes.map((change, i) => (
+              <div key={i} className="flex items-start gap-2 p-1.5 rounded-md bg-white/5">
+                <span className="text-[10px] text-muted-foreground w-12 shrink-0">
+                  R{change.row + 1} C{change.col + 1}
+                </span>
+                <Badge className={cn("text-[9px] border-0 shrink-0", KIND_STYLES[change.kind].className)}>
+                  {KIND_STYLES[change.kind].label}
+                </Badge>
+                <div className="min-w-0 flex-1">
+                  <p className="text-[11px] text-foreground">{describeChange(change)}</p>
+                  <p className="text-[10px] text-muted-foreground">{change.reason}</p>
+                </div>
+                <span className={cn(
+                  "text-[10px] shrink-0",
+                  change.upliftPerDay > 0 ? "text-emerald-400" : "text-muted-foreground"
+                )}>
+                  {change.upliftPerDay > 0 ? `+${formatISK(change.upliftPerDay)}/day` : "–"}
+                </span>
+              </div>
+            ))}
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,388 @@
+/**
+ * ============================================================
+ * Vendral – Planogram Versions, Diff & Scheduling
+ * ============================================================
+ *
+ * The parts of the planogram page that deal with versions rather
+ * than with one layout:
+ *
+ *   - PlanogramSaveOptions:   who is saving, why, when the new layout
+ *                             takes effect (now or at a future virtual
+ *                             time) and where (this machine, or every
+ *                             machine of the same cabinet model at its
+ *                             location, as a template)
+ *   - PlanogramVersionHistory: numbered versions with author, times
+ *                             and status; cancel a scheduled one; pick
+ *                             two versions to compare
+ *   - PlanogramDiff:          the two versions side by side as one
+ *                             grid, changed slots highlighted by kind
+ *                             (product / price / capacity), plus a
+ *                             list of every change
+ *
+ * Scheduled versions are applied by the server's clock, so they also
+ * take effect while the simulation is fast-forwarded.
+ * ============================================================
+ */
+
+"use client";
+
+import React, { useState } from "react";
+import { useSimulation } from "@/lib/simulation-context";
+import {
+  usePlanogramVersionsQuery,
+  useCancelPlanogramMutation,
+} from "@/lib/queries";
+import { getProductById, type VendingMachine } from "@/lib/data";
+import { getSlotWidth, type MachineModel } from "@/lib/machine-models";
+import {
+  diffPlanograms,
+  type PlanogramVersion,
+  type PlanogramVersionStatus,
+  type PlanogramSlotChange,
+  type PlanogramSlotEdit,
+} from "@/lib/planogram";
+import { toLocalInput, formatMoment } from "@/components/date-range-picker";
+import { cn } from "@/lib/utils";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { CalendarClock, GitCompare, History, X } from "lucide-react";
+
+// ============================================================
+// SAVE OPTIONS
+// ============================================================
+
+/** How the editor's draft gets saved */
+export interface PlanogramSaveSettings {
+  author: string;
+  note: string;
+  /** "" = take effect now, otherwise a datetime-local value */
+  effectiveAt: string;
+  /** Just this machine, or every machine at its location */
+  target: "machine" | "location";
+}
+
+/** localStorage key remembering the last author name */
+export const PLANOGRAM_AUTHOR_KEY = "vendral.planogram.author";
+
+const inputClass =
+  "w-full py-1 px-2 text-xs bg-white/5 border border-border rounded-md text-foreground " +
+  "placeholder:text-muted-foreground focus:outline-none focus:ring-1 focus:ring-cyan-500/50";
+
+export function PlanogramSaveOptions({
+  machine,
+  machinesAtLocation,
+  settings,
+  onChange,
+}: {
+  machine: VendingMachine;
+  /** How many machines (same model, same location) a rollout would change */
+  machinesAtLocation: number;
+  settings: PlanogramSaveSettings;
+  onChange: (settings: PlanogramSaveSettings) => void;
+}) {
+  const { clock } = useSimulation();
+  const set = (changes: Partial<PlanogramSaveSettings>) => onChange({ ...settings, ...changes });
+
+  return (
+    <div className="glass-card p-3 grid grid-cols-1 md:grid-cols-4 gap-3">
+      <label className="space-y-1">
+        <span className="text-[10px] text-muted-foreground">Author</span>
+        <input
+          value={settings.author}
+          maxLength={60}
+          onChange={(e) => set({ author: e.target.value })}
+          placeholder="Your name"
+          className={inputClass}
+        />
+      </label>
+
+      <label className="space-y-1">
+        <span className="text-[10px] text-muted-foreground">Note</span>
+        <input
+          value={settings.note}
+          maxLength={200}
+          onChange={(e) => set({ note: e.target.value })}
+          placeholder="e.g. Summer drinks"
+          className={inputClass}
+        />
+      </label>
+
+      {/* When: now, or a scheduled virtual time */}
+      <div className="space-y-1">
+        <span className="text-[10px] text-muted-foreground">Takes effect</span>
+        <div className="flex items-center gap-1">
+          <button
+            onClick={() => set({ effectiveAt: "" })}
+            className={cn(
+              "text-[10px] px-2 py-1 rounded-md transition-colors",
+              !settings.effectiveAt
+                ? "bg-cyan-500/20 text-cyan-400"
+                : "bg-white/5 text-muted-foreground hover:bg-white/10"
+            )}
+          >
+            Now
+          </button>
+          <input
+            type="datetime-local"
+            value={settings.effectiveAt}
+            min={toLocalInput(clock.time)}
+            onChange={(e) => set({ effectiveAt: e.target.value })}
+            className="flex-1 min-w-0 h-7 bg-white/5 border border-white/10 rounded-md px-2 text-[11px] text-foreground"
+            aria-label="Scheduled time"
+          />
+        </div>
+      </div>
+
+      {/* Where: this machine, or all machines at the location */}
+      <div className="space-y-1">
+        <span className="text-[10px] text-muted-foreground">Apply to</span>
+        <div className="flex flex-wrap gap-1">
+          {(["machine", "location"] as const).map((target) => (
+            <button
+              key={target}
+              onClick={() => set({ target })}
+              className={cn(
+                "text-[10px] px-2 py-1 rounded-md transition-colors",
+                settings.target === target
+                  ? "bg-cyan-500/20 text-cyan-400"
+                  : "bg-white/5 text-muted-foreground hover:bg-white/10"
+              )}
+            >
+              {target === "machine"
+                ? machine.id
+                : `All ${machinesAtLocation} ${machine.model.name}s at ${machine.location.name}`}
+            </button>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+}
+
+// ============================================================
+// DIFF
+// ============================================================
+
+/** Highlight per kind of change; product wins over price over capacity */
+function changeColor(change: PlanogramSlotChange): string {
+  if (change.productChanged) return "bg-violet-500/20 border-violet-500/50";
+  if (change.priceChanged) return "bg-amber-500/20 border-amber-500/50";
+  return "bg-cyan-500/20 border-cyan-500/50";
+}
+
+/** "Cola 0.5L" / "Empty" */
+function slotName(slot: PlanogramSlotEdit | null): string {
+  const product = slot?.productId ? getProductById(slot.productId) : null;
+  return product?.name ?? "Empty";
+}
+
+/** One line describing a slot change: "Cola → Water · 250 → 300 kr" */
+function describeChange(change: PlanogramSlotChange): string {
+  const parts: string[] = [];
+  if (change.productChanged) parts.push(`${slotName(change.before)} → ${slotName(change.after)}`);
+  if (change.priceChanged) parts.push(`${change.before!.price} → ${change.after!.price} kr`);
+  if (change.capacityChanged) parts.push(`capacity ${change.before!.maxStock} → ${change.after!.maxStock}`);
+  return parts.join(" · ");
+}
+
+export function PlanogramDiff({
+  model,
+  before,
+  after,
+}: {
+  model: MachineModel;
+  before: PlanogramVersion;
+  after: PlanogramVersion;
+}) {
+  const changes = diffPlanograms(before.slots, after.slots);
+  const changeAt = new Map(changes.map(c => [`${c.row}-${c.col}`, c]));
+
+  return (
+    <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+      {/* The newer layout, changed slots highlighted */}
+      <div className="space-y-1">
+        {model.rows.map((widths, row) => (
+          <div key={row} className="flex gap-1">
+            {widths.map((_, col) => {
+              const slot = after.slots.find(s => s.row === row && s.col === col) ?? null;
+              const change = changeAt.get(`${row}-${col}`);
+              const product = slot?.productId ? getProductById(slot.productId) : null;
+              return (
+                <div
+                  key={col}
+                  title={change ? describeChange(change) : slotName(slot)}
+                  style={{ flex: getSlotWidth(model, row, col) }}
+                  className={cn(
+                    "min-w-0 h-7 rounded border flex items-center justify-center text-xs",
+                    change ? changeColor(change) : "border-white/5 bg-white/5 opacity-50"
+                  )}
+                >
+                  {product?.icon ?? "·"}
+                </div>
+              );
+            })}
+          </div>
+        ))}
+        <div className="flex items-center gap-3 pt-1 text-[9px] text-muted-foreground">
+          <span className="flex items-center gap-1"><span className="w-2 h-2 rounded bg-violet-500" />Product</span>
+          <span className="flex items-center gap-1"><span className="w-2 h-2 rounded bg-amber-500" />Price</span>
+          <span className="flex items-center gap-1"><span className="w-2 h-2 rounded bg-cyan-500" />Capacity</span>
+        </div>
+      </div>
+
+      {/* Every change as text */}
+      <div>
+        <p className="text-xs text-muted-foreground mb-2">
+          v{before.version} → v{after.version}: {changes.length} slot{changes.length === 1 ? "" : "s"} changed
+        </p>
+        <ScrollArea className="h-64">
+          <div className="space-y-1">
+            {changes.map((change) => (
+              <div key={`${change.row}-${change.col}`} className="flex items-start gap-2 p-1.5 rounded-md bg-white/5">
+                <span className="text-[10px] text-muted-foreground w-12 shrink-0">
+                  R{change.row + 1} C{change.col + 1}
+                </span>
+                <span className="text-[11px] text-foreground">{describeChange(change)}</span>
+              </div>
+            ))}
+          </div>
+        </ScrollArea>
+      </div>
+    </div>
+  );
+}
+
+// ============================================================
+// VERSION HISTORY
+// ============================================================
+
+const STATUS_STYLES: Record<PlanogramVersionStatus, string> = {
+  active: "bg-emerald-500/20 text-emerald-400",
+  scheduled: "bg-cyan-500/20 text-cyan-400",
+  superseded: "bg-white/5 text-muted-foreground",
+  cancelled: "bg-rose-500/10 text-rose-400/70",
+};
+
+export function PlanogramVersionHistory({ machine }: { machine: VendingMachine }) {
+  const { historyRange } = useSimulation();
+  const { data } = usePlanogramVersionsQuery(machine.id);
+  const cancel = useCancelPlanogramMutation();
+  // The two versions being compared (null = pick the obvious pair)
+  const [compare, setCompare] = useState<[number, number] | null>(null);
+
+  const versions = data?.versions ?? [];
+  if (versions.length === 0) return null;
+
+  // Default comparison: the active version against the one before it
+  const latest = versions.find(v => v.status === "active") ?? versions[0];
+  const previous = versions.find(v => v.version < latest.version && v.status !== "cancelled");
+  const [fromNumber, toNumber] = compare ?? [previous?.version ?? latest.version, latest.version];
+  const before = versions.find(v => v.version === fromNumber);
+  const after = versions.find(v => v.version === toNumber);
+
+  /** Clicking a version makes it the newer side; the older side follows if needed */
+  function pick(version: number) {
+    setCompare(version <= fromNumber
+      ? [versions.find(v => v.version < version)?.version ?? version, version]
+      : [fromNumber, version]);
+  }
+
+  return (
+    <div className="glass-card p-4 space-y-4">
+      <div className="flex items-center gap-2">
+        <History className="w-4 h-4 text-cyan-400" />
+        <h3 className="text-sm font-semibold text-foreground">Version History</h3>
+        <Badge variant="outline" className="text-[10px] text-muted-foreground">
+          {versions.length} version{versions.length === 1 ? "" : "s"}
+        </Badge>
+      </div>
+      {cancel.error && <p className="text-xs text-rose-400">{cancel.error.message}</p>}
+
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-4">
+        {/* Version list */}
+        <ScrollArea className="h-80">
+          <div className="space-y-1 pr-2">
+            {versions.map((v) => (
+              <div
+                key={v.version}
+                onClick={() => pick(v.version)}
+                className={cn(
+                  "p-2 rounded-lg cursor-pointer transition-colors",
+                  v.version === toNumber || v.version === fromNumber
+                    ? "bg-cyan-500/10 ring-1 ring-cyan-500/30"
+                    : "bg-white/5 hover:bg-white/10"
+                )}
+              >
+                <div className="flex items-center gap-2">
+                  <span className="text-xs font-semibold text-foreground">v{v.version}</span>
+                  <Badge className={cn("text-[9px] border-0 capitalize", STATUS_STYLES[v.status])}>
+                    {v.status}
+                  </Badge>
+                  {v.rolloutId && (
+                    <span className="text-[9px] text-muted-foreground">location rollout</span>
+                  )}
+                  {v.status === "scheduled" && !historyRange && (
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      className="ml-auto h-5 px-1.5 text-[10px] text-rose-400 hover:text-rose-300"
+                      disabled={cancel.isPending}
+                      onClick={(e) => {
+                        e.stopPropagation();
+                        cancel.mutate({ machineId: machine.id, version: v.version });
+                      }}
+                    >
+                      <X className="w-3 h-3 mr-0.5" />
+                      Cancel
+                    </Button>
+                  )}
+                </div>
+                <p className="text-[10px] text-muted-foreground mt-0.5">
+                  {v.author} · saved {formatMoment(v.createdAt)}
+                </p>
+                {v.status === "scheduled" && (
+                  <p className="text-[10px] text-cyan-400 flex items-center gap-1">
+                    <CalendarClock className="w-3 h-3" />
+                    takes effect {formatMoment(v.effectiveAt)}
+                  </p>
+                )}
+                {v.note && <p className="text-[11px] text-foreground/80 mt-0.5">{v.note}</p>}
+              </div>
+            ))}
+          </div>
+        </ScrollArea>
+
+        {/* Diff of the selected pair */}
+        <div className="lg:col-span-2 space-y-2">
+          <div className="flex items-center gap-2 text-xs text-muted-foreground">
+            <GitCompare className="w-3.5 h-3.5" />
+            <span>Compare</span>
+            <select
+              value={fromNumber}
+              onChange={(e) => setCompare([Number(e.target.value), toNumber])}
+              className="bg-white/5 border border-border rounded-md px-1.5 py-0.5 text-xs text-foreground"
+              aria-label="Older version"
+            >
+              {versions.map(v => <option key={v.version} value={v.version}>v{v.version}</option>)}
+            </select>
+            <span>→</span>
+            <select
+              value={toNumber}
+              onChange={(e) => setCompare([fromNumber, Number(e.target.value)])}
+              className="bg-white/5 border border-border rounded-md px-1.5 py-0.5 text-xs text-foreground"
+              aria-label="Newer version"
+            >
+              {versions.map(v => <option key={v.version} value={v.version}>v{v.version}</option>)}
+            </select>
+          </div>
+          {before && after && before.version !== after.version ? (
+            <PlanogramDiff model={machine.model} before={before} after={after} />
+          ) : (
+            <p className="text-xs text-muted-foreground">Pick two different versions to compare.</p>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
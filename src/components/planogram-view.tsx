@@ -4,7 +4,8 @@
  * ============================================================
  *
  * A visual grid representation of a vending machine's product layout.
- * 10 rows × 6 columns = 60 slots.
+ * The grid follows the machine's cabinet model (`machine-models.ts`):
+ * shelves of spirals, belts or lockers, some of them double-wide.
  *
  * Each slot shows:
  *   - Product emoji icon
@@ -12,12 +13,37 @@
  *   - Vertical stock level indicator
  *   - Color coding:
  *     🔴 Red    = Out of stock (0 items)
- *     🟠 Orange = Low stock (1-2 items)
+ *     🟠 Orange = Low stock (1-2 items, see `getStockLevel`)
  *     🔵 Blue   = Full/adequate stock (3+ items)
  *
+ * Perishable slots with units near their use-by time get a ⏳ badge;
+ * the tooltip lists the slot's batches. In live mode every slot also
+ * shows its predicted time-to-empty (red if before the next restock
+ * visit), with sales velocity and par level in the tooltip (see
+ * `src/lib/forecast.ts`).
+ *
  * RESTOCK OPTIMIZER:
  * A button that highlights the slots needing the most attention,
- * sorted by urgency (out of stock first, then low stock).
+ * sorted by urgency (out of stock first, then low stock). "Restock
+ * from warehouse" tops the machine up with warehouse stock.
+ *
+ * EDIT MODE:
+ * "Edit Planogram" turns the grid into an editor working on a local
+ * draft: drag products from the catalog into slots, drag a slot onto
+ * another to swap them, drag a slot back to the catalog (or press
+ * "Clear slot") to empty it, and set price / capacity per slot.
+ * Saving sends the draft to the server as the machine's next
+ * planogram version – now or scheduled for later, for this machine
+ * or as a template for its whole location (see
+ * `planogram-versions.tsx`, which also shows the version history and
+ * diffs). Uses the browser's native drag-and-drop (dataTransfer), so
+ * no extra library.
+ *
+ * SUGGESTIONS:
+ * Below the grid (live mode), the optimizer proposes a better layout
+ * from sales velocity (see `planogram-suggestions.tsx`); "Apply as
+ * draft" opens it in the editor, where it is reviewed and saved like
+ * any other edit.
  *
  * PLANOGRAM CONCEPT:
  * A "planogram" is a retail merchandising diagram that shows where
@@ -30,12 +56,45 @@
 
 import React, { useState, useMemo } from "react";
 import { useSimulation } from "@/lib/simulation-context";
+import {
+  useSavePlanogramMutation,
+  useRollOutPlanogramMutation,
+  useCreateTransferMutation,
+  useStockForecastQuery,
+} from "@/lib/queries";
 import {
   formatISK,
   getProductById,
+  getStockLevel,
+  PRODUCTS,
+  type Product,
   type VendingMachine,
   type PlanogramSlot,
 } from "@/lib/data";
+import {
+  assignProduct,
+  swapSlots,
+  clearSlot,
+  updateSlot,
+  diffPlanograms,
+  validatePlanogram,
+  MIN_SLOT_PRICE,
+  MAX_SLOT_PRICE,
+  MIN_SLOT_CAPACITY,
+  applyPlanogram,
+  type PlanogramSlotEdit,
+} from "@/lib/planogram";
+import { describeModel, getSlotWidth, type MachineModel } from "@/lib/machine-models";
+import { formatTimeLeft, getExpiryLevel, getNextExpiry } from "@/lib/expiry";
+import { formatHoursUntil, type SlotForecast } from "@/lib/forecast";
+import {
+  PlanogramSaveOptions,
+  PlanogramVersionHistory,
+  PLANOGRAM_AUTHOR_KEY,
+  type PlanogramSaveSettings,
+} from "@/components/planogram-versions";
+import { PlanogramSuggestions } from "@/components/planogram-suggestions";
+import { formatMoment, fromLocalInput } from "@/components/date-range-picker";
 import { cn } from "@/lib/utils";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
@@ -48,6 +107,12 @@ import {
 import {
   PackageSearch,
   ArrowLeft,
+  Pencil,
+  Save,
+  X,
+  Eraser,
+  Search,
+  Truck,
 } from "lucide-react";
 import { motion } from "framer-motion";
 
@@ -59,11 +124,10 @@ import { motion } from "framer-motion";
  * Determine the background color class for a planogram slot
  * based on its stock level.
  */
-function getSlotColor(stock: number, maxStock: number): string {
-  // maxStock is available for future threshold logic (e.g., percentage-based)
-  void maxStock;
-  if (stock === 0) return "bg-rose-500/20 border-rose-500/40"; // Out of stock
-  if (stock <= 2) return "bg-amber-500/20 border-amber-500/40"; // Low stock
+function getSlotColor(slot: PlanogramSlot): string {
+  const level = getStockLevel(slot);
+  if (level === "empty") return "bg-rose-500/20 border-rose-500/40"; // Out of stock
+  if (level === "low") return "bg-amber-500/20 border-amber-500/40"; // Low stock
   return "bg-cyan-500/10 border-cyan-500/20"; // Adequate
 }
 
@@ -78,9 +142,10 @@ function getStockPercent(stock: number, maxStock: number): number {
 /**
  * Get text color for the stock level.
  */
-function getStockTextColor(stock: number): string {
-  if (stock === 0) return "text-rose-400";
-  if (stock <= 2) return "text-amber-400";
+function getStockTextColor(slot: PlanogramSlot): string {
+  const level = getStockLevel(slot);
+  if (level === "empty") return "text-rose-400";
+  if (level === "low") return "text-amber-400";
   return "text-cyan-400";
 }
 
@@ -88,21 +153,57 @@ function getStockTextColor(stock: number): string {
 // PLANOGRAM GRID COMPONENT
 // ============================================================
 
+/** dataTransfer types for the editor's drag-and-drop */
+const DRAG_PRODUCT = "application/x-vendral-product";
+const DRAG_SLOT = "application/x-vendral-slot";
+
+/** Editor state handed to the grid in edit mode */
+interface PlanogramEditor {
+  /** Draft being edited (same order as machine.planogram) */
+  draft: PlanogramSlot[];
+  /** "row-col" keys of slots that differ from the saved planogram */
+  changed: Set<string>;
+  /** Index of the slot shown in the inspector */
+  selected: number | null;
+  onSelect: (index: number) => void;
+  /** A product or another slot was dropped onto slot `index` */
+  onDrop: (index: number, drop: { productId?: string; fromSlot?: number }) => void;
+}
+
+/** Read what was dropped: a catalog product or a slot index */
+function readDrop(e: React.DragEvent): { productId?: string; fromSlot?: number } {
+  const productId = e.dataTransfer.getData(DRAG_PRODUCT);
+  const fromSlot = e.dataTransfer.getData(DRAG_SLOT);
+  return productId ? { productId } : fromSlot ? { fromSlot: Number(fromSlot) } : {};
+}
+
 function PlanogramGrid({
   machine,
   highlightRestock,
+  now,
+  forecast,
+  editor,
 }: {
   machine: VendingMachine;
   /** When true, animate slots that need restocking */
   highlightRestock: boolean;
+  /** Time the stock is shown at (for use-by badges) */
+  now: Date;
+  /** Live mode: the machine's slot forecasts by "row-col" */
+  forecast?: Map<string, SlotForecast>;
+  /** Present in edit mode: render the draft as drag-and-drop targets */
+  editor?: PlanogramEditor;
 }) {
-  // Organize slots into a 2D grid for rendering
-  const grid: PlanogramSlot[][] = [];
-  for (let row = 0; row < 10; row++) {
-    grid.push(
-      machine.planogram.filter(slot => slot.row === row).sort((a, b) => a.col - b.col)
-    );
-  }
+  const slots = editor?.draft ?? machine.planogram;
+  const { model } = machine;
+
+  // Organize slots into the cabinet's shelves (keeping each slot's index)
+  const grid: { slot: PlanogramSlot; index: number }[][] = model.rows.map((_, row) =>
+    slots
+      .map((slot, index) => ({ slot, index }))
+      .filter(({ slot }) => slot.row === row)
+      .sort((a, b) => a.slot.col - b.slot.col)
+  );
 
   return (
     <div className="space-y-1">
@@ -114,25 +215,47 @@ function PlanogramGrid({
             {rowIndex + 1}
           </span>
 
-          {/* Slot cells */}
-          <div className="flex gap-1 flex-1">
-            {row.map((slot) => {
+          {/* Slot cells – a shelf is as tall as the model's shelves, slots as wide as their spirals */}
+          <div
+            className="flex gap-1 flex-1"
+            style={{ aspectRatio: `${model.width} / ${model.rowHeight}` }}
+          >
+            {row.map(({ slot, index }) => {
+              const width = getSlotWidth(model, slot.row, slot.col);
+              if (editor) {
+                return (
+                  <EditableSlot
+                    key={`${slot.row}-${slot.col}`}
+                    slot={slot}
+                    index={index}
+                    width={width}
+                    editor={editor}
+                    changed={editor.changed.has(`${slot.row}-${slot.col}`)}
+                  />
+                );
+              }
+
               const product = slot.productId
                 ? getProductById(slot.productId)
                 : null;
-              const needsRestock = slot.stock <= 2;
+              const needsRestock = getStockLevel(slot) !== "ok";
               const shouldHighlight = highlightRestock && needsRestock;
+              const nextExpiry = getNextExpiry(slot);
+              const predicted = forecast?.get(`${slot.row}-${slot.col}`);
+              // Runs empty before the machine's next restock visit
+              const atRisk = predicted?.emptyAt != null && predicted.emptyAt < predicted.nextVisit;
 
               return (
                 <Tooltip key={`${slot.row}-${slot.col}`}>
                   <TooltipTrigger asChild>
                     <motion.div
+                      style={{ flex: width }}
                       className={cn(
-                        "flex-1 aspect-square rounded-md border p-1",
+                        "relative min-w-0 rounded-md border p-1",
                         "flex flex-col items-center justify-center gap-0.5",
                         "transition-all duration-300 cursor-pointer",
                         "hover:scale-105",
-                        getSlotColor(slot.stock, slot.maxStock),
+                        getSlotColor(slot),
                         // Pulsing animation when restock optimizer is active
                         shouldHighlight && "ring-2 ring-rose-500/50"
                       )}
@@ -147,6 +270,13 @@ function PlanogramGrid({
                           : {}
                       }
                     >
+                      {/* Use-by badge: perishable units expiring soon */}
+                      {nextExpiry && getExpiryLevel(slot, now) === "soon" && (
+                        <span className="absolute -top-1.5 -right-1 px-1 rounded bg-amber-500/90 text-[7px] font-semibold text-black leading-tight">
+                          ⏳{formatTimeLeft(nextExpiry, now)}
+                        </span>
+                      )}
+
                       {/* Product icon (emoji) */}
                       <span className="text-sm leading-none">
                         {product?.icon ?? "📦"}
@@ -162,13 +292,23 @@ function PlanogramGrid({
                         <div
                           className={cn(
                             "h-full rounded-full transition-all duration-500",
-                            slot.stock === 0 && "bg-rose-500",
-                            slot.stock > 0 && slot.stock <= 2 && "bg-amber-500",
-                            slot.stock > 2 && "bg-cyan-500"
+                            getStockLevel(slot) === "empty" && "bg-rose-500",
+                            getStockLevel(slot) === "low" && "bg-amber-500",
+                            getStockLevel(slot) === "ok" && "bg-cyan-500"
                           )}
                           style={{ width: `${getStockPercent(slot.stock, slot.maxStock)}%` }}
                         />
                       </div>
+
+                      {/* Predicted time-to-empty */}
+                      {predicted && slot.stock > 0 && (
+                        <span className={cn(
+                          "text-[7px] leading-none",
+                          atRisk ? "text-rose-400 font-semibold" : "text-muted-foreground"
+                        )}>
+                          {predicted.emptyAt ? `~${formatHoursUntil(predicted.emptyAt, now)}` : "14d+"}
+                        </span>
+                      )}
                     </motion.div>
                   </TooltipTrigger>
                   {/* Tooltip with full details on hover */}
@@ -182,11 +322,35 @@ function PlanogramGrid({
                     <p className="text-[10px] text-muted-foreground">
                       Price: {formatISK(slot.price)}
                     </p>
-                    <p className={cn("text-[10px] font-medium", getStockTextColor(slot.stock))}>
+                    <p className={cn("text-[10px] font-medium", getStockTextColor(slot))}>
                       Stock: {slot.stock} / {slot.maxStock}
-                      {slot.stock === 0 && " ⚠️ OUT OF STOCK"}
-                      {slot.stock > 0 && slot.stock <= 2 && " ⚠️ LOW"}
+                      {getStockLevel(slot) === "empty" && " ⚠️ OUT OF STOCK"}
+                      {getStockLevel(slot) === "low" && " ⚠️ LOW"}
                     </p>
+                    {predicted && (
+                      <p className={cn("text-[10px]", atRisk ? "text-rose-400" : "text-muted-foreground")}>
+                        Sells ~{predicted.ratePerHour.toFixed(2)}/h ·{" "}
+                        {slot.stock === 0
+                          ? "empty"
+                          : predicted.emptyAt
+                            ? `empty in ~${formatHoursUntil(predicted.emptyAt, now)} (${formatMoment(predicted.emptyAt)})`
+                            : "lasts over 14 days"}
+                        {atRisk && " – before the next visit"}
+                      </p>
+                    )}
+                    {predicted && (
+                      <p className="text-[10px] text-muted-foreground">
+                        Par level: {predicted.parLevel}
+                        {predicted.parDemand > slot.maxStock && ` (needs ${predicted.parDemand} – more than fits)`}
+                      </p>
+                    )}
+                    {/* Perishables: stock per batch, earliest use-by first */}
+                    {slot.batches?.map((batch) => (
+                      <p key={`${batch.lot}-${batch.expiresAt.getTime()}`} className="text-[10px] text-muted-foreground">
+                        Lot {batch.lot}: {batch.quantity} · use by {formatMoment(batch.expiresAt)}
+                        {" "}({formatTimeLeft(batch.expiresAt, now)} left)
+                      </p>
+                    ))}
                   </TooltipContent>
                 </Tooltip>
               );
@@ -195,13 +359,260 @@ function PlanogramGrid({
         </div>
       ))}
 
-      {/* Column labels at the bottom */}
-      <div className="flex gap-1 ml-5">
-        {[1, 2, 3, 4, 5, 6].map(col => (
-          <div key={col} className="flex-1 text-center">
-            <span className="text-[9px] text-muted-foreground">{col}</span>
+    </div>
+  );
+}
+
+/**
+ * One slot in edit mode: draggable when filled, a drop target for
+ * products and other slots, click to inspect. Shows capacity instead
+ * of stock – stock is settled by the server on save.
+ */
+function EditableSlot({
+  slot,
+  index,
+  width,
+  editor,
+  changed,
+}: {
+  slot: PlanogramSlot;
+  index: number;
+  /** Slot width in cabinet units */
+  width: number;
+  editor: PlanogramEditor;
+  /** Differs from the saved planogram */
+  changed: boolean;
+}) {
+  const [dragOver, setDragOver] = useState(false);
+  const product = slot.productId ? getProductById(slot.productId) : null;
+
+  return (
+    <div
+      draggable={!!product}
+      onDragStart={(e) => {
+        e.dataTransfer.setData(DRAG_SLOT, String(index));
+        e.dataTransfer.effectAllowed = "move";
+      }}
+      onDragOver={(e) => {
+        e.preventDefault(); // Allow dropping here
+        setDragOver(true);
+      }}
+      onDragLeave={() => setDragOver(false)}
+      onDrop={(e) => {
+        e.preventDefault();
+        setDragOver(false);
+        editor.onDrop(index, readDrop(e));
+      }}
+      onClick={() => editor.onSelect(index)}
+      title={product ? product.name : "Empty slot"}
+      style={{ flex: width }}
+      className={cn(
+        "min-w-0 rounded-md border p-1",
+        "flex flex-col items-center justify-center gap-0.5",
+        "transition-colors cursor-pointer select-none",
+        product ? "bg-white/5 border-white/10" : "border-dashed border-white/10",
+        changed && "border-cyan-500/50 bg-cyan-500/10",
+        dragOver && "ring-2 ring-cyan-400",
+        editor.selected === index && "ring-2 ring-amber-400"
+      )}
+    >
+      <span className="text-sm leading-none">{product?.icon ?? "·"}</span>
+      {product && (
+        <>
+          <span className="text-[8px] text-muted-foreground leading-none">
+            {slot.price} kr
+          </span>
+          <span className="text-[8px] text-cyan-400/80 leading-none">×{slot.maxStock}</span>
+        </>
+      )}
+    </div>
+  );
+}
+
+// ============================================================
+// EDITOR SIDEBAR (slot inspector + product catalog)
+// ============================================================
+
+const CATALOG_CATEGORIES: ("" | Product["category"])[] = ["", "beverage", "snack", "candy", "fresh"];
+
+/** Number input that reports whole numbers only */
+function NumberField({
+  label,
+  value,
+  min,
+  max,
+  onChange,
+}: {
+  label: string;
+  value: number;
+  min: number;
+  max: number;
+  onChange: (value: number) => void;
+}) {
+  return (
+    <label className="flex-1 space-y-1">
+      <span className="text-[10px] text-muted-foreground">{label}</span>
+      <input
+        type="number"
+        value={value}
+        min={min}
+        max={max}
+        onChange={(e) => onChange(Math.round(Number(e.target.value)))}
+        className="w-full py-1 px-2 text-xs bg-white/5 border border-border rounded-md text-foreground focus:outline-none focus:ring-1 focus:ring-cyan-500/50"
+      />
+    </label>
+  );
+}
+
+function PlanogramEditorPanel({
+  model,
+  draft,
+  selected,
+  onChange,
+}: {
+  model: MachineModel;
+  draft: PlanogramSlot[];
+  selected: number | null;
+  onChange: (draft: PlanogramSlot[]) => void;
+}) {
+  const [search, setSearch] = useState("");
+  const [category, setCategory] = useState<"" | Product["category"]>("");
+  const [catalogDragOver, setCatalogDragOver] = useState(false);
+
+  const slot = selected !== null ? draft[selected] : null;
+  const product = slot?.productId ? getProductById(slot.productId) : null;
+
+  // Only what the cabinet can hold (no sandwiches in a drink cooler)
+  const categories = CATALOG_CATEGORIES.filter(c => !c || model.categories.includes(c));
+  const catalog = PRODUCTS.filter(p =>
+    model.categories.includes(p.category) &&
+    (!category || p.category === category) &&
+    (!search || p.name.toLowerCase().includes(search.toLowerCase()))
+  );
+
+  return (
+    <div className="space-y-3">
+      {/* Selected slot */}
+      {slot ? (
+        <div className="p-3 rounded-lg bg-white/5 space-y-2">
+          <div className="flex items-center gap-2">
+            <span className="text-lg">{product?.icon ?? "·"}</span>
+            <div className="flex-1 min-w-0">
+              <p className="text-xs font-semibold text-foreground truncate">
+                {product?.name ?? "Empty slot"}
+              </p>
+              <p className="text-[10px] text-muted-foreground">
+                Row {slot.row + 1}, Col {slot.col + 1}
+                {product && ` · list price ${formatISK(product.price)}`}
+              </p>
+            </div>
+          </div>
+          {product && (
+            <>
+              <div className="flex gap-2">
+                <NumberField
+                  label="Price (ISK)"
+                  value={slot.price}
+                  min={MIN_SLOT_PRICE}
+                  max={MAX_SLOT_PRICE}
+                  onChange={(price) => onChange(updateSlot(draft, selected!, { price }))}
+                />
+                {/* Lockers always hold exactly one item */}
+                {model.maxCapacity > MIN_SLOT_CAPACITY && (
+                  <NumberField
+                    label="Capacity"
+                    value={slot.maxStock}
+                    min={MIN_SLOT_CAPACITY}
+                    max={model.maxCapacity}
+                    onChange={(maxStock) => onChange(updateSlot(draft, selected!, { maxStock }))}
+                  />
+                )}
+              </div>
+              <Button
+                variant="ghost"
+                size="sm"
+                className="w-full text-xs text-rose-400 hover:text-rose-300"
+                onClick={() => onChange(clearSlot(draft, selected!))}
+              >
+                <Eraser className="w-3.5 h-3.5 mr-1" />
+                Clear slot
+              </Button>
+            </>
+          )}
+        </div>
+      ) : (
+        <p className="text-xs text-muted-foreground">
+          Drag a product onto a slot, or a slot onto another to swap them.
+          Click a slot to change its price and capacity.
+        </p>
+      )}
+
+      {/* Product catalog (also a drop zone that clears dragged slots) */}
+      <div
+        onDragOver={(e) => {
+          if (!e.dataTransfer.types.includes(DRAG_SLOT)) return;
+          e.preventDefault();
+          setCatalogDragOver(true);
+        }}
+        onDragLeave={() => setCatalogDragOver(false)}
+        onDrop={(e) => {
+          e.preventDefault();
+          setCatalogDragOver(false);
+          const { fromSlot } = readDrop(e);
+          if (fromSlot !== undefined) onChange(clearSlot(draft, fromSlot));
+        }}
+        className={cn(
+          "space-y-2 rounded-lg transition-colors",
+          catalogDragOver && "ring-2 ring-rose-400/60 bg-rose-500/5"
+        )}
+      >
+        <h4 className="text-xs font-semibold text-foreground">Product Catalog</h4>
+        <div className="relative">
+          <Search className="absolute left-2 top-1/2 -translate-y-1/2 w-3.5 h-3.5 text-muted-foreground" />
+          <input
+            value={search}
+            onChange={(e) => setSearch(e.target.value)}
+            placeholder="Search products…"
+            className="w-full py-1.5 pl-7 pr-2 text-xs bg-white/5 border border-border rounded-lg text-foreground placeholder:text-muted-foreground focus:outline-none focus:ring-1 focus:ring-cyan-500/50"
+          />
+        </div>
+        <div className="flex flex-wrap gap-1">
+          {categories.map((c) => (
+            <button
+              key={c || "all"}
+              onClick={() => setCategory(c)}
+              className={cn(
+                "text-[10px] px-2 py-0.5 rounded-md capitalize transition-colors",
+                category === c
+                  ? "bg-cyan-500/20 text-cyan-400"
+                  : "bg-white/5 text-muted-foreground hover:bg-white/10"
+              )}
+            >
+              {c || "all"}
+            </button>
+          ))}
+        </div>
+        <ScrollArea className="h-64">
+          <div className="space-y-1">
+            {catalog.map((p) => (
+              <div
+                key={p.id}
+                draggable
+                onDragStart={(e) => {
+                  e.dataTransfer.setData(DRAG_PRODUCT, p.id);
+                  e.dataTransfer.effectAllowed = "copy";
+                }}
+                // Without drag-and-drop: click to fill the selected slot
+                onClick={() => selected !== null && onChange(assignProduct(draft, selected, p.id))}
+                className="flex items-center gap-2 p-1.5 rounded-lg bg-white/5 hover:bg-white/10 cursor-grab active:cursor-grabbing"
+              >
+                <span className="text-sm">{p.icon}</span>
+                <span className="flex-1 min-w-0 text-xs text-foreground truncate">{p.name}</span>
+                <span className="text-[10px] text-muted-foreground">{p.price} kr</span>
+              </div>
+            ))}
           </div>
-        ))}
+        </ScrollArea>
       </div>
     </div>
   );
@@ -211,11 +622,13 @@ function PlanogramGrid({
 // RESTOCK SUMMARY SIDEBAR
 // ============================================================
 
-function RestockSummary({ machine }: { machine: VendingMachine }) {
+/** `live` is false in historical mode – restocking changes today's machine */
+function RestockSummary({ machine, live }: { machine: VendingMachine; live: boolean }) {
+  const restock = useCreateTransferMutation();
   // Calculate restock needs
-  const outOfStock = machine.planogram.filter(s => s.stock === 0);
-  const lowStock = machine.planogram.filter(s => s.stock > 0 && s.stock <= 2);
-  const adequate = machine.planogram.filter(s => s.stock > 2);
+  const outOfStock = machine.planogram.filter(s => getStockLevel(s) === "empty");
+  const lowStock = machine.planogram.filter(s => getStockLevel(s) === "low");
+  const adequate = machine.planogram.filter(s => getStockLevel(s) === "ok");
 
   // Group restocking needs by product
   const restockItems: {
@@ -271,7 +684,20 @@ function RestockSummary({ machine }: { machine: VendingMachine }) {
       </div>
 
       {/* Restock list */}
-      <h4 className="text-xs font-semibold text-foreground">Restock Priority</h4>
+      <div className="flex items-center">
+        <h4 className="text-xs font-semibold text-foreground">Restock Priority</h4>
+        <Button
+          variant="ghost"
+          size="sm"
+          className="ml-auto h-6 text-[10px] px-2"
+          disabled={!live || restock.isPending}
+          onClick={() => restock.mutate({ machineId: machine.id, complete: true })}
+        >
+          <Truck className="w-3 h-3 mr-1" />
+          Restock from warehouse
+        </Button>
+      </div>
+      {restock.error && <p className="text-[10px] text-rose-400">{restock.error.message}</p>}
       <ScrollArea className="h-75">
         {restockItems.length === 0 ? (
           <p className="text-xs text-muted-foreground">All slots adequately stocked!</p>
@@ -319,10 +745,8 @@ function PlanogramMachinePicker({
       </p>
       <div className="grid grid-cols-2 sm:grid-cols-3 md:grid-cols-4 gap-2">
         {machines.map((machine) => {
-          const emptySlots = machine.planogram.filter(s => s.stock === 0).length;
-          const lowSlots = machine.planogram.filter(
-            s => s.stock > 0 && s.stock <= 2
-          ).length;
+          const emptySlots = machine.planogram.filter(s => getStockLevel(s) === "empty").length;
+          const lowSlots = machine.planogram.filter(s => getStockLevel(s) === "low").length;
 
           return (
             <button
@@ -348,9 +772,12 @@ function PlanogramMachinePicker({
                   {machine.id}
                 </span>
               </div>
-              <p className="text-[10px] text-muted-foreground truncate mb-1">
+              <p className="text-[10px] text-muted-foreground truncate">
                 {machine.name}
               </p>
+              <p className="text-[9px] text-muted-foreground/70 truncate mb-1">
+                {machine.model.name}
+              </p>
               {(emptySlots > 0 || lowSlots > 0) && (
                 <div className="flex gap-2">
                   {emptySlots > 0 && (
@@ -378,21 +805,117 @@ function PlanogramMachinePicker({
 // ============================================================
 
 export function PlanogramView() {
-  const { machines, selectedMachine, selectMachine } = useSimulation();
+  const { machines, selectedMachine, selectMachine, historyRange, clock, viewTime } = useSimulation();
   const [localMachine, setLocalMachine] = useState<VendingMachine | null>(null);
   const [highlightRestock, setHighlightRestock] = useState(false);
 
+  // Edit mode: a local draft plus the version it was started from
+  const [draft, setDraft] = useState<PlanogramSlot[] | null>(null);
+  const [baseVersion, setBaseVersion] = useState(0);
+  const [selectedSlot, setSelectedSlot] = useState<number | null>(null);
+  // Author is remembered between sessions; read lazily (browser only)
+  const [saveSettings, setSaveSettings] = useState<PlanogramSaveSettings>(() => ({
+    author: typeof window === "undefined" ? "" : localStorage.getItem(PLANOGRAM_AUTHOR_KEY) ?? "",
+    note: "",
+    effectiveAt: "",
+    target: "machine",
+  }));
+  const savePlanogram = useSavePlanogramMutation();
+  const rollOut = useRollOutPlanogramMutation();
+  const saving = saveSettings.target === "location" ? rollOut : savePlanogram;
+
   // Derive machine selection from global or local state (avoids setState in effect)
   const machine = useMemo(
     () => selectedMachine ?? localMachine,
     [selectedMachine, localMachine]
   );
 
-  // Keep machine state fresh
+  // Keep machine state fresh (a machine decommissioned meanwhile is gone)
   const currentMachine = machine
-    ? machines.find(m => m.id === machine.id) ?? machine
+    ? machines.find(m => m.id === machine.id) ?? (historyRange ? machine : null)
     : null;
 
+  // Live predictions for this machine's slots (not meaningful for the past)
+  const { data: stockForecast } = useStockForecastQuery(!historyRange);
+  const slotForecasts = useMemo(() => new Map(
+    (stockForecast?.slots ?? [])
+      .filter(f => f.machineId === currentMachine?.id)
+      .map(f => [`${f.row}-${f.col}`, f])
+  ), [stockForecast, currentMachine?.id]);
+
+  // Past planograms are read-only
+  const editing = draft !== null && !historyRange;
+  const changes = editing && currentMachine ? diffPlanograms(currentMachine.planogram, draft) : [];
+  const changedSlots = changes.length;
+  const effectiveAt = fromLocalInput(saveSettings.effectiveAt);
+  // A template only fits machines built as the same cabinet model
+  const machinesAtLocation = currentMachine
+    ? machines.filter(m =>
+        m.location.id === currentMachine.location.id && m.model.id === currentMachine.model.id
+      ).length
+    : 0;
+  const draftError = editing && currentMachine
+    ? validatePlanogram(draft, currentMachine.model) ??
+      (!saveSettings.author.trim() ? "Enter your name as the author" : null) ??
+      (effectiveAt && effectiveAt <= clock.time ? "Scheduled time must be in the future" : null)
+    : null;
+
+  /** Edit the current planogram, or start from a proposed `layout` (optimizer) */
+  function startEditing(m: VendingMachine, layout?: PlanogramSlotEdit[]) {
+    setDraft(layout ? applyPlanogram(m.planogram, layout) : m.planogram.map(slot => ({ ...slot })));
+    setBaseVersion(m.planogramVersion);
+    setSelectedSlot(null);
+    setHighlightRestock(false);
+    setSaveSettings(settings => ({
+      ...settings,
+      note: layout ? "Optimizer suggestion" : "",
+      effectiveAt: "",
+      target: "machine",
+    }));
+    savePlanogram.reset();
+    rollOut.reset();
+  }
+
+  function stopEditing() {
+    setDraft(null);
+    setSelectedSlot(null);
+  }
+
+  /** Drop handler: catalog product → assign, slot → swap */
+  function handleDrop(index: number, drop: { productId?: string; fromSlot?: number }) {
+    if (!draft) return;
+    if (drop.productId) setDraft(assignProduct(draft, index, drop.productId));
+    else if (drop.fromSlot !== undefined) setDraft(swapSlots(draft, drop.fromSlot, index));
+    setSelectedSlot(index);
+  }
+
+  function save() {
+    if (!currentMachine || !draft) return;
+    const details = {
+      slots: draft,
+      author: saveSettings.author.trim(),
+      note: saveSettings.note.trim(),
+      ...(effectiveAt && { effectiveAt }),
+    };
+    const onSuccess = () => {
+      localStorage.setItem(PLANOGRAM_AUTHOR_KEY, details.author);
+      stopEditing();
+    };
+    if (saveSettings.target === "location") {
+      rollOut.mutate(
+        { locationId: currentMachine.location.id, modelId: currentMachine.model.id, ...details },
+        { onSuccess }
+      );
+    } else {
+      savePlanogram.mutate({ machineId: currentMachine.id, baseVersion, ...details }, { onSuccess });
+    }
+  }
+
+  // "Save", "Schedule" or "Roll out to 4 machines"
+  const saveLabel = saveSettings.target === "location"
+    ? `${effectiveAt ? "Schedule for" : "Roll out to"} ${machinesAtLocation} machines`
+    : effectiveAt ? "Schedule" : "Save";
+
   return (
     <div className="space-y-4">
       {/* Header */}
@@ -405,6 +928,7 @@ export function PlanogramView() {
               setLocalMachine(null);
               selectMachine(null);
               setHighlightRestock(false);
+              stopEditing();
             }}
             className="text-muted-foreground hover:text-foreground"
           >
@@ -418,21 +942,74 @@ export function PlanogramView() {
             : "Virtual Planogram"}
         </h2>
         {currentMachine && (
-          <Button
-            variant={highlightRestock ? "default" : "outline"}
-            size="sm"
-            onClick={() => setHighlightRestock(!highlightRestock)}
-            className={cn(
-              "ml-auto text-xs",
-              highlightRestock && "bg-rose-500/20 text-rose-400 border-rose-500/30"
+          <Badge variant="outline" className="text-[10px] text-muted-foreground">
+            v{currentMachine.planogramVersion}
+          </Badge>
+        )}
+        {currentMachine && editing && (
+          <div className="ml-auto flex items-center gap-2">
+            <span className="text-xs text-muted-foreground">
+              {changedSlots} slot{changedSlots === 1 ? "" : "s"} changed
+            </span>
+            <Button variant="ghost" size="sm" className="text-xs" onClick={stopEditing}>
+              <X className="w-3.5 h-3.5 mr-1" />
+              Cancel
+            </Button>
+            <Button
+              size="sm"
+              className="text-xs bg-cyan-500/20 text-cyan-400 hover:bg-cyan-500/30"
+              disabled={changedSlots === 0 || draftError !== null || saving.isPending}
+              onClick={save}
+            >
+              <Save className="w-3.5 h-3.5 mr-1" />
+              {saveLabel}
+            </Button>
+          </div>
+        )}
+        {currentMachine && !editing && (
+          <div className="ml-auto flex items-center gap-2">
+            {!historyRange && (
+              <Button
+                variant="outline"
+                size="sm"
+                className="text-xs"
+                onClick={() => startEditing(currentMachine)}
+              >
+                <Pencil className="w-3.5 h-3.5 mr-1" />
+                Edit Planogram
+              </Button>
             )}
-          >
-            <PackageSearch className="w-3.5 h-3.5 mr-1" />
-            Restock Optimizer
-          </Button>
+            <Button
+              variant={highlightRestock ? "default" : "outline"}
+              size="sm"
+              onClick={() => setHighlightRestock(!highlightRestock)}
+              className={cn(
+                "text-xs",
+                highlightRestock && "bg-rose-500/20 text-rose-400 border-rose-500/30"
+              )}
+            >
+              <PackageSearch className="w-3.5 h-3.5 mr-1" />
+              Restock Optimizer
+            </Button>
+          </div>
         )}
       </div>
 
+      {/* Draft problems and save errors (e.g. someone else saved first) */}
+      {currentMachine && editing && (
+        <PlanogramSaveOptions
+          machine={currentMachine}
+          machinesAtLocation={machinesAtLocation}
+          settings={saveSettings}
+          onChange={setSaveSettings}
+        />
+      )}
+      {editing && (draftError || saving.error) && (
+        <p className="text-xs text-rose-400">
+          {draftError ?? saving.error?.message}
+        </p>
+      )}
+
       {!currentMachine ? (
         <PlanogramMachinePicker
           machines={machines}
@@ -443,9 +1020,12 @@ export function PlanogramView() {
           {/* Planogram Grid (takes 2 columns) */}
           <div className="lg:col-span-2 glass-card p-4">
             <div className="flex items-center justify-between mb-3">
-              <h3 className="text-sm font-semibold text-foreground">
-                Slot Layout (10 × 6)
-              </h3>
+              <div>
+                <h3 className="text-sm font-semibold text-foreground">
+                  {currentMachine.model.name}
+                </h3>
+                <p className="text-[10px] text-muted-foreground">{describeModel(currentMachine.model)}</p>
+              </div>
               <div className="flex items-center gap-3">
                 {/* Legend */}
                 <div className="flex items-center gap-1">
@@ -466,16 +1046,51 @@ export function PlanogramView() {
             <PlanogramGrid
               machine={currentMachine}
               highlightRestock={highlightRestock}
+              now={viewTime}
+              forecast={historyRange ? undefined : slotForecasts}
+              editor={editing ? {
+                draft,
+                changed: new Set(changes.map(c => `${c.row}-${c.col}`)),
+                selected: selectedSlot,
+                onSelect: setSelectedSlot,
+                onDrop: handleDrop,
+              } : undefined}
             />
           </div>
 
-          {/* Restock Summary (right sidebar) */}
+          {/* Right sidebar: editor tools in edit mode, restock summary otherwise */}
           <div className="glass-card p-4">
             <h3 className="text-sm font-semibold text-foreground mb-3">
-              Restock Summary
+              {editing ? "Edit Slots" : "Restock Summary"}
             </h3>
-            <RestockSummary machine={currentMachine} />
+            {editing ? (
+              <PlanogramEditorPanel
+                model={currentMachine.model}
+                draft={draft}
+                selected={selectedSlot}
+                onChange={setDraft}
+              />
+            ) : (
+              <RestockSummary machine={currentMachine} live={!historyRange} />
+            )}
           </div>
+
+          {/* Optimizer proposal (live only – it's about today's demand) */}
+          {!editing && !historyRange && (
+            <div className="lg:col-span-3">
+              <PlanogramSuggestions
+                machine={currentMachine}
+                onApply={(layout) => startEditing(currentMachine, layout)}
+              />
+            </div>
+          )}
+
+          {/* Versions and diffs (full width) */}
+          {!editing && (
+            <div className="lg:col-span-3">
+              <PlanogramVersionHistory machine={currentMachine} />
+            </div>
+          )}
         </div>
       )}
     </div>
@@ -0,0 +1,419 @@
+/**
+ * ============================================================
+ * Vendral – Restock Run (Route Planner + Pick Lists)
+ * ============================================================
+ *
+ * Plans a restock run for the whole fleet (see `src/lib/restock.ts`):
+ *   - Controls: refill every short slot or only low/empty ones, and
+ *     how many vans go out
+ *   - Summary: items to load, stops, vans, estimated road distance
+ *   - Per van: the route (depot → stops → depot), the product totals
+ *     to load at the depot, and per stop / machine which slot gets
+ *     how many items
+ *
+ * LOADING:
+ * "Load from warehouse" turns a van's pick list into pending stock
+ * transfers (one per machine, see `src/lib/warehouse.ts`), reserving
+ * the units; they are completed on the Warehouse tab once delivered.
+ *
+ * STOCK-OUT RISK:
+ * Above the pick lists (live mode only), the slots the demand
+ * forecast expects to run empty before their machine's next visit,
+ * soonest first, with the recommended par level to fill them to
+ * (see `src/lib/forecast.ts`).
+ *
+ * PRINTING:
+ * "Print" hands the pick lists to the browser's print dialog. The
+ * `.print-area` rules in globals.css hide the rest of the dashboard;
+ * printing one van hides the others with `print:hidden`. Each van
+ * starts on a new page and gets checkboxes for the driver.
+ * ============================================================
+ */
+
+"use client";
+
+import React, { useMemo, useState } from "react";
+import { flushSync } from "react-dom";
+import { useSimulation } from "@/lib/simulation-context";
+import { planRestockRun, type RestockScope, type RestockVehicle } from "@/lib/restock";
+import { useCreateTransferMutation, useStockForecastQuery } from "@/lib/queries";
+import { formatHoursUntil } from "@/lib/forecast";
+import { getProductById, type VendingMachine } from "@/lib/data";
+import { cn } from "@/lib/utils";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { AlertTriangle, MapPin, PackagePlus, Printer, Route, Truck, Warehouse } from "lucide-react";
+
+const SCOPES: { id: RestockScope; label: string }[] = [
+  { id: "all", label: "Top up everything" },
+  { id: "low", label: "Low & empty only" },
+];
+
+const VAN_COUNTS = [1, 2, 3, 4];
+
+/** "12 km" / "368 km" */
+function formatKm(km: number): string {
+  return `${Math.round(km)} km`;
+}
+
+// ============================================================
+// ONE VAN'S PICK LIST
+// ============================================================
+
+function VehiclePickList({
+  vehicle,
+  depotName,
+  onPrint,
+  hiddenInPrint,
+  onLoad,
+  loadStatus,
+}: {
+  vehicle: RestockVehicle;
+  depotName: string;
+  onPrint: () => void;
+  /** Another van is being printed */
+  hiddenInPrint: boolean;
+  /** Create the van's stock transfers; undefined when not possible */
+  onLoad?: () => void;
+  /** Result of the last load, e.g. "3 transfers loaded" */
+  loadStatus?: string;
+}) {
+  return (
+    <div className={cn("glass-card p-4 space-y-4 print:break-after-page", hiddenInPrint && "print:hidden")}>
+      {/* Header */}
+      <div className="flex items-center gap-2">
+        <Truck className="w-4 h-4 text-cyan-400" />
+        <h3 className="text-sm font-semibold text-foreground">{vehicle.name}</h3>
+        <span className="text-xs text-muted-foreground">
+          {vehicle.stops.length} stop{vehicle.stops.length === 1 ? "" : "s"} ·{" "}
+          {vehicle.items} items · {formatKm(vehicle.distanceKm)}
+        </span>
+        {loadStatus && <span className="ml-auto text-[10px] text-muted-foreground print:hidden">{loadStatus}</span>}
+        <Button
+          variant="ghost"
+          size="sm"
+          className={cn("text-xs print:hidden", !loadStatus && "ml-auto")}
+          disabled={!onLoad}
+          onClick={onLoad}
+        >
+          <PackagePlus className="w-3.5 h-3.5 mr-1" />
+          Load from warehouse
+        </Button>
+        <Button variant="ghost" size="sm" className="text-xs print:hidden" onClick={onPrint}>
+          <Printer className="w-3.5 h-3.5 mr-1" />
+          Print
+        </Button>
+      </div>
+
+      {/* Route */}
+      <div className="flex flex-wrap items-center gap-1.5 text-[11px]">
+        <span className="flex items-center gap-1 text-muted-foreground">
+          <Warehouse className="w-3 h-3" />
+          {depotName}
+        </span>
+        {vehicle.stops.map((stop) => (
+          <React.Fragment key={stop.location.id}>
+            <span className="text-muted-foreground">→ {formatKm(stop.distanceKm)} →</span>
+            <span className="flex items-center gap-1 text-foreground">
+              <MapPin className="w-3 h-3 text-cyan-400" />
+              {stop.location.name}
+            </span>
+          </React.Fragment>
+        ))}
+        <span className="text-muted-foreground">→ back to depot</span>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-4">
+        {/* Load list: product totals to pick at the depot */}
+        <div>
+          <h4 className="text-xs font-semibold text-foreground mb-2">Load at Depot</h4>
+          <table className="w-full text-[11px]">
+            <tbody>
+              {vehicle.load.map((item) => (
+                <tr key={item.productId} className="border-b border-white/5">
+                  <td className="py-1 w-4 text-muted-foreground">☐</td>
+                  <td className="py-1">{item.icon}</td>
+                  <td className="py-1 text-foreground">{item.productName}</td>
+                  <td className="py-1 text-right font-semibold text-cyan-400">{item.quantity}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+
+        {/* Per stop and machine: slot instructions */}
+        <div className="lg:col-span-2 space-y-3">
+          {vehicle.stops.map((stop, i) => (
+            <div key={stop.location.id} className="space-y-2">
+              <h4 className="text-xs font-semibold text-foreground">
+                Stop {i + 1}: {stop.location.name}, {stop.location.city}
+                <span className="font-normal text-muted-foreground"> · {stop.items} items</span>
+              </h4>
+              {stop.machines.map((machine) => (
+                <div key={machine.machineId} className="rounded-lg bg-white/5 p-2">
+                  <p className="text-[11px] text-foreground mb-1">
+                    <span className="font-semibold">{machine.machineId}</span> {machine.machineName}
+                    <span className="text-muted-foreground"> · {machine.modelName} · {machine.items} items</span>
+                  </p>
+                  <table className="w-full text-[10px]">
+                    <tbody>
+                      {machine.slots.map((slot) => (
+                        <tr key={`${slot.row}-${slot.col}`}>
+                          <td className="py-0.5 w-4 text-muted-foreground">☐</td>
+                          <td className="py-0.5 w-14 text-muted-foreground">R{slot.row + 1} C{slot.col + 1}</td>
+                          <td className="py-0.5 text-foreground">{slot.icon} {slot.productName}</td>
+                          <td className="py-0.5 text-right text-muted-foreground">{slot.stock}/{slot.maxStock}</td>
+                          <td className="py-0.5 w-10 text-right font-semibold text-cyan-400">+{slot.quantity}</td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              ))}
+            </div>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+}
+
+// ============================================================
+// SLOTS AT RISK OF STOCKING OUT
+// ============================================================
+
+/** Rows shown before "… and N more" */
+const RISK_ROWS = 12;
+
+function StockOutRisk({ machines, now }: { machines: VendingMachine[]; now: Date }) {
+  const { data: forecast } = useStockForecastQuery();
+  const names = useMemo(() => new Map(machines.map(m => [m.id, m.name])), [machines]);
+
+  // Still has stock, but not enough to last until the van comes
+  const atRisk = (forecast?.slots ?? [])
+    .filter(slot => slot.stock > 0 && slot.emptyAt && slot.emptyAt < slot.nextVisit)
+    .sort((a, b) => a.emptyAt!.getTime() - b.emptyAt!.getTime());
+
+  return (
+    <div className="glass-card p-4 space-y-2 print:hidden">
+      <div className="flex items-center gap-2">
+        <AlertTriangle className="w-4 h-4 text-rose-400" />
+        <h3 className="text-sm font-semibold text-foreground">Will Stock Out Before Next Visit</h3>
+        <span className="text-xs text-muted-foreground">
+          {forecast
+            ? `${atRisk.length} slot${atRisk.length === 1 ? "" : "s"} · learned from ${Math.round(forecast.learnedFromHours)}h of sales · par covers ${forecast.restockIntervalHours}h`
+            : "Forecasting…"}
+        </span>
+      </div>
+      {forecast && atRisk.length === 0 && (
+        <p className="text-[11px] text-muted-foreground">Every stocked slot is expected to last until its next visit.</p>
+      )}
+      {atRisk.length > 0 && (
+        <table className="w-full text-[11px]">
+          <thead>
+            <tr className="text-left text-[10px] text-muted-foreground border-b border-white/10">
+              <th className="py-1 font-normal">Machine</th>
+              <th className="py-1 font-normal">Slot</th>
+              <th className="py-1 font-normal">Product</th>
+              <th className="py-1 font-normal text-right">Stock</th>
+              <th className="py-1 font-normal text-right">Sells</th>
+              <th className="py-1 font-normal text-right">Empty in</th>
+              <th className="py-1 font-normal text-right">Next visit in</th>
+              <th className="py-1 font-normal text-right">Par</th>
+            </tr>
+          </thead>
+          <tbody>
+            {atRisk.slice(0, RISK_ROWS).map((slot) => {
+              const product = getProductById(slot.productId);
+              return (
+                <tr key={`${slot.machineId}-${slot.row}-${slot.col}`} className="border-b border-white/5">
+                  <td className="py-1 text-foreground">
+                    <span className="font-semibold">{slot.machineId}</span>{" "}
+                    <span className="text-muted-foreground">{names.get(slot.machineId)}</span>
+                  </td>
+                  <td className="py-1 text-muted-foreground">R{slot.row + 1} C{slot.col + 1}</td>
+                  <td className="py-1 text-foreground">{product?.icon} {product?.name ?? slot.productId}</td>
+                  <td className="py-1 text-right text-muted-foreground">{slot.stock}/{slot.maxStock}</td>
+                  <td className="py-1 text-right text-muted-foreground">{slot.ratePerHour.toFixed(2)}/h</td>
+                  <td className="py-1 text-right font-semibold text-rose-400">~{formatHoursUntil(slot.emptyAt!, now)}</td>
+                  <td className="py-1 text-right text-muted-foreground">{formatHoursUntil(slot.nextVisit, now)}</td>
+                  <td
+                    className={cn("py-1 text-right font-semibold text-cyan-400", slot.parDemand > slot.maxStock && "text-amber-400")}
+                    title={slot.parDemand > slot.maxStock ? `Needs ${slot.parDemand} – more than the slot holds` : undefined}
+                  >
+                    {slot.parLevel}
+                  </td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      )}
+      {atRisk.length > RISK_ROWS && (
+        <p className="text-[10px] text-muted-foreground">… and {atRisk.length - RISK_ROWS} more</p>
+      )}
+    </div>
+  );
+}
+
+// ============================================================
+// MAIN EXPORT
+// ============================================================
+
+export function RestockRunView() {
+  const { machines, viewTime, historyRange } = useSimulation();
+  const [scope, setScope] = useState<RestockScope>("all");
+  const [vehicleCount, setVehicleCount] = useState(2);
+  // Which pick lists go to the printer: one van's name, or "all"
+  const [printing, setPrinting] = useState<string | null>(null);
+  const createTransfer = useCreateTransferMutation();
+  // Per van: result of its last "Load from warehouse"
+  const [loadStatus, setLoadStatus] = useState<Record<string, string>>({});
+
+  const run = useMemo(
+    () => planRestockRun(machines, { scope, vehicleCount }),
+    [machines, scope, vehicleCount]
+  );
+  const stops = run.vehicles.reduce((sum, v) => sum + v.stops.length, 0);
+
+  /** Render the print selection first, then open the dialog */
+  function print(target: string) {
+    flushSync(() => setPrinting(target));
+    window.print();
+    setPrinting(null);
+  }
+
+  /**
+   * One pending transfer per machine on the van. Machines the
+   * warehouse can't supply (409) are skipped and counted.
+   */
+  async function load(vehicle: RestockVehicle) {
+    setLoadStatus(current => ({ ...current, [vehicle.name]: "Loading…" }));
+    let loaded = 0;
+    let skipped = 0;
+    for (const machine of vehicle.stops.flatMap(stop => stop.machines)) {
+      try {
+        await createTransfer.mutateAsync({
+          machineId: machine.machineId,
+          lines: machine.slots.map(({ row, col, quantity }) => ({ row, col, quantity })),
+          note: vehicle.name,
+        });
+        loaded++;
+      } catch {
+        skipped++;
+      }
+    }
+    setLoadStatus(current => ({
+      ...current,
+      [vehicle.name]: `${loaded} transfer${loaded === 1 ? "" : "s"} loaded` + (skipped ? `, ${skipped} skipped` : ""),
+    }));
+  }
+
+  return (
+    <div className="space-y-4">
+      {/* Header + controls */}
+      <div className="flex flex-wrap items-center gap-3">
+        <h2 className="text-lg font-bold text-foreground">Restock Run</h2>
+        {historyRange && (
+          <Badge variant="outline" className="text-[10px] text-amber-400 border-amber-500/30">
+            Planned from historical stock
+          </Badge>
+        )}
+        <div className="ml-auto flex flex-wrap items-center gap-2">
+          <div className="flex items-center gap-1">
+            {SCOPES.map(({ id, label }) => (
+              <button
+                key={id}
+                onClick={() => setScope(id)}
+                className={cn(
+                  "text-[10px] px-2 py-1 rounded-md transition-colors",
+                  scope === id
+                    ? "bg-cyan-500/20 text-cyan-400"
+                    : "bg-white/5 text-muted-foreground hover:bg-white/10"
+                )}
+              >
+                {label}
+              </button>
+            ))}
+          </div>
+          <div className="flex items-center gap-1">
+            <Truck className="w-3.5 h-3.5 text-muted-foreground" />
+            {VAN_COUNTS.map((count) => (
+              <button
+                key={count}
+                onClick={() => setVehicleCount(count)}
+                className={cn(
+                  "text-[10px] w-6 py-1 rounded-md transition-colors",
+                  vehicleCount === count
+                    ? "bg-cyan-500/20 text-cyan-400"
+                    : "bg-white/5 text-muted-foreground hover:bg-white/10"
+                )}
+                aria-label={`${count} van${count === 1 ? "" : "s"}`}
+              >
+                {count}
+              </button>
+            ))}
+          </div>
+          <Button
+            variant="outline"
+            size="sm"
+            className="text-xs"
+            disabled={run.vehicles.length === 0}
+            onClick={() => print("all")}
+          >
+            <Printer className="w-3.5 h-3.5 mr-1" />
+            Print all
+          </Button>
+        </div>
+      </div>
+
+      {/* Summary */}
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+        {[
+          { label: "Items to load", value: run.items.toLocaleString("en-US") },
+          { label: "Stops", value: stops },
+          { label: "Vans", value: run.vehicles.length },
+          { label: "Est. road distance", value: formatKm(run.distanceKm) },
+        ].map(({ label, value }) => (
+          <div key={label} className="glass-card p-3">
+            <p className="text-[10px] text-muted-foreground">{label}</p>
+            <p className="text-lg font-bold text-foreground">{value}</p>
+          </div>
+        ))}
+      </div>
+      <p className="flex items-center gap-1 text-[11px] text-muted-foreground">
+        <Route className="w-3.5 h-3.5" />
+        Vans leave from {run.depot.name} ({run.depot.city}); stops are ordered nearest-first.
+        Road distances are estimated from coordinates.
+      </p>
+
+      {/* Forecast is about the live fleet only */}
+      {!historyRange && <StockOutRisk machines={machines} now={viewTime} />}
+
+      {/* Pick lists (the printable part) */}
+      {run.vehicles.length === 0 ? (
+        <div className="glass-card p-6 text-center text-sm text-muted-foreground">
+          Nothing to restock – every slot is {scope === "low" ? "above the low-stock level" : "full"}.
+        </div>
+      ) : (
+        <div className="print-area space-y-4">
+          <p className="hidden print:block text-sm font-semibold">
+            Restock Run – {viewTime.toLocaleString("en-US", { dateStyle: "medium", timeStyle: "short" })}
+          </p>
+          {run.vehicles.map((vehicle) => (
+            <VehiclePickList
+              key={vehicle.name}
+              vehicle={vehicle}
+              depotName={run.depot.name}
+              onPrint={() => print(vehicle.name)}
+              hiddenInPrint={printing !== null && printing !== "all" && printing !== vehicle.name}
+              // Historical stock is no basis for today's transfers
+              onLoad={historyRange || createTransfer.isPending ? undefined : () => load(vehicle)}
+              loadStatus={loadStatus[vehicle.name]}
+            />
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
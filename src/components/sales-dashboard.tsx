@@ -4,11 +4,15 @@
  * ============================================================
  *
  * A comprehensive sales view for marketing managers with:
- *   1. KPI Tiles: Revenue, ATV, Conversion Rate
+ *   1. KPI Tiles: Revenue, Units, ATV, Conversion Rate – each compared with
+ *      the same stretch of the previous day / week / month (stored history)
  *   2. Dual-axis area chart: Revenue vs. Foot Traffic (24h)
- *   3. Sales Heatmap: Best hours × days of the week
- *   4. Top Products grid with sparklines and stock bars
- *   5. Bottom Products (dead stock identification)
+ *   3. Sales Heatmap: Best hours × days of the week (from stored history),
+ *      by revenue / units / transactions, location and product category
+ *   4. Payments: share of each payment method, failure rates by method
+ *      and by card-reader health, failure reasons
+ *   5. Top Products grid with sparklines and stock bars
+ *   6. Bottom Products (dead stock identification)
  *
  * RECHARTS:
  * We use Recharts for all chart components. Recharts is a composable
@@ -24,12 +28,22 @@
 
 "use client";
 
-import React from "react";
+import React, { useState } from "react";
 import { useSimulation } from "@/lib/simulation-context";
-import { formatISK, formatCompact } from "@/lib/data";
+import {
+  useSalesHeatmapQuery,
+  useSalesKpisQuery,
+  usePaymentAnalyticsQuery,
+  type KpiPeriod,
+  type PaymentPeriod,
+  type SalesHeatmap as SalesHeatmapData,
+} from "@/lib/queries";
+import { formatISK, formatCompact, type Product } from "@/lib/data";
+import { PAYMENT_METHODS, failureReasonLabel, type ReaderHealth } from "@/lib/payments";
 import { cn } from "@/lib/utils";
 import { Badge } from "@/components/ui/badge";
 import { Progress } from "@/components/ui/progress";
+import { Tooltip, TooltipTrigger, TooltipContent } from "@/components/ui/tooltip";
 import { TransactionTable } from "@/components/transaction-table";
 import {
   DollarSign,
@@ -38,6 +52,7 @@ import {
   ShoppingCart,
   ArrowUp,
   ArrowDown,
+  CreditCard,
 } from "lucide-react";
 import {
   ResponsiveContainer,
@@ -53,25 +68,54 @@ import {
 // KPI TILES
 // ============================================================
 
+/** Comparison periods for the KPI row */
+const KPI_PERIOD_OPTIONS: { id: KpiPeriod; label: string; current: string; comparison: string }[] = [
+  { id: "day", label: "Day", current: "Today", comparison: "vs yesterday" },
+  { id: "week", label: "Week", current: "This Week", comparison: "vs last week" },
+  { id: "month", label: "Month", current: "Month-to-Date", comparison: "vs last month" },
+];
+
+/** Relative change in %, or null when there's no baseline to compare with */
+function percentChange(current: number, baseline: number): number | null {
+  return baseline > 0 ? ((current - baseline) / baseline) * 100 : null;
+}
+
+/** e.g. "Mon, Oct 12 00:00 → Mon, Oct 12 14:05" */
+function formatWindow(from: Date, to: Date): string {
+  const format = (d: Date) =>
+    `${d.toLocaleDateString("en-US", { weekday: "short", month: "short", day: "numeric" })} ${d.toLocaleTimeString("en-US", { hour12: false, hour: "2-digit", minute: "2-digit" })}`;
+  return `${format(from)} → ${format(to)}`;
+}
+
 /**
  * Large KPI card for the sales section.
- * Shows value, label, and a trend indicator.
+ * Shows value, label, and a trend indicator. Hovering the trend
+ * shows the absolute baseline it was compared against.
  */
 function KpiTile({
   label,
   value,
   change,
+  changeUnit = "%",
+  comparison,
+  baseline,
   icon: Icon,
   color,
 }: {
   label: string;
   value: string;
-  /** Percentage change (positive = good) */
-  change: number;
+  /** Change vs the baseline (positive = good), null if there is no baseline */
+  change: number | null;
+  /** "%" for relative change, "pp" for percentage points */
+  changeUnit?: "%" | "pp";
+  /** e.g. "vs yesterday" */
+  comparison: string;
+  /** Tooltip text describing the baseline value and its time window */
+  baseline: React.ReactNode;
   icon: React.ElementType;
   color: string;
 }) {
-  const isPositive = change >= 0;
+  const isPositive = (change ?? 0) >= 0;
 
   return (
     <div className="glass-card p-4">
@@ -90,22 +134,33 @@ function KpiTile({
         <span className="text-xs text-muted-foreground">{label}</span>
       </div>
       <p className="text-2xl font-bold text-foreground mb-1">{value}</p>
-      <div className="flex items-center gap-1">
-        {isPositive ? (
-          <ArrowUp className="w-3 h-3 text-emerald-400" />
-        ) : (
-          <ArrowDown className="w-3 h-3 text-rose-400" />
-        )}
-        <span
-          className={cn(
-            "text-xs font-medium",
-            isPositive ? "text-emerald-400" : "text-rose-400"
-          )}
-        >
-          {Math.abs(change)}%
-        </span>
-        <span className="text-xs text-muted-foreground">vs yesterday</span>
-      </div>
+      <Tooltip>
+        <TooltipTrigger asChild>
+          <div className="flex items-center gap-1 w-fit cursor-help">
+            {change === null ? (
+              <span className="text-xs text-muted-foreground">No baseline</span>
+            ) : (
+              <>
+                {isPositive ? (
+                  <ArrowUp className="w-3 h-3 text-emerald-400" />
+                ) : (
+                  <ArrowDown className="w-3 h-3 text-rose-400" />
+                )}
+                <span
+                  className={cn(
+                    "text-xs font-medium",
+                    isPositive ? "text-emerald-400" : "text-rose-400"
+                  )}
+                >
+                  {Math.abs(change).toFixed(1)}{changeUnit === "pp" ? " pp" : "%"}
+                </span>
+              </>
+            )}
+            <span className="text-xs text-muted-foreground">{comparison}</span>
+          </div>
+        </TooltipTrigger>
+        <TooltipContent side="bottom">{baseline}</TooltipContent>
+      </Tooltip>
     </div>
   );
 }
@@ -139,7 +194,7 @@ function RevenueTrafficTooltip({ active, payload, label }: { active?: boolean; p
 // ============================================================
 
 function RevenueTrafficChart() {
-  const { hourlyData } = useSimulation();
+  const { hourlyData, periodLabel } = useSimulation();
 
   return (
     <div className="glass-card p-4">
@@ -148,7 +203,7 @@ function RevenueTrafficChart() {
           Revenue vs. Foot Traffic (24h)
         </h3>
         <Badge variant="outline" className="text-[10px] text-muted-foreground">
-          Today
+          {periodLabel}
         </Badge>
       </div>
 
@@ -231,28 +286,123 @@ function RevenueTrafficChart() {
 // SALES HEATMAP
 // ============================================================
 
+/** Metrics the heatmap can colour by */
+const HEATMAP_METRICS = [
+  { id: "revenue", label: "Revenue" },
+  { id: "units", label: "Units" },
+  { id: "transactions", label: "Transactions" },
+] as const;
+
+type HeatmapMetric = (typeof HEATMAP_METRICS)[number]["id"];
+
+const PRODUCT_CATEGORIES: Product["category"][] = ["beverage", "snack", "candy", "fresh"];
+
+/** Five steps from dark navy (quiet) to bright cyan (busiest) */
+const HEAT_COLORS = [
+  "rgba(15, 23, 42, 0.8)",
+  "rgba(34, 211, 238, 0.1)",
+  "rgba(34, 211, 238, 0.25)",
+  "rgba(34, 211, 238, 0.45)",
+  "rgba(34, 211, 238, 0.7)",
+];
+
+const NO_HEATMAP: SalesHeatmapData = [];
+
 function SalesHeatmap() {
-  const { salesHeatmap } = useSimulation();
+  const [metric, setMetric] = useState<HeatmapMetric>("revenue");
+  const [locationId, setLocationId] = useState("");
+  const [category, setCategory] = useState("");
+  const { historyRange, locations } = useSimulation();
+  const { data: salesHeatmap = NO_HEATMAP } = useSalesHeatmapQuery(
+    { locationId, category },
+    historyRange?.to
+  );
+
   const days = ["Mon", "Tue", "Wed", "Thu", "Fri", "Sat", "Sun"];
   const hours = Array.from({ length: 24 }, (_, i) => i);
+  const max = Math.max(0, ...salesHeatmap.map(c => c[metric]));
 
   /**
-   * Map a value (0-100) to a color intensity.
+   * Map a value to a color intensity relative to the busiest cell.
    * Low values → dark navy, High values → bright cyan.
    */
   function getHeatColor(value: number): string {
-    if (value < 15) return "rgba(15, 23, 42, 0.8)";
-    if (value < 30) return "rgba(34, 211, 238, 0.1)";
-    if (value < 50) return "rgba(34, 211, 238, 0.25)";
-    if (value < 70) return "rgba(34, 211, 238, 0.45)";
-    return "rgba(34, 211, 238, 0.7)";
+    if (max === 0 || value === 0) return HEAT_COLORS[0];
+    const ratio = value / max;
+    if (ratio < 0.25) return HEAT_COLORS[1];
+    if (ratio < 0.5) return HEAT_COLORS[2];
+    if (ratio < 0.75) return HEAT_COLORS[3];
+    return HEAT_COLORS[4];
+  }
+
+  /** Tooltip text for one cell in the selected metric */
+  function formatValue(value: number): string {
+    switch (metric) {
+      case "revenue":      return formatISK(value);
+      case "units":        return `${value} units sold`;
+      case "transactions": return `${value} transactions (incl. failed payments)`;
+    }
   }
 
+  const selectClass =
+    "py-1 px-2 text-[10px] bg-white/5 border border-border rounded-md text-foreground focus:outline-none focus:ring-1 focus:ring-cyan-500/50";
+
   return (
     <div className="glass-card p-4">
-      <h3 className="text-sm font-semibold text-foreground mb-4">
-        Sales Heatmap (Hour × Day)
-      </h3>
+      <div className="flex flex-wrap items-center justify-between gap-2 mb-4">
+        <div>
+          <h3 className="text-sm font-semibold text-foreground">
+            Sales Heatmap (Hour × Day)
+          </h3>
+          <p className="text-[10px] text-muted-foreground">Last 4 weeks of transactions</p>
+        </div>
+
+        <div className="flex flex-wrap items-center gap-2">
+          {/* Metric selector */}
+          <div className="flex gap-1">
+            {HEATMAP_METRICS.map((m) => (
+              <button
+                key={m.id}
+                onClick={() => setMetric(m.id)}
+                className={cn(
+                  "text-[10px] px-2 py-1 rounded-md transition-colors",
+                  metric === m.id
+                    ? "bg-cyan-500/20 text-cyan-400"
+                    : "bg-white/5 text-muted-foreground hover:bg-white/10"
+                )}
+              >
+                {m.label}
+              </button>
+            ))}
+          </div>
+
+          {/* Location filter */}
+          <select
+            value={locationId}
+            onChange={(e) => setLocationId(e.target.value)}
+            className={selectClass}
+            aria-label="Location"
+          >
+            <option value="">All locations</option>
+            {locations.map((l) => (
+              <option key={l.id} value={l.id}>{l.name}</option>
+            ))}
+          </select>
+
+          {/* Product category filter */}
+          <select
+            value={category}
+            onChange={(e) => setCategory(e.target.value)}
+            className={cn(selectClass, "capitalize")}
+            aria-label="Product category"
+          >
+            <option value="">All categories</option>
+            {PRODUCT_CATEGORIES.map((c) => (
+              <option key={c} value={c}>{c}</option>
+            ))}
+          </select>
+        </div>
+      </div>
 
       <div className="overflow-x-auto">
         <div className="min-w-150">
@@ -282,12 +432,13 @@ function SalesHeatmap() {
                   const cell = salesHeatmap.find(
                     c => c.day === day && c.hour === hour
                   );
+                  const value = cell?.[metric] ?? 0;
                   return (
                     <div
                       key={`${day}-${hour}`}
                       className="flex-1 h-5 rounded-sm transition-colors"
-                      style={{ backgroundColor: getHeatColor(cell?.value ?? 0) }}
-                      title={`${day} ${String(hour).padStart(2, "0")}:00 – ${cell?.value ?? 0} sales`}
+                      style={{ backgroundColor: getHeatColor(value) }}
+                      title={`${day} ${String(hour).padStart(2, "0")}:00 – ${formatValue(value)}`}
                     />
                   );
                 })}
@@ -298,7 +449,7 @@ function SalesHeatmap() {
           {/* Legend */}
           <div className="flex items-center gap-2 mt-3 ml-10">
             <span className="text-[9px] text-muted-foreground">Low</span>
-            {["rgba(15,23,42,0.8)", "rgba(34,211,238,0.1)", "rgba(34,211,238,0.25)", "rgba(34,211,238,0.45)", "rgba(34,211,238,0.7)"].map(
+            {HEAT_COLORS.map(
               (color, i) => (
                 <div
                   key={i}
@@ -423,47 +574,247 @@ function ProductPerformance() {
   );
 }
 
+// ============================================================
+// PAYMENT ANALYTICS
+// ============================================================
+
+const PAYMENT_PERIOD_OPTIONS: { id: PaymentPeriod; label: string }[] = [
+  { id: "day", label: "24 h" },
+  { id: "week", label: "7 days" },
+];
+
+/** Colour of a failure rate: fine below 5%, worrying from 15% */
+function failureColor(rate: number): string {
+  if (rate >= 0.15) return "text-rose-400";
+  if (rate >= 0.05) return "text-amber-400";
+  return "text-emerald-400";
+}
+
+const READER_HEALTH_COLORS: Record<ReaderHealth, string> = {
+  OK: "text-emerald-400 border-emerald-500/30",
+  WARNING: "text-amber-400 border-amber-500/30",
+  ERROR: "text-rose-400 border-rose-500/30",
+};
+
+const percent = (rate: number) => `${(rate * 100).toFixed(1)}%`;
+
+function PaymentAnalyticsPanel() {
+  const [period, setPeriod] = useState<PaymentPeriod>("day");
+  const [locationId, setLocationId] = useState("");
+  const { historyRange, locations } = useSimulation();
+  const { data: payments } = usePaymentAnalyticsQuery(period, locationId, historyRange?.to);
+
+  const selectClass =
+    "py-1 px-2 text-[10px] bg-white/5 border border-border rounded-md text-foreground focus:outline-none focus:ring-1 focus:ring-cyan-500/50";
+
+  return (
+    <div className="glass-card p-4">
+      <div className="flex flex-wrap items-center justify-between gap-2 mb-4">
+        <div>
+          <h3 className="text-sm font-semibold text-foreground flex items-center gap-1.5">
+            <CreditCard className="w-4 h-4 text-cyan-400" />
+            Payments
+          </h3>
+          <p className="text-[10px] text-muted-foreground">
+            {payments
+              ? `${payments.attempts.toLocaleString()} payment attempts · ${percent(payments.failureRate)} failed`
+              : "Loading…"}
+          </p>
+        </div>
+
+        <div className="flex flex-wrap items-center gap-2">
+          <div className="flex gap-1">
+            {PAYMENT_PERIOD_OPTIONS.map((o) => (
+              <button
+                key={o.id}
+                onClick={() => setPeriod(o.id)}
+                className={cn(
+                  "text-[10px] px-2 py-1 rounded-md transition-colors",
+                  period === o.id
+                    ? "bg-cyan-500/20 text-cyan-400"
+                    : "bg-white/5 text-muted-foreground hover:bg-white/10"
+                )}
+              >
+                {o.label}
+              </button>
+            ))}
+          </div>
+          <select
+            value={locationId}
+            onChange={(e) => setLocationId(e.target.value)}
+            className={selectClass}
+            aria-label="Location"
+          >
+            <option value="">All locations</option>
+            {locations.map((l) => (
+              <option key={l.id} value={l.id}>{l.name}</option>
+            ))}
+          </select>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-4">
+        {/* Method share + failure rate per method */}
+        <div className="lg:col-span-2 space-y-2">
+          <div className="flex items-center gap-3 px-2 text-[9px] uppercase tracking-wide text-muted-foreground">
+            <span className="flex-1">Method · share of attempts</span>
+            <span className="w-16 text-right">Failed</span>
+            <span className="w-20 text-right">Revenue</span>
+          </div>
+          {payments?.methods.map((m) => {
+            const info = PAYMENT_METHODS.find(pm => pm.id === m.method)!;
+            return (
+              <div key={m.method} className="flex items-center gap-3 p-2 rounded-lg hover:bg-white/5 transition-colors">
+                <span className="text-lg">{info.icon}</span>
+                <div className="flex-1 min-w-0">
+                  <div className="flex items-center justify-between">
+                    <p className="text-xs font-medium text-foreground truncate">{info.label}</p>
+                    <span className="text-[10px] text-muted-foreground">
+                      {percent(m.share)} · {m.attempts.toLocaleString()}
+                    </span>
+                  </div>
+                  <Progress value={m.share * 100} className="h-1 mt-1" />
+                </div>
+                <span
+                  className={cn("w-16 text-right text-xs font-semibold", m.attempts > 0 ? failureColor(m.failureRate) : "text-muted-foreground")}
+                  title={`${m.failures.toLocaleString()} of ${m.attempts.toLocaleString()} attempts failed`}
+                >
+                  {m.attempts > 0 ? percent(m.failureRate) : "–"}
+                </span>
+                <span className="w-20 text-right text-xs text-foreground">{formatISK(m.revenue)}</span>
+              </div>
+            );
+          })}
+        </div>
+
+        <div className="space-y-4">
+          {/* Failure rate of reader payments by card-reader health */}
+          <div>
+            <p className="text-[10px] font-medium text-muted-foreground mb-2">
+              Failure rate by card-reader health
+            </p>
+            <div className="grid grid-cols-3 gap-2">
+              {payments?.readers.map((r) => (
+                <div key={r.health} className="rounded-lg bg-white/5 p-2 text-center">
+                  <Badge variant="outline" className={cn("text-[9px]", READER_HEALTH_COLORS[r.health])}>
+                    {r.health}
+                  </Badge>
+                  <p className={cn("text-sm font-bold mt-1", r.attempts > 0 ? failureColor(r.failureRate) : "text-muted-foreground")}>
+                    {r.attempts > 0 ? percent(r.failureRate) : "–"}
+                  </p>
+                  <p className="text-[9px] text-muted-foreground">{r.attempts.toLocaleString()} attempts</p>
+                </div>
+              ))}
+            </div>
+            <p className="text-[9px] text-muted-foreground mt-1">App / QR payments don&apos;t use the reader</p>
+          </div>
+
+          {/* Why payments failed */}
+          <div>
+            <p className="text-[10px] font-medium text-muted-foreground mb-2">Failure reasons</p>
+            <div className="space-y-1">
+              {payments?.reasons.map((r) => (
+                <div key={r.reason} className="flex items-center justify-between text-xs">
+                  <span className="text-foreground">{failureReasonLabel(r.reason)}</span>
+                  <span className="text-muted-foreground">
+                    {r.count.toLocaleString()}
+                    {payments.failures > 0 && ` · ${percent(r.count / payments.failures)}`}
+                  </span>
+                </div>
+              ))}
+            </div>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
+
 // ============================================================
 // MAIN EXPORT
 // ============================================================
 
 export function SalesDashboard() {
-  const { fleetStats } = useSimulation();
-
-  // Calculate a simulated conversion rate
-  // useState with a lazy initializer (function form) runs only once on mount,
-  // which avoids calling Math.random() during every render cycle.
-  const [conversionRate] = React.useState(() => 68 + Math.random() * 10);
+  const [period, setPeriod] = useState<KpiPeriod>("day");
+  // In historical mode the tiles show what they would have at the range end
+  const { historyRange } = useSimulation();
+  const { data: kpis } = useSalesKpisQuery(period, historyRange?.to);
+  const option = KPI_PERIOD_OPTIONS.find(o => o.id === period) ?? KPI_PERIOD_OPTIONS[0];
+
+  const current = kpis?.current;
+  const baseline = kpis?.baseline;
+
+  /** Tooltip body: the baseline value and the window it covers */
+  const baselineText = (value: string) =>
+    baseline ? (
+      <>
+        <p className="font-semibold">Baseline: {value}</p>
+        <p className="opacity-80">{formatWindow(baseline.from, baseline.to)}</p>
+      </>
+    ) : (
+      "Loading…"
+    );
 
   return (
     <div className="space-y-4">
-      {/* KPI Row */}
+      {/* KPI Row + comparison period selector */}
+      <div className="flex items-center justify-end gap-1">
+        <span className="text-[10px] text-muted-foreground mr-1">Compare</span>
+        {KPI_PERIOD_OPTIONS.map((o) => (
+          <button
+            key={o.id}
+            onClick={() => setPeriod(o.id)}
+            className={cn(
+              "text-[10px] px-2 py-1 rounded-md transition-colors",
+              period === o.id
+                ? "bg-cyan-500/20 text-cyan-400"
+                : "bg-white/5 text-muted-foreground hover:bg-white/10"
+            )}
+          >
+            {o.label}
+          </button>
+        ))}
+      </div>
       <div className="grid grid-cols-2 lg:grid-cols-4 gap-3">
         <KpiTile
-          label="Gross Revenue (Today)"
-          value={formatISK(fleetStats.totalRevenue)}
-          change={12.3}
+          label={`Gross Revenue (${option.current})`}
+          value={formatISK(current?.revenue ?? 0)}
+          change={current && baseline ? percentChange(current.revenue, baseline.revenue) : null}
+          comparison={option.comparison}
+          baseline={baselineText(formatISK(baseline?.revenue ?? 0))}
           icon={DollarSign}
           color="text-cyan-400"
         />
         <KpiTile
-          label="Month-to-Date"
-          value={formatISK(fleetStats.totalRevenue * 24)}
-          change={8.7}
+          label={`Units Sold (${option.current})`}
+          value={(current?.units ?? 0).toLocaleString()}
+          change={current && baseline ? percentChange(current.units, baseline.units) : null}
+          comparison={option.comparison}
+          baseline={baselineText(`${(baseline?.units ?? 0).toLocaleString()} units`)}
           icon={TrendingUp}
           color="text-emerald-400"
         />
         <KpiTile
           label="Avg Transaction Value"
-          value={formatISK(fleetStats.atv)}
-          change={3.2}
+          value={formatISK(current?.atv ?? 0)}
+          change={current && baseline ? percentChange(current.atv, baseline.atv) : null}
+          comparison={option.comparison}
+          baseline={baselineText(formatISK(baseline?.atv ?? 0))}
           icon={ShoppingCart}
           color="text-amber-400"
         />
         <KpiTile
           label="Conversion Rate"
-          value={`${conversionRate.toFixed(1)}%`}
-          change={1.5}
+          value={`${(current?.conversionRate ?? 0).toFixed(1)}%`}
+          // Rates are compared in percentage points, not relative %
+          change={current && baseline && baseline.transactions > 0
+            ? current.conversionRate - baseline.conversionRate
+            : null}
+          changeUnit="pp"
+          comparison={option.comparison}
+          baseline={baselineText(
+            `${(baseline?.conversionRate ?? 0).toFixed(1)}% of ${(baseline?.transactions ?? 0).toLocaleString()} payment attempts`
+          )}
           icon={MousePointerClick}
           color="text-purple-400"
         />
@@ -473,7 +824,12 @@ export function SalesDashboard() {
       <RevenueTrafficChart />
 
       {/* Heatmap */}
-      <SalesHeatmap />      {/* Product Performance (Top 5 vs Bottom 5) */}
+      <SalesHeatmap />
+
+      {/* Payment methods and failures */}
+      <PaymentAnalyticsPanel />
+
+      {/* Product Performance (Top 5 vs Bottom 5) */}
       <ProductPerformance />
 
       {/* Transaction Log (TanStack Table) */}
@@ -8,6 +8,12 @@
  * card below uses useFleetStatsQuery() instead of the simulation
  * context. Both approaches work; this lets you compare them.
  *
+ * The "Simulation Seed" card restarts the simulation from a seed so
+ * a session can be reproduced exactly (same fleet, same sales), or
+ * replays the running seed from its first moment.
+ * "Machines & Locations" (see `fleet-admin.tsx`) registers, renames,
+ * moves and decommissions machines and manages the locations.
+ *
  * In a real system, this would include:
  *   - User management
  *   - Notification preferences
@@ -18,10 +24,12 @@
 
 "use client";
 
-import React from "react";
+import React, { useState } from "react";
 import { useSimulation } from "@/lib/simulation-context";
-import { useFleetStatsQuery, useMachinesQuery } from "@/lib/queries";
+import { useAlertRulesQuery, useFleetStatsQuery, useMachinesQuery } from "@/lib/queries";
+import { FleetAdmin } from "@/components/fleet-admin";
 import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
 import {
   Monitor,
   Wifi,
@@ -30,10 +38,87 @@ import {
   Bell,
   Users,
   RefreshCw,
+  Dices,
+  RotateCcw,
 } from "lucide-react";
 
+/**
+ * Lets the operator view and change the simulation seed.
+ * Applying a seed restarts the fleet; sharing the resulting URL
+ * (`?seed=...`) reproduces the exact same session elsewhere.
+ * A seed with stored history resumes it – "Replay from start"
+ * deletes that history (after a second click) and starts over.
+ */
+function SeedSettings() {
+  const { seed, reseed } = useSimulation();
+  // Draft value for the input – only applied on submit
+  const [draft, setDraft] = useState("");
+  const [confirmingReplay, setConfirmingReplay] = useState(false);
+
+  function handleApply(e: React.FormEvent) {
+    e.preventDefault();
+    const next = draft.trim();
+    if (!next) return;
+    reseed(next);
+    setDraft("");
+  }
+
+  return (
+    <div className="glass-card p-4">
+      <div className="flex items-center gap-2 mb-1">
+        <h3 className="text-sm font-semibold text-foreground">Simulation Seed</h3>
+        <Badge variant="outline" className="text-[10px] font-mono border-cyan-500/30 text-cyan-400">
+          {seed || "—"}
+        </Badge>
+      </div>
+      <p className="text-xs text-muted-foreground mb-3">
+        The same seed always produces the same fleet, transactions and events.
+        Use it to reproduce a bug report or a demo.
+      </p>
+      <form onSubmit={handleApply} className="flex items-center gap-2">
+        <input
+          type="text"
+          placeholder="Enter a seed, e.g. demo-42"
+          value={draft}
+          onChange={(e) => setDraft(e.target.value)}
+          className="flex-1 px-3 py-1.5 text-xs font-mono bg-white/5 border border-border rounded-lg text-foreground placeholder:text-muted-foreground focus:outline-none focus:ring-1 focus:ring-cyan-500/50"
+        />
+        <Button type="submit" size="sm" variant="outline" className="text-xs" disabled={!draft.trim()}>
+          Apply
+        </Button>
+        <Button type="button" size="sm" variant="ghost" className="text-xs" onClick={() => reseed()}>
+          <Dices className="w-3.5 h-3.5 mr-1" />
+          Randomize
+        </Button>
+      </form>
+      <div className="flex items-center gap-2 mt-3">
+        {confirmingReplay ? (
+          <>
+            <span className="text-[10px] text-muted-foreground">
+              Deletes everything recorded for <span className="font-mono">{seed}</span>
+            </span>
+            <Button type="button" size="sm" variant="outline" className="text-xs text-rose-400" disabled={!seed}
+              onClick={() => { reseed(seed, true); setConfirmingReplay(false); }}>
+              Replay from start
+            </Button>
+            <Button type="button" size="sm" variant="ghost" className="text-xs" onClick={() => setConfirmingReplay(false)}>
+              Keep history
+            </Button>
+          </>
+        ) : (
+          <Button type="button" size="sm" variant="ghost" className="text-xs" disabled={!seed}
+            onClick={() => setConfirmingReplay(true)}>
+            <RotateCcw className="w-3.5 h-3.5 mr-1" />
+            Replay from start
+          </Button>
+        )}
+      </div>
+    </div>
+  );
+}
+
 export function SettingsPage() {
-  const { fleetStats } = useSimulation();
+  const { fleetStats, locations } = useSimulation();
 
   /**
    * TANSTACK QUERY DEMO:
@@ -58,12 +143,14 @@ export function SettingsPage() {
     isLoading: machinesLoading,
   } = useMachinesQuery();
 
+  const { data: alertRules } = useAlertRulesQuery();
+
   const infoCards = [
-    { icon: Monitor, label: "Fleet Size", value: `${fleetStats.total} machines`, desc: "Across 5 locations" },
+    { icon: Monitor, label: "Fleet Size", value: `${fleetStats.total} machines`, desc: `Across ${locations.length} locations` },
     { icon: Wifi, label: "Connectivity", value: "98.5% uptime", desc: "Last 30 days" },
     { icon: Database, label: "Data Points", value: "12.4M", desc: "Events processed today" },
     { icon: Shield, label: "Security", value: "TLS 1.3", desc: "End-to-end encrypted" },
-    { icon: Bell, label: "Alerts", value: `${fleetStats.criticalAlerts} active`, desc: "Notification rules: 12" },
+    { icon: Bell, label: "Alerts", value: `${fleetStats.criticalAlerts} active`, desc: `Notification rules: ${alertRules?.filter(r => r.enabled).length ?? "–"}` },
     { icon: Users, label: "Team", value: "8 users", desc: "3 admins, 5 operators" },
   ];
 
@@ -76,6 +163,10 @@ export function SettingsPage() {
         </p>
       </div>
 
+      <SeedSettings />
+
+      <FleetAdmin />
+
       {/* ---- TanStack Query Demo Section ---- */}
       <div className="glass-card p-4 border border-cyan-500/20">
         <div className="flex items-center gap-2 mb-3">
@@ -26,6 +26,10 @@ import {
   BarChart3,
   Map,
   Package,
+  Truck,
+  Warehouse,
+  Bell,
+  Cpu,
   Settings,
   ChevronLeft,
   ChevronRight,
@@ -44,6 +48,10 @@ export type NavTab =
   | "sales"
   | "map"
   | "planogram"
+  | "restock"
+  | "warehouse"
+  | "alerts"
+  | "firmware"
   | "settings";
 
 interface SidebarProps {
@@ -67,6 +75,10 @@ const NAV_ITEMS: { tab: NavTab; label: string; icon: React.ElementType }[] = [
   { tab: "sales",       label: "Sales",       icon: BarChart3 },
   { tab: "map",         label: "Map",         icon: Map },
   { tab: "planogram",   label: "Planogram",   icon: Package },
+  { tab: "restock",     label: "Restock Run", icon: Truck },
+  { tab: "warehouse",   label: "Warehouse",   icon: Warehouse },
+  { tab: "alerts",      label: "Alerts",      icon: Bell },
+  { tab: "firmware",    label: "Firmware",    icon: Cpu },
   { tab: "settings",    label: "Settings",    icon: Settings },
 ];
 
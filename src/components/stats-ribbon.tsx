@@ -7,7 +7,8 @@
  * high-level KPIs at a glance:
  *   - Total Revenue (today)
  *   - Active Machines
- *   - Critical Alerts
+ *   - Critical Alerts (with open incidents and how fast they
+ *     get acknowledged / resolved)
  *   - Average Transaction Value (ATV)
  *
  * DESIGN PATTERN: "Stat Cards"
@@ -24,6 +25,7 @@
 import React from "react";
 import { useSimulation } from "@/lib/simulation-context";
 import { formatISK } from "@/lib/data";
+import { formatMinutes } from "@/lib/incidents";
 import {
   DollarSign,
   Monitor,
@@ -94,14 +96,19 @@ function StatTile({
   );
 }
 
+/** "TTA 12m" / "TTA –" */
+const formatMetric = (label: string, minutes: number | null) =>
+  `${label} ${minutes === null ? "–" : formatMinutes(minutes)}`;
+
 export function StatsRibbon() {
   // Pull real-time data from simulation context
-  const { fleetStats } = useSimulation();
+  const { fleetStats, periodLabel } = useSimulation();
+  const { incidents } = fleetStats;
 
   return (
     <div className="grid grid-cols-2 lg:grid-cols-4 gap-3">
       <StatTile
-        label="Total Revenue (Today)"
+        label={`Total Revenue (${periodLabel})`}
         value={formatISK(fleetStats.totalRevenue)}
         subtitle={`${fleetStats.totalTransactions} transactions`}
         icon={DollarSign}
@@ -117,7 +124,7 @@ export function StatsRibbon() {
       <StatTile
         label="Critical Alerts"
         value={String(fleetStats.criticalAlerts + fleetStats.error)}
-        subtitle={`${fleetStats.lowStockSlots} low-stock slots`}
+        subtitle={`${incidents.open} open · ${formatMetric("TTA", incidents.ttaMinutes)} · ${formatMetric("TTR", incidents.ttrMinutes)}`}
         icon={AlertTriangle}
         color="text-rose-400"
         pulse={fleetStats.criticalAlerts > 0}
@@ -3,7 +3,7 @@
  * Vendral – Transaction Table (TanStack Table)
  * ============================================================
  *
- * A sortable, filterable table of recent sales transactions using
+ * A sortable, filterable, paged table of the full sales history using
  * TanStack Table (formerly React Table v8).
  *
  * TANSTACK TABLE KEY CONCEPTS:
@@ -12,7 +12,7 @@
  * 2. **useReactTable()**: The main hook — you give it data + columns,
  *    and it returns helpers for rendering (getHeaderGroups, getRowModel, etc.)
  * 3. **Sorting/Filtering**: Built-in plugins activated via `getSortedRowModel()`
- *    and `getFilteredRowModel()`. You just enable them and TanStack handles the rest.
+ *    and `getFilteredRowModel()` – or, as here, done by the server (see below).
  * 4. **Headless**: TanStack Table gives you the *logic* — you bring your own markup.
  *    This means full control over styling (perfect for our glassmorphism design).
  *
@@ -20,36 +20,50 @@
  * It's the standard for data-rich React tables. It's headless (no locked-in
  * styling), tree-shakeable, and supports sorting, filtering, pagination,
  * row selection, column resizing, and virtual scrolling out of the box.
+ *
+ * SERVER-SIDE MODE:
+ * The table pages through the FULL stored history, which can be far too
+ * big to ship to the browser. So sorting, searching and pagination run
+ * on the server (`/api/fleet/history/transactions`) and TanStack only
+ * renders the current page – that's what the `manual*` options switch on.
  * ============================================================
  */
 
 "use client";
 
-import React, { useState } from "react";
+import React, { useState, useDeferredValue } from "react";
 import { useSimulation } from "@/lib/simulation-context";
-import { formatISK, type Transaction } from "@/lib/data";
+import { useTransactionHistoryQuery, type HistoryQuery } from "@/lib/queries";
+import { formatISK, type Product, type Transaction } from "@/lib/data";
+import { PAYMENT_METHODS, failureReasonLabel, paymentDetails, paymentMethodLabel } from "@/lib/payments";
 import { cn } from "@/lib/utils";
 import { Badge } from "@/components/ui/badge";
-import { Search, ArrowUpDown, CheckCircle2, XCircle } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  Search,
+  ArrowUpDown,
+  CheckCircle2,
+  XCircle,
+  ChevronLeft,
+  ChevronRight,
+} from "lucide-react";
 
 /**
  * TanStack Table imports:
  * - ColumnDef: Type for defining columns (generic over your data type)
  * - useReactTable: The main hook that creates the table instance
  * - getCoreRowModel: Required — the basic row processing pipeline
- * - getSortedRowModel: Adds sorting support
- * - getFilteredRowModel: Adds global/column filtering
  * - flexRender: Helper to render cells (handles both strings and components)
  * - SortingState: Type for tracking which column is sorted + direction
+ * - PaginationState: Type for the current page index + page size
  */
 import {
   type ColumnDef,
   useReactTable,
   getCoreRowModel,
-  getSortedRowModel,
-  getFilteredRowModel,
   flexRender,
   type SortingState,
+  type PaginationState,
 } from "@tanstack/react-table";
 
 // ============================================================
@@ -87,6 +101,7 @@ const columns: ColumnDef<Transaction>[] = [
     // Column: Transaction ID
     accessorKey: "id",
     header: "TX ID",
+    enableSorting: false,
     cell: (info) => (
       <span className="font-mono text-xs text-cyan-400">
         {info.getValue<string>()}
@@ -142,11 +157,21 @@ const columns: ColumnDef<Transaction>[] = [
     // Column: Payment Method
     accessorKey: "paymentMethod",
     header: "Payment",
-    cell: () => (
-      <Badge variant="outline" className="text-[10px] border-cyan-500/30 text-cyan-400">
-        💳 Card
-      </Badge>
-    ),
+    enableSorting: false,
+    cell: (info) => {
+      const { method, failureReason } = paymentDetails(info.row.original);
+      const icon = PAYMENT_METHODS.find(m => m.id === method)?.icon;
+      return (
+        <div className="flex items-center gap-1.5">
+          <Badge variant="outline" className="text-[10px] border-cyan-500/30 text-cyan-400">
+            {icon} {paymentMethodLabel(method)}
+          </Badge>
+          {failureReason && (
+            <span className="text-[10px] text-rose-400">{failureReasonLabel(failureReason)}</span>
+          )}
+        </div>
+      );
+    },
   },
   {
     // Column: Timestamp
@@ -160,27 +185,67 @@ const columns: ColumnDef<Transaction>[] = [
         <ArrowUpDown className="w-3 h-3" />
       </button>
     ),
-    /** Format Date as a readable time string */
+    /** Format Date as a readable date + time string */
     cell: (info) => {
       const date = info.getValue<Date>();
       return (
         <span className="text-xs text-muted-foreground">
+          {date.toLocaleDateString("en-US", { month: "short", day: "numeric" })}{" "}
           {date.toLocaleTimeString("en-US", { hour12: false })}
         </span>
       );
     },
-    /** Tell TanStack how to sort dates (compare timestamps) */
-    sortingFn: "datetime",
   },
 ];
 
+// ============================================================
+// FILTER OPTIONS
+// ============================================================
+
+/** Time ranges, aligned to whole (virtual) days so the query stays stable */
+const TIME_RANGES = [
+  { id: "today", label: "Today" },
+  { id: "yesterday", label: "Yesterday" },
+  { id: "week", label: "Last 7 days" },
+  { id: "month", label: "Last 31 days" },
+] as const;
+
+type TimeRange = (typeof TIME_RANGES)[number]["id"];
+
+const PRODUCT_CATEGORIES: Product["category"][] = ["beverage", "snack", "candy", "fresh"];
+
+/** Turn a time range into from/to bounds relative to the virtual clock */
+function rangeBounds(range: TimeRange, now: Date): Pick<HistoryQuery, "from" | "to"> {
+  const startOfToday = new Date(now);
+  startOfToday.setHours(0, 0, 0, 0);
+  const daysAgo = (days: number) => {
+    const d = new Date(startOfToday);
+    d.setDate(d.getDate() - days);
+    return d;
+  };
+
+  switch (range) {
+    case "today":     return { from: startOfToday };
+    case "yesterday": return { from: daysAgo(1), to: startOfToday };
+    case "week":      return { from: daysAgo(6) };
+    case "month":     return { from: daysAgo(30) };
+  }
+}
+
+const PAGE_SIZE = 25;
+const NO_ROWS: Transaction[] = [];
+
+/** Shared styling for the compact filter dropdowns */
+const selectClass =
+  "py-1.5 px-2 text-xs bg-white/5 border border-border rounded-lg text-foreground focus:outline-none focus:ring-1 focus:ring-cyan-500/50";
+
 // ============================================================
 // TRANSACTION TABLE COMPONENT
 // ============================================================
 
 export function TransactionTable() {
   "use no memo"; // TanStack Table returns mutable objects; opt out of React Compiler memoization
-  const { transactions } = useSimulation();
+  const { machines, clock, historyRange } = useSimulation();
 
   /**
    * Sorting state tracks which column is sorted and in which direction.
@@ -192,18 +257,48 @@ export function TransactionTable() {
   ]);
 
   /**
-   * Global filter: a single search string applied across all columns.
-   * TanStack automatically checks every column's value against this string.
+   * Global filter: a single search string sent to the server, which
+   * matches it against the TX ID, machine and product names.
+   * useDeferredValue lets typing stay snappy while results catch up.
    */
   const [globalFilter, setGlobalFilter] = useState("");
+  const search = useDeferredValue(globalFilter);
+
+  /** Which page we're on (pageIndex is 0-based) */
+  const [pagination, setPagination] = useState<PaginationState>({
+    pageIndex: 0,
+    pageSize: PAGE_SIZE,
+  });
+
+  const [machineId, setMachineId] = useState("");
+  const [category, setCategory] = useState("");
+  const [range, setRange] = useState<TimeRange>("today");
+
+  // Changing a filter jumps back to the first page
+  const resetPage = () => setPagination((p) => ({ ...p, pageIndex: 0 }));
+
+  const { data: page, isFetching } = useTransactionHistoryQuery({
+    // Historical mode overrides the table's own time range
+    ...(historyRange ?? rangeBounds(range, clock.time)),
+    machineId,
+    category,
+    search,
+    sort: sorting[0]?.id as HistoryQuery["sort"],
+    desc: sorting[0]?.desc,
+    offset: pagination.pageIndex * pagination.pageSize,
+    limit: pagination.pageSize,
+  });
+  const transactions = page?.items ?? NO_ROWS;
+  const total = page?.total ?? 0;
 
   /**
    * useReactTable is the core hook. It takes:
-   * - data: your rows (Transaction[])
+   * - data: your rows (the current page of Transaction[])
    * - columns: your column definitions
-   * - state: current UI state (sorting, filters)
+   * - state: current UI state (sorting, filters, pagination)
    * - on*Change: callbacks to update state when user interacts
-   * - get*RowModel: pipeline plugins to process rows
+   * - manual*: "the server already did this" – TanStack won't re-sort,
+   *   re-filter or slice the page it's given
    *
    * It returns a table instance with methods for rendering.
    */
@@ -213,37 +308,89 @@ export function TransactionTable() {
     state: {
       sorting,
       globalFilter,
+      pagination,
+    },
+    onSortingChange: (updater) => {
+      setSorting(updater);
+      resetPage();
     },
-    onSortingChange: setSorting,
     onGlobalFilterChange: setGlobalFilter,
+    onPaginationChange: setPagination,
+    manualSorting: true,
+    manualFiltering: true,
+    manualPagination: true,
+    rowCount: total,
     getCoreRowModel: getCoreRowModel(),
-    getSortedRowModel: getSortedRowModel(),
-    getFilteredRowModel: getFilteredRowModel(),
   });
 
+  const firstRow = total === 0 ? 0 : pagination.pageIndex * pagination.pageSize + 1;
+  const lastRow = Math.min(total, (pagination.pageIndex + 1) * pagination.pageSize);
+
   return (
     <div className="glass-card p-4">
-      {/* Header with search */}
-      <div className="flex items-center justify-between mb-4">
+      {/* Header with filters + search */}
+      <div className="flex flex-wrap items-center justify-between gap-3 mb-4">
         <div>
           <h3 className="text-sm font-semibold text-foreground">
             Transaction Log
           </h3>
           <p className="text-xs text-muted-foreground">
-            {table.getFilteredRowModel().rows.length} of {transactions.length} transactions
+            {total.toLocaleString()} transactions{isFetching && " · updating…"}
           </p>
         </div>
 
-        {/* Global search input */}
-        <div className="relative">
-          <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-3.5 h-3.5 text-muted-foreground" />
-          <input
-            type="text"
-            placeholder="Search transactions..."
-            value={globalFilter}
-            onChange={(e) => setGlobalFilter(e.target.value)}
-            className="pl-9 pr-3 py-1.5 text-xs bg-white/5 border border-border rounded-lg text-foreground placeholder:text-muted-foreground focus:outline-none focus:ring-1 focus:ring-cyan-500/50 w-56"
-          />
+        <div className="flex flex-wrap items-center gap-2">
+          {/* Time range */}
+          <select
+            value={historyRange ? "history" : range}
+            onChange={(e) => { setRange(e.target.value as TimeRange); resetPage(); }}
+            className={selectClass}
+            disabled={historyRange !== null}
+            aria-label="Time range"
+          >
+            {historyRange && <option value="history">Selected range</option>}
+            {TIME_RANGES.map((r) => (
+              <option key={r.id} value={r.id}>{r.label}</option>
+            ))}
+          </select>
+
+          {/* Machine */}
+          <select
+            value={machineId}
+            onChange={(e) => { setMachineId(e.target.value); resetPage(); }}
+            className={selectClass}
+            aria-label="Machine"
+          >
+            <option value="">All machines</option>
+            {machines.map((m) => (
+              <option key={m.id} value={m.id}>{m.id} · {m.name}</option>
+            ))}
+          </select>
+
+          {/* Product category */}
+          <select
+            value={category}
+            onChange={(e) => { setCategory(e.target.value); resetPage(); }}
+            className={cn(selectClass, "capitalize")}
+            aria-label="Product category"
+          >
+            <option value="">All categories</option>
+            {PRODUCT_CATEGORIES.map((c) => (
+              <option key={c} value={c}>{c}</option>
+            ))}
+          </select>
+
+          {/* Global search input */}
+          <div className="relative">
+            <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-3.5 h-3.5 text-muted-foreground" />
+            <input
+              type="text"
+              placeholder="Search transactions..."
+              value={globalFilter}
+              onChange={(e) => { setGlobalFilter(e.target.value); resetPage(); }}
+              className="pl-9 pr-3 py-1.5 text-xs bg-white/5 border border-border rounded-lg text-foreground placeholder:text-muted-foreground focus:outline-none focus:ring-1 focus:ring-cyan-500/50 w-56"
+            />
+          </div>
         </div>
       </div>
 
@@ -283,8 +430,8 @@ export function TransactionTable() {
           {/* Table Body */}
           <tbody>
             {/**
-             * getRowModel().rows returns the processed rows
-             * (filtered, sorted, paginated — whatever plugins you enabled).
+             * getRowModel().rows returns the rows to render – here the
+             * page the server sent, already filtered and sorted.
              */}
             {table.getRowModel().rows.length === 0 ? (
               <tr>
@@ -292,7 +439,9 @@ export function TransactionTable() {
                   colSpan={columns.length}
                   className="text-center py-8 text-muted-foreground"
                 >
-                  No transactions yet. Waiting for sales...
+                  {range === "today" && !machineId && !category && !search
+                    ? "No transactions yet. Waiting for sales..."
+                    : "No transactions match these filters."}
                 </td>
               </tr>
             ) : (
@@ -325,11 +474,34 @@ export function TransactionTable() {
         </table>
       </div>
 
-      {/* Footer info */}
+      {/* Footer: paging + info */}
       <div className="mt-3 pt-2 border-t border-border/30 flex items-center justify-between">
-        <span className="text-[10px] text-muted-foreground">
-          Showing latest {Math.min(transactions.length, 200)} transactions (live updating)
-        </span>
+        <div className="flex items-center gap-2">
+          <Button
+            variant="ghost"
+            size="icon"
+            className="h-6 w-6"
+            onClick={() => table.previousPage()}
+            disabled={!table.getCanPreviousPage()}
+            aria-label="Previous page"
+          >
+            <ChevronLeft className="w-3.5 h-3.5" />
+          </Button>
+          <span className="text-[10px] text-muted-foreground">
+            {firstRow.toLocaleString()}–{lastRow.toLocaleString()} of {total.toLocaleString()}
+            {" "}(page {pagination.pageIndex + 1} of {Math.max(1, table.getPageCount())})
+          </span>
+          <Button
+            variant="ghost"
+            size="icon"
+            className="h-6 w-6"
+            onClick={() => table.nextPage()}
+            disabled={!table.getCanNextPage()}
+            aria-label="Next page"
+          >
+            <ChevronRight className="w-3.5 h-3.5" />
+          </Button>
+        </div>
         <Badge variant="outline" className="text-[10px] text-cyan-400 border-cyan-500/30">
           All Payments by Card 💳
         </Badge>
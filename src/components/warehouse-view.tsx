@@ -0,0 +1,429 @@
+/**
+ * ============================================================
+ * Vendral – Warehouse (Inventory, Transfers & Reconciliation)
+ * ============================================================
+ *
+ * The central warehouse every machine is restocked from (see
+ * `src/lib/warehouse.ts`):
+ *   - Inventory: per product on hand, reserved for transfers on the
+ *     way, available, on order from the supplier, and what the fleet
+ *     holds; order more from the supplier per product
+ *   - Restock & count: restock a machine now, load a transfer for
+ *     later, or count it and compare with the transaction log
+ *   - Transfers: pending ones can be completed or cancelled
+ *   - Reconciliations: recent counts with any shrinkage (units that
+ *     left a machine without a sale)
+ *   - Waste: perishable units written off at their use-by time, by
+ *     product and by machine (see `src/lib/expiry.ts`)
+ *
+ * The warehouse is always live – in historical mode this tab still
+ * shows and changes today's stock. The waste report follows the
+ * selected date range (the last 7 days when live).
+ * ============================================================
+ */
+
+"use client";
+
+import React, { useMemo, useState } from "react";
+import { useSimulation } from "@/lib/simulation-context";
+import {
+  useWarehouseQuery,
+  useCreateTransferMutation,
+  useUpdateTransferMutation,
+  useOrderStockMutation,
+  useReconcileMutation,
+  useWasteReportQuery,
+  type DateRange,
+} from "@/lib/queries";
+import { formatISK, getProductById } from "@/lib/data";
+import { getAvailable, totalsByProduct, type Reconciliation, type StockTransfer } from "@/lib/warehouse";
+import { formatMoment } from "@/components/date-range-picker";
+import { cn } from "@/lib/utils";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { ClipboardCheck, PackagePlus, Truck, X, Check, Trash2 } from "lucide-react";
+
+const DEFAULT_ORDER_QUANTITY = 100;
+
+const inputClass =
+  "h-7 bg-white/5 border border-white/10 rounded-md px-2 text-[11px] text-foreground";
+
+// ============================================================
+// RESTOCK & COUNT
+// ============================================================
+
+function MachineActions() {
+  const { machines } = useSimulation();
+  const [machineId, setMachineId] = useState(machines[0]?.id ?? "");
+  const transfer = useCreateTransferMutation();
+  const reconcile = useReconcileMutation();
+  const error = transfer.error ?? reconcile.error;
+  const busy = transfer.isPending || reconcile.isPending;
+
+  return (
+    <div className="glass-card p-4 space-y-3">
+      <h3 className="text-sm font-semibold text-foreground">Restock & Count</h3>
+      <select
+        value={machineId}
+        onChange={(e) => setMachineId(e.target.value)}
+        className={cn(inputClass, "w-full")}
+        aria-label="Machine"
+      >
+        {machines.map(m => (
+          <option key={m.id} value={m.id}>{m.id} · {m.name} ({m.location.name})</option>
+        ))}
+      </select>
+      <div className="flex flex-wrap gap-2">
+        <Button size="sm" className="text-xs" disabled={busy || !machineId}
+          onClick={() => transfer.mutate({ machineId, complete: true })}>
+          <Truck className="w-3.5 h-3.5 mr-1" />
+          Restock now
+        </Button>
+        <Button variant="outline" size="sm" className="text-xs" disabled={busy || !machineId}
+          onClick={() => transfer.mutate({ machineId })}>
+          <PackagePlus className="w-3.5 h-3.5 mr-1" />
+          Load transfer
+        </Button>
+        <Button variant="outline" size="sm" className="text-xs" disabled={busy || !machineId}
+          onClick={() => reconcile.mutate({ machineId })}>
+          <ClipboardCheck className="w-3.5 h-3.5 mr-1" />
+          Count & reconcile
+        </Button>
+      </div>
+      <p className="text-[10px] text-muted-foreground">
+        Restocking tops up every slot with what the warehouse has available. A loaded
+        transfer reserves the units until it is completed.
+      </p>
+      {error && <p className="text-[11px] text-rose-400">{error.message}</p>}
+    </div>
+  );
+}
+
+// ============================================================
+// TRANSFERS
+// ============================================================
+
+function TransferRow({ transfer }: { transfer: StockTransfer }) {
+  const update = useUpdateTransferMutation();
+  const units = transfer.lines.reduce((sum, l) => sum + (l.delivered ?? l.quantity), 0);
+
+  return (
+    <div className="flex items-center gap-2 p-2 rounded-lg bg-white/5 text-[11px]">
+      <div className="flex-1 min-w-0">
+        <p className="text-foreground">
+          <span className="font-mono">{transfer.id}</span> → {transfer.machineId}
+          {transfer.note && <span className="text-muted-foreground"> · {transfer.note}</span>}
+        </p>
+        <p className="text-[10px] text-muted-foreground">
+          {units} items in {transfer.lines.length} slots · {formatMoment(transfer.closedAt ?? transfer.createdAt)}
+        </p>
+      </div>
+      {transfer.status === "pending" ? (
+        <>
+          <Button variant="ghost" size="icon" className="w-6 h-6" disabled={update.isPending}
+            onClick={() => update.mutate({ id: transfer.id, status: "completed" })} aria-label="Complete transfer">
+            <Check className="w-3.5 h-3.5 text-emerald-400" />
+          </Button>
+          <Button variant="ghost" size="icon" className="w-6 h-6" disabled={update.isPending}
+            onClick={() => update.mutate({ id: transfer.id, status: "cancelled" })} aria-label="Cancel transfer">
+            <X className="w-3.5 h-3.5 text-rose-400" />
+          </Button>
+        </>
+      ) : (
+        <Badge variant="outline" className={cn(
+          "text-[9px]",
+          transfer.status === "completed" ? "text-emerald-400 border-emerald-500/30" : "text-muted-foreground"
+        )}>
+          {transfer.status}
+        </Badge>
+      )}
+    </div>
+  );
+}
+
+// ============================================================
+// RECONCILIATIONS
+// ============================================================
+
+function ReconciliationRow({ reconciliation }: { reconciliation: Reconciliation }) {
+  const [open, setOpen] = useState(false);
+  const off = reconciliation.lines.filter(l => l.variance !== 0);
+
+  return (
+    <div className="p-2 rounded-lg bg-white/5 text-[11px]">
+      <button className="w-full flex items-center gap-2 text-left" onClick={() => setOpen(!open)}>
+        <span className="flex-1 min-w-0 text-foreground">
+          {reconciliation.machineId}
+          <span className="text-muted-foreground"> · counted {formatMoment(reconciliation.countedAt)}</span>
+        </span>
+        {reconciliation.shrinkageUnits > 0 ? (
+          <Badge className="bg-rose-500/20 text-rose-400 text-[10px] border-0">
+            −{reconciliation.shrinkageUnits} · {formatISK(reconciliation.shrinkageValue)}
+          </Badge>
+        ) : (
+          <Badge className="bg-emerald-500/20 text-emerald-400 text-[10px] border-0">Matches</Badge>
+        )}
+      </button>
+      {open && (
+        <table className="w-full mt-2 text-[10px]">
+          <thead>
+            <tr className="text-muted-foreground">
+              <th className="text-left font-normal">Product</th>
+              <th className="text-right font-normal">Expected</th>
+              <th className="text-right font-normal">Counted</th>
+              <th className="text-right font-normal">Variance</th>
+            </tr>
+          </thead>
+          <tbody>
+            {(off.length > 0 ? off : reconciliation.lines).map(line => {
+              const product = getProductById(line.productId);
+              return (
+                <tr key={line.productId}>
+                  <td className="py-0.5 text-foreground">{product?.icon} {product?.name ?? line.productId}</td>
+                  <td className="py-0.5 text-right">{line.expected}</td>
+                  <td className="py-0.5 text-right">{line.counted}</td>
+                  <td className={cn("py-0.5 text-right font-semibold",
+                    line.variance < 0 ? "text-rose-400" : line.variance > 0 ? "text-amber-400" : "text-muted-foreground")}>
+                    {line.variance > 0 ? `+${line.variance}` : line.variance}
+                  </td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      )}
+      {open && (
+        <p className="mt-1 text-[10px] text-muted-foreground">
+          Since the count at {formatMoment(reconciliation.since)}. Expected = that count + deliveries − sales.
+        </p>
+      )}
+    </div>
+  );
+}
+
+// ============================================================
+// WASTE REPORT
+// ============================================================
+
+function WasteReport({ range }: { range: DateRange | null }) {
+  const { data: report } = useWasteReportQuery(range);
+  if (!report) return null;
+
+  return (
+    <div className="glass-card p-4 space-y-3">
+      <div className="flex items-center gap-2">
+        <Trash2 className="w-4 h-4 text-rose-400" />
+        <h3 className="text-sm font-semibold text-foreground">Waste</h3>
+        <span className="text-xs text-muted-foreground">
+          {range ? `${formatMoment(report.from)} – ${formatMoment(report.to)}` : "last 7 days"}
+        </span>
+        <span className="ml-auto text-xs text-foreground">
+          {report.units} units · <span className="font-semibold text-rose-400">{formatISK(report.value)}</span>
+        </span>
+      </div>
+      {report.units === 0 ? (
+        <p className="text-xs text-muted-foreground">Nothing expired in this period.</p>
+      ) : (
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <table className="w-full text-[11px]">
+            <thead>
+              <tr className="text-muted-foreground">
+                <th className="text-left font-normal py-1">By product</th>
+                <th className="text-right font-normal">Units</th>
+                <th className="text-right font-normal">Written off</th>
+              </tr>
+            </thead>
+            <tbody>
+              {report.byProduct.map(row => (
+                <tr key={row.productId} className="border-b border-white/5">
+                  <td className="py-1 text-foreground">{row.icon} {row.productName}</td>
+                  <td className="py-1 text-right">{row.units}</td>
+                  <td className="py-1 text-right text-rose-400">{formatISK(row.value)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+          <table className="w-full text-[11px]">
+            <thead>
+              <tr className="text-muted-foreground">
+                <th className="text-left font-normal py-1">By machine</th>
+                <th className="text-right font-normal">Units</th>
+                <th className="text-right font-normal">Written off</th>
+              </tr>
+            </thead>
+            <tbody>
+              {report.byMachine.map(row => (
+                <tr key={row.machineId} className="border-b border-white/5">
+                  <td className="py-1 text-foreground">
+                    {row.machineId} <span className="text-muted-foreground">{row.machineName}</span>
+                  </td>
+                  <td className="py-1 text-right">{row.units}</td>
+                  <td className="py-1 text-right text-rose-400">{formatISK(row.value)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+}
+
+// ============================================================
+// MAIN EXPORT
+// ============================================================
+
+export function WarehouseView() {
+  const { machines, historyRange } = useSimulation();
+  const { data: warehouse } = useWarehouseQuery();
+  const order = useOrderStockMutation();
+  const [quantities, setQuantities] = useState<Record<string, number>>({});
+
+  // What the fleet holds of each product right now
+  const inMachines = useMemo(
+    () => totalsByProduct(
+      machines.flatMap(m => m.planogram).filter((sl): sl is typeof sl & { productId: string } => sl.productId !== null),
+      sl => sl.stock
+    ),
+    [machines]
+  );
+
+  if (!warehouse) {
+    return <div className="glass-card p-6 text-sm text-muted-foreground">Loading warehouse…</div>;
+  }
+
+  const items = [...warehouse.items].sort((a, b) => getAvailable(a) - getAvailable(b));
+  const pending = warehouse.transfers.filter(t => t.status === "pending");
+  const recent = warehouse.transfers.filter(t => t.status !== "pending").slice(0, 10);
+  const openOrders = warehouse.orders.filter(o => o.status === "open");
+
+  return (
+    <div className="space-y-4">
+      {/* Header */}
+      <div className="flex flex-wrap items-center gap-3">
+        <h2 className="text-lg font-bold text-foreground">Warehouse</h2>
+        {historyRange && (
+          <Badge variant="outline" className="text-[10px] text-amber-400 border-amber-500/30">
+            Live inventory – not part of historical mode
+          </Badge>
+        )}
+      </div>
+
+      {/* Summary */}
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+        {[
+          { label: "Units on hand", value: items.reduce((sum, i) => sum + i.onHand, 0).toLocaleString("en-US") },
+          { label: "Reserved for transfers", value: items.reduce((sum, i) => sum + i.reserved, 0).toLocaleString("en-US") },
+          { label: "On order", value: items.reduce((sum, i) => sum + i.onOrder, 0).toLocaleString("en-US") },
+          {
+            label: "Shrinkage (recent counts)",
+            value: formatISK(warehouse.reconciliations.reduce((sum, r) => sum + r.shrinkageValue, 0)),
+          },
+        ].map(({ label, value }) => (
+          <div key={label} className="glass-card p-3">
+            <p className="text-[10px] text-muted-foreground">{label}</p>
+            <p className="text-lg font-bold text-foreground">{value}</p>
+          </div>
+        ))}
+      </div>
+
+      <div className="grid grid-cols-1 xl:grid-cols-3 gap-4">
+        {/* Inventory */}
+        <div className="glass-card p-4 xl:col-span-2">
+          <h3 className="text-sm font-semibold text-foreground mb-2">Inventory</h3>
+          <ScrollArea className="h-130">
+            <table className="w-full text-[11px]">
+              <thead className="sticky top-0 bg-background/90">
+                <tr className="text-muted-foreground">
+                  <th className="text-left font-normal py-1">Product</th>
+                  <th className="text-right font-normal">On hand</th>
+                  <th className="text-right font-normal">Reserved</th>
+                  <th className="text-right font-normal">Available</th>
+                  <th className="text-right font-normal">On order</th>
+                  <th className="text-right font-normal">In machines</th>
+                  <th className="text-right font-normal">Order</th>
+                </tr>
+              </thead>
+              <tbody>
+                {items.map(item => {
+                  const product = getProductById(item.productId);
+                  const available = getAvailable(item);
+                  const quantity = quantities[item.productId] ?? DEFAULT_ORDER_QUANTITY;
+                  return (
+                    <tr key={item.productId} className="border-b border-white/5">
+                      <td className="py-1 text-foreground">{product?.icon} {product?.name ?? item.productId}</td>
+                      <td className="py-1 text-right">{item.onHand}</td>
+                      <td className="py-1 text-right text-muted-foreground">{item.reserved}</td>
+                      <td className={cn("py-1 text-right font-semibold",
+                        available === 0 ? "text-rose-400" : available < DEFAULT_ORDER_QUANTITY / 4 ? "text-amber-400" : "text-cyan-400")}>
+                        {available}
+                      </td>
+                      <td className="py-1 text-right text-muted-foreground">{item.onOrder || "–"}</td>
+                      <td className="py-1 text-right text-muted-foreground">{inMachines[item.productId] ?? 0}</td>
+                      <td className="py-1 text-right">
+                        <span className="inline-flex items-center gap-1">
+                          <input
+                            type="number"
+                            min={1}
+                            value={quantity}
+                            onChange={(e) => setQuantities({ ...quantities, [item.productId]: Number(e.target.value) })}
+                            className={cn(inputClass, "w-16 text-right")}
+                            aria-label={`Quantity of ${product?.name ?? item.productId} to order`}
+                          />
+                          <Button variant="ghost" size="sm" className="h-7 text-[10px] px-2"
+                            disabled={order.isPending || !(quantity >= 1)}
+                            onClick={() => order.mutate({ productId: item.productId, quantity })}>
+                            Order
+                          </Button>
+                        </span>
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </ScrollArea>
+          {order.error && <p className="mt-2 text-[11px] text-rose-400">{order.error.message}</p>}
+          {openOrders.length > 0 && (
+            <p className="mt-2 text-[10px] text-muted-foreground">
+              {openOrders.length} purchase order{openOrders.length === 1 ? "" : "s"} open – next delivery{" "}
+              {formatMoment(openOrders.reduce((a, b) => (a.dueAt < b.dueAt ? a : b)).dueAt)}
+            </p>
+          )}
+        </div>
+
+        <div className="space-y-4">
+          <MachineActions />
+
+          {/* Transfers */}
+          <div className="glass-card p-4 space-y-2">
+            <h3 className="text-sm font-semibold text-foreground">
+              Transfers
+              <span className="font-normal text-muted-foreground"> · {pending.length} pending</span>
+            </h3>
+            {pending.length + recent.length === 0 && (
+              <p className="text-xs text-muted-foreground">No transfers yet.</p>
+            )}
+            {[...pending, ...recent].map(t => <TransferRow key={t.id} transfer={t} />)}
+          </div>
+
+          {/* Reconciliations */}
+          <div className="glass-card p-4 space-y-2">
+            <h3 className="text-sm font-semibold text-foreground">Stock Counts</h3>
+            {warehouse.reconciliations.length === 0 && (
+              <p className="text-xs text-muted-foreground">
+                No counts yet. Counting a machine compares its stock with the sales logged since the last count.
+              </p>
+            )}
+            {warehouse.reconciliations.slice(0, 10).map(r => (
+              <ReconciliationRow key={r.id} reconciliation={r} />
+            ))}
+          </div>
+        </div>
+      </div>
+
+      <WasteReport range={historyRange} />
+    </div>
+  );
+}
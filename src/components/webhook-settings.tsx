@@ -0,0 +1,296 @@
+/**
+ * ============================================================
+ * Vendral – Webhook Settings
+ * ============================================================
+ *
+ * Outbound notifications for on-call tools (see
+ * `src/lib/webhooks.ts`):
+ *   - Subscriptions: URL, filters and a hint of the signing secret;
+ *     enable/disable, send a test payload or delete
+ *   - New subscription: what to send (events and/or incident
+ *     changes, by category, least severity and location). The secret
+ *     is shown once, right after creating it
+ *   - Deliveries: every payload with its attempts – retries happen
+ *     in real time with backoff
+ *   - Local stand-in: what `/api/fleet/webhooks/receiver` got and
+ *     whether the signature checked out
+ * ============================================================
+ */
+
+"use client";
+
+import React, { useState } from "react";
+import {
+  useWebhooksQuery,
+  useWebhookDeliveriesQuery,
+  useWebhookReceiverQuery,
+  useCreateWebhookMutation,
+  useUpdateWebhookMutation,
+  useDeleteWebhookMutation,
+  useTestWebhookMutation,
+} from "@/lib/queries";
+import type { SystemEvent } from "@/lib/data";
+import { useSimulation } from "@/lib/simulation-context";
+import { ALERT_SEVERITIES, type AlertSeverity } from "@/lib/alert-rules";
+import {
+  DEFAULT_WEBHOOK_FILTERS,
+  WEBHOOK_CATEGORIES,
+  describeFilters,
+  type WebhookDelivery,
+  type WebhookFilters,
+  type WebhookSubscriptionView,
+} from "@/lib/webhooks";
+import { cn } from "@/lib/utils";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { Bell, BellOff, Plus, Send, Trash2, Webhook } from "lucide-react";
+
+const RECEIVER_PATH = "/api/fleet/webhooks/receiver";
+
+/** Deliveries listed */
+const DELIVERIES_SHOWN = 50;
+
+const inputClass =
+  "h-7 bg-white/5 border border-white/10 rounded-md px-2 text-[11px] text-foreground";
+
+const DELIVERY_STYLES: Record<WebhookDelivery["status"], string> = {
+  pending: "text-amber-400 border-amber-500/30",
+  delivered: "text-emerald-400 border-emerald-500/30",
+  failed: "text-rose-400 border-rose-500/30",
+  dropped: "text-muted-foreground border-white/10",
+};
+
+/** Real-time "14:03:12" */
+const formatTime = (date: Date) => date.toLocaleTimeString("en-US", { hour12: false });
+
+function Toggle({ active, onClick, children }: { active: boolean; onClick: () => void; children: React.ReactNode }) {
+  return (
+    <button onClick={onClick}
+      className={cn(
+        "px-2 py-0.5 rounded-md text-[10px] border",
+        active ? "bg-cyan-500/20 text-cyan-400 border-cyan-500/30" : "text-muted-foreground border-white/10"
+      )}>
+      {children}
+    </button>
+  );
+}
+
+// ============================================================
+// SUBSCRIPTIONS
+// ============================================================
+
+function WebhookRow({ webhook }: { webhook: WebhookSubscriptionView }) {
+  const { locations } = useSimulation();
+  const update = useUpdateWebhookMutation();
+  const remove = useDeleteWebhookMutation();
+  const test = useTestWebhookMutation();
+  const busy = update.isPending || remove.isPending || test.isPending;
+
+  return (
+    <div className={cn("flex items-center gap-2 p-2 rounded-lg bg-white/5 text-[11px]", !webhook.enabled && "opacity-50")}>
+      <div className="flex-1 min-w-0">
+        <p className="text-foreground">
+          {webhook.name} <span className="font-mono text-muted-foreground">{webhook.id}</span>
+        </p>
+        <p className="text-[10px] text-muted-foreground truncate">{webhook.url}</p>
+        <p className="text-[10px] text-muted-foreground">
+          {describeFilters(webhook.filters)}
+          {webhook.filters.locationIds.length > 0 &&
+            ` · ${webhook.filters.locationIds.map(id => locations.find(l => l.id === id)?.name ?? id).join(", ")}`}
+          {` · secret ${webhook.secretHint}`}
+        </p>
+      </div>
+      <Button variant="ghost" size="sm" className="h-6 text-[10px] px-2" disabled={busy}
+        onClick={() => test.mutate(webhook.id)}>
+        <Send className="w-3 h-3 mr-1" />
+        Send test
+      </Button>
+      <Button variant="ghost" size="icon" className="w-6 h-6" disabled={busy}
+        onClick={() => update.mutate({ id: webhook.id, enabled: !webhook.enabled })}
+        aria-label={webhook.enabled ? "Disable webhook" : "Enable webhook"}>
+        {webhook.enabled
+          ? <Bell className="w-3.5 h-3.5 text-emerald-400" />
+          : <BellOff className="w-3.5 h-3.5 text-muted-foreground" />}
+      </Button>
+      <Button variant="ghost" size="icon" className="w-6 h-6" disabled={busy}
+        onClick={() => remove.mutate(webhook.id)} aria-label="Delete webhook">
+        <Trash2 className="w-3.5 h-3.5 text-rose-400" />
+      </Button>
+    </div>
+  );
+}
+
+function NewWebhookForm() {
+  const { locations } = useSimulation();
+  const create = useCreateWebhookMutation();
+  const [name, setName] = useState("");
+  const [url, setUrl] = useState("");
+  const [filters, setFilters] = useState<WebhookFilters>(DEFAULT_WEBHOOK_FILTERS);
+  const set = (changes: Partial<WebhookFilters>) => setFilters({ ...filters, ...changes });
+  const toggle = <T,>(list: T[], item: T) => (list.includes(item) ? list.filter(i => i !== item) : [...list, item]);
+
+  return (
+    <div className="space-y-2">
+      <div className="flex flex-wrap gap-2">
+        <input value={name} maxLength={60} onChange={(e) => setName(e.target.value)} placeholder="Name, e.g. On-call"
+          className={cn(inputClass, "w-40")} aria-label="Webhook name" />
+        <input value={url} maxLength={500} onChange={(e) => setUrl(e.target.value)} placeholder="https://…"
+          className={cn(inputClass, "flex-1 min-w-48")} aria-label="Webhook URL" />
+        <Button variant="outline" size="sm" className="h-7 text-[10px]"
+          onClick={() => setUrl(`${window.location.origin}${RECEIVER_PATH}`)}>
+          Use local stand-in
+        </Button>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-1">
+        <Toggle active={filters.events} onClick={() => set({ events: !filters.events })}>System events</Toggle>
+        <Toggle active={filters.incidents} onClick={() => set({ incidents: !filters.incidents })}>Incidents</Toggle>
+        <span className="text-[10px] text-muted-foreground ml-2">from</span>
+        <select value={filters.minSeverity} onChange={(e) => set({ minSeverity: e.target.value as AlertSeverity })}
+          className={inputClass} aria-label="Least severity">
+          {ALERT_SEVERITIES.map(severity => <option key={severity} value={severity}>{severity}+</option>)}
+        </select>
+      </div>
+      <div className="flex flex-wrap items-center gap-1">
+        <span className="text-[10px] text-muted-foreground mr-1">Categories</span>
+        {WEBHOOK_CATEGORIES.map(category => (
+          <Toggle key={category} active={filters.categories.includes(category)}
+            onClick={() => set({ categories: toggle<SystemEvent["category"]>(filters.categories, category) })}>
+            {category}
+          </Toggle>
+        ))}
+        {filters.categories.length === 0 && <span className="text-[10px] text-muted-foreground">(none = all)</span>}
+      </div>
+      <div className="flex flex-wrap items-center gap-1">
+        <span className="text-[10px] text-muted-foreground mr-1">Locations</span>
+        {locations.map(location => (
+          <Toggle key={location.id} active={filters.locationIds.includes(location.id)}
+            onClick={() => set({ locationIds: toggle(filters.locationIds, location.id) })}>
+            {location.name}
+          </Toggle>
+        ))}
+        {filters.locationIds.length === 0 && <span className="text-[10px] text-muted-foreground">(none = all)</span>}
+        <Button size="sm" className="ml-auto text-xs" disabled={create.isPending || !name.trim() || !url}
+          onClick={() => create.mutate({ name, url, filters }, { onSuccess: () => setName("") })}>
+          <Plus className="w-3.5 h-3.5 mr-1" />
+          Add webhook
+        </Button>
+      </div>
+
+      {create.error && <p className="text-[11px] text-rose-400">{create.error.message}</p>}
+      {create.data && (
+        <p className="text-[11px] text-amber-400">
+          Signing secret of {create.data.id} – copy it now, it won&apos;t be shown again:{" "}
+          <code className="font-mono text-foreground select-all">{create.data.secret}</code>
+        </p>
+      )}
+    </div>
+  );
+}
+
+// ============================================================
+// MAIN EXPORT
+// ============================================================
+
+export function WebhookSettings() {
+  const { data: webhooks } = useWebhooksQuery();
+  const { data: deliveries } = useWebhookDeliveriesQuery();
+  const { data: received } = useWebhookReceiverQuery();
+  if (!webhooks || !deliveries) return null;
+
+  return (
+    <div className="glass-card p-4 space-y-4">
+      <div className="flex items-center gap-2">
+        <Webhook className="w-4 h-4 text-cyan-400" />
+        <h3 className="text-sm font-semibold text-foreground">Webhooks</h3>
+        <span className="text-xs text-muted-foreground">
+          Signed JSON POSTs of system events and incident changes
+        </span>
+      </div>
+
+      <div className="space-y-1">
+        {webhooks.length === 0 && <p className="text-xs text-muted-foreground">No subscriptions yet.</p>}
+        {webhooks.map(webhook => <WebhookRow key={webhook.id} webhook={webhook} />)}
+      </div>
+
+      <NewWebhookForm />
+
+      <div className="grid grid-cols-1 xl:grid-cols-3 gap-4">
+        {/* Delivery log */}
+        <div className="xl:col-span-2">
+          <h4 className="text-xs font-semibold text-foreground mb-1">Deliveries</h4>
+          {deliveries.length === 0 ? (
+            <p className="text-xs text-muted-foreground">Nothing sent yet.</p>
+          ) : (
+            <ScrollArea className="h-64">
+              <table className="w-full text-[10px]">
+                <thead className="sticky top-0 bg-background/90">
+                  <tr className="text-muted-foreground">
+                    <th className="text-left font-normal py-1">Delivery</th>
+                    <th className="text-left font-normal">Payload</th>
+                    <th className="text-right font-normal">Attempts</th>
+                    <th className="text-right font-normal">Last result</th>
+                    <th className="text-right font-normal">Status</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {deliveries.slice(0, DELIVERIES_SHOWN).map(delivery => {
+                    const last = delivery.attempts.at(-1);
+                    return (
+                      <tr key={delivery.id} className="border-b border-white/5">
+                        <td className="py-1 font-mono text-foreground">
+                          {delivery.id} <span className="text-muted-foreground">→ {delivery.subscriptionId}</span>
+                        </td>
+                        <td className="py-1 max-w-64 truncate">
+                          <span className="text-foreground">{delivery.type}</span>{" "}
+                          <span className="text-muted-foreground">{delivery.summary}</span>
+                        </td>
+                        <td className="py-1 text-right">{delivery.attempts.length}</td>
+                        <td className="py-1 text-right text-muted-foreground">
+                          {last ? `${last.error ?? `HTTP ${last.status}`} · ${last.durationMs}ms` : "–"}
+                          {delivery.nextAttemptAt && ` · retry ${formatTime(delivery.nextAttemptAt)}`}
+                        </td>
+                        <td className="py-1 text-right">
+                          <Badge variant="outline" className={cn("text-[9px]", DELIVERY_STYLES[delivery.status])}>
+                            {delivery.status}
+                          </Badge>
+                        </td>
+                      </tr>
+                    );
+                  })}
+                </tbody>
+              </table>
+            </ScrollArea>
+          )}
+        </div>
+
+        {/* Local stand-in */}
+        <div>
+          <h4 className="text-xs font-semibold text-foreground mb-1">Local stand-in received</h4>
+          {!received || received.length === 0 ? (
+            <p className="text-[10px] text-muted-foreground">
+              Nothing yet – subscribe <code className="font-mono">{RECEIVER_PATH}</code> (add{" "}
+              <code className="font-mono">?status=503</code> to watch the retries).
+            </p>
+          ) : (
+            <ScrollArea className="h-64">
+              <div className="space-y-1 pr-2">
+                {received.map((r, i) => (
+                  <div key={i} className="flex items-center gap-2 text-[10px]">
+                    <span className="text-muted-foreground">{formatTime(r.receivedAt)}</span>
+                    <span className="flex-1 min-w-0 truncate text-foreground">{r.deliveryId} {r.type}</span>
+                    <span className={r.signatureValid ? "text-emerald-400" : "text-rose-400"}>
+                      {r.signatureValid ? "signed ✓" : "bad signature"}
+                    </span>
+                    <span className="text-muted-foreground">{r.respondedWith}</span>
+                  </div>
+                ))}
+              </div>
+            </ScrollArea>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,370 @@
+/**
+ * ============================================================
+ * Vendral – Work Orders
+ * ============================================================
+ *
+ * Repairs of hardware faults (see `src/lib/work-orders.ts`), shown in
+ * Device Health:
+ *   - For a machine: its work orders (unclosed first) and a form to
+ *     open one for a component, preselecting the first faulty one
+ *   - Without a machine: every unclosed work order in the fleet and
+ *     the fault codes that open work orders by themselves
+ *
+ * Expanding a work order shows its notes and parts, and the actions:
+ * start, close (the component goes back to OK), assign a technician,
+ * record a part used and add a note. Changes are made under "your
+ * name", shared with the incident inbox and the planogram editor.
+ * ============================================================
+ */
+
+"use client";
+
+import React, { useState } from "react";
+import { useSimulation } from "@/lib/simulation-context";
+import {
+  useWorkOrdersQuery,
+  useMaintenanceSettingsQuery,
+  useCreateWorkOrderMutation,
+  useUpdateWorkOrderMutation,
+  useUpdateMaintenanceSettingsMutation,
+} from "@/lib/queries";
+import type { VendingMachine } from "@/lib/data";
+import {
+  HARDWARE_FAULTS,
+  REPAIR_COMPONENTS,
+  componentLabel,
+  isComponentFaulty,
+  type RepairComponent,
+  type WorkOrder,
+  type WorkOrderUpdate,
+} from "@/lib/work-orders";
+import { formatMinutes } from "@/lib/incidents";
+import { formatMoment } from "@/components/date-range-picker";
+import { PLANOGRAM_AUTHOR_KEY } from "@/components/planogram-versions";
+import { cn } from "@/lib/utils";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { CheckCheck, ChevronDown, ChevronRight, Play, Plus, Wrench } from "lucide-react";
+
+/** Closed work orders listed for a machine */
+const CLOSED_SHOWN = 20;
+
+const inputClass =
+  "h-7 bg-white/5 border border-white/10 rounded-md px-2 text-[11px] text-foreground";
+
+const STATUS_STYLES: Record<WorkOrder["status"], string> = {
+  open: "text-rose-400 border-rose-500/30",
+  in_progress: "text-amber-400 border-amber-500/30",
+  closed: "text-emerald-400 border-emerald-500/30",
+};
+
+const minutesBetween = (from: Date, to: Date) => (to.getTime() - from.getTime()) / 60_000;
+
+// ============================================================
+// WORK ORDER ROW
+// ============================================================
+
+function WorkOrderRow({
+  workOrder,
+  author,
+  now,
+  showMachine,
+}: {
+  workOrder: WorkOrder;
+  author: string;
+  now: Date;
+  showMachine: boolean;
+}) {
+  const [open, setOpen] = useState(false);
+  const [technician, setTechnician] = useState("");
+  const [part, setPart] = useState({ name: "", quantity: 1 });
+  const [note, setNote] = useState("");
+  const update = useUpdateWorkOrderMutation();
+  const busy = update.isPending || !author.trim();
+  const closed = workOrder.status === "closed";
+
+  const change = (changes: Omit<WorkOrderUpdate, "author">, onSuccess?: () => void) =>
+    update.mutate({ id: workOrder.id, author, ...changes }, { onSuccess });
+
+  return (
+    <div className="p-2 rounded-lg bg-white/5 text-[11px]">
+      <button className="w-full flex items-start gap-2 text-left" onClick={() => setOpen(!open)}>
+        {open
+          ? <ChevronDown className="w-3.5 h-3.5 mt-0.5 shrink-0 text-muted-foreground" />
+          : <ChevronRight className="w-3.5 h-3.5 mt-0.5 shrink-0 text-muted-foreground" />}
+        <div className="flex-1 min-w-0">
+          <p className="text-foreground truncate">
+            {showMachine && <>{workOrder.machineId} <span className="text-muted-foreground">{workOrder.machineName}</span> · </>}
+            {componentLabel(workOrder.component)}: {workOrder.title}
+          </p>
+          <p className="text-[10px] text-muted-foreground">
+            <span className="font-mono">{workOrder.id}</span>
+            {workOrder.faultCode && <> · <span className="font-mono">{workOrder.faultCode}</span></>}
+            {workOrder.eventIds.length > 1 && ` ×${workOrder.eventIds.length}`}
+            {` · opened ${formatMoment(workOrder.createdAt)} by ${workOrder.createdBy}`}
+            {closed && workOrder.closedAt
+              ? ` · closed in ${formatMinutes(minutesBetween(workOrder.createdAt, workOrder.closedAt))}`
+              : ` · ${formatMinutes(minutesBetween(workOrder.createdAt, now))} ago`}
+            {` · ${workOrder.technician ?? "no technician"}`}
+          </p>
+        </div>
+        <Badge variant="outline" className={cn("text-[9px] shrink-0", STATUS_STYLES[workOrder.status])}>
+          {workOrder.status.replace("_", " ")}
+        </Badge>
+      </button>
+
+      {open && (
+        <div className="mt-2 ml-5 space-y-2">
+          {workOrder.parts.length > 0 && (
+            <div className="space-y-0.5">
+              <p className="text-[10px] font-medium text-foreground">Parts used</p>
+              {workOrder.parts.map((p, i) => (
+                <p key={i} className="text-[10px] text-muted-foreground">
+                  {p.quantity} × <span className="text-foreground">{p.name}</span> · {p.addedBy}, {formatMoment(p.at)}
+                </p>
+              ))}
+            </div>
+          )}
+          {workOrder.notes.length > 0 && (
+            <div className="space-y-0.5">
+              {workOrder.notes.map((n, i) => (
+                <p key={i} className="text-[10px] text-muted-foreground">
+                  <span className="text-foreground">{n.author}</span> · {formatMoment(n.at)} – {n.text}
+                </p>
+              ))}
+            </div>
+          )}
+
+          {!closed && (
+            <div className="flex flex-wrap items-center gap-1">
+              {workOrder.status === "open" && (
+                <Button variant="outline" size="sm" className="h-7 text-[10px]" disabled={busy}
+                  onClick={() => change({ status: "in_progress" })}>
+                  <Play className="w-3 h-3 mr-1" />
+                  Start
+                </Button>
+              )}
+              <Button variant="outline" size="sm" className="h-7 text-[10px]" disabled={busy}
+                onClick={() => change({ status: "closed" })}>
+                <CheckCheck className="w-3 h-3 mr-1" />
+                Close
+              </Button>
+              <input
+                value={technician}
+                maxLength={60}
+                onChange={(e) => setTechnician(e.target.value)}
+                placeholder={workOrder.technician ?? "Technician"}
+                className={cn(inputClass, "w-28")}
+                aria-label="Technician"
+              />
+              <Button variant="ghost" size="sm" className="h-7 text-[10px]" disabled={busy || !technician.trim()}
+                onClick={() => change({ technician: technician.trim() }, () => setTechnician(""))}>
+                Assign
+              </Button>
+              {workOrder.technician && (
+                <Button variant="ghost" size="sm" className="h-7 text-[10px]" disabled={busy}
+                  onClick={() => change({ technician: null })}>
+                  Unassign
+                </Button>
+              )}
+            </div>
+          )}
+
+          {!closed && (
+            <div className="flex gap-1">
+              <input
+                value={part.name}
+                maxLength={60}
+                onChange={(e) => setPart({ ...part, name: e.target.value })}
+                placeholder="Part used, e.g. Spiral motor"
+                className={cn(inputClass, "flex-1")}
+                aria-label="Part"
+              />
+              <input
+                type="number"
+                min={1}
+                max={99}
+                value={part.quantity}
+                onChange={(e) => setPart({ ...part, quantity: Number(e.target.value) })}
+                className={cn(inputClass, "w-14")}
+                aria-label="Quantity"
+              />
+              <Button variant="ghost" size="sm" className="h-7 text-[10px]" disabled={busy || !part.name.trim()}
+                onClick={() => change({ part: { name: part.name.trim(), quantity: part.quantity } },
+                  () => setPart({ name: "", quantity: 1 }))}>
+                Add
+              </Button>
+            </div>
+          )}
+
+          <div className="flex gap-1">
+            <input
+              value={note}
+              maxLength={500}
+              onChange={(e) => setNote(e.target.value)}
+              placeholder="Add an on-site note"
+              className={cn(inputClass, "flex-1")}
+              aria-label="Note"
+            />
+            <Button variant="ghost" size="sm" className="h-7 text-[10px]" disabled={busy || !note.trim()}
+              onClick={() => change({ note }, () => setNote(""))}>
+              Add
+            </Button>
+          </div>
+          {update.error && <p className="text-[10px] text-rose-400">{update.error.message}</p>}
+        </div>
+      )}
+    </div>
+  );
+}
+
+// ============================================================
+// NEW WORK ORDER (one machine)
+// ============================================================
+
+function NewWorkOrderForm({ machine, author }: { machine: VendingMachine; author: string }) {
+  const faulty = REPAIR_COMPONENTS.find(c => isComponentFaulty(machine.hardware, c.id))?.id ?? null;
+  const [component, setComponent] = useState<RepairComponent | null>(faulty);
+  const [title, setTitle] = useState("");
+  const [technician, setTechnician] = useState("");
+  const create = useCreateWorkOrderMutation();
+
+  const submit = () =>
+    create.mutate(
+      { author, machineId: machine.id, component, title: title.trim(), technician: technician.trim() || null },
+      { onSuccess: () => { setTitle(""); setTechnician(""); } }
+    );
+
+  return (
+    <div className="space-y-1">
+      <div className="flex flex-wrap gap-1">
+        <select
+          value={component ?? ""}
+          onChange={(e) => setComponent((e.target.value || null) as RepairComponent | null)}
+          className={inputClass}
+          aria-label="Component"
+        >
+          {REPAIR_COMPONENTS.map(c => (
+            <option key={c.id} value={c.id}>
+              {c.label}{isComponentFaulty(machine.hardware, c.id) ? " (faulty)" : ""}
+            </option>
+          ))}
+          <option value="">Machine (general)</option>
+        </select>
+        <input
+          value={title}
+          maxLength={120}
+          onChange={(e) => setTitle(e.target.value)}
+          placeholder="What needs doing"
+          className={cn(inputClass, "flex-1 min-w-40")}
+          aria-label="Title"
+        />
+        <input
+          value={technician}
+          maxLength={60}
+          onChange={(e) => setTechnician(e.target.value)}
+          placeholder="Technician (optional)"
+          className={cn(inputClass, "w-36")}
+          aria-label="Technician"
+        />
+        <Button variant="outline" size="sm" className="h-7 text-[10px]"
+          disabled={create.isPending || !author.trim() || !title.trim()} onClick={submit}>
+          <Plus className="w-3 h-3 mr-1" />
+          Open work order
+        </Button>
+      </div>
+      {create.error && <p className="text-[10px] text-rose-400">{create.error.message}</p>}
+    </div>
+  );
+}
+
+// ============================================================
+// AUTOMATIC WORK ORDERS (fleet)
+// ============================================================
+
+function AutoCreateSettings() {
+  const { data: settings } = useMaintenanceSettingsQuery();
+  const save = useUpdateMaintenanceSettingsMutation();
+  if (!settings) return null;
+
+  const toggle = (code: string) => save.mutate({
+    autoCreateCodes: settings.autoCreateCodes.includes(code)
+      ? settings.autoCreateCodes.filter(c => c !== code)
+      : [...settings.autoCreateCodes, code],
+  });
+
+  return (
+    <div className="space-y-1">
+      <p className="text-[10px] text-muted-foreground">Open a work order automatically when a machine logs:</p>
+      <div className="flex flex-wrap gap-1">
+        {HARDWARE_FAULTS.map(fault => (
+          <button key={fault.code} onClick={() => toggle(fault.code)} disabled={save.isPending}
+            title={componentLabel(fault.component)}
+            className={cn(
+              "px-2 py-0.5 rounded-md text-[10px] border font-mono",
+              settings.autoCreateCodes.includes(fault.code)
+                ? "bg-cyan-500/20 text-cyan-400 border-cyan-500/30"
+                : "text-muted-foreground border-white/10"
+            )}>
+            {fault.code}
+          </button>
+        ))}
+      </div>
+    </div>
+  );
+}
+
+// ============================================================
+// MAIN EXPORT
+// ============================================================
+
+export function WorkOrders({ machine }: { machine: VendingMachine | null }) {
+  const { clock } = useSimulation();
+  const { data: workOrders } = useWorkOrdersQuery(machine?.id);
+  const [author, setAuthor] = useState(() =>
+    typeof window === "undefined" ? "" : localStorage.getItem(PLANOGRAM_AUTHOR_KEY) ?? ""
+  );
+
+  if (!workOrders) return null;
+  const unclosed = workOrders.filter(w => w.status !== "closed");
+  const shown = machine
+    ? [...unclosed, ...workOrders.filter(w => w.status === "closed").slice(0, CLOSED_SHOWN)]
+    : unclosed;
+
+  return (
+    <div className="glass-card p-4 space-y-3">
+      <div className="flex flex-wrap items-center gap-2">
+        <Wrench className="w-4 h-4 text-amber-400" />
+        <h3 className="text-sm font-semibold text-foreground">Work Orders</h3>
+        <span className="text-[10px] text-muted-foreground">{unclosed.length} unclosed</span>
+        <label className="ml-auto flex items-center gap-1 text-[10px] text-muted-foreground">
+          Your name
+          <input
+            value={author}
+            maxLength={60}
+            onChange={(e) => {
+              setAuthor(e.target.value);
+              localStorage.setItem(PLANOGRAM_AUTHOR_KEY, e.target.value);
+            }}
+            placeholder="needed to act"
+            className={cn(inputClass, "w-32")}
+          />
+        </label>
+      </div>
+
+      {machine ? <NewWorkOrderForm key={machine.id} machine={machine} author={author} /> : <AutoCreateSettings />}
+
+      {shown.length === 0 ? (
+        <p className="text-xs text-muted-foreground">
+          {machine ? "No work orders for this machine." : "No unclosed work orders."}
+        </p>
+      ) : (
+        <div className="max-h-96 overflow-y-auto space-y-1 pr-2">
+          {shown.map(workOrder => (
+            <WorkOrderRow key={workOrder.id} workOrder={workOrder} author={author} now={clock.time} showMachine={!machine} />
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
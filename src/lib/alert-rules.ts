@@ -0,0 +1,349 @@
+/**
+ * ============================================================
+ * Vendral – Alert Rules
+ * ============================================================
+ *
+ * Operators define what counts as an alert instead of it being baked
+ * into the dashboard. A rule is a CONDITION over one machine's state
+ * or its recent activity, plus how loud and how often to shout:
+ *
+ *   condition   what must hold for a machine, one of
+ *     metric      temperature / connectivity above or below a
+ *                 threshold for N minutes ("> 8°C for 10 min")
+ *     status      machine status (e.g. error) for N minutes
+ *     no-sales    no successful sale for N hours the site was open
+ *                 (silent while it is closed, see `locations.ts`)
+ *     declines    N declined payments in a row (no sale in between),
+ *                 whatever the method – declined or insufficient
+ *                 funds; timeouts and reader errors don't count
+ *     events      N matching system events within M minutes
+ *                 (by type, category and/or code)
+ *     stock       at least N slots at or below M units
+ *   severity    info / warning / critical
+ *   scope       the locations it applies to (none = every location)
+ *   cooldown    minutes before the same rule fires again for the
+ *               same machine
+ *   active hours  optional daily window (e.g. 08–20, opening hours);
+ *               outside it the rule is silent and durations restart
+ *
+ * The simulation evaluates every enabled rule against every machine
+ * once per virtual minute (see the ALERTS section of
+ * `simulation.ts`). A rule that fires records an ALERT and
+ * a system event with code ALERT_RULE_TRIGGERED; the Critical Alerts
+ * tile counts the critical ones.
+ *
+ * Types, defaults and request parsing – no server imports, safe to
+ * bundle for the browser.
+ * ============================================================
+ */
+
+import type { MachineStatus, SystemEvent } from "./data";
+
+// ============================================================
+// TYPE DEFINITIONS
+// ============================================================
+
+export type AlertSeverity = "info" | "warning" | "critical";
+
+export type AlertMetric = "temperature" | "connectivity";
+
+export type AlertCondition =
+  | { kind: "metric"; metric: AlertMetric; operator: ">" | "<"; threshold: number; forMinutes: number }
+  | { kind: "status"; status: MachineStatus; forMinutes: number }
+  | { kind: "no-sales"; hours: number }
+  | { kind: "declines"; count: number }
+  | {
+      kind: "events";
+      type?: SystemEvent["type"];
+      category?: SystemEvent["category"];
+      code?: string;
+      count: number;
+      withinMinutes: number;
+    }
+  | { kind: "stock"; atOrBelow: number; slots: number };
+
+export type AlertConditionKind = AlertCondition["kind"];
+
+/** Daily window in local hours: 8–20 = 08:00–19:59, 22–6 wraps midnight */
+export interface ActiveHours {
+  from: number;
+  to: number;
+}
+
+/** An operator-defined alert rule */
+export interface AlertRule {
+  id: string;
+  name: string;
+  enabled: boolean;
+  severity: AlertSeverity;
+  condition: AlertCondition;
+  /** Locations the rule applies to (empty = every location) */
+  locationIds: string[];
+  /** Minutes before it may fire again for the same machine */
+  cooldownMinutes: number;
+  /** Only evaluated within this daily window (null = always) */
+  activeHours: ActiveHours | null;
+  createdAt: Date;
+}
+
+/** What a client sends to create or change a rule */
+export type AlertRuleInput = Omit<AlertRule, "id" | "createdAt">;
+
+/** One time a rule fired for a machine */
+export interface Alert {
+  id: string;
+  ruleId: string;
+  ruleName: string;
+  severity: AlertSeverity;
+  machineId: string;
+  machineName: string;
+  locationId: string;
+  /** What was observed, e.g. "Temperature 9°C (> 8°C for 10 min)" */
+  message: string;
+  firedAt: Date;
+}
+
+// ============================================================
+// CONSTANTS
+// ============================================================
+
+/** Code of the system event recorded when a rule fires */
+export const ALERT_EVENT_CODE = "ALERT_RULE_TRIGGERED";
+
+export const ALERT_SEVERITIES: AlertSeverity[] = ["info", "warning", "critical"];
+
+export const ALERT_CONDITION_KINDS: { kind: AlertConditionKind; label: string }[] = [
+  { kind: "metric", label: "Sensor reading" },
+  { kind: "status", label: "Machine status" },
+  { kind: "no-sales", label: "No sales" },
+  { kind: "declines", label: "Declined payments in a row" },
+  { kind: "events", label: "Event count" },
+  { kind: "stock", label: "Low stock" },
+];
+
+const METRIC_UNITS: Record<AlertMetric, string> = { temperature: "°C", connectivity: "%" };
+
+const MAX_NAME_LENGTH = 60;
+const MAX_MINUTES = 7 * 24 * 60;
+
+/** Rules a new simulation starts with – what used to be hardcoded, and a few more */
+export const DEFAULT_ALERT_RULES: AlertRuleInput[] = [
+  {
+    name: "Hardware fault",
+    enabled: true,
+    severity: "critical",
+    condition: { kind: "events", type: "error", category: "hardware", count: 1, withinMinutes: 5 },
+    locationIds: [],
+    cooldownMinutes: 15,
+    activeHours: null,
+  },
+  {
+    name: "Cooler too warm",
+    enabled: true,
+    severity: "critical",
+    condition: { kind: "metric", metric: "temperature", operator: ">", threshold: 8, forMinutes: 10 },
+    locationIds: [],
+    cooldownMinutes: 60,
+    activeHours: null,
+  },
+  {
+    name: "Weak connection",
+    enabled: true,
+    severity: "warning",
+    condition: { kind: "metric", metric: "connectivity", operator: "<", threshold: 70, forMinutes: 15 },
+    locationIds: [],
+    cooldownMinutes: 60,
+    activeHours: null,
+  },
+  {
+    name: "No sales during the day",
+    enabled: true,
+    severity: "warning",
+    condition: { kind: "no-sales", hours: 2 },
+    locationIds: [],
+    cooldownMinutes: 120,
+    activeHours: { from: 8, to: 20 },
+  },
+  {
+    name: "Declined payments",
+    enabled: true,
+    severity: "warning",
+    condition: { kind: "declines", count: 3 },
+    locationIds: [],
+    cooldownMinutes: 30,
+    activeHours: null,
+  },
+  {
+    name: "Running low",
+    enabled: true,
+    severity: "info",
+    condition: { kind: "stock", atOrBelow: 2, slots: 5 },
+    locationIds: [],
+    cooldownMinutes: 240,
+    activeHours: null,
+  },
+];
+
+// ============================================================
+// HELPERS
+// ============================================================
+
+/** Whether `time` falls into the rule's daily window */
+export function isWithinActiveHours(hours: ActiveHours | null, time: Date): boolean {
+  if (!hours) return true;
+  const hour = time.getHours();
+  return hours.from < hours.to
+    ? hour >= hours.from && hour < hours.to
+    : hour >= hours.from || hour < hours.to;
+}
+
+/** Whether a metric reading breaks the condition's threshold */
+export function breaksThreshold(condition: Extract<AlertCondition, { kind: "metric" }>, value: number): boolean {
+  return condition.operator === ">" ? value > condition.threshold : value < condition.threshold;
+}
+
+/** "Temperature > 8°C for 10 min" and friends */
+export function describeCondition(condition: AlertCondition): string {
+  switch (condition.kind) {
+    case "metric": {
+      const name = condition.metric === "temperature" ? "Temperature" : "Connectivity";
+      return `${name} ${condition.operator} ${condition.threshold}${METRIC_UNITS[condition.metric]}` +
+        ` for ${condition.forMinutes} min`;
+    }
+    case "status":
+      return `Status ${condition.status} for ${condition.forMinutes} min`;
+    case "no-sales":
+      return `No sale for ${condition.hours} h`;
+    case "declines":
+      return `${condition.count} declined payments in a row`;
+    case "events": {
+      const filter = [condition.type, condition.category, condition.code].filter(Boolean).join(" ");
+      return `${condition.count}× ${filter || "any"} event within ${condition.withinMinutes} min`;
+    }
+    case "stock":
+      return `${condition.slots}+ slots at ≤ ${condition.atOrBelow} units`;
+  }
+}
+
+/** "08–20" */
+export function formatActiveHours(hours: ActiveHours): string {
+  const pad = (h: number) => String(h).padStart(2, "0");
+  return `${pad(hours.from)}–${pad(hours.to)}`;
+}
+
+// ============================================================
+// REQUEST PARSING
+// ============================================================
+
+const isCount = (n: unknown, max: number): n is number => Number.isInteger(n) && (n as number) >= 1 && (n as number) <= max;
+
+function parseCondition(value: unknown): AlertCondition | { error: string } {
+  const c = (value ?? {}) as Record<string, unknown>;
+  switch (c.kind) {
+    case "metric":
+      if (c.metric !== "temperature" && c.metric !== "connectivity") {
+        return { error: "metric must be temperature or connectivity" };
+      }
+      if (c.operator !== ">" && c.operator !== "<") return { error: "operator must be > or <" };
+      if (typeof c.threshold !== "number" || !Number.isFinite(c.threshold)) {
+        return { error: "threshold must be a number" };
+      }
+      if (!Number.isInteger(c.forMinutes) || (c.forMinutes as number) < 0 || (c.forMinutes as number) > MAX_MINUTES) {
+        return { error: `forMinutes must be 0–${MAX_MINUTES}` };
+      }
+      return { kind: "metric", metric: c.metric, operator: c.operator, threshold: c.threshold, forMinutes: c.forMinutes as number };
+    case "status":
+      if (!["online", "warning", "error", "offline"].includes(c.status as string)) {
+        return { error: "status must be online, warning, error or offline" };
+      }
+      if (!Number.isInteger(c.forMinutes) || (c.forMinutes as number) < 0 || (c.forMinutes as number) > MAX_MINUTES) {
+        return { error: `forMinutes must be 0–${MAX_MINUTES}` };
+      }
+      return { kind: "status", status: c.status as MachineStatus, forMinutes: c.forMinutes as number };
+    case "no-sales":
+      if (!isCount(c.hours, 168)) return { error: "hours must be 1–168" };
+      return { kind: "no-sales", hours: c.hours };
+    case "declines":
+      if (!isCount(c.count, 100)) return { error: "count must be 1–100" };
+      return { kind: "declines", count: c.count };
+    case "events": {
+      if (!isCount(c.count, 1000)) return { error: "count must be 1–1000" };
+      if (!isCount(c.withinMinutes, 24 * 60)) return { error: "withinMinutes must be 1–1440" };
+      const condition: AlertCondition = { kind: "events", count: c.count, withinMinutes: c.withinMinutes };
+      if (c.type !== undefined && c.type !== "") {
+        if (!["info", "warning", "error", "success"].includes(c.type as string)) return { error: "unknown event type" };
+        condition.type = c.type as SystemEvent["type"];
+      }
+      if (c.category !== undefined && c.category !== "") {
+        if (!["transaction", "hardware", "stock", "connectivity", "system"].includes(c.category as string)) {
+          return { error: "unknown event category" };
+        }
+        condition.category = c.category as SystemEvent["category"];
+      }
+      if (c.code !== undefined && c.code !== "") {
+        if (typeof c.code !== "string" || !/^[A-Z0-9_]{1,40}$/.test(c.code)) {
+          return { error: "code must be an event code like MOTOR_JAM_DETECTED" };
+        }
+        condition.code = c.code;
+      }
+      return condition;
+    }
+    case "stock":
+      if (!Number.isInteger(c.atOrBelow) || (c.atOrBelow as number) < 0 || (c.atOrBelow as number) > 100) {
+        return { error: "atOrBelow must be 0–100" };
+      }
+      if (!isCount(c.slots, 100)) return { error: "slots must be 1–100" };
+      return { kind: "stock", atOrBelow: c.atOrBelow as number, slots: c.slots };
+    default:
+      return { error: `condition.kind must be one of ${ALERT_CONDITION_KINDS.map(k => k.kind).join(", ")}` };
+  }
+}
+
+/**
+ * Read a rule request body. `locationIds` lists the known locations.
+ * Returns an error message instead when something is invalid.
+ */
+export function parseAlertRuleInput(body: unknown, locationIds: string[]): AlertRuleInput | { error: string } {
+  const b = (body ?? {}) as Record<string, unknown>;
+
+  if (typeof b.name !== "string" || !b.name.trim() || b.name.length > MAX_NAME_LENGTH) {
+    return { error: `name must be 1–${MAX_NAME_LENGTH} characters` };
+  }
+  if (!ALERT_SEVERITIES.includes(b.severity as AlertSeverity)) {
+    return { error: `severity must be one of ${ALERT_SEVERITIES.join(", ")}` };
+  }
+  const condition = parseCondition(b.condition);
+  if ("error" in condition) return condition;
+
+  const scope = b.locationIds ?? [];
+  if (!Array.isArray(scope) || scope.some(id => !locationIds.includes(id))) {
+    return { error: "locationIds must list known locations" };
+  }
+  const cooldown = b.cooldownMinutes ?? 30;
+  if (!Number.isInteger(cooldown) || (cooldown as number) < 0 || (cooldown as number) > MAX_MINUTES) {
+    return { error: `cooldownMinutes must be 0–${MAX_MINUTES}` };
+  }
+
+  let activeHours: ActiveHours | null = null;
+  if (b.activeHours !== undefined && b.activeHours !== null) {
+    const { from, to } = b.activeHours as Record<string, unknown>;
+    const isHour = (h: unknown) => Number.isInteger(h) && (h as number) >= 0 && (h as number) <= 24;
+    if (!isHour(from) || !isHour(to) || from === to) {
+      return { error: "activeHours needs two different hours from and to (0–24)" };
+    }
+    activeHours = { from: from as number, to: to as number };
+  }
+  if (b.enabled !== undefined && typeof b.enabled !== "boolean") {
+    return { error: "enabled must be a boolean" };
+  }
+
+  return {
+    name: b.name.trim(),
+    enabled: b.enabled ?? true,
+    severity: b.severity as AlertSeverity,
+    condition,
+    locationIds: [...new Set(scope as string[])],
+    cooldownMinutes: cooldown as number,
+    activeHours,
+  };
+}
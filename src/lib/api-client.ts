@@ -0,0 +1,73 @@
+/**
+ * ============================================================
+ * Vendral – API Client Helpers
+ * ============================================================
+ *
+ * Tiny wrappers around `fetch` used by the TanStack Query hooks
+ * in `src/lib/queries.ts` to talk to the `/api/fleet/*` routes.
+ *
+ * DATES OVER JSON:
+ * JSON has no Date type – `Response.json()` on the server turns every
+ * Date into an ISO string like "2026-10-19T12:00:00.000Z". Our types
+ * (Transaction.timestamp, VendingMachine.lastActivity, ...) promise
+ * real Date objects, so we revive ISO strings back into Dates while
+ * parsing. Components can keep calling `.getTime()` as before.
+ * ============================================================
+ */
+
+/** Matches the exact format produced by Date.prototype.toJSON() */
+const ISO_DATE = /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}(\.\d+)?Z$/;
+
+/** JSON.parse reviver that turns ISO date strings into Date objects */
+function reviveDates(_key: string, value: unknown): unknown {
+  return typeof value === "string" && ISO_DATE.test(value) ? new Date(value) : value;
+}
+
+/** Parse a JSON string (e.g. an SSE `data:` line), reviving dates */
+export function parseJson<T>(text: string): T {
+  return JSON.parse(text, reviveDates) as T;
+}
+
+/**
+ * Read a response body, reviving dates, and turn non-2xx responses
+ * into thrown Errors (TanStack Query surfaces them as `error`).
+ */
+async function parseResponse<T>(response: Response): Promise<T> {
+  const text = await response.text();
+  const body = text ? JSON.parse(text, reviveDates) : null;
+
+  if (!response.ok) {
+    const message = body && typeof body.error === "string"
+      ? body.error
+      : `Request failed (${response.status})`;
+    throw new Error(message);
+  }
+  return body as T;
+}
+
+/**
+ * GET a JSON endpoint.
+ *
+ * USAGE:
+ * ```ts
+ * const stats = await fetchJson<FleetStats>("/api/fleet/stats");
+ * ```
+ */
+export async function fetchJson<T>(path: string): Promise<T> {
+  const response = await fetch(path, { cache: "no-store" });
+  return parseResponse<T>(response);
+}
+
+/** Send a JSON body (POST by default) and parse the JSON reply */
+export async function sendJson<T>(
+  path: string,
+  body: unknown,
+  method: "POST" | "PUT" | "PATCH" | "DELETE" = "POST"
+): Promise<T> {
+  const response = await fetch(path, {
+    method,
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(body),
+  });
+  return parseResponse<T>(response);
+}
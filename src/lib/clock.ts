@@ -0,0 +1,85 @@
+/**
+ * ============================================================
+ * Vendral – Virtual Simulation Clock
+ * ============================================================
+ *
+ * The simulation never reads the wall clock directly. Instead it asks
+ * this clock what time it is, so time can be sped up, paused or
+ * stepped – e.g. watching a full trading day in 24 seconds at 3600×.
+ *
+ * HOW IT WORKS:
+ *   • The clock holds a single "virtual time" (ms since epoch)
+ *   • The simulation loop measures real elapsed time and advances
+ *     the virtual time by `elapsed × speed`
+ *   • While paused the loop skips advancing; `step` in the
+ *     simulation jumps straight to the next scheduled occurrence
+ *
+ * The clock itself is passive – it doesn't run timers. Keeping the
+ * timers in `simulation.ts` means there's exactly one loop to stop.
+ * ============================================================
+ */
+
+/** Supported time-acceleration factors */
+export const CLOCK_SPEEDS = [1, 10, 60, 3600] as const;
+
+/** One of the supported acceleration factors (1× = real time) */
+export type ClockSpeed = (typeof CLOCK_SPEEDS)[number];
+
+/** A point-in-time view of the clock (safe to hand to React) */
+export interface ClockSnapshot {
+  /** Current virtual time */
+  time: Date;
+  speed: ClockSpeed;
+  paused: boolean;
+}
+
+/** A controllable virtual clock */
+export interface SimulationClock {
+  /** Current virtual time */
+  now(): Date;
+  /** Move virtual time forward to `time` (ms). Never moves backwards. */
+  advanceTo(time: number): void;
+  getSpeed(): ClockSpeed;
+  setSpeed(speed: ClockSpeed): void;
+  isPaused(): boolean;
+  pause(): void;
+  resume(): void;
+  snapshot(): ClockSnapshot;
+}
+
+/**
+ * Create a virtual clock starting at `startTime` (defaults to now),
+ * running at 1× and not paused.
+ */
+export function createSimulationClock(startTime: number = Date.now()): SimulationClock {
+  let time = startTime;
+  let speed: ClockSpeed = 1;
+  let paused = false;
+
+  return {
+    now: () => new Date(time),
+    advanceTo: (next) => {
+      time = Math.max(time, next);
+    },
+    getSpeed: () => speed,
+    setSpeed: (next) => {
+      speed = next;
+    },
+    isPaused: () => paused,
+    pause: () => {
+      paused = true;
+    },
+    resume: () => {
+      paused = false;
+    },
+    snapshot: () => ({ time: new Date(time), speed, paused }),
+  };
+}
+
+/**
+ * Format a speed factor for display.
+ * Example: 3600 → "3600×"
+ */
+export function formatSpeed(speed: ClockSpeed): string {
+  return `${speed}×`;
+}
@@ -0,0 +1,191 @@
+/**
+ * ============================================================
+ * Vendral – Remote Machine Commands
+ * ============================================================
+ *
+ * Operators send commands to a machine over its data connection:
+ * reboot, enter/exit maintenance mode (sales suspended), lock/unlock
+ * a slot (not for sale), push new prices, run a motor self-test.
+ * Firmware rollouts (see `src/lib/firmware.ts`) install firmware the
+ * same way – that command isn't for operators to send by hand.
+ *
+ * LIFECYCLE (virtual time, driven by the clock):
+ *
+ *   queued ──▶ sent ──▶ acknowledged ──▶ succeeded
+ *     │                                └──▶ failed
+ *     └── machine unreachable for COMMAND_TIMEOUT_MINUTES ──▶ failed
+ *
+ *   - A machine works through its commands one at a time, oldest
+ *     first; the next one is sent when the previous one is done
+ *   - An offline machine (also while it reboots) can't be reached:
+ *     commands wait in the queue and fail when they expire
+ *   - The machine acknowledges after ACK_DELAY_SECONDS and answers
+ *     with system events (SYSTEM_REBOOT, BOOT_COMPLETE,
+ *     MOTOR_SELFTEST_PASS, …) once the command has run
+ *   - A command can fail on the machine, e.g. a self-test with a
+ *     faulty motor board, or locking a slot that is already locked
+ *
+ * Types and request parsing – no server imports, safe to bundle for
+ * the browser.
+ * ============================================================
+ */
+
+import { getProductById, type VendingMachine } from "./data";
+import { MAX_SLOT_PRICE, MIN_SLOT_PRICE } from "./planogram";
+
+// ============================================================
+// TYPE DEFINITIONS
+// ============================================================
+
+export type CommandKind =
+  | "reboot"
+  | "enter_maintenance"
+  | "exit_maintenance"
+  | "lock_slot"
+  | "unlock_slot"
+  | "push_prices"
+  | "motor_self_test"
+  | "update_firmware";
+
+export type CommandStatus = "queued" | "sent" | "acknowledged" | "succeeded" | "failed";
+
+/** A new price for every slot selling the product */
+export interface PriceChange {
+  productId: string;
+  price: number;
+}
+
+export interface MachineCommand {
+  id: string;
+  machineId: string;
+  machineName: string;
+  kind: CommandKind;
+  /** lock_slot / unlock_slot only */
+  slot: { row: number; col: number } | null;
+  /** push_prices only */
+  prices: PriceChange[] | null;
+  /** update_firmware only: the version to install */
+  firmware: string | null;
+  status: CommandStatus;
+  issuedBy: string;
+  createdAt: Date;
+  /** Fails if it can't be sent before then */
+  expiresAt: Date;
+  sentAt: Date | null;
+  acknowledgedAt: Date | null;
+  completedAt: Date | null;
+  /** The machine's answer, or why it failed */
+  result: string | null;
+}
+
+/** A command as an operator sends it */
+export interface CommandInput {
+  author: string;
+  kind: CommandKind;
+  slot: { row: number; col: number } | null;
+  prices: PriceChange[] | null;
+}
+
+// ============================================================
+// CONSTANTS
+// ============================================================
+
+export const COMMAND_KINDS: { id: CommandKind; label: string; runSeconds: number }[] = [
+  { id: "reboot", label: "Reboot", runSeconds: 60 },
+  { id: "enter_maintenance", label: "Enter maintenance mode", runSeconds: 3 },
+  { id: "exit_maintenance", label: "Exit maintenance mode", runSeconds: 3 },
+  { id: "lock_slot", label: "Lock slot", runSeconds: 2 },
+  { id: "unlock_slot", label: "Unlock slot", runSeconds: 2 },
+  { id: "push_prices", label: "Push prices", runSeconds: 5 },
+  { id: "motor_self_test", label: "Motor self-test", runSeconds: 30 },
+  { id: "update_firmware", label: "Install firmware", runSeconds: 120 },
+];
+
+/** Unsent commands fail after this long */
+export const COMMAND_TIMEOUT_MINUTES = 10;
+
+/** From sent to acknowledged */
+export const ACK_DELAY_SECONDS = 2;
+
+const MAX_NAME_LENGTH = 60;
+const MAX_PRICE_CHANGES = 20;
+
+// ============================================================
+// HELPERS
+// ============================================================
+
+export function commandLabel(kind: CommandKind): string {
+  return COMMAND_KINDS.find(k => k.id === kind)?.label ?? kind;
+}
+
+/** "R1 C3" */
+export function slotLabel(slot: { row: number; col: number }): string {
+  return `R${slot.row + 1} C${slot.col + 1}`;
+}
+
+/** Whether the command is still on its way (not succeeded or failed) */
+export function isCommandPending(command: MachineCommand): boolean {
+  return command.status !== "succeeded" && command.status !== "failed";
+}
+
+/** Whether a slot is locked (not for sale) */
+export function isSlotLocked(machine: VendingMachine, slot: { row: number; col: number }): boolean {
+  // Snapshots stored before slot locks existed have none
+  return (machine.lockedSlots ?? []).some(l => l.row === slot.row && l.col === slot.col);
+}
+
+// ============================================================
+// REQUEST PARSING
+// ============================================================
+
+/**
+ * Read a command POST body `{ author, kind, slot?: { row, col },
+ * prices?: [{ productId, price }] }` for `machine`: slot commands need
+ * one of its slots, push_prices products it sells. Returns an error
+ * message instead when something is invalid.
+ */
+export function parseCommandInput(body: unknown, machine: VendingMachine): CommandInput | { error: string } {
+  const b = (body ?? {}) as Record<string, unknown>;
+
+  if (typeof b.author !== "string" || !b.author.trim() || b.author.length > MAX_NAME_LENGTH) {
+    return { error: `author must be 1–${MAX_NAME_LENGTH} characters` };
+  }
+  if (!COMMAND_KINDS.some(k => k.id === b.kind)) {
+    return { error: `kind must be one of ${COMMAND_KINDS.map(k => k.id).join(", ")}` };
+  }
+  const kind = b.kind as CommandKind;
+  if (kind === "update_firmware") {
+    return { error: "Firmware is installed by a rollout (POST /api/fleet/firmware/rollouts)" };
+  }
+  const input: CommandInput = { author: b.author.trim(), kind, slot: null, prices: null };
+
+  if (kind === "lock_slot" || kind === "unlock_slot") {
+    const slot = (b.slot ?? {}) as Record<string, unknown>;
+    if (!machine.planogram.some(s => s.row === slot.row && s.col === slot.col)) {
+      return { error: `slot must be { row, col } of a slot in ${machine.id}` };
+    }
+    input.slot = { row: slot.row as number, col: slot.col as number };
+  }
+
+  if (kind === "push_prices") {
+    if (!Array.isArray(b.prices) || b.prices.length === 0 || b.prices.length > MAX_PRICE_CHANGES) {
+      return { error: `prices must list 1–${MAX_PRICE_CHANGES} { productId, price }` };
+    }
+    const prices: PriceChange[] = [];
+    for (const change of b.prices as Record<string, unknown>[]) {
+      const product = typeof change?.productId === "string" ? getProductById(change.productId) : undefined;
+      if (!product || !machine.planogram.some(s => s.productId === product.id)) {
+        return { error: `prices: ${machine.id} doesn't sell "${String(change?.productId)}"` };
+      }
+      if (!Number.isInteger(change.price) || (change.price as number) < MIN_SLOT_PRICE || (change.price as number) > MAX_SLOT_PRICE) {
+        return { error: `prices: ${product.name} must cost ${MIN_SLOT_PRICE}–${MAX_SLOT_PRICE} ISK` };
+      }
+      if (prices.some(p => p.productId === product.id)) {
+        return { error: `prices: ${product.name} is listed twice` };
+      }
+      prices.push({ productId: product.id, price: change.price as number });
+    }
+    input.prices = prices;
+  }
+  return input;
+}
@@ -5,7 +5,8 @@
  * 
  * This module is the "brain" of the prototype. It generates:
  *   • 50 products with names, prices (ISK 300–2000), and sales weights
- *   • 20 vending machines across 5 Icelandic locations
+ *   • 20 vending machines across 5 Icelandic locations, built as
+ *     different cabinet models (see `src/lib/machine-models.ts`)
  *   • Random sales transactions distributed by product weight
  *   • System events (low stock, errors, motor jams, etc.)
  *
@@ -17,9 +18,17 @@
  *
  * This file exports pure data + helper functions.
  * The real-time simulation loop lives in `src/lib/simulation.ts`.
+ *
+ * Every generator takes an optional `rng` (see `src/lib/random.ts`)
+ * so the simulation can pass a seeded generator and produce the same
+ * fleet for the same seed. Without one they fall back to Math.random.
  * ============================================================
  */
 
+import { type Rng, pickRandom } from "./random";
+import { getMachineModel, type MachineModel } from "./machine-models";
+import type { PaymentFailureReason, PaymentMethod, ReaderHealth } from "./payments";
+
 // ============================================================
 // TYPE DEFINITIONS
 // ============================================================
@@ -36,6 +45,8 @@ export interface Product {
   category: "beverage" | "snack" | "candy" | "fresh";
   /** Emoji icon (used as placeholder for product images) */
   icon: string;
+  /** Perishable products only: hours from delivery to the use-by time */
+  shelfLifeHours?: number;
 }
 
 /** Hardware component status for a vending machine */
@@ -49,6 +60,14 @@ export interface HardwareStatus {
   display: "OK" | "WARNING" | "ERROR";
 }
 
+/** Units of one delivery in a slot, sharing a use-by time */
+export interface StockBatch {
+  /** Lot the units came with (the transfer id, or "INITIAL") */
+  lot: string;
+  quantity: number;
+  expiresAt: Date;
+}
+
 /** A single slot in the virtual planogram grid */
 export interface PlanogramSlot {
   row: number;
@@ -58,6 +77,11 @@ export interface PlanogramSlot {
   stock: number;
   maxStock: number;
   price: number;
+  /**
+   * Perishable products only: the stock split by batch, earliest
+   * use-by first (quantities add up to `stock`, see `expiry.ts`)
+   */
+  batches?: StockBatch[];
 }
 
 /** The overall status of a vending machine */
@@ -68,11 +92,17 @@ export interface VendingMachine {
   id: string;
   /** Human-readable name (e.g., "Kringlan #1") */
   name: string;
+  /** Manufacturer's serial number (e.g., "VD-00001") */
+  serial: string;
   location: Location;
   status: MachineStatus;
   hardware: HardwareStatus;
-  /** 10 rows × 6 columns = 60 slots */
+  /** Cabinet type: shelves, slot widths, dispense mechanism */
+  model: MachineModel;
+  /** One slot per position of the model's cabinet */
   planogram: PlanogramSlot[];
+  /** Bumped every time an edited planogram is saved (starts at 1) */
+  planogramVersion: number;
   /** Total revenue today in ISK */
   revenueToday: number;
   /** Total transactions today */
@@ -81,6 +111,19 @@ export interface VendingMachine {
   lastActivity: Date;
   /** Installed firmware version */
   firmware: string;
+  /** Sales are suspended while an operator works on the machine */
+  maintenanceMode: boolean;
+  /** Slots locked remotely – their products aren't for sale */
+  lockedSlots: { row: number; col: number }[];
+}
+
+/** What kind of site a location is */
+export type SiteType = "airport" | "mall" | "university" | "office" | "other";
+
+/** One day's opening hours, local "HH:MM" (close may be "24:00") */
+export interface DayHours {
+  open: string;
+  close: string;
 }
 
 /** A geographic location with a cluster of machines */
@@ -90,6 +133,15 @@ export interface Location {
   city: string;
   lat: number;
   lng: number;
+  siteType: SiteType;
+  /** IANA time zone the opening hours are in, e.g. "Atlantic/Reykjavik" */
+  timezone: string;
+  /** Monday first, one entry per weekday; null = closed all day */
+  openingHours: (DayHours | null)[];
+  /** Who to call at the site (empty strings when unknown) */
+  host: { name: string; email: string; phone: string };
+  /** What the site charges: a fixed monthly rent (ISK) plus a share of sales */
+  terms: { monthlyRent: number; commissionPercent: number };
 }
 
 /** A sales transaction event */
@@ -97,13 +149,23 @@ export interface Transaction {
   id: string;
   machineId: string;
   machineName: string;
+  /**
+   * Where the machine stood at the time – location views go by this,
+   * so a machine's old sales stay with its old site after a move.
+   * Missing on transactions recorded before it existed.
+   */
+  locationId?: string;
   productId: string;
   productName: string;
   amount: number; // ISK
-  /** All payments are by card in Vendral */
-  paymentMethod: "card";
+  /** How the customer paid (see `src/lib/payments.ts`) */
+  paymentMethod: PaymentMethod;
   timestamp: Date;
   success: boolean;
+  /** Why the payment failed (null when it went through) */
+  failureReason: PaymentFailureReason | null;
+  /** The card reader's health when the customer paid */
+  readerHealth: ReaderHealth;
 }
 
 /** A system/hardware event */
@@ -164,35 +226,81 @@ export const PRODUCTS: Product[] = [
   { id: "p33", name: "Orbit Gum",            price: 300,  weight: 2, category: "candy",    icon: "🫧" },
   { id: "p34", name: "Toblerone 50g",        price: 550,  weight: 1, category: "candy",    icon: "🍫" },
   { id: "p35", name: "Dark Chocolate 70%",   price: 620,  weight: 1, category: "candy",    icon: "🍫" },
-  // ---- Fresh & Healthy ----
-  { id: "p36", name: "Greek Yogurt Cup",     price: 580,  weight: 2, category: "fresh",    icon: "🥛" },
-  { id: "p37", name: "Fruit Cup Mixed",      price: 650,  weight: 1, category: "fresh",    icon: "🍇" },
-  { id: "p38", name: "Hummus & Crackers",    price: 720,  weight: 1, category: "fresh",    icon: "🫘" },
-  { id: "p39", name: "Caesar Wrap",          price: 950,  weight: 2, category: "fresh",    icon: "🌯" },
-  { id: "p40", name: "Club Sandwich",        price: 1100, weight: 2, category: "fresh",    icon: "🥪" },
-  { id: "p41", name: "Chicken Salad",        price: 1200, weight: 1, category: "fresh",    icon: "🥗" },
-  { id: "p42", name: "Sushi Box 8pc",        price: 1800, weight: 1, category: "fresh",    icon: "🍣" },
-  { id: "p43", name: "Pasta Bowl",           price: 1400, weight: 1, category: "fresh",    icon: "🍝" },
-  { id: "p44", name: "Energy Bar",           price: 450,  weight: 2, category: "fresh",    icon: "💪" },
-  { id: "p45", name: "Banana",               price: 300,  weight: 2, category: "fresh",    icon: "🍌" },
-  { id: "p46", name: "Apple",                price: 300,  weight: 2, category: "fresh",    icon: "🍎" },
-  { id: "p47", name: "Carrot Sticks",        price: 380,  weight: 1, category: "fresh",    icon: "🥕" },
-  { id: "p48", name: "Overnight Oats",       price: 650,  weight: 1, category: "fresh",    icon: "🥣" },
-  { id: "p49", name: "Smoothie Berry 350ml", price: 780,  weight: 2, category: "fresh",    icon: "🫐" },
-  { id: "p50", name: "Açaí Bowl",            price: 1950, weight: 1, category: "fresh",    icon: "🫐" },
+  // ---- Fresh & Healthy (perishable: shelfLifeHours from delivery) ----
+  { id: "p36", name: "Greek Yogurt Cup",     price: 580,  weight: 2, category: "fresh",    icon: "🥛", shelfLifeHours: 168 },
+  { id: "p37", name: "Fruit Cup Mixed",      price: 650,  weight: 1, category: "fresh",    icon: "🍇", shelfLifeHours: 72 },
+  { id: "p38", name: "Hummus & Crackers",    price: 720,  weight: 1, category: "fresh",    icon: "🫘", shelfLifeHours: 120 },
+  { id: "p39", name: "Caesar Wrap",          price: 950,  weight: 2, category: "fresh",    icon: "🌯", shelfLifeHours: 48 },
+  { id: "p40", name: "Club Sandwich",        price: 1100, weight: 2, category: "fresh",    icon: "🥪", shelfLifeHours: 48 },
+  { id: "p41", name: "Chicken Salad",        price: 1200, weight: 1, category: "fresh",    icon: "🥗", shelfLifeHours: 48 },
+  { id: "p42", name: "Sushi Box 8pc",        price: 1800, weight: 1, category: "fresh",    icon: "🍣", shelfLifeHours: 24 },
+  { id: "p43", name: "Pasta Bowl",           price: 1400, weight: 1, category: "fresh",    icon: "🍝", shelfLifeHours: 72 },
+  { id: "p44", name: "Energy Bar",           price: 450,  weight: 2, category: "fresh",    icon: "💪", shelfLifeHours: 720 },
+  { id: "p45", name: "Banana",               price: 300,  weight: 2, category: "fresh",    icon: "🍌", shelfLifeHours: 120 },
+  { id: "p46", name: "Apple",                price: 300,  weight: 2, category: "fresh",    icon: "🍎", shelfLifeHours: 240 },
+  { id: "p47", name: "Carrot Sticks",        price: 380,  weight: 1, category: "fresh",    icon: "🥕", shelfLifeHours: 96 },
+  { id: "p48", name: "Overnight Oats",       price: 650,  weight: 1, category: "fresh",    icon: "🥣", shelfLifeHours: 72 },
+  { id: "p49", name: "Smoothie Berry 350ml", price: 780,  weight: 2, category: "fresh",    icon: "🫐", shelfLifeHours: 72 },
+  { id: "p50", name: "Açaí Bowl",            price: 1950, weight: 1, category: "fresh",    icon: "🫐", shelfLifeHours: 48 },
 ];
 
 // ============================================================
 // LOCATIONS – 5 Icelandic locations
 // ============================================================
-// Lat/Lng are approximate centers for each location.
+// Lat/Lng are approximate centers for each location. Machines only
+// sell while their site is open (see `src/lib/locations.ts`).
+
+/** Same hours Monday to Sunday */
+const daily = (open: string, close: string): DayHours[] => Array.from({ length: 7 }, () => ({ open, close }));
 
 export const LOCATIONS: Location[] = [
-  { id: "loc1", name: "Kringlan Mall",          city: "Reykjavík",    lat: 64.1280, lng: -21.8935 },
-  { id: "loc2", name: "Smáralind Mall",         city: "Kópavogur",    lat: 64.1055, lng: -21.8789 },
-  { id: "loc3", name: "Akureyri Airport",       city: "Akureyri",     lat: 65.6590, lng: -18.0878 },
-  { id: "loc4", name: "University of Iceland",  city: "Reykjavík",    lat: 64.1400, lng: -21.9503 },
-  { id: "loc5", name: "KEF Airport Terminal",   city: "Keflavík",     lat: 63.9850, lng: -22.6056 },
+  {
+    id: "loc1", name: "Kringlan Mall", city: "Reykjavík", lat: 64.1280, lng: -21.8935,
+    siteType: "mall",
+    timezone: "Atlantic/Reykjavik",
+    openingHours: [
+      ...daily("10:00", "18:30").slice(0, 5),
+      { open: "10:00", close: "18:00" },
+      { open: "12:00", close: "17:00" },
+    ],
+    host: { name: "Kringlan Management", email: "leasing@kringlan.is", phone: "+354 568 9200" },
+    terms: { monthlyRent: 45_000, commissionPercent: 12 },
+  },
+  {
+    id: "loc2", name: "Smáralind Mall", city: "Kópavogur", lat: 64.1055, lng: -21.8789,
+    siteType: "mall",
+    timezone: "Atlantic/Reykjavik",
+    openingHours: daily("11:00", "19:00"),
+    host: { name: "Smáralind Services", email: "rekstur@smaralind.is", phone: "+354 528 8000" },
+    terms: { monthlyRent: 40_000, commissionPercent: 12 },
+  },
+  {
+    id: "loc3", name: "Akureyri Airport", city: "Akureyri", lat: 65.6590, lng: -18.0878,
+    siteType: "airport",
+    timezone: "Atlantic/Reykjavik",
+    openingHours: daily("06:00", "22:00"),
+    host: { name: "Isavia Domestic Airports", email: "aey@isavia.is", phone: "+354 424 4000" },
+    terms: { monthlyRent: 25_000, commissionPercent: 10 },
+  },
+  {
+    id: "loc4", name: "University of Iceland", city: "Reykjavík", lat: 64.1400, lng: -21.9503,
+    siteType: "university",
+    timezone: "Atlantic/Reykjavik",
+    openingHours: [
+      ...daily("07:30", "22:00").slice(0, 5),
+      ...daily("10:00", "17:00").slice(0, 2),
+    ],
+    host: { name: "University Facilities", email: "facilities@hi.is", phone: "+354 525 4000" },
+    terms: { monthlyRent: 0, commissionPercent: 15 },
+  },
+  {
+    id: "loc5", name: "KEF Airport Terminal", city: "Keflavík", lat: 63.9850, lng: -22.6056,
+    siteType: "airport",
+    timezone: "Atlantic/Reykjavik",
+    openingHours: daily("00:00", "24:00"),
+    host: { name: "Isavia Terminal Operations", email: "kef@isavia.is", phone: "+354 425 6000" },
+    terms: { monthlyRent: 90_000, commissionPercent: 18 },
+  },
 ];
 
 // ============================================================
@@ -200,19 +308,22 @@ export const LOCATIONS: Location[] = [
 // ============================================================
 
 /**
- * Creates the initial planogram (product grid) for a machine.
- * 10 rows × 6 columns = 60 slots.
- * Products are randomly assigned with weighted probability.
+ * Creates the initial planogram (product grid) for a machine: one
+ * slot per position of its cabinet model. Products are randomly
+ * assigned with weighted probability, from the categories the
+ * cabinet sells.
  */
-function createPlanogram(): PlanogramSlot[] {
+function createPlanogram(rng: Rng, model: MachineModel, now: number): PlanogramSlot[] {
   const slots: PlanogramSlot[] = [];
+  const pool = PRODUCTS.filter(p => model.categories.includes(p.category));
+  const [minCapacity, maxCapacity] = model.defaultCapacity;
 
-  for (let row = 0; row < 10; row++) {
-    for (let col = 0; col < 6; col++) {
+  for (let row = 0; row < model.rows.length; row++) {
+    for (let col = 0; col < model.rows[row].length; col++) {
       // Pick a random product using weighted selection
-      const product = weightedRandomProduct();
-      const maxStock = Math.floor(Math.random() * 5) + 6; // 6-10 items
-      const stock = Math.floor(Math.random() * maxStock) + 1;
+      const product = weightedRandomProduct(rng, pool);
+      const maxStock = minCapacity + Math.floor(rng() * (maxCapacity - minCapacity + 1));
+      const stock = Math.floor(rng() * maxStock) + 1;
 
       slots.push({
         row,
@@ -221,6 +332,14 @@ function createPlanogram(): PlanogramSlot[] {
         stock,
         maxStock,
         price: product.price,
+        // Perishables start part-way through their shelf life
+        ...(product.shelfLifeHours !== undefined && {
+          batches: [{
+            lot: "INITIAL",
+            quantity: stock,
+            expiresAt: new Date(now + rng() * product.shelfLifeHours * 3600000),
+          }],
+        }),
       });
     }
   }
@@ -237,37 +356,57 @@ function createPlanogram(): PlanogramSlot[] {
  * 2. Pick random number 0–95
  * 3. Walk through products, subtracting each weight
  * 4. When cumulative weight exceeds random number, that's our pick
+ *
+ * `pool` narrows the choice, e.g. to the products a machine stocks.
  */
-export function weightedRandomProduct(): Product {
-  const totalWeight = PRODUCTS.reduce((sum, p) => sum + p.weight, 0);
-  let random = Math.random() * totalWeight;
+export function weightedRandomProduct(
+  rng: Rng = Math.random,
+  pool: readonly Product[] = PRODUCTS
+): Product {
+  const totalWeight = pool.reduce((sum, p) => sum + p.weight, 0);
+  let random = rng() * totalWeight;
 
-  for (const product of PRODUCTS) {
+  for (const product of pool) {
     random -= product.weight;
     if (random <= 0) return product;
   }
 
   // Fallback (should never reach here)
-  return PRODUCTS[0];
+  return pool[0];
 }
 
+/**
+ * Firmware the machines ship with, newest first (the generator picks
+ * one at random). Also the releases a new history starts with – see
+ * `src/lib/firmware.ts`.
+ */
+export const FIRMWARE_VERSIONS = ["3.2.1", "3.2.0", "3.1.8", "3.1.5"];
+
+/**
+ * Cabinet models of the 4 machines at each location: two snack
+ * machines, a drink cooler and a fresh-food locker.
+ */
+const LOCATION_MODEL_MIX = ["spiral-snack", "spiral-snack", "drink-cooler", "fresh-locker"];
+
 /**
  * Generates the 20 vending machines across 5 locations (4 per location).
- * Each machine gets a unique ID, random hardware status, and planogram.
+ * Each machine gets a unique ID, a cabinet model, random hardware
+ * status, and a planogram that fits the cabinet.
+ * Passing the same seeded `rng` always yields the same fleet.
+ * `now` is the (virtual) time the fleet is created at.
  */
-export function generateMachines(): VendingMachine[] {
+export function generateMachines(rng: Rng = Math.random, now: number = Date.now()): VendingMachine[] {
   const machines: VendingMachine[] = [];
-  const firmwareVersions = ["3.2.1", "3.2.0", "3.1.8", "3.1.5"];
-
   let machineIndex = 1;
 
   for (const location of LOCATIONS) {
     // 4 machines per location = 20 total
     for (let i = 0; i < 4; i++) {
       const id = `VM-${String(machineIndex).padStart(3, "0")}`;
+      const model = getMachineModel(LOCATION_MODEL_MIX[i])!;
       
       // Most machines are online, some have issues
-      const statusRoll = Math.random();
+      const statusRoll = rng();
       let status: MachineStatus = "online";
       if (statusRoll > 0.9) status = "error";
       else if (statusRoll > 0.75) status = "warning";
@@ -276,24 +415,30 @@ export function generateMachines(): VendingMachine[] {
       const hardware: HardwareStatus = {
         billValidator: status === "error" ? "ERROR" : "OK",
         cardReader: "OK",
-        temperature: 3 + Math.round(Math.random() * 3), // 3-6°C
-        connectivity: status === "offline" ? 0 : 70 + Math.floor(Math.random() * 30),
-        connectionType: Math.random() > 0.5 ? "4G" : "WiFi",
-        motorBoard: status === "error" && Math.random() > 0.5 ? "ERROR" : "OK",
+        temperature: 3 + Math.round(rng() * 3), // 3-6°C
+        connectivity: status === "offline" ? 0 : 70 + Math.floor(rng() * 30),
+        connectionType: rng() > 0.5 ? "4G" : "WiFi",
+        motorBoard: status === "error" && rng() > 0.5 ? "ERROR" : "OK",
         display: "OK",
       };
 
       machines.push({
         id,
         name: `${location.name} #${i + 1}`,
+        // Not random: the serial must not shift the seeded sequence
+        serial: `VD-${String(machineIndex).padStart(5, "0")}`,
         location,
         status,
         hardware,
-        planogram: createPlanogram(),
-        revenueToday: Math.floor(Math.random() * 80000) + 10000, // 10k-90k ISK
-        transactionsToday: Math.floor(Math.random() * 120) + 20,
-        lastActivity: new Date(Date.now() - Math.random() * 3600000), // within last hour
-        firmware: firmwareVersions[Math.floor(Math.random() * firmwareVersions.length)],
+        model,
+        planogram: createPlanogram(rng, model, now),
+        planogramVersion: 1,
+        revenueToday: Math.floor(rng() * 80000) + 10000, // 10k-90k ISK
+        transactionsToday: Math.floor(rng() * 120) + 20,
+        lastActivity: new Date(now - rng() * 3600000), // within last hour
+        firmware: pickRandom(FIRMWARE_VERSIONS, rng),
+        maintenanceMode: false,
+        lockedSlots: [],
       });
 
       machineIndex++;
@@ -303,6 +448,41 @@ export function generateMachines(): VendingMachine[] {
   return machines;
 }
 
+/**
+ * A machine an operator registers (see `src/lib/fleet-admin.ts`):
+ * online with healthy hardware, no sales yet, and a planogram whose
+ * slots have products assigned but are empty – it's filled by a stock
+ * transfer like any other machine.
+ */
+export function createMachine(
+  fields: Pick<VendingMachine, "id" | "name" | "serial" | "location" | "model" | "firmware">,
+  rng: Rng = Math.random,
+  now: number = Date.now()
+): VendingMachine {
+  const planogram = createPlanogram(rng, fields.model, now)
+    .map(slot => ({ ...slot, stock: 0, ...(slot.batches && { batches: [] }) }));
+  return {
+    ...fields,
+    status: "online",
+    hardware: {
+      billValidator: "OK",
+      cardReader: "OK",
+      temperature: 4,
+      connectivity: 90,
+      connectionType: "4G",
+      motorBoard: "OK",
+      display: "OK",
+    },
+    planogram,
+    planogramVersion: 1,
+    revenueToday: 0,
+    transactionsToday: 0,
+    lastActivity: new Date(now),
+    maintenanceMode: false,
+    lockedSlots: [],
+  };
+}
+
 // ============================================================
 // HELPER: Find product by ID
 // ============================================================
@@ -310,6 +490,23 @@ export function getProductById(id: string): Product | undefined {
   return PRODUCTS.find(p => p.id === id);
 }
 
+// ============================================================
+// HELPER: Stock level of a slot
+// ============================================================
+/** A slot counts as low at this many items or fewer */
+const LOW_STOCK_ITEMS = 2;
+
+/**
+ * "empty" (0 items), "low" (a couple left) or "ok".
+ * Slots that only hold one or two items (e.g. fresh-food lockers)
+ * are never "low" when full – they go straight from ok to empty.
+ */
+export function getStockLevel(slot: Pick<PlanogramSlot, "stock" | "maxStock">): "empty" | "low" | "ok" {
+  if (slot.stock === 0) return "empty";
+  if (slot.stock <= Math.min(LOW_STOCK_ITEMS, slot.maxStock - 1)) return "low";
+  return "ok";
+}
+
 // ============================================================
 // HELPER: Format ISK currency
 // ============================================================
@@ -0,0 +1,150 @@
+/**
+ * ============================================================
+ * Vendral – Batches, Expiry & Waste
+ * ============================================================
+ *
+ * Perishable products (`Product.shelfLifeHours`, the fresh range)
+ * carry their stock per BATCH: the units of one delivery share a
+ * lot and a use-by time. A slot's `batches` always add up to its
+ * `stock`, earliest use-by first:
+ *
+ *   slot.stock = 3
+ *   slot.batches = [
+ *     { lot: "TR-000012", quantity: 1, expiresAt: Tue 10:00 },
+ *     { lot: "TR-000031", quantity: 2, expiresAt: Thu 10:00 },
+ *   ]
+ *
+ *   • sales, shrinkage and recounts take units FIFO (oldest first)
+ *   • a delivery adds a batch that expires `shelfLifeHours` later
+ *   • once a batch passes its use-by time the simulation removes it
+ *     and writes it off as WASTE (units and ISK, per product and
+ *     machine – see `getWasteReport` in the simulation)
+ *
+ * Products without a shelf life have no batches; every helper here
+ * only changes `stock` for them.
+ *
+ * The mutating helpers are for the simulation; the read helpers are
+ * safe to use in the browser.
+ * ============================================================
+ */
+
+import { getProductById, type PlanogramSlot, type StockBatch } from "./data";
+
+const HOUR_MS = 3_600_000;
+
+// ============================================================
+// TYPE DEFINITIONS
+// ============================================================
+
+/** Units written off because they passed their use-by time */
+export interface WasteRecord {
+  /** "WO-000001" (write-off) */
+  id: string;
+  machineId: string;
+  machineName: string;
+  productId: string;
+  lot: string;
+  quantity: number;
+  /** Written-off units at the slot's price (ISK) */
+  value: number;
+  /** The batch's use-by time (when the units were written off) */
+  timestamp: Date;
+}
+
+export type ExpiryLevel = "ok" | "soon";
+
+// ============================================================
+// CONSTANTS
+// ============================================================
+
+/** Slots with units this close to their use-by time are badged */
+export const NEAR_EXPIRY_HOURS = 12;
+
+// ============================================================
+// READ HELPERS
+// ============================================================
+
+/** Hours from delivery to use-by, or undefined if not perishable */
+export function getShelfLifeHours(productId: string | null): number | undefined {
+  return productId ? getProductById(productId)?.shelfLifeHours : undefined;
+}
+
+/** The earliest use-by time in a slot, or null */
+export function getNextExpiry(slot: Pick<PlanogramSlot, "batches">): Date | null {
+  return slot.batches?.[0]?.expiresAt ?? null;
+}
+
+/** "soon" when a unit expires within NEAR_EXPIRY_HOURS of `now` */
+export function getExpiryLevel(slot: Pick<PlanogramSlot, "batches">, now: Date): ExpiryLevel {
+  const next = getNextExpiry(slot);
+  return next && next.getTime() - now.getTime() <= NEAR_EXPIRY_HOURS * HOUR_MS ? "soon" : "ok";
+}
+
+/** "5h" / "2d" until `expiresAt` ("0h" once past) */
+export function formatTimeLeft(expiresAt: Date, now: Date): string {
+  const hours = Math.max(0, Math.floor((expiresAt.getTime() - now.getTime()) / HOUR_MS));
+  return hours < 48 ? `${hours}h` : `${Math.floor(hours / 24)}d`;
+}
+
+// ============================================================
+// MUTATING HELPERS (simulation)
+// ============================================================
+
+/** Batches for `quantity` units delivered at `now` (none if not perishable) */
+export function createBatches(productId: string | null, lot: string, quantity: number, now: Date): StockBatch[] | undefined {
+  const hours = getShelfLifeHours(productId);
+  if (hours === undefined) return undefined;
+  return quantity > 0 ? [{ lot, quantity, expiresAt: new Date(now.getTime() + hours * HOUR_MS) }] : [];
+}
+
+/** Put delivered units into a slot, as a new batch if perishable */
+export function addUnits(slot: PlanogramSlot, quantity: number, lot: string, now: Date): void {
+  if (quantity <= 0) return;
+  slot.stock += quantity;
+  const added = createBatches(slot.productId, lot, quantity, now);
+  if (!added) return;
+  slot.batches = [...(slot.batches ?? []), ...added]
+    .sort((a, b) => a.expiresAt.getTime() - b.expiresAt.getTime());
+}
+
+/** Take units out of a slot, oldest batch first */
+export function removeUnits(slot: PlanogramSlot, quantity: number): void {
+  slot.stock = Math.max(0, slot.stock - quantity);
+  if (!slot.batches) return;
+  let left = quantity;
+  for (const batch of slot.batches) {
+    const taken = Math.min(batch.quantity, left);
+    batch.quantity -= taken;
+    left -= taken;
+  }
+  slot.batches = slot.batches.filter(b => b.quantity > 0);
+}
+
+/**
+ * Set a slot's stock to a counted (or clamped) number. Missing units
+ * come out of the oldest batches; extra units found get the use-by
+ * time of the newest batch (or a fresh one) – we can't know better.
+ */
+export function setUnits(slot: PlanogramSlot, stock: number, now: Date): void {
+  if (stock < slot.stock) {
+    removeUnits(slot, slot.stock - stock);
+  } else if (stock > slot.stock) {
+    const newest = slot.batches?.[slot.batches.length - 1];
+    if (newest) {
+      newest.quantity += stock - slot.stock;
+      slot.stock = stock;
+    } else {
+      addUnits(slot, stock - slot.stock, "COUNT", now);
+    }
+  }
+}
+
+/** Remove every batch past its use-by time, returning what was removed */
+export function takeExpired(slot: PlanogramSlot, now: Date): StockBatch[] {
+  if (!slot.batches) return [];
+  const expired = slot.batches.filter(b => b.expiresAt <= now);
+  if (expired.length === 0) return [];
+  slot.batches = slot.batches.filter(b => b.expiresAt > now);
+  slot.stock -= expired.reduce((sum, b) => sum + b.quantity, 0);
+  return expired;
+}
@@ -0,0 +1,330 @@
+/**
+ * ============================================================
+ * Vendral – Firmware Releases & Staged Rollouts
+ * ============================================================
+ *
+ * A RELEASE is a firmware version operators may install. A ROLLOUT
+ * installs one release across the fleet in WAVES, so a bad build
+ * hurts a few machines instead of all of them:
+ *
+ *   Canary (1–5 hand-picked machines)
+ *     ──▶ one wave per chosen location, in the order given
+ *     ──▶ "All remaining" machines
+ *
+ *   - A wave sends an update_firmware command to each of its machines
+ *     (see `src/lib/commands.ts`): the machine acknowledges, reboots
+ *     into the new version and comes back after a couple of minutes.
+ *     Machines already on the version are left out.
+ *   - When every machine of a wave has answered, the rollout SOAKS for
+ *     `soakMinutes` before starting the next wave
+ *   - HEALTH: hardware error events are counted on upgraded machines
+ *     and on the rest of the fleet, per machine-hour. When upgraded
+ *     machines log errors more than `maxErrorRatio` times as often as
+ *     the others, the rollout pauses by itself (FIRMWARE_ROLLOUT_PAUSED)
+ *   - An operator can pause, resume (health counting starts over) or
+ *     roll back: queued installs are cancelled and every upgraded
+ *     machine reinstalls the version it had before
+ *
+ *   running ──▶ completed
+ *     │  ▲
+ *     ▼  │ resume
+ *   paused
+ *
+ *   running / paused / completed ──rollback──▶ rolling_back ──▶ rolled_back
+ *
+ * Only one rollout is active (running, paused or rolling back) at a
+ * time, and only the newest one can be rolled back.
+ *
+ * Types, health maths and request parsing – no server imports, safe
+ * to bundle for the browser.
+ * ============================================================
+ */
+
+// ============================================================
+// TYPE DEFINITIONS
+// ============================================================
+
+export interface FirmwareRelease {
+  /** "3.3.0" */
+  version: string;
+  notes: string;
+  /** Who added it ("system" for the versions a new history starts with) */
+  createdBy: string;
+  createdAt: Date;
+}
+
+export type RolloutStatus = "running" | "paused" | "completed" | "rolling_back" | "rolled_back";
+
+export type RolloutTargetStatus =
+  | "pending"
+  | "installing"
+  | "upgraded"
+  | "failed"
+  | "cancelled"
+  | "rolling_back"
+  | "rolled_back";
+
+export interface RolloutWave {
+  /** "Canary" / a location name / "All remaining" */
+  name: string;
+  startedAt: Date | null;
+  /** Every machine of the wave has answered (soaking starts here) */
+  completedAt: Date | null;
+}
+
+/** One machine of a rollout */
+export interface RolloutTarget {
+  machineId: string;
+  machineName: string;
+  /** Index into the rollout's waves */
+  wave: number;
+  /** The version it had – what a rollback reinstalls */
+  fromVersion: string;
+  commandId: string | null;
+  rollbackCommandId: string | null;
+  status: RolloutTargetStatus;
+  upgradedAt: Date | null;
+  /** Hardware errors logged since it was upgraded */
+  errors: number;
+}
+
+/** Something that happened to a rollout, by an operator or by the system */
+export interface RolloutLogEntry {
+  at: Date;
+  author: string;
+  text: string;
+}
+
+export interface FirmwareRollout {
+  /** "FW-001" */
+  id: string;
+  version: string;
+  createdBy: string;
+  createdAt: Date;
+  status: RolloutStatus;
+  waves: RolloutWave[];
+  /** The wave being installed or soaking */
+  currentWave: number;
+  targets: RolloutTarget[];
+  /** Wait after each wave before the next one starts */
+  soakMinutes: number;
+  /** Pause when upgraded machines log errors this many times as often as the rest */
+  maxErrorRatio: number;
+  /** Health is counted from here (the start, or the last resume) */
+  healthSince: Date;
+  /** Hardware errors since `healthSince` on upgraded machines… */
+  upgradedErrors: number;
+  /** …and on every other machine */
+  baselineErrors: number;
+  /** Why it paused (null while it isn't paused) */
+  pausedReason: string | null;
+  /** Oldest first */
+  log: RolloutLogEntry[];
+}
+
+/** A release as an operator adds it */
+export interface ReleaseInput {
+  author: string;
+  version: string;
+  notes: string;
+}
+
+/** A rollout as an operator starts it */
+export interface RolloutInput {
+  author: string;
+  version: string;
+  canaryMachineIds: string[];
+  /** One wave per location, in this order, before "All remaining" */
+  locationIds: string[];
+  soakMinutes: number;
+  maxErrorRatio: number;
+}
+
+export interface RolloutAction {
+  author: string;
+  action: "pause" | "resume" | "rollback";
+}
+
+/** Error rates of a rollout, per machine-hour, since `healthSince` */
+export interface RolloutHealth {
+  upgradedHours: number;
+  upgradedRate: number;
+  baselineRate: number;
+  /** upgradedRate / baselineRate (null until both can be compared) */
+  ratio: number | null;
+  /** Enough data, and upgraded machines are over `maxErrorRatio` */
+  breached: boolean;
+}
+
+// ============================================================
+// CONSTANTS
+// ============================================================
+
+export const DEFAULT_SOAK_MINUTES = 30;
+export const DEFAULT_MAX_ERROR_RATIO = 3;
+export const MAX_CANARY_MACHINES = 5;
+
+/**
+ * Health needs this much upgraded running time and this many errors
+ * before it can pause a rollout – a single unlucky error on a canary
+ * shouldn't stop it.
+ */
+export const MIN_HEALTH_HOURS = 0.5;
+export const MIN_HEALTH_ERRORS = 5;
+
+/** Rollouts kept (the oldest finished ones go first) */
+export const MAX_ROLLOUTS = 50;
+
+const MAX_NAME_LENGTH = 60;
+const MAX_NOTES_LENGTH = 500;
+const MAX_SOAK_MINUTES = 24 * 60;
+const MAX_ERROR_RATIO = 10;
+const VERSION_PATTERN = /^\d{1,3}\.\d{1,3}\.\d{1,3}$/;
+
+const HOUR_MS = 3_600_000;
+
+// ============================================================
+// HELPERS
+// ============================================================
+
+/** Sort order of "x.y.z" versions: negative when `a` is older */
+export function compareVersions(a: string, b: string): number {
+  const pa = a.split(".").map(Number);
+  const pb = b.split(".").map(Number);
+  for (let i = 0; i < 3; i++) {
+    if (pa[i] !== pb[i]) return (pa[i] ?? 0) - (pb[i] ?? 0);
+  }
+  return 0;
+}
+
+/** The newest release (null when there are none) */
+export function latestRelease(releases: FirmwareRelease[]): FirmwareRelease | null {
+  return releases.reduce<FirmwareRelease | null>(
+    (newest, r) => (!newest || compareVersions(r.version, newest.version) > 0 ? r : newest),
+    null
+  );
+}
+
+/** Whether the rollout still needs looking after (running, paused or rolling back) */
+export function isRolloutActive(rollout: FirmwareRollout): boolean {
+  return rollout.status === "running" || rollout.status === "paused" || rollout.status === "rolling_back";
+}
+
+/**
+ * Compare the error rate of upgraded machines with the rest of the
+ * fleet (`fleetSize` machines) since the rollout's `healthSince`.
+ * A machine counts as upgraded from its upgrade on.
+ */
+export function rolloutHealth(rollout: FirmwareRollout, fleetSize: number, now: Date): RolloutHealth {
+  const since = rollout.healthSince.getTime();
+  const elapsedHours = Math.max(0, now.getTime() - since) / HOUR_MS;
+
+  let upgradedHours = 0;
+  for (const target of rollout.targets) {
+    if (target.status !== "upgraded" || !target.upgradedAt) continue;
+    upgradedHours += Math.max(0, now.getTime() - Math.max(target.upgradedAt.getTime(), since)) / HOUR_MS;
+  }
+  const baselineHours = Math.max(0, fleetSize * elapsedHours - upgradedHours);
+
+  const upgradedRate = upgradedHours > 0 ? rollout.upgradedErrors / upgradedHours : 0;
+  const baselineRate = baselineHours > 0 ? rollout.baselineErrors / baselineHours : 0;
+  const comparable = upgradedHours >= MIN_HEALTH_HOURS && baselineHours > 0;
+  const ratio = comparable && baselineRate > 0 ? upgradedRate / baselineRate : null;
+  const breached =
+    comparable &&
+    rollout.upgradedErrors >= MIN_HEALTH_ERRORS &&
+    upgradedRate > baselineRate * rollout.maxErrorRatio;
+
+  return { upgradedHours, upgradedRate, baselineRate, ratio, breached };
+}
+
+// ============================================================
+// REQUEST PARSING
+// ============================================================
+
+function parseAuthor(value: unknown): string | { error: string } {
+  if (typeof value !== "string" || !value.trim() || value.length > MAX_NAME_LENGTH) {
+    return { error: `author must be 1–${MAX_NAME_LENGTH} characters` };
+  }
+  return value.trim();
+}
+
+/**
+ * Read a release POST body `{ author, version, notes }` – version as
+ * "x.y.z", not one of `existing`. Returns an error message instead
+ * when something is invalid.
+ */
+export function parseReleaseInput(body: unknown, existing: FirmwareRelease[]): ReleaseInput | { error: string } {
+  const b = (body ?? {}) as Record<string, unknown>;
+
+  const author = parseAuthor(b.author);
+  if (typeof author !== "string") return author;
+  if (typeof b.version !== "string" || !VERSION_PATTERN.test(b.version.trim())) {
+    return { error: 'version must look like "3.3.0"' };
+  }
+  const version = b.version.trim();
+  if (existing.some(r => r.version === version)) {
+    return { error: `Release v${version} already exists` };
+  }
+  if (typeof b.notes !== "string" || b.notes.length > MAX_NOTES_LENGTH) {
+    return { error: `notes must be at most ${MAX_NOTES_LENGTH} characters` };
+  }
+  return { author, version, notes: b.notes.trim() };
+}
+
+/**
+ * Read a rollout POST body `{ author, version, canaryMachineIds,
+ * locationIds?, soakMinutes?, maxErrorRatio? }`, the locations among
+ * `locationIds`. Whether the release and machines exist is up to the
+ * caller. Returns an error message instead when something is invalid.
+ */
+export function parseRolloutInput(body: unknown, locationIds: string[]): RolloutInput | { error: string } {
+  const b = (body ?? {}) as Record<string, unknown>;
+
+  const author = parseAuthor(b.author);
+  if (typeof author !== "string") return author;
+  if (typeof b.version !== "string" || !b.version) {
+    return { error: "version is required" };
+  }
+  const canary = b.canaryMachineIds;
+  if (
+    !Array.isArray(canary) ||
+    canary.length === 0 ||
+    canary.length > MAX_CANARY_MACHINES ||
+    canary.some(id => typeof id !== "string")
+  ) {
+    return { error: `canaryMachineIds must list 1–${MAX_CANARY_MACHINES} machine ids` };
+  }
+  const locations = b.locationIds ?? [];
+  if (!Array.isArray(locations) || locations.some(id => !locationIds.includes(id))) {
+    return { error: `locationIds must list location ids (${locationIds.join(", ")})` };
+  }
+  const soakMinutes = b.soakMinutes ?? DEFAULT_SOAK_MINUTES;
+  if (!Number.isInteger(soakMinutes) || (soakMinutes as number) < 0 || (soakMinutes as number) > MAX_SOAK_MINUTES) {
+    return { error: `soakMinutes must be a whole number 0–${MAX_SOAK_MINUTES}` };
+  }
+  const maxErrorRatio = b.maxErrorRatio ?? DEFAULT_MAX_ERROR_RATIO;
+  if (typeof maxErrorRatio !== "number" || !(maxErrorRatio >= 1) || maxErrorRatio > MAX_ERROR_RATIO) {
+    return { error: `maxErrorRatio must be 1–${MAX_ERROR_RATIO}` };
+  }
+  return {
+    author,
+    version: b.version,
+    canaryMachineIds: [...new Set(canary as string[])],
+    locationIds: [...new Set(locations as string[])],
+    soakMinutes: soakMinutes as number,
+    maxErrorRatio,
+  };
+}
+
+/** Read a rollout PATCH body `{ author, action: "pause" | "resume" | "rollback" }` */
+export function parseRolloutAction(body: unknown): RolloutAction | { error: string } {
+  const b = (body ?? {}) as Record<string, unknown>;
+
+  const author = parseAuthor(b.author);
+  if (typeof author !== "string") return author;
+  if (b.action !== "pause" && b.action !== "resume" && b.action !== "rollback") {
+    return { error: "action must be pause, resume or rollback" };
+  }
+  return { author, action: b.action };
+}
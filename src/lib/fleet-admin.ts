@@ -0,0 +1,189 @@
+/**
+ * ============================================================
+ * Vendral – Fleet Administration
+ * ============================================================
+ *
+ * The fleet isn't fixed: a new history starts with the 20 generated
+ * machines at the 5 LOCATIONS (see `src/lib/data.ts`), and from then
+ * on operators manage it from Settings:
+ *
+ *   - REGISTER a machine: name, serial number (unique), cabinet model
+ *     and location. It comes online with healthy hardware, the newest
+ *     firmware release and empty slots (fill it with a stock transfer)
+ *   - RENAME it or RELOCATE it to another location
+ *     (MACHINE_RENAMED / MACHINE_RELOCATED events)
+ *   - DECOMMISSION it – final. It leaves the live fleet (every view,
+ *     the fleet stats and the simulation); its transactions, events
+ *     and snapshots stay in the history. Its pending commands fail and
+ *     pending stock transfers to it are cancelled.
+ *   - Add and edit locations – with their site details and opening
+ *     hours (see `src/lib/locations.ts`); one can be deleted once no
+ *     machine is there any more
+ *
+ * Each machine has a RECORD (what the seed can't regenerate: name,
+ * location, who registered or decommissioned it), kept with the
+ * locations in the "fleet" document.
+ *
+ * Types and request parsing – no server imports, safe to bundle for
+ * the browser.
+ * ============================================================
+ */
+
+import type { Location } from "./data";
+import { MACHINE_MODELS } from "./machine-models";
+import { parseSiteDetails } from "./locations";
+
+// ============================================================
+// TYPE DEFINITIONS
+// ============================================================
+
+/** One machine of the fleet, past or present */
+export interface MachineRecord {
+  id: string;
+  name: string;
+  serial: string;
+  modelId: string;
+  locationId: string;
+  /** null for the machines the seed generates */
+  registeredBy: string | null;
+  registeredAt: Date | null;
+  /** null while it is in service */
+  decommissionedBy: string | null;
+  decommissionedAt: Date | null;
+}
+
+/** A new machine as an operator registers it */
+export interface MachineRegistration {
+  author: string;
+  name: string;
+  serial: string;
+  modelId: string;
+  locationId: string;
+}
+
+/** A change to a machine in service */
+export interface MachineChange {
+  author: string;
+  name?: string;
+  locationId?: string;
+  decommissioned?: true;
+}
+
+/** A new or edited location */
+export type LocationInput = Omit<Location, "id">;
+
+// ============================================================
+// CONSTANTS
+// ============================================================
+
+/** Where locations can be – the map draws Iceland */
+export const LAT_RANGE: [min: number, max: number] = [63.3, 66.5];
+export const LNG_RANGE: [min: number, max: number] = [-24.5, -13.5];
+
+const MAX_NAME_LENGTH = 60;
+const SERIAL_PATTERN = /^[A-Z0-9][A-Z0-9-]{2,29}$/;
+
+// ============================================================
+// REQUEST PARSING
+// ============================================================
+
+function parseText(value: unknown, field: string): string | { error: string } {
+  if (typeof value !== "string" || !value.trim() || value.length > MAX_NAME_LENGTH) {
+    return { error: `${field} must be 1–${MAX_NAME_LENGTH} characters` };
+  }
+  return value.trim();
+}
+
+function parseLocationId(value: unknown, locationIds: string[]): string | { error: string } {
+  if (typeof value !== "string" || !locationIds.includes(value)) {
+    return { error: `locationId must be one of ${locationIds.join(", ")}` };
+  }
+  return value;
+}
+
+/**
+ * Read a machine POST body `{ author, name, serial, modelId,
+ * locationId }` – the serial in capitals, not used by any machine in
+ * `records` (decommissioned ones included). Returns an error message
+ * instead when something is invalid.
+ */
+export function parseMachineRegistration(
+  body: unknown,
+  locationIds: string[],
+  records: MachineRecord[]
+): MachineRegistration | { error: string } {
+  const b = (body ?? {}) as Record<string, unknown>;
+
+  const author = parseText(b.author, "author");
+  if (typeof author !== "string") return author;
+  const name = parseText(b.name, "name");
+  if (typeof name !== "string") return name;
+  const serial = typeof b.serial === "string" ? b.serial.trim().toUpperCase() : "";
+  if (!SERIAL_PATTERN.test(serial)) {
+    return { error: "serial must be 3–30 letters, digits or dashes" };
+  }
+  const taken = records.find(r => r.serial === serial);
+  if (taken) return { error: `Serial ${serial} belongs to ${taken.id}` };
+  if (!MACHINE_MODELS.some(m => m.id === b.modelId)) {
+    return { error: `modelId must be one of ${MACHINE_MODELS.map(m => m.id).join(", ")}` };
+  }
+  const locationId = parseLocationId(b.locationId, locationIds);
+  if (typeof locationId !== "string") return locationId;
+  return { author, name, serial, modelId: b.modelId as string, locationId };
+}
+
+/**
+ * Read a machine PATCH body `{ author, name?, locationId?,
+ * decommissioned?: true }`. Returns an error message instead when
+ * something is invalid.
+ */
+export function parseMachineChange(body: unknown, locationIds: string[]): MachineChange | { error: string } {
+  const b = (body ?? {}) as Record<string, unknown>;
+
+  const author = parseText(b.author, "author");
+  if (typeof author !== "string") return author;
+  const change: MachineChange = { author };
+
+  if (b.name !== undefined) {
+    const name = parseText(b.name, "name");
+    if (typeof name !== "string") return name;
+    change.name = name;
+  }
+  if (b.locationId !== undefined) {
+    const locationId = parseLocationId(b.locationId, locationIds);
+    if (typeof locationId !== "string") return locationId;
+    change.locationId = locationId;
+  }
+  if (b.decommissioned !== undefined) {
+    if (b.decommissioned !== true) return { error: "decommissioned can only be true – it can't be undone" };
+    change.decommissioned = true;
+  }
+  if (Object.keys(change).length === 1) {
+    return { error: "Nothing to change – send name, locationId or decommissioned" };
+  }
+  return change;
+}
+
+/**
+ * Read a location POST/PATCH body `{ name, city, lat, lng, siteType?,
+ * timezone?, openingHours?, host?, terms? }` – see `parseSiteDetails`
+ * for the defaults. Returns an error message instead when something
+ * is invalid.
+ */
+export function parseLocationInput(body: unknown): LocationInput | { error: string } {
+  const b = (body ?? {}) as Record<string, unknown>;
+
+  const name = parseText(b.name, "name");
+  if (typeof name !== "string") return name;
+  const city = parseText(b.city, "city");
+  if (typeof city !== "string") return city;
+  if (typeof b.lat !== "number" || b.lat < LAT_RANGE[0] || b.lat > LAT_RANGE[1]) {
+    return { error: `lat must be ${LAT_RANGE[0]}–${LAT_RANGE[1]} (Iceland)` };
+  }
+  if (typeof b.lng !== "number" || b.lng < LNG_RANGE[0] || b.lng > LNG_RANGE[1]) {
+    return { error: `lng must be ${LNG_RANGE[0]} to ${LNG_RANGE[1]} (Iceland)` };
+  }
+  const details = parseSiteDetails(b);
+  if ("error" in details) return details;
+  return { name, city, lat: b.lat, lng: b.lng, ...details };
+}
@@ -0,0 +1,132 @@
+/**
+ * ============================================================
+ * Vendral – Live Fleet Stream (Server-Sent Events)
+ * ============================================================
+ *
+ * Turns the simulation's `onTransaction` / `onSystemEvent` callbacks
+ * into a numbered message log that the `/api/fleet/stream` route
+ * pushes to browsers as Server-Sent Events (SSE).
+ *
+ * WHY SSE?
+ * SSE is a one-way, server → browser stream over plain HTTP. The
+ * browser's built-in `EventSource` reconnects automatically and sends
+ * the last message id it saw in a `Last-Event-ID` header, so we can
+ * replay whatever was missed while the connection was down.
+ *
+ * MESSAGE LOG:
+ *   • Every message gets a monotonically increasing `id`
+ *   • The newest STREAM_BUFFER_SIZE messages are kept in memory
+ *   • A reconnect with `Last-Event-ID: 41` replays messages 42, 43, …
+ *   • If 41 has already fallen out of the buffer (or the fleet was
+ *     reset) the client gets a "reset" message and refetches instead
+ *   • So does a client that saw an id we never sent – the server
+ *     restarted and numbering began again – which also moves its
+ *     Last-Event-ID back onto our numbering
+ *
+ * Server-only: like `simulation.ts`, never import this from the client
+ * except with `import type`.
+ * ============================================================
+ */
+
+import type { Transaction, SystemEvent } from "./data";
+import { getSimulationInfo, onTransaction, onSystemEvent, onSimulationReset } from "./simulation";
+
+/** How many recent messages are kept for Last-Event-ID replay */
+const STREAM_BUFFER_SIZE = 1000;
+
+/** One message on the live stream */
+export type FleetStreamMessage =
+  | { id: number; type: "transaction"; data: Transaction }
+  | { id: number; type: "event"; data: SystemEvent }
+  | { id: number; type: "reset"; data: { seed: string } };
+
+/** Distributes a message type over the union, so `data` stays matched to `type` */
+type WithoutId<T> = T extends unknown ? Omit<T, "id"> : never;
+
+type StreamListener = (message: FleetStreamMessage) => void;
+
+/** Shared stream state (on globalThis for the same reason as the simulation) */
+interface FleetStreamRuntime {
+  lastId: number;
+  buffer: FleetStreamMessage[];
+  listeners: StreamListener[];
+}
+
+const globalForStream = globalThis as typeof globalThis & {
+  vendralFleetStream?: FleetStreamRuntime;
+};
+
+/**
+ * Lazily create the stream runtime and hook it up to the simulation.
+ * Runs once per server process.
+ */
+function getStreamRuntime(): FleetStreamRuntime {
+  if (!globalForStream.vendralFleetStream) {
+    const runtime: FleetStreamRuntime = { lastId: 0, buffer: [], listeners: [] };
+    globalForStream.vendralFleetStream = runtime;
+
+    onTransaction(tx => publish({ type: "transaction", data: tx }));
+    onSystemEvent(ev => publish({ type: "event", data: ev }));
+    onSimulationReset(seed => publish({ type: "reset", data: { seed } }));
+  }
+  return globalForStream.vendralFleetStream;
+}
+
+/** Number a message, remember it and hand it to every listener */
+function publish(message: WithoutId<FleetStreamMessage>): void {
+  const runtime = getStreamRuntime();
+  runtime.lastId++;
+  const numbered = { ...message, id: runtime.lastId } as FleetStreamMessage;
+
+  runtime.buffer.push(numbered);
+  if (runtime.buffer.length > STREAM_BUFFER_SIZE) runtime.buffer.shift();
+
+  runtime.listeners.forEach(listener => listener(numbered));
+}
+
+/**
+ * Subscribe to the live stream.
+ *
+ * @param lastEventId The last id the client saw (null for a fresh connection).
+ *   Missed messages are replayed to `listener` before live ones; if they
+ *   can't be replayed a "reset" message is sent instead.
+ * @returns An unsubscribe function.
+ */
+export function subscribeToFleetStream(
+  lastEventId: number | null,
+  listener: StreamListener
+): () => void {
+  const runtime = getStreamRuntime();
+
+  if (lastEventId !== null && lastEventId !== runtime.lastId) {
+    const oldest = runtime.buffer[0]?.id ?? runtime.lastId + 1;
+    if (lastEventId > runtime.lastId || lastEventId + 1 < oldest) {
+      // From before a server restart, or too old to replay – tell the
+      // client to refetch everything
+      listener({ id: runtime.lastId, type: "reset", data: { seed: getSimulationInfo().seed } });
+    } else {
+      runtime.buffer
+        .filter(message => message.id > lastEventId)
+        .forEach(listener);
+    }
+  }
+
+  runtime.listeners.push(listener);
+  return () => {
+    const idx = runtime.listeners.indexOf(listener);
+    if (idx >= 0) runtime.listeners.splice(idx, 1);
+  };
+}
+
+/**
+ * Serialize a message in the SSE wire format:
+ * ```
+ * id: 42
+ * event: transaction
+ * data: {"id":"TX-000042",...}
+ * ```
+ * followed by a blank line.
+ */
+export function formatSseMessage(message: FleetStreamMessage): string {
+  return `id: ${message.id}\nevent: ${message.type}\ndata: ${JSON.stringify(message.data)}\n\n`;
+}
@@ -0,0 +1,253 @@
+/**
+ * ============================================================
+ * Vendral – Demand Forecasting & Par Levels
+ * ============================================================
+ *
+ * Learns how fast each machine sells each product and predicts when
+ * every slot runs empty – before it happens, instead of the
+ * after-the-fact low/empty stock events.
+ *
+ * 1. VELOCITY: units sold per hour for every machine × product over
+ *    the lookback window (successful sales from the transaction log).
+ *
+ * 2. SEASONALITY: a fleet-wide profile of 168 multipliers, one per
+ *    hour of the week (Mon 00:00 … Sun 23:00), mean 1. Busy lunch
+ *    hours get > 1, nights < 1. Hours seen only a few times are
+ *    pulled towards 1 so one odd hour doesn't dominate:
+ *
+ *      index = (units in that hour + PRIOR × mean) / ((hours seen + PRIOR) × mean)
+ *
+ *    Expected sales in a future hour = velocity × index of that hour.
+ *
+ * 3. TIME-TO-EMPTY: a sale takes the product from its first slot (in
+ *    planogram order) that still has stock, so slots of one product
+ *    empty one after another. We add up the expected sales hour by
+ *    hour from now until they reach each slot's cumulative stock.
+ *
+ * 4. PAR LEVEL: what a slot should be filled to at a restock visit so
+ *    it lasts until the next one with ~95% confidence – expected
+ *    demand over the restock interval plus safety stock for Poisson
+ *    noise (1.65 × √demand), split over the product's slots by
+ *    capacity. It can exceed the slot's capacity; the slot then needs
+ *    more room (another facing) or more frequent visits.
+ *
+ * Caveat: an empty slot sells nothing, so demand while sold out is
+ * never observed – velocities are a little low for slots that are
+ * often empty.
+ *
+ * Pure functions – the simulation feeds them history and machines.
+ * ============================================================
+ */
+
+import { type VendingMachine } from "./data";
+
+const HOUR_MS = 3_600_000;
+
+// ============================================================
+// TYPE DEFINITIONS
+// ============================================================
+
+/** What was learned from the sales history */
+export interface DemandModel {
+  /** Units per hour by machine and product (key "VM-001|p01") */
+  rates: Record<string, number>;
+  /** Demand multiplier per hour of the week (0 = Monday 00:00), mean ~1 */
+  profile: number[];
+  /** Hours of history the model was learned from */
+  hours: number;
+}
+
+/** The forecast for one slot */
+export interface SlotForecast {
+  machineId: string;
+  row: number;
+  col: number;
+  productId: string;
+  stock: number;
+  maxStock: number;
+  /** Expected units per hour of the slot's product in this machine */
+  ratePerHour: number;
+  /** Predicted time the slot runs empty (null = not within the horizon) */
+  emptyAt: Date | null;
+  /** Recommended fill level at a restock visit */
+  parLevel: number;
+  /** The par level before capping at the slot's capacity */
+  parDemand: number;
+  /** Next planned restock visit of the machine */
+  nextVisit: Date;
+}
+
+export interface ForecastOptions {
+  now: Date;
+  /** Hours between two restock visits of a machine */
+  restockIntervalHours: number;
+  /** When each machine is visited next */
+  nextVisit: (machine: VendingMachine) => Date;
+}
+
+// ============================================================
+// CONSTANTS
+// ============================================================
+
+/** How much sales history the model learns from */
+export const FORECAST_LOOKBACK_DAYS = 7;
+
+/** Slots lasting longer than this are reported as "not within the horizon" */
+export const FORECAST_HORIZON_HOURS = 14 * 24;
+
+/** Hours between restock visits (the par level covers one interval) */
+export const RESTOCK_INTERVAL_HOURS = 48;
+
+/** Hours of "average" demand every seasonal bucket starts with */
+const PRIOR_HOURS = 2;
+
+/** Safety factor for a ~95% service level */
+const SERVICE_LEVEL_Z = 1.65;
+
+const HOURS_PER_WEEK = 7 * 24;
+
+// ============================================================
+// LEARNING
+// ============================================================
+
+/** Hour of the week, Monday 00:00 = 0 (local time, like the heatmap) */
+export function hourOfWeek(time: Date): number {
+  return ((time.getDay() + 6) % 7) * 24 + time.getHours();
+}
+
+/**
+ * Learn velocities from successful `sales` and the seasonal profile
+ * from fleet-wide `hourly` unit totals, both covering [from, to).
+ */
+export function learnDemand(
+  sales: { machineId: string; productId: string }[],
+  hourly: { hour: Date; units: number }[],
+  from: Date,
+  to: Date
+): DemandModel {
+  const hours = Math.max(1, (to.getTime() - from.getTime()) / HOUR_MS);
+
+  const rates: Record<string, number> = {};
+  for (const { machineId, productId } of sales) {
+    const key = `${machineId}|${productId}`;
+    rates[key] = (rates[key] ?? 0) + 1 / hours;
+  }
+
+  // How often each hour of the week occurs in the window, and its sales
+  const seen = new Array<number>(HOURS_PER_WEEK).fill(0);
+  const units = new Array<number>(HOURS_PER_WEEK).fill(0);
+  for (let t = from.getTime(); t < to.getTime();) {
+    const hourEnd = Math.min(to.getTime(), (Math.floor(t / HOUR_MS) + 1) * HOUR_MS);
+    seen[hourOfWeek(new Date(t))] += (hourEnd - t) / HOUR_MS;
+    t = hourEnd;
+  }
+  for (const bucket of hourly) units[hourOfWeek(bucket.hour)] += bucket.units;
+
+  const mean = units.reduce((a, b) => a + b, 0) / hours;
+  const profile = units.map((u, i) =>
+    mean > 0 ? (u + PRIOR_HOURS * mean) / ((seen[i] + PRIOR_HOURS) * mean) : 1
+  );
+
+  return { rates, profile, hours };
+}
+
+// ============================================================
+// FORECASTING
+// ============================================================
+
+/**
+ * When cumulative expected sales from `now` reach each of `thresholds`
+ * (ascending unit counts). Walks hour by hour up to the horizon and
+ * interpolates within the hour; null where the horizon comes first.
+ */
+function timesToReach(thresholds: number[], rate: number, profile: number[], now: Date): (Date | null)[] {
+  const result: (Date | null)[] = thresholds.map(() => null);
+  if (rate <= 0) return result;
+
+  let sold = 0;
+  let next = 0;
+  // The first step only covers the rest of the current hour
+  let t = now.getTime();
+  const end = t + FORECAST_HORIZON_HOURS * HOUR_MS;
+  while (t < end && next < thresholds.length) {
+    const hourEnd = Math.min(end, (Math.floor(t / HOUR_MS) + 1) * HOUR_MS);
+    const perMs = (rate * profile[hourOfWeek(new Date(t))]) / HOUR_MS;
+    const inStep = perMs * (hourEnd - t);
+
+    while (next < thresholds.length && sold + inStep >= thresholds[next]) {
+      result[next] = new Date(t + (thresholds[next] - sold) / perMs);
+      next++;
+    }
+    sold += inStep;
+    t = hourEnd;
+  }
+  return result;
+}
+
+/** Units that cover `demand` expected units with ~95% confidence */
+export function coverDemand(demand: number): number {
+  return demand + SERVICE_LEVEL_Z * Math.sqrt(demand);
+}
+
+/** Expected units sold in [now, now + hours) */
+function expectedDemand(rate: number, profile: number[], now: Date, hours: number): number {
+  let total = 0;
+  for (let h = 0; h < hours; h++) {
+    total += rate * profile[hourOfWeek(new Date(now.getTime() + h * HOUR_MS))];
+  }
+  return total;
+}
+
+/** Forecast every filled slot of a machine */
+export function forecastMachine(machine: VendingMachine, model: DemandModel, options: ForecastOptions): SlotForecast[] {
+  const { now, restockIntervalHours } = options;
+  const nextVisit = options.nextVisit(machine);
+
+  // A product's slots, in the order sales drain them
+  const byProduct = new Map<string, VendingMachine["planogram"]>();
+  for (const slot of machine.planogram) {
+    if (!slot.productId) continue;
+    byProduct.set(slot.productId, [...(byProduct.get(slot.productId) ?? []), slot]);
+  }
+
+  const forecasts: SlotForecast[] = [];
+  for (const [productId, slots] of byProduct) {
+    const rate = model.rates[`${machine.id}|${productId}`] ?? 0;
+
+    let cumulative = 0;
+    const thresholds = slots.map(slot => (cumulative += slot.stock));
+    // An empty slot is empty now, not when the slots before it are
+    const emptyAt = timesToReach(thresholds, rate, model.profile, now)
+      .map((time, i) => (slots[i].stock === 0 ? now : time));
+
+    const demand = expectedDemand(rate, model.profile, now, restockIntervalHours);
+    const productPar = coverDemand(demand);
+    const capacity = slots.reduce((sum, slot) => sum + slot.maxStock, 0);
+
+    slots.forEach((slot, i) => {
+      const parDemand = Math.max(1, Math.ceil(productPar * slot.maxStock / capacity));
+      forecasts.push({
+        machineId: machine.id,
+        row: slot.row,
+        col: slot.col,
+        productId,
+        stock: slot.stock,
+        maxStock: slot.maxStock,
+        ratePerHour: rate,
+        emptyAt: emptyAt[i],
+        parLevel: Math.min(parDemand, slot.maxStock),
+        parDemand,
+        nextVisit,
+      });
+    });
+  }
+  return forecasts.sort((a, b) => a.row - b.row || a.col - b.col);
+}
+
+/** "45m" / "14h" / "3d" until `time` */
+export function formatHoursUntil(time: Date, now: Date): string {
+  const minutes = Math.max(0, (time.getTime() - now.getTime()) / 60_000);
+  if (minutes < 60) return `${Math.floor(minutes)}m`;
+  const hours = minutes / 60;
+  return hours < 48 ? `${Math.floor(hours)}h` : `${Math.floor(hours / 24)}d`;
+}
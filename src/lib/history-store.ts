@@ -0,0 +1,733 @@
+/**
+ * ============================================================
+ * Vendral – Transaction & Event History Store
+ * ============================================================
+ *
+ * The simulation only keeps the newest 200 transactions and 300
+ * events in memory. This store keeps EVERYTHING, on local disk, as
+ * append-only JSON Lines (one JSON object per line). It needs no
+ * database server and works fully offline.
+ *
+ * LAYOUT (one folder per seed, so each fleet has its own history):
+ * ```
+ * .data/history/<seed>/
+ *   meta.json                     ← counters + virtual time to resume from
+ *   transactions/2026-10-19.jsonl ← one file per (local) virtual day
+ *   events/2026-10-19.jsonl
+ *   snapshots/2026-10-19.jsonl    ← full machine state, once per virtual hour
+ *   planograms.json               ← small documents (see saveDocument)
+ * ```
+ * Splitting by day means a "today" or "last hour" query only reads
+ * one file. The root folder can be moved with VENDRAL_DATA_DIR.
+ *
+ * WRITES are buffered and flushed by the simulation loop (every
+ * 250 ms), so 3600× speed doesn't turn into thousands of tiny writes.
+ *
+ * READS parse a day file once and keep it in a small cache. When a
+ * file has grown since, only the new bytes are read and parsed. A
+ * day's records are kept in time order, and each day has a tiny INDEX
+ * of how many records it holds per machine × category, so a page in
+ * time order walks the days in order, counts the days it doesn't
+ * reach from their index and only reads the ones it lands on. The
+ * transaction log and terminal log poll every few seconds – that
+ * keeps a poll to today's file instead of 31 days re-read and sorted.
+ *
+ * ROLLUPS: charts and KPIs over weeks of history don't need every
+ * record, just hourly sums. `rollupTransactions` condenses each day
+ * into per-hour × machine × location × category totals and caches
+ * them – a finished day is never re-read.
+ *
+ * SNAPSHOTS: transactions and events don't say what a machine's
+ * stock or hardware looked like. Hourly snapshots of the whole fleet
+ * answer "how did the fleet look last Tuesday 14:00" – the nearest
+ * snapshot at or before that time is the answer. Each is a copy of
+ * every machine, so only the last SNAPSHOT_DAYS days of them are kept
+ * (at 3600× a virtual day passes every 24 seconds).
+ *
+ * DOCUMENTS: state that is edited rather than appended (planogram
+ * versions, …) is stored as one JSON file per name and rewritten
+ * whole on every save.
+ *
+ * Server-only: uses `node:fs`.
+ * ============================================================
+ */
+
+import fs from "node:fs";
+import path from "node:path";
+import {
+  getProductById,
+  type Transaction,
+  type SystemEvent,
+  type VendingMachine,
+} from "./data";
+
+/** Root folder for all persisted data */
+const DATA_DIR = process.env.VENDRAL_DATA_DIR || path.join(process.cwd(), ".data");
+
+/** Folder holding one seed's history */
+function historyDir(seed: string): string {
+  return path.join(DATA_DIR, "history", seed.replace(/[^\w-]/g, "_"));
+}
+
+/** Parsed day files kept in memory per record kind */
+const MAX_CACHED_DAYS = 4;
+
+/** Largest page a single query may return */
+export const MAX_HISTORY_PAGE = 500;
+
+/** Days a query without `from` looks back */
+export const DEFAULT_QUERY_DAYS = 31;
+
+/** Days of fleet snapshots kept – older day files are deleted */
+export const SNAPSHOT_DAYS = 31;
+
+// ============================================================
+// TYPES
+// ============================================================
+
+/** Where a seed's history left off (used to resume the simulation) */
+export interface HistoryCursor {
+  txCounter: number;
+  evCounter: number;
+  /** Virtual time (ms) of the last flush */
+  time: number;
+}
+
+/**
+ * Filters + paging for a history query. Every field is optional.
+ * `category` is the product category for transactions
+ * ("beverage", "snack", …) and the event category for events
+ * ("hardware", "stock", …).
+ */
+export interface HistoryQuery {
+  machineId?: string;
+  category?: string;
+  /**
+   * Inclusive lower bound on timestamp. Without one, a query covers
+   * the DEFAULT_QUERY_DAYS days up to `to` (or up to the newest
+   * record) – history only grows, and every day is a file to read.
+   */
+  from?: Date;
+  /** Exclusive upper bound on timestamp */
+  to?: Date;
+  /** Case-insensitive match on id, machine, product / message, code */
+  search?: string;
+  /** Sort field (defaults to timestamp) */
+  sort?: HistorySortField;
+  /** Sort direction (defaults to newest / largest first) */
+  desc?: boolean;
+  offset?: number;
+  limit?: number;
+}
+
+/** Fields a history query can be sorted by */
+export const HISTORY_SORT_FIELDS = ["timestamp", "amount", "machineName", "productName"] as const;
+export type HistorySortField = (typeof HISTORY_SORT_FIELDS)[number];
+
+/** One page of results plus the total number of matches */
+export interface HistoryPage<T> {
+  items: T[];
+  total: number;
+  offset: number;
+  limit: number;
+}
+
+/**
+ * Transaction totals for one hour, machine and product category.
+ * `units` counts successful sales, `transactions` every payment
+ * attempt (including failed payments).
+ */
+export interface SalesRollup {
+  /** Start of the hour (ms, local time) */
+  hour: number;
+  machineId: string;
+  /** Where the machine stood (null for transactions without one) */
+  locationId: string | null;
+  category: string;
+  revenue: number;
+  units: number;
+  transactions: number;
+}
+
+/** The whole fleet's machine state at one moment */
+export interface FleetSnapshot {
+  timestamp: Date;
+  machines: VendingMachine[];
+}
+
+/** Persistent history for one seed */
+export interface HistoryStore {
+  /** Where this history left off, or null if it's empty */
+  cursor(): HistoryCursor | null;
+  appendTransaction(tx: Transaction): void;
+  appendEvent(ev: SystemEvent): void;
+  /** Store a snapshot (the caller must pass a copy, not live objects) */
+  appendSnapshot(snapshot: FleetSnapshot): void;
+  /** Write buffered records and remember the resume point */
+  flush(cursor: HistoryCursor): void;
+  /** Every match, ignoring offset/limit (for aggregations) */
+  findTransactions(query?: HistoryQuery): Transaction[];
+  findEvents(query?: HistoryQuery): SystemEvent[];
+  /** One page of matches */
+  queryTransactions(query?: HistoryQuery): HistoryPage<Transaction>;
+  queryEvents(query?: HistoryQuery): HistoryPage<SystemEvent>;
+  /** Hourly transaction totals for [from, to), exact at both ends */
+  rollupTransactions(from: Date, to: Date): SalesRollup[];
+  /**
+   * The newest snapshot taken at or before `at`, or null (also before
+   * the last SNAPSHOT_DAYS days, whose snapshots are gone)
+   */
+  findSnapshot(at: Date): FleetSnapshot | null;
+  /** Read a named JSON document (dates revived), or null if missing */
+  loadDocument<T>(name: string): T | null;
+  /** Replace a named JSON document */
+  saveDocument(name: string, value: unknown): void;
+}
+
+type RecordKind = "transactions" | "events" | "snapshots";
+type HistoryRecord = Transaction | SystemEvent | FleetSnapshot;
+
+interface CachedDay<T> {
+  /** Bytes of the file already parsed */
+  size: number;
+  /** In time order */
+  records: T[];
+}
+
+/** How many records of one day file each machine × category has */
+interface DayIndex {
+  /** Bytes of the file counted */
+  size: number;
+  counts: { machineId: string; category: string; count: number }[];
+}
+
+// ============================================================
+// STORE FACTORY
+// ============================================================
+
+/**
+ * Open (or create) the history folder for `seed`.
+ *
+ * USAGE:
+ * ```ts
+ * const history = createHistoryStore("demo");
+ * history.appendTransaction(tx);
+ * history.flush({ txCounter, evCounter, time });
+ * history.queryTransactions({ machineId: "VM-003", limit: 50 });
+ * history.findTransactions({ from: startOfToday }); // all of today
+ * ```
+ */
+export function createHistoryStore(seed: string): HistoryStore {
+  const dir = historyDir(seed);
+  const metaPath = path.join(dir, "meta.json");
+
+  let pendingTx: Transaction[] = [];
+  let pendingEv: SystemEvent[] = [];
+  let pendingSnapshots: FleetSnapshot[] = [];
+  let writable = true;
+
+  const caches: Record<RecordKind, Map<string, CachedDay<unknown>>> = {
+    transactions: new Map(),
+    events: new Map(),
+    snapshots: new Map(),
+  };
+  /** Hourly rollups per day file, tagged with the file size they cover */
+  const rollups = new Map<string, { size: number; buckets: SalesRollup[] }>();
+  /** Per-day indexes – small, so kept for every day read */
+  const indexes: Record<"transactions" | "events", Map<string, DayIndex>> = {
+    transactions: new Map(),
+    events: new Map(),
+  };
+  /** Day the old snapshots were last pruned for */
+  let prunedFor = "";
+
+  /** Append buffered records to their day files */
+  function writePending(): void {
+    if (!writable) return;
+    if (pendingTx.length + pendingEv.length + pendingSnapshots.length === 0) return;
+    try {
+      appendRecords(dir, "transactions", pendingTx);
+      appendRecords(dir, "events", pendingEv);
+      appendRecords(dir, "snapshots", pendingSnapshots);
+    } catch (err) {
+      // e.g. a read-only filesystem – keep simulating without history
+      writable = false;
+      console.error(`[history] Writing to ${dir} failed; history disabled`, err);
+    }
+    if (writable && pendingSnapshots.length > 0) {
+      pruneSnapshots(pendingSnapshots[pendingSnapshots.length - 1].timestamp);
+    }
+    pendingTx = [];
+    pendingEv = [];
+    pendingSnapshots = [];
+  }
+
+  /** Delete snapshot day files that fell out of the last SNAPSHOT_DAYS days */
+  function pruneSnapshots(newest: Date): void {
+    if (dayKey(newest) === prunedFor) return;
+    prunedFor = dayKey(newest);
+    const oldest = firstDay(newest, SNAPSHOT_DAYS);
+    for (const day of listDays(dir, "snapshots").filter(d => d < oldest)) {
+      try {
+        fs.rmSync(path.join(dir, "snapshots", `${day}.jsonl`), { force: true });
+        caches.snapshots.delete(day);
+      } catch (err) {
+        console.error(`[history] Deleting the ${day} snapshots failed`, err);
+      }
+    }
+  }
+
+  /** Read one day file, parsing only what was appended since last time */
+  function readDay<T extends HistoryRecord>(kind: RecordKind, day: string): T[] {
+    const file = path.join(dir, kind, `${day}.jsonl`);
+    const cache = caches[kind] as Map<string, CachedDay<T>>;
+    const size = fs.statSync(file).size;
+
+    let cached = cache.get(day);
+    if (!cached || size < cached.size) cached = { size: 0, records: [] };
+    if (size > cached.size) {
+      const fd = fs.openSync(file, "r");
+      const records = cached.records;
+      const parsed = records.length;
+      try {
+        const buffer = Buffer.alloc(size - cached.size);
+        fs.readSync(fd, buffer, 0, buffer.length, cached.size);
+        for (const line of buffer.toString("utf8").split("\n")) {
+          if (line) records.push(JSON.parse(line, reviveDates) as T);
+        }
+      } finally {
+        fs.closeSync(fd);
+      }
+      cached.size = size;
+      // Appended in time order as a rule – sort only if a record wasn't
+      const time = (i: number) => records[i].timestamp.getTime();
+      for (let i = Math.max(1, parsed); i < records.length; i++) {
+        if (time(i) < time(i - 1)) {
+          records.sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime());
+          break;
+        }
+      }
+    }
+
+    // Re-insert so the Map's insertion order doubles as an LRU list
+    cache.delete(day);
+    cache.set(day, cached);
+    if (cache.size > MAX_CACHED_DAYS) {
+      cache.delete(cache.keys().next().value as string);
+    }
+    return cached.records;
+  }
+
+  /** The day files overlapping the query, in the query's time order */
+  function daysInRange(kind: RecordKind, q: HistoryQuery): string[] {
+    const days = listDays(dir, kind);
+    const fromDay = q.from ? dayKey(q.from) : firstDay(q.to ?? days[0], DEFAULT_QUERY_DAYS);
+    const toDay = q.to ? dayKey(q.to) : "9999-12-31";
+    const inRange = days.filter(day => day >= fromDay && day <= toDay);
+    return q.desc === false ? inRange.reverse() : inRange;
+  }
+
+  /** One day's matches within [from, to), in the query's time order */
+  function matchesOfDay<T extends Transaction | SystemEvent>(
+    kind: RecordKind,
+    day: string,
+    q: HistoryQuery,
+    matches: (record: T) => boolean
+  ): T[] {
+    const from = q.from?.getTime() ?? -Infinity;
+    const to = q.to?.getTime() ?? Infinity;
+    const found = readDay<T>(kind, day).filter(record => {
+      const time = record.timestamp.getTime();
+      return time >= from && time < to && matches(record);
+    });
+    return q.desc === false ? found : found.reverse();
+  }
+
+  /**
+   * Every match, sorted. Days are already in time order, so sorting
+   * by time is just walking them; other fields need a real sort.
+   */
+  function collect<T extends Transaction | SystemEvent>(
+    kind: RecordKind,
+    q: HistoryQuery,
+    matches: (record: T) => boolean
+  ): T[] {
+    writePending();
+    const found = daysInRange(kind, q).flatMap(day => matchesOfDay(kind, day, q, matches));
+    const sortBy = q.sort ?? "timestamp";
+    if (sortBy === "timestamp") return found;
+    const direction = q.desc === false ? 1 : -1;
+    return found.sort((a, b) => direction * compareField(a, b, sortBy));
+  }
+
+  /** The day's index (recounted only if the file grew) */
+  function dayIndex(kind: "transactions" | "events", day: string): DayIndex {
+    const size = fs.statSync(path.join(dir, kind, `${day}.jsonl`)).size;
+    const cached = indexes[kind].get(day);
+    if (cached && cached.size === size) return cached;
+
+    const counts = new Map<string, DayIndex["counts"][number]>();
+    for (const record of readDay<Transaction | SystemEvent>(kind, day)) {
+      const category = kind === "transactions"
+        ? getProductById((record as Transaction).productId)?.category ?? ""
+        : (record as SystemEvent).category;
+      const key = `${record.machineId}|${category}`;
+      const entry = counts.get(key) ?? { machineId: record.machineId, category, count: 0 };
+      entry.count += 1;
+      counts.set(key, entry);
+    }
+    const index = { size, counts: [...counts.values()] };
+    indexes[kind].set(day, index);
+    return index;
+  }
+
+  /**
+   * One page of matches. In time order (the default) the days are
+   * walked in order: a day the page doesn't reach only adds its count
+   * to the total – from its index when the query covers the whole day
+   * and has no search text – and the days it lands on are read.
+   */
+  function queryPage<T extends Transaction | SystemEvent>(
+    kind: "transactions" | "events",
+    q: HistoryQuery,
+    matches: (record: T) => boolean
+  ): HistoryPage<T> {
+    const offset = Math.max(0, q.offset ?? 0);
+    const limit = Math.min(MAX_HISTORY_PAGE, Math.max(1, q.limit ?? 50));
+    if ((q.sort ?? "timestamp") !== "timestamp") {
+      const found = collect(kind, q, matches);
+      return { items: found.slice(offset, offset + limit), total: found.length, offset, limit };
+    }
+
+    writePending();
+    const items: T[] = [];
+    let total = 0;
+    for (const day of daysInRange(kind, q)) {
+      const [start, end] = dayBounds(day);
+      const whole = !q.search && (!q.from || q.from.getTime() <= start) && (!q.to || q.to.getTime() >= end);
+      if (whole) {
+        const count = dayIndex(kind, day).counts
+          .filter(c => (!q.machineId || c.machineId === q.machineId) && (!q.category || c.category === q.category))
+          .reduce((sum, c) => sum + c.count, 0);
+        if (items.length === limit || total + count <= offset) {
+          total += count;
+          continue;
+        }
+      }
+      const found = matchesOfDay(kind, day, q, matches);
+      if (items.length < limit) {
+        items.push(...found.slice(Math.max(0, offset - total), offset + limit - total));
+      }
+      total += found.length;
+    }
+    return { items, total, offset, limit };
+  }
+
+  /** Hourly rollup of one whole day file (recomputed only if it grew) */
+  function dayRollup(day: string): SalesRollup[] {
+    const size = fs.statSync(path.join(dir, "transactions", `${day}.jsonl`)).size;
+    const cached = rollups.get(day);
+    if (cached && cached.size === size) return cached.buckets;
+
+    const buckets = sumByHour(readDay<Transaction>("transactions", day));
+    rollups.set(day, { size, buckets });
+    return buckets;
+  }
+
+  /**
+   * Hours that lie completely inside [from, to) come from the cached
+   * day rollups; the (at most two) hours cut by `from` or `to` are
+   * summed from the raw records so the totals are exact.
+   */
+  function rollupTransactions(from: Date, to: Date): SalesRollup[] {
+    writePending();
+    const fromMs = from.getTime();
+    const toMs = to.getTime();
+    if (toMs <= fromMs) return [];
+
+    // Hours only partly inside the range (none if both ends are on the hour)
+    const edgeHours = new Set<number>();
+    if (startOfHour(fromMs) !== fromMs) edgeHours.add(startOfHour(fromMs));
+    if (startOfHour(toMs) !== toMs) edgeHours.add(startOfHour(toMs));
+    const edgeDays = new Set([...edgeHours].map(h => dayKey(new Date(h))));
+    const result: SalesRollup[] = [];
+
+    for (const day of listDays(dir, "transactions")) {
+      if (day < dayKey(from) || day > dayKey(to)) continue;
+
+      for (const bucket of dayRollup(day)) {
+        if (bucket.hour >= fromMs && bucket.hour + HOUR_MS <= toMs && !edgeHours.has(bucket.hour)) {
+          result.push(bucket);
+        }
+      }
+
+      if (!edgeDays.has(day)) continue;
+      const edge = readDay<Transaction>("transactions", day).filter(tx => {
+        const time = tx.timestamp.getTime();
+        return time >= fromMs && time < toMs && edgeHours.has(startOfHour(time));
+      });
+      result.push(...sumByHour(edge));
+    }
+    return result;
+  }
+
+  /** Walk back from the day of `at` to the newest earlier snapshot */
+  function findSnapshot(at: Date): FleetSnapshot | null {
+    writePending();
+    const time = at.getTime();
+    for (const day of listDays(dir, "snapshots")) {
+      if (day > dayKey(at)) continue;
+      const snapshots = readDay<FleetSnapshot>("snapshots", day);
+      // Appended in time order, so scan from the end
+      for (let i = snapshots.length - 1; i >= 0; i--) {
+        if (snapshots[i].timestamp.getTime() <= time) return snapshots[i];
+      }
+    }
+    return null;
+  }
+
+  /** Filter predicate for transactions (category = product category) */
+  function matchTransaction(q: HistoryQuery): (tx: Transaction) => boolean {
+    const search = q.search?.toLowerCase();
+    return (tx) =>
+      (!q.machineId || tx.machineId === q.machineId) &&
+      (!q.category || getProductById(tx.productId)?.category === q.category) &&
+      (!search || [tx.id, tx.machineName, tx.productName]
+        .some(text => text.toLowerCase().includes(search)));
+  }
+
+  /** Filter predicate for events (category = event category) */
+  function matchEvent(q: HistoryQuery): (ev: SystemEvent) => boolean {
+    const search = q.search?.toLowerCase();
+    return (ev) =>
+      (!q.machineId || ev.machineId === q.machineId) &&
+      (!q.category || ev.category === q.category) &&
+      (!search || [ev.id, ev.machineName, ev.message, ev.code]
+        .some(text => text.toLowerCase().includes(search)));
+  }
+
+  return {
+    cursor: () => {
+      try {
+        return JSON.parse(fs.readFileSync(metaPath, "utf8")) as HistoryCursor;
+      } catch {
+        return null;
+      }
+    },
+    appendTransaction: (tx) => {
+      pendingTx.push(tx);
+    },
+    appendEvent: (ev) => {
+      pendingEv.push(ev);
+    },
+    appendSnapshot: (snapshot) => {
+      pendingSnapshots.push(snapshot);
+    },
+    flush: (cursor) => {
+      writePending();
+      if (!writable) return;
+      try {
+        fs.writeFileSync(metaPath, JSON.stringify(cursor));
+      } catch {
+        // Resume info is best-effort
+      }
+    },
+    findTransactions: (q = {}) => collect("transactions", q, matchTransaction(q)),
+    findEvents: (q = {}) => collect("events", q, matchEvent(q)),
+    queryTransactions: (q = {}) => queryPage("transactions", q, matchTransaction(q)),
+    queryEvents: (q = {}) => queryPage("events", q, matchEvent(q)),
+    rollupTransactions,
+    findSnapshot,
+    loadDocument: <T>(name: string) => {
+      try {
+        return JSON.parse(fs.readFileSync(path.join(dir, `${name}.json`), "utf8"), reviveDates) as T;
+      } catch {
+        return null;
+      }
+    },
+    saveDocument: (name, value) => {
+      if (!writable) return;
+      const file = path.join(dir, `${name}.json`);
+      try {
+        fs.mkdirSync(dir, { recursive: true });
+        // Write then rename, so a crash never leaves half a document
+        fs.writeFileSync(`${file}.tmp`, JSON.stringify(value));
+        fs.renameSync(`${file}.tmp`, file);
+      } catch (err) {
+        console.error(`[history] Saving ${file} failed`, err);
+      }
+    },
+  };
+}
+
+/**
+ * Delete everything stored for `seed`, so the next store opened for
+ * it starts empty (see `resetSimulation({ replay: true })`).
+ */
+export function discardHistory(seed: string): void {
+  fs.rmSync(historyDir(seed), { recursive: true, force: true });
+}
+
+// ============================================================
+// QUERY PARAMETERS
+// ============================================================
+
+/**
+ * Read a HistoryQuery from URL search params:
+ * `?machineId=VM-003&category=stock&from=<ISO>&to=<ISO>&search=cola`
+ * `&sort=amount&desc=false&offset=50&limit=50`
+ *
+ * Returns an error message instead when a parameter is invalid.
+ */
+export function parseHistoryQuery(params: URLSearchParams): HistoryQuery | { error: string } {
+  const q: HistoryQuery = {};
+
+  const machineId = params.get("machineId");
+  if (machineId) q.machineId = machineId;
+  const category = params.get("category");
+  if (category) q.category = category;
+  const search = params.get("search");
+  if (search) q.search = search;
+
+  for (const key of ["from", "to"] as const) {
+    const raw = params.get(key);
+    if (!raw) continue;
+    const date = new Date(raw);
+    if (Number.isNaN(date.getTime())) return { error: `${key} must be an ISO date` };
+    q[key] = date;
+  }
+
+  const sort = params.get("sort");
+  if (sort) {
+    if (!HISTORY_SORT_FIELDS.includes(sort as HistorySortField)) {
+      return { error: `sort must be one of ${HISTORY_SORT_FIELDS.join(", ")}` };
+    }
+    q.sort = sort as HistorySortField;
+  }
+  if (params.has("desc")) q.desc = params.get("desc") !== "false";
+
+  for (const key of ["offset", "limit"] as const) {
+    const raw = params.get(key);
+    if (raw === null) continue;
+    const n = Number(raw);
+    if (!Number.isInteger(n) || n < 0) return { error: `${key} must be a non-negative integer` };
+    q[key] = n;
+  }
+  return q;
+}
+
+// ============================================================
+// HELPERS
+// ============================================================
+
+/**
+ * First of the `days` days up to `end` (a time, or a day key; ""
+ * when there is no history) – where a query without `from` starts
+ */
+function firstDay(end: Date | string | undefined, days: number): string {
+  if (!end) return "";
+  const day = typeof end === "string" ? new Date(`${end}T00:00:00`) : new Date(end);
+  day.setDate(day.getDate() - (days - 1));
+  return dayKey(day);
+}
+
+/** Start and end (ms, local midnights) of a day key */
+function dayBounds(day: string): [number, number] {
+  const start = new Date(`${day}T00:00:00`);
+  const end = new Date(start);
+  end.setDate(end.getDate() + 1);
+  return [start.getTime(), end.getTime()];
+}
+
+/** Local calendar day of a timestamp, e.g. "2026-10-19" (sorts as text) */
+function dayKey(date: Date): string {
+  const y = date.getFullYear();
+  const m = String(date.getMonth() + 1).padStart(2, "0");
+  const d = String(date.getDate()).padStart(2, "0");
+  return `${y}-${m}-${d}`;
+}
+
+const HOUR_MS = 3_600_000;
+
+/** Start of the local hour containing `time` (ms) */
+function startOfHour(time: number): number {
+  const date = new Date(time);
+  date.setMinutes(0, 0, 0);
+  return date.getTime();
+}
+
+/** Sum transactions into hour × machine × location × category buckets */
+function sumByHour(transactions: Transaction[]): SalesRollup[] {
+  const buckets = new Map<string, SalesRollup>();
+  for (const tx of transactions) {
+    const hour = startOfHour(tx.timestamp.getTime());
+    const category = getProductById(tx.productId)?.category ?? "unknown";
+    const locationId = tx.locationId ?? null;
+    const key = `${hour}|${tx.machineId}|${locationId}|${category}`;
+
+    let bucket = buckets.get(key);
+    if (!bucket) {
+      bucket = { hour, machineId: tx.machineId, locationId, category, revenue: 0, units: 0, transactions: 0 };
+      buckets.set(key, bucket);
+    }
+    bucket.transactions += 1;
+    if (tx.success) {
+      bucket.revenue += tx.amount;
+      bucket.units += 1;
+    }
+  }
+  return [...buckets.values()];
+}
+
+/** All days that have a file of this kind, newest first */
+function listDays(dir: string, kind: RecordKind): string[] {
+  try {
+    return fs.readdirSync(path.join(dir, kind))
+      .filter(name => name.endsWith(".jsonl"))
+      .map(name => name.slice(0, -".jsonl".length))
+      .sort()
+      .reverse();
+  } catch {
+    return []; // Nothing written yet
+  }
+}
+
+/** Group records by day and append each group to its file */
+function appendRecords(dir: string, kind: RecordKind, records: HistoryRecord[]): void {
+  if (records.length === 0) return;
+
+  const byDay = new Map<string, string[]>();
+  for (const record of records) {
+    const day = dayKey(record.timestamp);
+    const lines = byDay.get(day) ?? [];
+    lines.push(JSON.stringify(record));
+    byDay.set(day, lines);
+  }
+
+  fs.mkdirSync(path.join(dir, kind), { recursive: true });
+  for (const [day, lines] of byDay) {
+    fs.appendFileSync(path.join(dir, kind, `${day}.jsonl`), lines.join("\n") + "\n");
+  }
+}
+
+/** Matches the exact format produced by Date.prototype.toJSON() */
+const ISO_DATE = /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}(\.\d+)?Z$/;
+
+/** JSON.parse reviver that turns ISO date strings back into Dates */
+function reviveDates(_key: string, value: unknown): unknown {
+  return typeof value === "string" && ISO_DATE.test(value) ? new Date(value) : value;
+}
+
+/** Compare two records on a sort field (missing fields sort as equal) */
+function compareField(
+  a: Transaction | SystemEvent,
+  b: Transaction | SystemEvent,
+  field: HistorySortField
+): number {
+  if (field === "timestamp") return a.timestamp.getTime() - b.timestamp.getTime();
+  const x = (a as unknown as Record<string, unknown>)[field];
+  const y = (b as unknown as Record<string, unknown>)[field];
+  if (typeof x === "number" && typeof y === "number") return x - y;
+  if (typeof x === "string" && typeof y === "string") return x.localeCompare(y);
+  return 0;
+}
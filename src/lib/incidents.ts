@@ -0,0 +1,208 @@
+/**
+ * ============================================================
+ * Vendral – Incidents (Alert Lifecycle)
+ * ============================================================
+ *
+ * A fired alert (see `src/lib/alert-rules.ts`) is a single moment;
+ * an INCIDENT is the problem behind it, tracked until someone has
+ * dealt with it. Alerts on a machine join that machine's unresolved
+ * incident instead of each becoming a separate item:
+ *
+ *   open ──acknowledge──▶ acknowledged ──resolve──▶ resolved
+ *     └──────────────────resolve──────────────────────┘
+ *
+ *   - The first alert on a machine without an unresolved incident
+ *     opens one; later alerts are added to it and raise its severity
+ *   - Anyone can take it (assignee) and leave notes
+ *   - Snoozing hides it from the inbox until the snooze ends; an
+ *     alert more severe than the incident ends the snooze early
+ *   - An alert after the incident was resolved opens a new one
+ *
+ * TIME-TO-ACKNOWLEDGE (TTA) and TIME-TO-RESOLVE (TTR) are measured
+ * from when the incident opened. Resolving without acknowledging
+ * acknowledges at the same moment.
+ *
+ * Types, metrics and request parsing – no server imports, safe to
+ * bundle for the browser.
+ * ============================================================
+ */
+
+import type { AlertSeverity } from "./alert-rules";
+
+// ============================================================
+// TYPE DEFINITIONS
+// ============================================================
+
+export type IncidentStatus = "open" | "acknowledged" | "resolved";
+
+/** A note someone left on an incident (status changes add one too) */
+export interface IncidentNote {
+  author: string;
+  text: string;
+  at: Date;
+}
+
+export interface Incident {
+  id: string;
+  machineId: string;
+  machineName: string;
+  locationId: string;
+  status: IncidentStatus;
+  /** The most severe alert so far */
+  severity: AlertSeverity;
+  /** The first alert's rule and message */
+  title: string;
+  /** Alerts grouped into the incident, oldest first (the newest 50) */
+  alertIds: string[];
+  alertCount: number;
+  openedAt: Date;
+  lastAlertAt: Date;
+  acknowledgedAt: Date | null;
+  resolvedAt: Date | null;
+  assignee: string | null;
+  /** Hidden from the inbox until then (null = not snoozed) */
+  snoozedUntil: Date | null;
+  notes: IncidentNote[];
+}
+
+/** A change to an incident, as sent by the inbox */
+export interface IncidentUpdate {
+  /** Who makes the change (recorded with status changes and notes) */
+  author: string;
+  status?: "acknowledged" | "resolved";
+  /** null unassigns */
+  assignee?: string | null;
+  /** Minutes of virtual time to snooze for (0 ends a snooze) */
+  snoozeMinutes?: number;
+  note?: string;
+}
+
+/** Averages shown on the Critical Alerts tile */
+export interface IncidentMetrics {
+  /** Unresolved and not snoozed */
+  open: number;
+  snoozed: number;
+  /** Mean time-to-acknowledge / -resolve in minutes (null = none yet) */
+  ttaMinutes: number | null;
+  ttrMinutes: number | null;
+}
+
+// ============================================================
+// CONSTANTS
+// ============================================================
+
+/** How far back TTA / TTR averages look */
+export const INCIDENT_METRICS_HOURS = 24;
+
+/** Snooze choices offered by the inbox, in minutes */
+export const SNOOZE_OPTIONS = [15, 60, 4 * 60, 24 * 60];
+
+export const SEVERITY_RANK: Record<AlertSeverity, number> = { info: 0, warning: 1, critical: 2 };
+
+/** Alert ids kept per incident */
+export const MAX_INCIDENT_ALERT_IDS = 50;
+
+const MAX_NAME_LENGTH = 60;
+const MAX_NOTE_LENGTH = 500;
+const MAX_SNOOZE_MINUTES = 7 * 24 * 60;
+
+// ============================================================
+// HELPERS
+// ============================================================
+
+/** Whether the incident is snoozed at `now` */
+export function isSnoozed(incident: Incident, now: Date): boolean {
+  return incident.status !== "resolved" && incident.snoozedUntil !== null && incident.snoozedUntil > now;
+}
+
+/**
+ * Open/snoozed counts as of `now`, and mean TTA / TTR of incidents
+ * opened in the INCIDENT_METRICS_HOURS before it. Works for a past
+ * `now` too (historical mode): later acknowledgements don't count.
+ */
+export function incidentMetrics(incidents: Incident[], now: Date): IncidentMetrics {
+  const since = now.getTime() - INCIDENT_METRICS_HOURS * 3_600_000;
+  let open = 0;
+  let snoozed = 0;
+  const tta: number[] = [];
+  const ttr: number[] = [];
+
+  for (const incident of incidents) {
+    if (incident.openedAt > now) continue;
+    const resolved = incident.resolvedAt !== null && incident.resolvedAt <= now;
+    if (!resolved) {
+      if (isSnoozed(incident, now)) snoozed++;
+      else open++;
+    }
+    if (incident.openedAt.getTime() < since) continue;
+    if (incident.acknowledgedAt && incident.acknowledgedAt <= now) {
+      tta.push(incident.acknowledgedAt.getTime() - incident.openedAt.getTime());
+    }
+    if (resolved) ttr.push(incident.resolvedAt!.getTime() - incident.openedAt.getTime());
+  }
+
+  const meanMinutes = (ms: number[]) =>
+    ms.length > 0 ? ms.reduce((a, b) => a + b, 0) / ms.length / 60_000 : null;
+  return { open, snoozed, ttaMinutes: meanMinutes(tta), ttrMinutes: meanMinutes(ttr) };
+}
+
+/** "12m" / "3h 20m" / "2d 4h" */
+export function formatMinutes(minutes: number): string {
+  if (minutes < 60) return `${Math.round(minutes)}m`;
+  if (minutes < 24 * 60) {
+    const h = Math.floor(minutes / 60);
+    const m = Math.round(minutes % 60);
+    return m > 0 ? `${h}h ${m}m` : `${h}h`;
+  }
+  const d = Math.floor(minutes / (24 * 60));
+  const h = Math.round((minutes % (24 * 60)) / 60);
+  return h > 0 ? `${d}d ${h}h` : `${d}d`;
+}
+
+// ============================================================
+// REQUEST PARSING
+// ============================================================
+
+/**
+ * Read an incident PATCH body `{ author, status?, assignee?,
+ * snoozeMinutes?, note? }`. Returns an error message instead when
+ * something is invalid.
+ */
+export function parseIncidentUpdate(body: unknown): IncidentUpdate | { error: string } {
+  const b = (body ?? {}) as Record<string, unknown>;
+
+  if (typeof b.author !== "string" || !b.author.trim() || b.author.length > MAX_NAME_LENGTH) {
+    return { error: `author must be 1–${MAX_NAME_LENGTH} characters` };
+  }
+  const update: IncidentUpdate = { author: b.author.trim() };
+
+  if (b.status !== undefined) {
+    if (b.status !== "acknowledged" && b.status !== "resolved") {
+      return { error: "status must be acknowledged or resolved" };
+    }
+    update.status = b.status;
+  }
+  if (b.assignee !== undefined) {
+    if (b.assignee !== null && (typeof b.assignee !== "string" || !b.assignee.trim() || b.assignee.length > MAX_NAME_LENGTH)) {
+      return { error: `assignee must be null or 1–${MAX_NAME_LENGTH} characters` };
+    }
+    update.assignee = b.assignee === null ? null : (b.assignee as string).trim();
+  }
+  if (b.snoozeMinutes !== undefined) {
+    const minutes = b.snoozeMinutes;
+    if (!Number.isInteger(minutes) || (minutes as number) < 0 || (minutes as number) > MAX_SNOOZE_MINUTES) {
+      return { error: `snoozeMinutes must be 0–${MAX_SNOOZE_MINUTES}` };
+    }
+    update.snoozeMinutes = minutes as number;
+  }
+  if (b.note !== undefined) {
+    if (typeof b.note !== "string" || !b.note.trim() || b.note.length > MAX_NOTE_LENGTH) {
+      return { error: `note must be 1–${MAX_NOTE_LENGTH} characters` };
+    }
+    update.note = b.note.trim();
+  }
+  if (Object.keys(update).length === 1) {
+    return { error: "Nothing to change – send status, assignee, snoozeMinutes or note" };
+  }
+  return update;
+}
@@ -0,0 +1,318 @@
+/**
+ * ============================================================
+ * Vendral – Site Details & Opening Hours
+ * ============================================================
+ *
+ * Besides its position, every location carries what an operator
+ * needs to know about the site (see `Location` in `data.ts`):
+ *
+ *   site type      airport / mall / university / office / other
+ *   time zone      the opening hours are local to it
+ *   opening hours  per weekday, "HH:MM"–"HH:MM", or closed all day
+ *   host           who to call at the site
+ *   terms          monthly rent plus a commission on sales
+ *
+ * Opening hours matter to the simulation and to alerting:
+ *   - a machine only sells while its site is open (nobody walks
+ *     through a closed mall)
+ *   - "no-sales" alert rules are silent while the site is closed,
+ *     and count only open time since the last sale – a mall that
+ *     closed at 19:00 isn't "quiet for 15 h" at 10:00 the next day
+ *
+ * Helpers and request parsing – no server imports, safe to bundle
+ * for the browser.
+ * ============================================================
+ */
+
+import type { DayHours, Location, SiteType } from "./data";
+
+// ============================================================
+// TYPE DEFINITIONS
+// ============================================================
+
+/** Everything about a location but its id, name and position */
+export type SiteDetails = Pick<Location, "siteType" | "timezone" | "openingHours" | "host" | "terms">;
+
+// ============================================================
+// CONSTANTS
+// ============================================================
+
+export const DEFAULT_TIMEZONE = "Atlantic/Reykjavik";
+
+/** Weekday labels, Monday first (the order of `openingHours`) */
+export const WEEKDAYS = ["Mon", "Tue", "Wed", "Thu", "Fri", "Sat", "Sun"];
+
+const everyDay = (open: string, close: string): DayHours[] => WEEKDAYS.map(() => ({ open, close }));
+const weekdays = (open: string, close: string): (DayHours | null)[] =>
+  WEEKDAYS.map((_, i) => (i < 5 ? { open, close } : null));
+
+/** Site types with the hours a new location of that type starts with */
+export const SITE_TYPES: { id: SiteType; label: string; defaultHours: (DayHours | null)[] }[] = [
+  { id: "airport", label: "Airport", defaultHours: everyDay("00:00", "24:00") },
+  { id: "mall", label: "Shopping mall", defaultHours: everyDay("10:00", "19:00") },
+  { id: "university", label: "University", defaultHours: weekdays("07:30", "22:00") },
+  { id: "office", label: "Office", defaultHours: weekdays("08:00", "18:00") },
+  { id: "other", label: "Other", defaultHours: everyDay("00:00", "24:00") },
+];
+
+const MINUTE_MS = 60_000;
+const DAY_MS = 24 * 60 * MINUTE_MS;
+
+/** Open time is counted this far back at most */
+const MAX_DAYS_COUNTED = 366;
+
+const OPEN_PATTERN = /^([01]\d|2[0-3]):[0-5]\d$/;
+const CLOSE_PATTERN = /^(([01]\d|2[0-3]):[0-5]\d|24:00)$/;
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+$/;
+const MAX_NAME_LENGTH = 60;
+const MAX_EMAIL_LENGTH = 100;
+const MAX_PHONE_LENGTH = 30;
+const MAX_MONTHLY_RENT = 10_000_000;
+
+// ============================================================
+// OPENING HOURS
+// ============================================================
+
+/** "18:30" → 1110 */
+export function toMinutes(time: string): number {
+  const [hours, minutes] = time.split(":").map(Number);
+  return hours * 60 + minutes;
+}
+
+/** One formatter per time zone – creating them is the slow part */
+const wallClockFormats = new Map<string, Intl.DateTimeFormat>();
+
+/**
+ * UTC offsets (ms) per time zone, by quarter hour. Formatting a date
+ * is slow and the simulation asks about the same few moments over
+ * and over; offsets only change on a quarter hour (DST), so one
+ * lookup covers the whole quarter.
+ */
+const offsetCache = new Map<string, Map<number, number>>();
+const OFFSET_BUCKET_MS = 15 * MINUTE_MS;
+const MAX_CACHED_OFFSETS = 2000;
+
+/** The offset of `timezone` from UTC at `time`, the slow way */
+function utcOffset(time: number, timezone: string): number {
+  let format = wallClockFormats.get(timezone);
+  if (!format) {
+    format = new Intl.DateTimeFormat("en-US", {
+      timeZone: timezone,
+      year: "numeric",
+      month: "numeric",
+      day: "numeric",
+      hour: "numeric",
+      minute: "numeric",
+      second: "numeric",
+      hourCycle: "h23",
+    });
+    wallClockFormats.set(timezone, format);
+  }
+  const part = Object.fromEntries(format.formatToParts(time).map(p => [p.type, Number(p.value)]));
+  const wall = Date.UTC(part.year, part.month - 1, part.day, part.hour, part.minute, part.second);
+  return wall - Math.floor(time / 1000) * 1000;
+}
+
+/**
+ * `time` as it reads on the wall clocks of `timezone`, expressed as
+ * if those were UTC – so days and weekdays can be taken with the
+ * getUTC… methods
+ */
+function wallClock(time: Date, timezone: string): number {
+  let offsets = offsetCache.get(timezone);
+  if (!offsets || offsets.size > MAX_CACHED_OFFSETS) {
+    offsets = new Map();
+    offsetCache.set(timezone, offsets);
+  }
+  const bucket = Math.floor(time.getTime() / OFFSET_BUCKET_MS);
+  let offset = offsets.get(bucket);
+  if (offset === undefined) {
+    offset = utcOffset(bucket * OFFSET_BUCKET_MS, timezone);
+    offsets.set(bucket, offset);
+  }
+  return time.getTime() + offset;
+}
+
+/** Monday = 0 of a wall-clock time from `wallClock` */
+const weekdayOf = (wall: number) => (new Date(wall).getUTCDay() + 6) % 7;
+
+export function isValidTimezone(timezone: string): boolean {
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone: timezone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/** Open around the clock, every day */
+export function isAlwaysOpen(location: Location): boolean {
+  return location.openingHours.every(h => h !== null && h.open === "00:00" && h.close === "24:00");
+}
+
+/** Whether the site is open at `time` */
+export function isLocationOpen(location: Location, time: Date): boolean {
+  const wall = wallClock(time, location.timezone);
+  const hours = location.openingHours[weekdayOf(wall)];
+  if (!hours) return false;
+  const minutes = (wall % DAY_MS) / MINUTE_MS;
+  return minutes >= toMinutes(hours.open) && minutes < toMinutes(hours.close);
+}
+
+/**
+ * Minutes the site was open between `from` and `to`, one whole day
+ * per step (at most MAX_DAYS_COUNTED of them)
+ */
+export function openMinutesBetween(location: Location, from: Date, to: Date): number {
+  const start = wallClock(from, location.timezone);
+  const end = wallClock(to, location.timezone);
+  let total = 0;
+
+  const firstDay = Math.max(Math.floor(start / DAY_MS) * DAY_MS, end - MAX_DAYS_COUNTED * DAY_MS);
+  for (let day = firstDay; day < end; day += DAY_MS) {
+    const hours = location.openingHours[weekdayOf(day)];
+    if (!hours) continue;
+    const open = day + toMinutes(hours.open) * MINUTE_MS;
+    const close = day + toMinutes(hours.close) * MINUTE_MS;
+    total += Math.max(0, Math.min(close, end) - Math.max(open, start));
+  }
+  return total / MINUTE_MS;
+}
+
+/** "Open until 19:00" / "Closed · opens tomorrow 10:00" / "Open 24/7" */
+export function describeOpening(location: Location, time: Date): string {
+  if (isAlwaysOpen(location)) return "Open 24/7";
+  const wall = wallClock(time, location.timezone);
+  const weekday = weekdayOf(wall);
+  const minutes = (wall % DAY_MS) / MINUTE_MS;
+
+  const today = location.openingHours[weekday];
+  if (today && minutes >= toMinutes(today.open) && minutes < toMinutes(today.close)) {
+    return `Open until ${today.close}`;
+  }
+  for (let i = 0; i <= 7; i++) {
+    const hours = location.openingHours[(weekday + i) % 7];
+    if (!hours || (i === 0 && toMinutes(hours.open) <= minutes)) continue;
+    const day = i === 0 ? "" : i === 1 ? "tomorrow " : `${WEEKDAYS[(weekday + i) % 7]} `;
+    return `Closed · opens ${day}${hours.open}`;
+  }
+  return "Closed";
+}
+
+/** "Mon–Fri 10:00–18:30 · Sat 10:00–18:00 · Sun closed" (or "24/7") */
+export function formatOpeningHours(openingHours: (DayHours | null)[]): string {
+  const label = (h: DayHours | null) => (h ? `${h.open}–${h.close}` : "closed");
+  if (openingHours.every(h => h?.open === "00:00" && h.close === "24:00")) return "24/7";
+
+  const groups: { from: number; to: number; hours: string }[] = [];
+  openingHours.forEach((h, i) => {
+    const last = groups.at(-1);
+    if (last && last.hours === label(h)) last.to = i;
+    else groups.push({ from: i, to: i, hours: label(h) });
+  });
+  return groups
+    .map(g => `${WEEKDAYS[g.from]}${g.to > g.from ? `–${WEEKDAYS[g.to]}` : ""} ${g.hours}`)
+    .join(" · ");
+}
+
+/**
+ * Fill in the site details a location saved before they existed
+ * lacks: those of the generated location with the same id, or
+ * defaults
+ */
+export function withSiteDetails(
+  location: Omit<Location, keyof SiteDetails> & Partial<SiteDetails>,
+  generated: Location[]
+): Location {
+  const base = generated.find(l => l.id === location.id);
+  return {
+    siteType: base?.siteType ?? "other",
+    timezone: base?.timezone ?? DEFAULT_TIMEZONE,
+    openingHours: base?.openingHours ?? SITE_TYPES.find(t => t.id === "other")!.defaultHours,
+    host: base?.host ?? { name: "", email: "", phone: "" },
+    terms: base?.terms ?? { monthlyRent: 0, commissionPercent: 0 },
+    ...location,
+  };
+}
+
+// ============================================================
+// REQUEST PARSING
+// ============================================================
+
+function parseOpeningHours(value: unknown): (DayHours | null)[] | { error: string } {
+  if (!Array.isArray(value) || value.length !== 7) {
+    return { error: "openingHours must list 7 days, Monday first (null = closed)" };
+  }
+  const days: (DayHours | null)[] = [];
+  for (const [i, day] of (value as unknown[]).entries()) {
+    if (day === null) {
+      days.push(null);
+      continue;
+    }
+    const { open, close } = (day ?? {}) as Record<string, unknown>;
+    if (
+      typeof open !== "string" || !OPEN_PATTERN.test(open) ||
+      typeof close !== "string" || !CLOSE_PATTERN.test(close) ||
+      toMinutes(open) >= toMinutes(close)
+    ) {
+      return { error: `openingHours: ${WEEKDAYS[i]} needs { open, close } as "HH:MM", open before close (close up to "24:00")` };
+    }
+    days.push({ open, close });
+  }
+  return days;
+}
+
+/**
+ * Read the site details of a location body `{ siteType?, timezone?,
+ * openingHours?, host?, terms? }`. Missing ones get defaults: site
+ * type "other", Iceland's time zone, the site type's usual hours, no
+ * host, no rent or commission. Returns an error message instead when
+ * something is invalid.
+ */
+export function parseSiteDetails(body: Record<string, unknown>): SiteDetails | { error: string } {
+  const siteType = body.siteType ?? "other";
+  const type = SITE_TYPES.find(t => t.id === siteType);
+  if (!type) {
+    return { error: `siteType must be one of ${SITE_TYPES.map(t => t.id).join(", ")}` };
+  }
+
+  const timezone = body.timezone ?? DEFAULT_TIMEZONE;
+  if (typeof timezone !== "string" || !isValidTimezone(timezone)) {
+    return { error: 'timezone must be an IANA time zone, e.g. "Atlantic/Reykjavik"' };
+  }
+
+  const openingHours = body.openingHours === undefined ? type.defaultHours : parseOpeningHours(body.openingHours);
+  if ("error" in openingHours) return openingHours;
+
+  const host = (body.host ?? {}) as Record<string, unknown>;
+  const name = host.name ?? "";
+  const email = host.email ?? "";
+  const phone = host.phone ?? "";
+  if (typeof name !== "string" || name.length > MAX_NAME_LENGTH) {
+    return { error: `host.name must be at most ${MAX_NAME_LENGTH} characters` };
+  }
+  if (typeof email !== "string" || email.length > MAX_EMAIL_LENGTH || (email && !EMAIL_PATTERN.test(email.trim()))) {
+    return { error: "host.email must be an email address (or empty)" };
+  }
+  if (typeof phone !== "string" || phone.length > MAX_PHONE_LENGTH) {
+    return { error: `host.phone must be at most ${MAX_PHONE_LENGTH} characters` };
+  }
+
+  const terms = (body.terms ?? {}) as Record<string, unknown>;
+  const monthlyRent = terms.monthlyRent ?? 0;
+  const commissionPercent = terms.commissionPercent ?? 0;
+  if (!Number.isInteger(monthlyRent) || (monthlyRent as number) < 0 || (monthlyRent as number) > MAX_MONTHLY_RENT) {
+    return { error: `terms.monthlyRent must be a whole number of ISK, 0–${MAX_MONTHLY_RENT}` };
+  }
+  if (typeof commissionPercent !== "number" || !(commissionPercent >= 0) || commissionPercent > 100) {
+    return { error: "terms.commissionPercent must be 0–100" };
+  }
+
+  return {
+    siteType: type.id,
+    timezone,
+    openingHours,
+    host: { name: name.trim(), email: email.trim(), phone: phone.trim() },
+    terms: { monthlyRent: monthlyRent as number, commissionPercent },
+  };
+}
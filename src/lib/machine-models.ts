@@ -0,0 +1,130 @@
+/**
+ * ============================================================
+ * Vendral – Machine Models (Cabinet Geometry)
+ * ============================================================
+ *
+ * The fleet mixes different kinds of cabinets. A machine model
+ * describes the physical layout every planogram of that machine has
+ * to fit:
+ *
+ *   - mechanism:  how a product is dispensed
+ *                   spiral → a coil per slot pushes items forward
+ *                   belt   → a conveyor behind a glass front
+ *                   locker → one door per item (fresh food)
+ *   - rows:       the shelves, top to bottom; each shelf lists its
+ *                 slot widths in cabinet "units", so a shelf can have
+ *                 fewer, wider slots (e.g. double spirals for chips)
+ *   - capacity:   items per slot when filled, and the most a slot
+ *                 can hold
+ *   - categories: what the cabinet is built to sell
+ *
+ * The planogram grid, the editor, restock math and the kiosk drawing
+ * all read the geometry from here.
+ *
+ * Pure data + helpers, safe to bundle for the browser.
+ * ============================================================
+ */
+
+import type { Product } from "./data";
+
+// ============================================================
+// TYPE DEFINITIONS
+// ============================================================
+
+export type DispenseMechanism = "spiral" | "belt" | "locker";
+
+/** A cabinet type that machines in the fleet are built as */
+export interface MachineModel {
+  id: string;
+  /** Human-readable name (e.g., "Spiral Snack Machine") */
+  name: string;
+  mechanism: DispenseMechanism;
+  /** Cabinet width in units – every shelf's slot widths add up to it */
+  width: number;
+  /** Slot widths per shelf, top to bottom (row r, column c = rows[r][c]) */
+  rows: number[][];
+  /** Shelf height relative to one width unit (for drawing) */
+  rowHeight: number;
+  /** Capacity range a new planogram's slots get */
+  defaultCapacity: [min: number, max: number];
+  /** Most items one slot can be set to hold */
+  maxCapacity: number;
+  /** Product categories the cabinet sells */
+  categories: Product["category"][];
+}
+
+// ============================================================
+// MODELS
+// ============================================================
+
+/** Repeat one shelf `count` times */
+function shelves(count: number, widths: number[]): number[][] {
+  return Array.from({ length: count }, () => [...widths]);
+}
+
+export const MACHINE_MODELS: MachineModel[] = [
+  {
+    id: "spiral-snack",
+    name: "Spiral Snack Machine",
+    mechanism: "spiral",
+    width: 6,
+    // Six shelves of single spirals, two of double-wide ones at the bottom
+    rows: [...shelves(6, [1, 1, 1, 1, 1, 1]), ...shelves(2, [2, 2, 2])],
+    rowHeight: 1,
+    defaultCapacity: [6, 10],
+    maxCapacity: 15,
+    categories: ["snack", "candy", "beverage"],
+  },
+  {
+    id: "drink-cooler",
+    name: "Glass-Front Drink Cooler",
+    mechanism: "belt",
+    width: 5,
+    rows: shelves(5, [1, 1, 1, 1, 1]),
+    rowHeight: 1.4,
+    defaultCapacity: [8, 14],
+    maxCapacity: 20,
+    categories: ["beverage"],
+  },
+  {
+    id: "fresh-locker",
+    name: "Fresh-Food Locker",
+    mechanism: "locker",
+    width: 3,
+    // Small lockers on top, one large (double) locker in the bottom row
+    rows: [...shelves(4, [1, 1, 1]), [2, 1]],
+    rowHeight: 0.8,
+    defaultCapacity: [1, 1],
+    maxCapacity: 1,
+    categories: ["fresh"],
+  },
+];
+
+// ============================================================
+// HELPERS
+// ============================================================
+
+export function getMachineModel(id: string): MachineModel | undefined {
+  return MACHINE_MODELS.find(m => m.id === id);
+}
+
+/** Number of slots in a cabinet */
+export function getSlotCount(model: MachineModel): number {
+  return model.rows.reduce((sum, row) => sum + row.length, 0);
+}
+
+/** Whether (row, col) is a slot of the cabinet */
+export function hasSlot(model: MachineModel, row: number, col: number): boolean {
+  return row >= 0 && row < model.rows.length && col >= 0 && col < model.rows[row].length;
+}
+
+/** Width (in cabinet units) of the slot at (row, col) */
+export function getSlotWidth(model: MachineModel, row: number, col: number): number {
+  return model.rows[row]?.[col] ?? 1;
+}
+
+/** "8 shelves · 42 spirals" */
+export function describeModel(model: MachineModel): string {
+  const unit = model.mechanism === "spiral" ? "spirals" : model.mechanism === "belt" ? "belts" : "lockers";
+  return `${model.rows.length} shelves · ${getSlotCount(model)} ${unit}`;
+}
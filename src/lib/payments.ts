@@ -0,0 +1,231 @@
+/**
+ * ============================================================
+ * Vendral – Payment Methods & Failures
+ * ============================================================
+ *
+ * Vendral machines take no cash – customers pay with:
+ *
+ *   card           chip / swipe (the reader's card slot)
+ *   contactless    tapping a card on the NFC reader
+ *   mobile wallet  Apple Pay / Google Pay (NFC reader too)
+ *   app / QR       scanning the machine's QR code in the Vendral app –
+ *                  paid online, so the card reader isn't involved
+ *   badge          a company badge on the NFC reader, charged to the
+ *                  employer (offices, the university)
+ *
+ * MIX: how customers pay depends on the site (see `PAYMENT_MIX`) –
+ * travellers at an airport tap cards and phones, an office pays
+ * mostly by badge, students use the app.
+ *
+ * FAILURES: every method fails now and then (declined, timeout,
+ * reader error, insufficient funds) at its own rate. A card reader in
+ * WARNING or ERROR fails many more of the payments that go through
+ * it – mostly as reader errors and timeouts.
+ *
+ * Each transaction records its method, why it failed and the card
+ * reader's health at the time, so `summarizePayments` can break the
+ * failure rate down by method and by reader health.
+ *
+ * Types, probabilities and analytics – no server imports, safe to
+ * bundle for the browser.
+ * ============================================================
+ */
+
+import type { HardwareStatus, SiteType, Transaction } from "./data";
+import type { Rng } from "./random";
+
+// ============================================================
+// TYPE DEFINITIONS
+// ============================================================
+
+export type PaymentMethod = "card" | "contactless" | "mobile_wallet" | "app_qr" | "badge";
+
+export type PaymentFailureReason = "declined" | "timeout" | "reader_error" | "insufficient_funds";
+
+export type ReaderHealth = HardwareStatus["cardReader"];
+
+/** Attempts and failures of one slice of the transactions */
+export interface PaymentTally {
+  attempts: number;
+  failures: number;
+  /** failures ÷ attempts (0 without attempts) */
+  failureRate: number;
+}
+
+// ============================================================
+// CONSTANTS
+// ============================================================
+
+export const PAYMENT_METHODS: {
+  id: PaymentMethod;
+  label: string;
+  icon: string;
+  /** Paid through the machine's card reader (everything but app / QR) */
+  usesReader: boolean;
+  /** Chance a payment fails with a healthy reader */
+  failureRate: number;
+}[] = [
+  { id: "card", label: "Card", icon: "💳", usesReader: true, failureRate: 0.05 },
+  { id: "contactless", label: "Contactless", icon: "📶", usesReader: true, failureRate: 0.03 },
+  { id: "mobile_wallet", label: "Mobile wallet", icon: "📱", usesReader: true, failureRate: 0.02 },
+  { id: "app_qr", label: "App / QR", icon: "🔳", usesReader: false, failureRate: 0.04 },
+  { id: "badge", label: "Company badge", icon: "🪪", usesReader: true, failureRate: 0.015 },
+];
+
+/**
+ * Why payments of each method fail with a healthy reader (relative
+ * weights). App payments time out on a bad connection but never see
+ * the reader; a badge is declined when it's blocked or over its
+ * allowance.
+ */
+const FAILURE_WEIGHTS: Record<PaymentMethod, Record<PaymentFailureReason, number>> = {
+  card: { declined: 45, insufficient_funds: 35, timeout: 10, reader_error: 10 },
+  contactless: { declined: 45, insufficient_funds: 35, timeout: 10, reader_error: 10 },
+  mobile_wallet: { declined: 55, insufficient_funds: 15, timeout: 25, reader_error: 5 },
+  app_qr: { declined: 25, insufficient_funds: 15, timeout: 60, reader_error: 0 },
+  badge: { declined: 60, insufficient_funds: 30, timeout: 0, reader_error: 10 },
+};
+
+/**
+ * Failures where the customer's payment itself was refused – as
+ * opposed to timeouts and reader errors, which are the machine's
+ */
+export const DECLINE_REASONS: PaymentFailureReason[] = ["declined", "insufficient_funds"];
+
+export const FAILURE_REASONS: { id: PaymentFailureReason; label: string }[] = [
+  { id: "declined", label: "Declined" },
+  { id: "insufficient_funds", label: "Insufficient funds" },
+  { id: "timeout", label: "Timeout" },
+  { id: "reader_error", label: "Reader error" },
+];
+
+/** How the customers at each type of site pay (relative weights) */
+export const PAYMENT_MIX: Record<SiteType, Record<PaymentMethod, number>> = {
+  airport: { card: 15, contactless: 45, mobile_wallet: 35, app_qr: 5, badge: 0 },
+  mall: { card: 25, contactless: 45, mobile_wallet: 20, app_qr: 10, badge: 0 },
+  university: { card: 10, contactless: 25, mobile_wallet: 25, app_qr: 30, badge: 10 },
+  office: { card: 5, contactless: 15, mobile_wallet: 15, app_qr: 10, badge: 55 },
+  other: { card: 25, contactless: 40, mobile_wallet: 20, app_qr: 15, badge: 0 },
+};
+
+/**
+ * Extra chance a payment through a struggling reader fails. Of those
+ * extra failures READER_TIMEOUT_SHARE time out, the rest are reader
+ * errors.
+ */
+const READER_FAILURE_PENALTY: Record<ReaderHealth, number> = { OK: 0, WARNING: 0.15, ERROR: 0.6 };
+const READER_TIMEOUT_SHARE = 0.3;
+
+export const READER_HEALTH_LEVELS: ReaderHealth[] = ["OK", "WARNING", "ERROR"];
+
+// ============================================================
+// SIMULATION
+// ============================================================
+
+function pickWeighted<T extends string>(rng: Rng, weights: Record<T, number>): T {
+  const entries = Object.entries(weights) as [T, number][];
+  let roll = rng() * entries.reduce((sum, [, w]) => sum + w, 0);
+  for (const [key, weight] of entries) {
+    roll -= weight;
+    if (roll < 0) return key;
+  }
+  return entries[entries.length - 1][0];
+}
+
+/** How the next customer at a site of this type pays */
+export function pickPaymentMethod(rng: Rng, siteType: SiteType): PaymentMethod {
+  return pickWeighted(rng, PAYMENT_MIX[siteType]);
+}
+
+/** Chance a payment by `method` fails with the card reader at `reader` */
+export function paymentFailureChance(method: PaymentMethod, reader: ReaderHealth): number {
+  const info = PAYMENT_METHODS.find(m => m.id === method)!;
+  return info.failureRate + (info.usesReader ? READER_FAILURE_PENALTY[reader] : 0);
+}
+
+/**
+ * Why a payment failed – the reader's share of the failure chance
+ * goes to reader errors and timeouts, the rest by the method's weights
+ */
+export function pickFailureReason(rng: Rng, method: PaymentMethod, reader: ReaderHealth): PaymentFailureReason {
+  const chance = paymentFailureChance(method, reader);
+  const readerShare = (chance - PAYMENT_METHODS.find(m => m.id === method)!.failureRate) / chance;
+  const roll = rng();
+  if (roll < readerShare) {
+    return roll < readerShare * READER_TIMEOUT_SHARE ? "timeout" : "reader_error";
+  }
+  return pickWeighted(rng, FAILURE_WEIGHTS[method]);
+}
+
+// ============================================================
+// HELPERS
+// ============================================================
+
+export function paymentMethodLabel(method: PaymentMethod): string {
+  return PAYMENT_METHODS.find(m => m.id === method)?.label ?? method;
+}
+
+export function failureReasonLabel(reason: PaymentFailureReason): string {
+  return FAILURE_REASONS.find(r => r.id === reason)?.label ?? reason;
+}
+
+/**
+ * Method, failure reason and reader health of a transaction.
+ * Transactions recorded before payment methods existed were all card
+ * payments through a working reader, and every failure a decline.
+ */
+export function paymentDetails(tx: Transaction): {
+  method: PaymentMethod;
+  failureReason: PaymentFailureReason | null;
+  readerHealth: ReaderHealth;
+} {
+  return {
+    method: tx.paymentMethod ?? "card",
+    failureReason: tx.success ? null : (tx.failureReason ?? "declined"),
+    readerHealth: tx.readerHealth ?? "OK",
+  };
+}
+
+// ============================================================
+// ANALYTICS
+// ============================================================
+
+const tally = (): PaymentTally => ({ attempts: 0, failures: 0, failureRate: 0 });
+
+/**
+ * Payment analytics of `transactions`: each method's share of the
+ * attempts and failure rate, failures by reason, and the failure rate
+ * of reader payments by the card reader's health (app / QR payments
+ * don't go through the reader, so they are left out there).
+ */
+export function summarizePayments(transactions: Transaction[]) {
+  const total = tally();
+  const methods = PAYMENT_METHODS.map(m => ({ method: m.id, ...tally(), share: 0, revenue: 0 }));
+  const reasons = FAILURE_REASONS.map(r => ({ reason: r.id, count: 0 }));
+  const readers = READER_HEALTH_LEVELS.map(health => ({ health, ...tally() }));
+
+  for (const tx of transactions) {
+    const { method, failureReason, readerHealth } = paymentDetails(tx);
+    const byMethod = methods.find(m => m.method === method)!;
+    const slices: PaymentTally[] = [total, byMethod];
+    if (PAYMENT_METHODS.find(m => m.id === method)!.usesReader) {
+      slices.push(readers.find(r => r.health === readerHealth)!);
+    }
+
+    for (const slice of slices) {
+      slice.attempts += 1;
+      if (failureReason) slice.failures += 1;
+    }
+    if (failureReason) reasons.find(r => r.reason === failureReason)!.count += 1;
+    else byMethod.revenue += tx.amount;
+  }
+
+  for (const slice of [total, ...methods, ...readers]) {
+    slice.failureRate = slice.attempts > 0 ? slice.failures / slice.attempts : 0;
+  }
+  for (const m of methods) m.share = total.attempts > 0 ? m.attempts / total.attempts : 0;
+
+  return { ...total, methods, reasons, readers };
+}
+
+export type PaymentSummary = ReturnType<typeof summarizePayments>;
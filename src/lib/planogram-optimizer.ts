@@ -0,0 +1,323 @@
+/**
+ * ============================================================
+ * Vendral – Planogram Optimizer
+ * ============================================================
+ *
+ * Proposes a better planogram for one machine from the sales
+ * velocities the demand forecast learned (see `forecast.ts`). The
+ * proposal is a complete layout the editor can open as a draft, plus
+ * the list of changes behind it:
+ *
+ *   1. REPLACE slow movers: the machine's lowest-earning products
+ *      make room for catalog products it doesn't sell yet, if those
+ *      are expected to earn clearly more in the same slots.
+ *
+ *   2. MORE FACINGS for top sellers: a product that runs out between
+ *      restock visits even with its slots at full capacity takes over
+ *      a slot from a product that can spare it (one with several
+ *      slots, where losing one costs the least).
+ *
+ *   3. REBALANCE capacity (`maxStock`): every slot is set to hold
+ *      what its product sells until the next visit plus safety stock
+ *      (the par level). Slots of fast sellers grow up to the cabinet's
+ *      limit; slots holding far more than they sell shrink (never
+ *      below the cabinet's default fill), which ties up less stock.
+ *
+ * REVENUE MODEL:
+ * A slot is filled to capacity at every restock visit, so per visit a
+ * product sells what customers ask for, at most what its slots hold:
+ *
+ *   revenue/day = price × min(rate × interval, capacity) × 24 / interval
+ *
+ * The uplift of a change is the difference this makes for the whole
+ * machine. Products the machine doesn't sell yet get a rate from
+ * machines of the same cabinet model that do (as a share of their
+ * sales, scaled to this machine's traffic), or from their catalog
+ * popularity if no machine sells them.
+ *
+ * A product that is sold out right now is neither replaced nor given
+ * less room – it was probably empty for a while, so its demand went
+ * unseen (see the caveat in `forecast.ts`).
+ *
+ * Caveat: substitution isn't modeled – customers of a removed
+ * product may buy something else instead, and a new product takes
+ * some sales from the others. Treat the uplift as a rough guide.
+ *
+ * Pure functions – the simulation feeds them machines and the model.
+ * ============================================================
+ */
+
+import { PRODUCTS, formatISK, getProductById, type Product, type VendingMachine } from "./data";
+import { type DemandModel, coverDemand } from "./forecast";
+import { MIN_SLOT_CAPACITY, toLayout, type PlanogramSlotEdit } from "./planogram";
+
+// ============================================================
+// TYPE DEFINITIONS
+// ============================================================
+
+export type PlanogramChangeKind = "replace" | "facing" | "capacity";
+
+/** One proposed change to one slot */
+export interface PlanogramSuggestionChange {
+  kind: PlanogramChangeKind;
+  row: number;
+  col: number;
+  fromProductId: string | null;
+  toProductId: string | null;
+  fromCapacity: number;
+  toCapacity: number;
+  /** Why, in a sentence */
+  reason: string;
+  /** Expected revenue change per day (ISK) */
+  upliftPerDay: number;
+}
+
+/** The optimizer's proposal for one machine */
+export interface PlanogramSuggestion {
+  machineId: string;
+  /** The proposed layout (every slot of the cabinet) */
+  slots: PlanogramSlotEdit[];
+  changes: PlanogramSuggestionChange[];
+  /** Expected revenue per day with the current layout (ISK) */
+  revenuePerDay: number;
+  /** Expected revenue per day with the proposed layout (ISK) */
+  proposedRevenuePerDay: number;
+  /** Hours of sales history the velocities come from */
+  learnedFromHours: number;
+}
+
+export interface OptimizerOptions {
+  /** Hours between two restock visits */
+  restockIntervalHours: number;
+  /** The whole fleet (to estimate products this machine doesn't sell) */
+  fleet: VendingMachine[];
+  /**
+   * Products added to the machine during the learning window – they
+   * are estimated like newcomers and not replaced again
+   */
+  recentlyAdded?: Set<string>;
+}
+
+// ============================================================
+// CONSTANTS
+// ============================================================
+
+/** Less history than this gives no suggestions – velocities are noise */
+export const MIN_OPTIMIZER_HISTORY_HOURS = 12;
+
+/** Most products replaced / facings moved in one proposal */
+const MAX_REPLACEMENTS = 3;
+const MAX_FACINGS = 3;
+
+/** A replacement must earn this much more than the product it replaces */
+const MIN_REPLACEMENT_GAIN = 1.25;
+
+/** Capacity is only lowered when a slot holds this many units too many */
+const CAPACITY_SLACK = 2;
+
+// ============================================================
+// REVENUE MODEL
+// ============================================================
+
+type Rates = (productId: string) => number;
+
+/** Expected revenue per day of a layout */
+function layoutRevenue(slots: PlanogramSlotEdit[], rateOf: Rates, intervalHours: number): number {
+  const products = new Map<string, { price: number; capacity: number }>();
+  for (const slot of slots) {
+    if (!slot.productId) continue;
+    // Sales take from the product's first slot – its price counts
+    const entry = products.get(slot.productId) ?? { price: slot.price, capacity: 0 };
+    entry.capacity += slot.maxStock;
+    products.set(slot.productId, entry);
+  }
+
+  let revenue = 0;
+  for (const [productId, { price, capacity }] of products) {
+    const sold = Math.min(rateOf(productId) * intervalHours, capacity);
+    revenue += price * sold * 24 / intervalHours;
+  }
+  return revenue;
+}
+
+/**
+ * Units per hour for every catalog product the cabinet sells: learned
+ * for products the machine sold all along, estimated for the rest
+ * (see header).
+ */
+function buildRates(
+  machine: VendingMachine,
+  model: DemandModel,
+  fleet: VendingMachine[],
+  recentlyAdded: Set<string>
+): Rates {
+  const rate = (m: VendingMachine, productId: string) => model.rates[`${m.id}|${productId}`] ?? 0;
+  const offered = (m: VendingMachine) => new Set(m.planogram.flatMap(s => (s.productId ? [s.productId] : [])));
+  const traffic = (m: VendingMachine) => [...offered(m)].reduce((sum, p) => sum + rate(m, p), 0);
+
+  // Products with a full window of sales here
+  const own = new Set([...offered(machine)].filter(p => !recentlyAdded.has(p)));
+  const ownTraffic = traffic(machine);
+  const peers = fleet.filter(m => m.id !== machine.id && m.model.id === machine.model.id && traffic(m) > 0);
+  const ownWeight = [...own].reduce((sum, p) => sum + (getProductById(p)?.weight ?? 0), 0);
+
+  const estimates = new Map<string, number>();
+  for (const product of PRODUCTS) {
+    if (own.has(product.id) || !machine.model.categories.includes(product.category)) continue;
+    const shares = peers
+      .filter(m => offered(m).has(product.id))
+      .map(m => rate(m, product.id) / traffic(m));
+    const share = shares.length > 0
+      ? shares.reduce((a, b) => a + b, 0) / shares.length
+      : product.weight / (ownWeight + product.weight);
+    estimates.set(product.id, share * ownTraffic);
+  }
+
+  return (productId) => (own.has(productId) ? rate(machine, productId) : estimates.get(productId) ?? 0);
+}
+
+// ============================================================
+// OPTIMIZER
+// ============================================================
+
+function productName(productId: string | null): string {
+  return (productId && getProductById(productId)?.name) ?? "empty";
+}
+
+/** Propose a better layout for `machine` (see the file header) */
+export function suggestPlanogram(
+  machine: VendingMachine,
+  model: DemandModel,
+  { restockIntervalHours: interval, fleet, recentlyAdded = new Set() }: OptimizerOptions
+): PlanogramSuggestion {
+  const current = toLayout(machine.planogram);
+  const rateOf = buildRates(machine, model, fleet, recentlyAdded);
+  const revenueOf = (slots: PlanogramSlotEdit[]) => layoutRevenue(slots, rateOf, interval);
+  const revenuePerDay = revenueOf(current);
+  const suggestion = (slots: PlanogramSlotEdit[], changes: PlanogramSuggestionChange[]): PlanogramSuggestion => ({
+    machineId: machine.id,
+    slots,
+    changes,
+    revenuePerDay: Math.round(revenuePerDay),
+    proposedRevenuePerDay: Math.round(revenueOf(slots)),
+    learnedFromHours: model.hours,
+  });
+  // Too little history, or no sales at all (e.g. a broken machine): nothing to learn from
+  if (model.hours < MIN_OPTIMIZER_HISTORY_HOURS || revenuePerDay === 0) return suggestion(current, []);
+
+  const { maxCapacity, categories, defaultCapacity } = machine.model;
+  let slots = current.map(slot => ({ ...slot }));
+  const changes: PlanogramSuggestionChange[] = [];
+  const slotsOf = (productId: string) => slots.filter(s => s.productId === productId);
+  // Sold out now: probably sold out for a while, so its demand went unseen
+  const soldOut = new Set(current.flatMap(s => (s.productId ? [s.productId] : [])));
+  for (const slot of machine.planogram) if (slot.stock > 0) soldOut.delete(slot.productId!);
+  /**
+   * Switch to the `next` layout, recording its slot changes. A change
+   * spanning several slots books its whole uplift on the first one.
+   */
+  const commit = (next: PlanogramSlotEdit[], ...slotChanges: Omit<PlanogramSuggestionChange, "upliftPerDay">[]) => {
+    const uplift = Math.round(revenueOf(next) - revenueOf(slots));
+    slotChanges.forEach((change, i) => changes.push({ ...change, upliftPerDay: i === 0 ? uplift : 0 }));
+    slots = next;
+  };
+
+  // ---- 1. Replace slow movers ----
+  const offered = [...new Set(slots.flatMap(s => (s.productId ? [s.productId] : [])))];
+  const revenueWithout = (productId: string) =>
+    revenueOf(slots) - revenueOf(slots.map(s => (s.productId === productId ? { ...s, productId: null } : s)));
+  const slowest = offered
+    .filter(productId => !soldOut.has(productId) && !recentlyAdded.has(productId))
+    .map(productId => ({ productId, revenue: revenueWithout(productId) }))
+    .sort((a, b) => a.revenue - b.revenue)
+    .slice(0, MAX_REPLACEMENTS);
+  const candidates = PRODUCTS.filter(p => categories.includes(p.category) && !offered.includes(p.id));
+  /** Every slot of `productId` taken over by `candidate`, at its list price */
+  const replaceWith = (productId: string, candidate: Product) =>
+    slots.map(s => (s.productId === productId ? { ...s, productId: candidate.id, price: candidate.price } : s));
+
+  for (const { productId, revenue } of slowest) {
+    // Best newcomer for the slow product's slots
+    const best = candidates
+      .map(candidate => ({
+        candidate,
+        gain: revenueOf(replaceWith(productId, candidate)) - revenueOf(slots),
+      }))
+      .sort((a, b) => b.gain - a.gain)[0];
+    if (!best || best.gain <= 0 || revenue + best.gain < revenue * MIN_REPLACEMENT_GAIN) continue;
+
+    const { candidate } = best;
+    candidates.splice(candidates.indexOf(candidate), 1);
+    const reason = `${productName(productId)} earns ~${formatISK(Math.round(revenue))}/day here; ` +
+      `${candidate.name} is expected to earn ~${formatISK(Math.round(revenue + best.gain))}/day`;
+    commit(
+      replaceWith(productId, candidate),
+      ...slotsOf(productId).map(slot => ({
+        kind: "replace" as const, row: slot.row, col: slot.col,
+        fromProductId: productId, toProductId: candidate.id,
+        fromCapacity: slot.maxStock, toCapacity: slot.maxStock, reason,
+      }))
+    );
+  }
+
+  // ---- 2. More facings for products that sell out ----
+  /** Revenue with every slot of the layout at the cabinet's limit */
+  const maxedRevenue = (layout: PlanogramSlotEdit[]) =>
+    revenueOf(layout.map(s => ({ ...s, maxStock: maxCapacity })));
+  const shortOf = (productId: string) =>
+    rateOf(productId) * interval - slotsOf(productId).length * maxCapacity;
+
+  for (let moved = 0; moved < MAX_FACINGS; moved++) {
+    const fastest = [...new Set(slots.flatMap(s => (s.productId ? [s.productId] : [])))]
+      .filter(productId => shortOf(productId) > 0)
+      .sort((a, b) => shortOf(b) * (slotsOf(b)[0]?.price ?? 0) - shortOf(a) * (slotsOf(a)[0]?.price ?? 0))[0];
+    if (!fastest) break;
+    const template = slotsOf(fastest)[0];
+
+    // The slot whose loss costs least, from a product keeping at least one slot
+    const donors = slots
+      .filter(s => s.productId && s.productId !== fastest && slotsOf(s.productId).length > 1)
+      .map(donor => {
+        const next = slots.map(s => (s === donor ? { ...s, productId: fastest, price: template.price } : s));
+        return { donor, next, gain: maxedRevenue(next) - maxedRevenue(slots) };
+      })
+      .sort((a, b) => b.gain - a.gain);
+    const best = donors[0];
+    if (!best || best.gain <= 0) break;
+
+    commit(best.next, {
+      kind: "facing", row: best.donor.row, col: best.donor.col,
+      fromProductId: best.donor.productId, toProductId: fastest,
+      fromCapacity: best.donor.maxStock, toCapacity: best.donor.maxStock,
+      reason: `${productName(fastest)} sells ${(rateOf(fastest) * interval).toFixed(0)} per ${interval}h ` +
+        `but ${slotsOf(fastest).length} slot(s) hold at most ${slotsOf(fastest).length * maxCapacity}`,
+    });
+  }
+
+  // ---- 3. Rebalance capacity to the par level ----
+  for (const productId of new Set(slots.flatMap(s => (s.productId ? [s.productId] : [])))) {
+    const own = slotsOf(productId);
+    const need = Math.ceil(coverDemand(rateOf(productId) * interval));
+    // Never below the smallest fill the cabinet is normally set up with
+    const floor = Math.max(MIN_SLOT_CAPACITY, defaultCapacity[0]);
+    const target = Math.min(maxCapacity, Math.max(floor, Math.ceil(need / own.length)));
+
+    for (const slot of own) {
+      if (target <= slot.maxStock && (slot.maxStock - target < CAPACITY_SLACK || soldOut.has(productId))) continue;
+      commit(slots.map(s => (s === slot ? { ...s, maxStock: target } : s)), {
+        kind: "capacity", row: slot.row, col: slot.col,
+        fromProductId: productId, toProductId: productId,
+        fromCapacity: slot.maxStock, toCapacity: target,
+        reason: target > slot.maxStock
+          ? `${productName(productId)} needs ~${need} per ${interval}h in ${own.length} slot(s)`
+          : `${productName(productId)} only needs ~${need} per ${interval}h – less stock tied up`,
+      });
+    }
+  }
+
+  // Product changes first, biggest uplift first
+  const order: PlanogramChangeKind[] = ["replace", "facing", "capacity"];
+  return suggestion(slots, changes.sort((a, b) =>
+    order.indexOf(a.kind) - order.indexOf(b.kind) || b.upliftPerDay - a.upliftPerDay || a.row - b.row || a.col - b.col
+  ));
+}
@@ -0,0 +1,295 @@
+/**
+ * ============================================================
+ * Vendral – Planogram Editing
+ * ============================================================
+ *
+ * Pure helpers for changing a machine's planogram (which product
+ * sits in which slot, at what price and capacity). Used on BOTH
+ * sides:
+ *   • the editor in `planogram-view.tsx` builds a draft with
+ *     `assignProduct`, `swapSlots`, `clearSlot` and `updateSlot`
+ *   • the `/api/fleet/machines/[id]/planogram` route validates the
+ *     draft with `validatePlanogram` and the simulation applies it
+ *     with `applyPlanogram`
+ *   • the version history compares two layouts with `diffPlanograms`
+ *
+ * Every planogram fits its machine's cabinet model (shelves, slots
+ * per shelf, capacity limits – see `machine-models.ts`).
+ *
+ * No server imports here, so it is safe to bundle for the browser.
+ *
+ * STOCK ON SAVE:
+ * The editor only decides layout, price and capacity. What ends up
+ * physically in each slot follows what a merchandiser does when the
+ * new layout is applied:
+ *   • a slot keeping its product keeps its stock
+ *   • a product moved to another slot takes its stock along
+ *   • a product new to the machine starts empty – it is filled by a
+ *     stock transfer from the warehouse (see `warehouse.ts`)
+ * Stock is always clamped to the (new) capacity. Units of products
+ * the machine no longer sells go back to the warehouse. Perishable
+ * units keep their batches (and use-by times) when they move.
+ * ============================================================
+ */
+
+import { getProductById, type PlanogramSlot, type StockBatch } from "./data";
+import { getSlotCount, hasSlot, type MachineModel } from "./machine-models";
+
+/** Allowed per-slot price range (ISK) */
+export const MIN_SLOT_PRICE = 50;
+export const MAX_SLOT_PRICE = 10_000;
+/** Smallest per-slot capacity; the largest depends on the model */
+export const MIN_SLOT_CAPACITY = 1;
+
+/** What the editor sends per slot – stock is decided on save */
+export type PlanogramSlotEdit = Omit<PlanogramSlot, "stock">;
+
+/**
+ * Lifecycle of a planogram version:
+ *   scheduled → active → superseded   (or scheduled → cancelled)
+ * Exactly one version per machine is active at a time.
+ */
+export type PlanogramVersionStatus = "scheduled" | "active" | "superseded" | "cancelled";
+
+/** One numbered planogram version of one machine */
+export interface PlanogramVersion {
+  machineId: string;
+  /** 1, 2, 3, … per machine, in the order versions were created */
+  version: number;
+  author: string;
+  note: string;
+  /** Virtual time the version was saved */
+  createdAt: Date;
+  /** Virtual time it takes (or took) effect */
+  effectiveAt: Date;
+  status: PlanogramVersionStatus;
+  slots: PlanogramSlotEdit[];
+  /** Shared by every version created by one location-wide rollout */
+  rolloutId?: string;
+}
+
+/** What a caller provides to create a version */
+export interface PlanogramVersionInput {
+  slots: PlanogramSlotEdit[];
+  author: string;
+  note?: string;
+  /** Omit (or pass a past time) to take effect immediately */
+  effectiveAt?: Date;
+}
+
+/** One slot that differs between two planograms */
+export interface PlanogramSlotChange {
+  row: number;
+  col: number;
+  before: PlanogramSlotEdit | null;
+  after: PlanogramSlotEdit | null;
+  productChanged: boolean;
+  priceChanged: boolean;
+  capacityChanged: boolean;
+}
+
+// ============================================================
+// DRAFT EDITS (client)
+// ============================================================
+// Each returns a new array; the slot at `index` is addressed by its
+// position in the planogram array (row-major, as generated).
+
+/** Put a catalog product into a slot at the product's list price */
+export function assignProduct(draft: PlanogramSlot[], index: number, productId: string): PlanogramSlot[] {
+  const product = getProductById(productId);
+  if (!product) return draft;
+  return draft.map((slot, i) =>
+    i === index ? { ...slot, productId, price: product.price, stock: 0 } : slot
+  );
+}
+
+/** Exchange the contents (product, price, capacity, stock) of two slots */
+export function swapSlots(draft: PlanogramSlot[], a: number, b: number): PlanogramSlot[] {
+  if (a === b) return draft;
+  return draft.map((slot, i) => {
+    if (i !== a && i !== b) return slot;
+    const other = draft[i === a ? b : a];
+    return { ...other, row: slot.row, col: slot.col };
+  });
+}
+
+/** Empty a slot */
+export function clearSlot(draft: PlanogramSlot[], index: number): PlanogramSlot[] {
+  return draft.map((slot, i) =>
+    i === index ? { ...slot, productId: null, price: 0, stock: 0 } : slot
+  );
+}
+
+/** Change a slot's price and/or capacity */
+export function updateSlot(
+  draft: PlanogramSlot[],
+  index: number,
+  changes: Partial<Pick<PlanogramSlot, "price" | "maxStock">>
+): PlanogramSlot[] {
+  return draft.map((slot, i) => (i === index ? { ...slot, ...changes } : slot));
+}
+
+/**
+ * Slots whose product, price or capacity differ between two layouts,
+ * matched by grid position. Price and capacity of empty slots don't
+ * count – there's nothing to sell.
+ */
+export function diffPlanograms(before: PlanogramSlotEdit[], after: PlanogramSlotEdit[]): PlanogramSlotChange[] {
+  const key = (slot: PlanogramSlotEdit) => `${slot.row}-${slot.col}`;
+  const beforeAt = new Map(before.map(slot => [key(slot), slot]));
+  const afterAt = new Map(after.map(slot => [key(slot), slot]));
+
+  // Every position in either layout, in grid order
+  const positions = [...new Map([...before, ...after].map(slot => [key(slot), slot])).values()]
+    .sort((a, b) => a.row - b.row || a.col - b.col);
+
+  const changes: PlanogramSlotChange[] = [];
+  for (const { row, col } of positions) {
+    const a = beforeAt.get(`${row}-${col}`) ?? null;
+    const b = afterAt.get(`${row}-${col}`) ?? null;
+    const productChanged = (a?.productId ?? null) !== (b?.productId ?? null);
+    const filled = !!a?.productId && !!b?.productId;
+    const priceChanged = filled && a.price !== b.price;
+    const capacityChanged = filled && a.maxStock !== b.maxStock;
+    if (productChanged || priceChanged || capacityChanged) {
+      changes.push({ row, col, before: a, after: b, productChanged, priceChanged, capacityChanged });
+    }
+  }
+  return changes;
+}
+
+/** Strip stock (and anything else) from slots, keeping just the layout */
+export function toLayout(slots: PlanogramSlotEdit[]): PlanogramSlotEdit[] {
+  return slots.map(({ row, col, productId, price, maxStock }) => ({ row, col, productId, price, maxStock }));
+}
+
+/** Number of slots whose product, price or capacity differ */
+export function countChangedSlots(before: PlanogramSlotEdit[], after: PlanogramSlotEdit[]): number {
+  return diffPlanograms(before, after).length;
+}
+
+// ============================================================
+// VALIDATION + APPLY (server)
+// ============================================================
+
+/**
+ * Check a full planogram sent by a client against the machine's
+ * cabinet. Returns an error message, or null when it's valid: one
+ * entry per slot of the model, known products, and price/capacity
+ * within limits for filled slots.
+ */
+export function validatePlanogram(slots: unknown, model: MachineModel): string | null {
+  const count = getSlotCount(model);
+  if (!Array.isArray(slots) || slots.length !== count) {
+    return `slots must list all ${count} positions of a ${model.name}`;
+  }
+
+  const seen = new Set<string>();
+  for (const raw of slots) {
+    const slot = raw as Partial<PlanogramSlotEdit>;
+    const { row, col } = slot;
+    if (!Number.isInteger(row) || !Number.isInteger(col) || !hasSlot(model, row!, col!)) {
+      return "every slot needs a row and col inside the cabinet";
+    }
+    const key = `${row}-${col}`;
+    if (seen.has(key)) return `slot ${key} is listed twice`;
+    seen.add(key);
+
+    if (slot.productId === null) continue;
+    const where = `row ${row! + 1}, col ${col! + 1}`;
+    const product = typeof slot.productId === "string" ? getProductById(slot.productId) : undefined;
+    if (!product) return `unknown product at ${where}`;
+    if (!model.categories.includes(product.category)) {
+      return `${product.name} (${where}) doesn't belong in a ${model.name}`;
+    }
+    if (!Number.isInteger(slot.price) || slot.price! < MIN_SLOT_PRICE || slot.price! > MAX_SLOT_PRICE) {
+      return `price at ${where} must be ${MIN_SLOT_PRICE}–${MAX_SLOT_PRICE} ISK`;
+    }
+    if (!Number.isInteger(slot.maxStock) ||
+        slot.maxStock! < MIN_SLOT_CAPACITY || slot.maxStock! > model.maxCapacity) {
+      return `capacity at ${where} must be ${MIN_SLOT_CAPACITY}–${model.maxCapacity}`;
+    }
+  }
+  return null;
+}
+
+/** Longest author name / note accepted with a version */
+const MAX_AUTHOR_LENGTH = 60;
+const MAX_NOTE_LENGTH = 200;
+
+/**
+ * Read a version request body `{ slots, author, note?, effectiveAt? }`
+ * for a machine of `model`. Returns an error message instead when
+ * something is invalid.
+ */
+export function parsePlanogramVersionInput(
+  body: unknown,
+  model: MachineModel
+): PlanogramVersionInput | { error: string } {
+  const { slots, author, note, effectiveAt } = (body ?? {}) as Record<string, unknown>;
+
+  const error = validatePlanogram(slots, model);
+  if (error) return { error };
+  if (typeof author !== "string" || !author.trim() || author.length > MAX_AUTHOR_LENGTH) {
+    return { error: `author must be 1–${MAX_AUTHOR_LENGTH} characters` };
+  }
+  if (note !== undefined && (typeof note !== "string" || note.length > MAX_NOTE_LENGTH)) {
+    return { error: `note must be at most ${MAX_NOTE_LENGTH} characters` };
+  }
+
+  const input: PlanogramVersionInput = {
+    slots: toLayout(slots as PlanogramSlotEdit[]),
+    author: author.trim(),
+    note: (note as string | undefined)?.trim() ?? "",
+  };
+  if (effectiveAt !== undefined && effectiveAt !== null) {
+    const date = new Date(effectiveAt as string);
+    if (typeof effectiveAt !== "string" || Number.isNaN(date.getTime())) {
+      return { error: "effectiveAt must be an ISO date" };
+    }
+    input.effectiveAt = date;
+  }
+  return input;
+}
+
+/**
+ * Build the machine's new planogram from a validated layout, carrying
+ * stock over as described in the file header.
+ */
+export function applyPlanogram(current: PlanogramSlot[], layout: PlanogramSlotEdit[]): PlanogramSlot[] {
+  const at = (row: number, col: number) => current.find(s => s.row === row && s.col === col);
+
+  // Slots that lost their product, pooled per product (their stock moves)
+  const freed = new Map<string, PlanogramSlot[]>();
+  for (const old of current) {
+    if (!old.productId) continue;
+    const next = layout.find(s => s.row === old.row && s.col === old.col);
+    if (next?.productId === old.productId) continue;
+    freed.set(old.productId, [...(freed.get(old.productId) ?? []), old]);
+  }
+
+  return [...layout]
+    .sort((a, b) => a.row - b.row || a.col - b.col)
+    .map((slot) => {
+      const { row, col, productId, price, maxStock } = slot;
+      if (!productId) return { row, col, productId: null, stock: 0, maxStock, price: 0 };
+
+      const old = at(row, col);
+      const source = old?.productId === productId ? old : freed.get(productId)?.shift();
+      const stock = Math.min(source?.stock ?? 0, maxStock);
+      const batches = source?.batches && keepOldest(source.batches, stock);
+      return { row, col, productId, stock, maxStock, price, ...(batches && { batches }) };
+    });
+}
+
+/** The oldest `units` of a slot's batches (perishables keep their use-by times) */
+function keepOldest(batches: StockBatch[], units: number): StockBatch[] {
+  const kept: StockBatch[] = [];
+  let left = units;
+  for (const batch of batches) {
+    if (left <= 0) break;
+    kept.push({ ...batch, quantity: Math.min(batch.quantity, left) });
+    left -= batch.quantity;
+  }
+  return kept;
+}
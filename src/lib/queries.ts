@@ -12,10 +12,10 @@
  *   • Devtools → inspect the cache in the browser
  *
  * HOW WE USE IT HERE:
- * In this prototype there's no real REST API – our data comes from
- * the in-memory simulation. But we still wrap the getters in
- * useQuery so you can see the pattern. In production you'd replace
- * the `queryFn` with a real `fetch("/api/fleet-stats")` call.
+ * The simulation runs on the server behind the `/api/fleet/*` route
+ * handlers (see `src/app/api/fleet/`). Every `queryFn` below fetches
+ * one of those routes, so all tabs and all team members share the
+ * same fleet. Dates in the JSON are revived by `fetchJson`.
  *
  * KEY CONCEPTS:
  * -------------
@@ -32,19 +32,73 @@
  *   We use arrays like ["fleet", "stats"] or ["fleet", "hourly"].
  *   TanStack Query uses these as cache keys. If two components
  *   use the same key, they share the same cached data.
+ *
+ * `useMutation({ mutationFn, onSuccess })`
+ *   - For writes (POST). After a successful write we invalidate the
+ *     ["fleet"] prefix so every fleet query refetches fresh data.
+ *
+ * `useFleetStream()`
+ *   - Transactions and events aren't polled: they're pushed over
+ *     Server-Sent Events and written straight into the cache with
+ *     `queryClient.setQueryData`.
  * ============================================================
  */
 
-import { useQuery } from "@tanstack/react-query";
+import { useEffect } from "react";
 import {
+  useQuery,
+  useMutation,
+  useQueryClient,
+  keepPreviousData,
+  type QueryClient,
+} from "@tanstack/react-query";
+import { fetchJson, sendJson, parseJson } from "./api-client";
+import type { ClockSnapshot, ClockSpeed } from "./clock";
+import type { VendingMachine, Transaction, SystemEvent, Location } from "./data";
+import type { HistoryQuery, HistoryPage } from "./history-store";
+import type { Alert, AlertRule, AlertRuleInput } from "./alert-rules";
+import type { Incident, IncidentUpdate } from "./incidents";
+import type { WebhookDelivery, WebhookInput, WebhookSubscription, WebhookSubscriptionView } from "./webhooks";
+import type { ReceivedWebhook } from "./webhook-dispatcher";
+import type { CommandInput, MachineCommand } from "./commands";
+import type { LocationInput, MachineChange, MachineRecord, MachineRegistration } from "./fleet-admin";
+import type { FirmwareRelease, FirmwareRollout, ReleaseInput, RolloutAction, RolloutInput } from "./firmware";
+import type { MaintenanceSettings, WorkOrder, WorkOrderInput, WorkOrderUpdate } from "./work-orders";
+import type { PlanogramSlotEdit, PlanogramVersion } from "./planogram";
+import type { PlanogramSuggestion } from "./planogram-optimizer";
+import type { PurchaseOrder, Reconciliation, StockTransfer, WarehouseState } from "./warehouse";
+// Type-only imports: the simulation itself never runs in the browser
+import type {
   getFleetStats,
   getHourlyData,
   getTopProducts,
   getBottomProducts,
   getSalesHeatmap,
-  getSimulationState,
+  getSimulationInfo,
+  getSalesKpis,
+  getFleetAt,
+  getWasteReport,
+  getStockForecast,
+  getPaymentAnalytics,
+  SalesHeatmapFilter,
+  KpiPeriod,
+  PaymentPeriod,
 } from "./simulation";
 
+/** Response shapes of the fleet API (derived from the server functions) */
+export type FleetStats = ReturnType<typeof getFleetStats>;
+export type HourlyData = ReturnType<typeof getHourlyData>;
+export type TopProducts = ReturnType<typeof getTopProducts>;
+export type BottomProducts = ReturnType<typeof getBottomProducts>;
+export type SalesHeatmap = ReturnType<typeof getSalesHeatmap>;
+export type SimulationInfo = ReturnType<typeof getSimulationInfo>;
+export type SalesKpis = ReturnType<typeof getSalesKpis>;
+export type FleetAt = ReturnType<typeof getFleetAt>;
+export type WasteReport = ReturnType<typeof getWasteReport>;
+export type StockForecast = ReturnType<typeof getStockForecast>;
+export type PaymentAnalytics = ReturnType<typeof getPaymentAnalytics>;
+export type { HistoryQuery, HistoryPage, SalesHeatmapFilter, KpiPeriod, PaymentPeriod };
+
 /**
  * Fetch fleet KPI stats (total revenue, machine counts, alerts).
  *
@@ -63,7 +117,7 @@ import {
 export function useFleetStatsQuery() {
   return useQuery({
     queryKey: ["fleet", "stats"],
-    queryFn: () => getFleetStats(),
+    queryFn: () => fetchJson<FleetStats>("/api/fleet/stats"),
     refetchInterval: 2_000, // Refresh every 2 seconds for live data
   });
 }
@@ -74,7 +128,7 @@ export function useFleetStatsQuery() {
 export function useHourlyDataQuery() {
   return useQuery({
     queryKey: ["fleet", "hourly"],
-    queryFn: () => getHourlyData(),
+    queryFn: () => fetchJson<HourlyData>("/api/fleet/hourly"),
     refetchInterval: 5_000, // Charts update every 5 seconds
   });
 }
@@ -88,7 +142,7 @@ export function useHourlyDataQuery() {
 export function useTopProductsQuery(n: number = 10) {
   return useQuery({
     queryKey: ["fleet", "topProducts", n],
-    queryFn: () => getTopProducts(n),
+    queryFn: () => fetchJson<TopProducts>(`/api/fleet/products?rank=top&limit=${n}`),
     refetchInterval: 5_000,
   });
 }
@@ -99,53 +153,785 @@ export function useTopProductsQuery(n: number = 10) {
 export function useBottomProductsQuery(n: number = 5) {
   return useQuery({
     queryKey: ["fleet", "bottomProducts", n],
-    queryFn: () => getBottomProducts(n),
+    queryFn: () => fetchJson<BottomProducts>(`/api/fleet/products?rank=bottom&limit=${n}`),
     refetchInterval: 5_000,
   });
 }
 
 /**
- * Fetch the sales heatmap grid (hour × day of week).
+ * Fetch the sales heatmap grid (hour × day of week), optionally
+ * narrowed to one location and/or product category. Pass `at` to
+ * end the window at a past moment (historical mode).
  */
-export function useSalesHeatmapQuery() {
+export function useSalesHeatmapQuery(filter: SalesHeatmapFilter = {}, at?: Date) {
+  const params = new URLSearchParams();
+  if (filter.locationId) params.set("locationId", filter.locationId);
+  if (filter.category) params.set("category", filter.category);
+  if (at) params.set("at", at.toISOString());
+
   return useQuery({
-    queryKey: ["fleet", "salesHeatmap"],
-    queryFn: () => getSalesHeatmap(),
-    // Heatmap data is semi-static – refresh every 30 seconds
-    refetchInterval: 30_000,
+    queryKey: ["fleet", "salesHeatmap", filter, at?.getTime() ?? null],
+    queryFn: () => fetchJson<SalesHeatmap>(`/api/fleet/heatmap?${params}`),
+    placeholderData: keepPreviousData,
+    // Weeks of history change slowly – refresh every 30 seconds
+    // (the past doesn't change at all)
+    refetchInterval: at ? false : 30_000,
+  });
+}
+
+/**
+ * Fetch period-over-period sales KPIs (today vs yesterday, week vs
+ * last week, month-to-date vs last month), as of now or as of `at`.
+ */
+export function useSalesKpisQuery(period: KpiPeriod, at?: Date) {
+  const params = new URLSearchParams({ period });
+  if (at) params.set("at", at.toISOString());
+
+  return useQuery({
+    queryKey: ["fleet", "kpis", period, at?.getTime() ?? null],
+    queryFn: () => fetchJson<SalesKpis>(`/api/fleet/kpis?${params}`),
+    placeholderData: keepPreviousData,
+    refetchInterval: at ? false : 5_000,
+  });
+}
+
+/**
+ * Fetch payment analytics (method share, failure rates by method and
+ * by card-reader health) for the last day or week, as of now or `at`.
+ */
+export function usePaymentAnalyticsQuery(period: PaymentPeriod, locationId: string, at?: Date) {
+  const params = new URLSearchParams({ period });
+  if (locationId) params.set("locationId", locationId);
+  if (at) params.set("at", at.toISOString());
+
+  return useQuery({
+    queryKey: ["fleet", "payments", period, locationId, at?.getTime() ?? null],
+    queryFn: () => fetchJson<PaymentAnalytics>(`/api/fleet/payments?${params}`),
+    placeholderData: keepPreviousData,
+    refetchInterval: at ? false : 10_000,
   });
 }
 
 /**
  * Fetch all machines for the fleet table / map.
- * Returns the current snapshot of the 20 machines.
+ * Returns the current snapshot of the machines in service.
  */
 export function useMachinesQuery() {
   return useQuery({
     queryKey: ["fleet", "machines"],
-    queryFn: () => getSimulationState().machines,
+    queryFn: () => fetchJson<VendingMachine[]>("/api/fleet/machines"),
     refetchInterval: 2_000,
   });
 }
 
 /**
  * Fetch recent transactions for the transaction log.
+ * No refetchInterval: new transactions arrive via `useFleetStream()`.
  */
 export function useTransactionsQuery() {
   return useQuery({
     queryKey: ["fleet", "transactions"],
-    queryFn: () => getSimulationState().transactions,
-    refetchInterval: 2_000,
+    queryFn: () => fetchJson<Transaction[]>("/api/fleet/transactions"),
   });
 }
 
 /**
  * Fetch recent system events for the event ticker.
+ * No refetchInterval: new events arrive via `useFleetStream()`.
  */
 export function useEventsQuery() {
   return useQuery({
     queryKey: ["fleet", "events"],
-    queryFn: () => getSimulationState().events,
+    queryFn: () => fetchJson<SystemEvent[]>("/api/fleet/events"),
+  });
+}
+
+/**
+ * Fetch the session info: seed + virtual clock.
+ * Polled every second so the clock bar ticks along.
+ */
+export function useSimulationInfoQuery() {
+  return useQuery({
+    queryKey: ["fleet", "simulation"],
+    queryFn: () => fetchJson<SimulationInfo>("/api/fleet/simulation"),
     refetchInterval: 1_000,
   });
 }
+
+// ============================================================
+// STORED HISTORY (paged)
+// ============================================================
+
+/** Turn a HistoryQuery into `?machineId=…&from=…` search params */
+function toHistoryParams(query: HistoryQuery): string {
+  const params = new URLSearchParams();
+  for (const [key, value] of Object.entries(query)) {
+    if (value === undefined || value === "") continue;
+    params.set(key, value instanceof Date ? value.toISOString() : String(value));
+  }
+  return params.toString();
+}
+
+/**
+ * Fetch one page of the full transaction history.
+ *
+ * The whole query object is part of the queryKey, so every filter /
+ * page combination is cached separately. `keepPreviousData` keeps the
+ * old page on screen while the next one loads (no flicker).
+ */
+export function useTransactionHistoryQuery(query: HistoryQuery) {
+  return useQuery({
+    queryKey: ["fleet", "history", "transactions", query],
+    queryFn: () =>
+      fetchJson<HistoryPage<Transaction>>(`/api/fleet/history/transactions?${toHistoryParams(query)}`),
+    placeholderData: keepPreviousData,
+    refetchInterval: 3_000,
+  });
+}
+
+/**
+ * Fetch one page of the full system event history.
+ */
+export function useEventHistoryQuery(query: HistoryQuery) {
+  return useQuery({
+    queryKey: ["fleet", "history", "events", query],
+    queryFn: () =>
+      fetchJson<HistoryPage<SystemEvent>>(`/api/fleet/history/events?${toHistoryParams(query)}`),
+    placeholderData: keepPreviousData,
+    refetchInterval: 2_000,
+  });
+}
+
+/** A time range picked for historical mode */
+export interface DateRange {
+  from: Date;
+  to: Date;
+}
+
+/**
+ * Fetch the whole dashboard as it looked over `range` (machines from
+ * the nearest hourly snapshot, totals from stored sales). Disabled
+ * while `range` is null, i.e. in live mode.
+ *
+ * `staleTime: Infinity` – stored history doesn't change, so a range
+ * that was fetched once never needs fetching again.
+ */
+export function useFleetHistoryQuery(range: DateRange | null) {
+  const params = range
+    ? new URLSearchParams({ from: range.from.toISOString(), to: range.to.toISOString() })
+    : null;
+
+  return useQuery({
+    queryKey: ["fleet", "history", "fleet", range?.from.getTime(), range?.to.getTime()],
+    queryFn: () => fetchJson<FleetAt>(`/api/fleet/history/fleet?${params}`),
+    enabled: range !== null,
+    staleTime: Infinity,
+  });
+}
+
+// ============================================================
+// PLANOGRAM VERSIONS
+// ============================================================
+
+/** GET /api/fleet/machines/:id/planogram */
+export interface PlanogramVersions {
+  /** Version number currently applied to the machine */
+  active: number;
+  /** Every version, newest first */
+  versions: PlanogramVersion[];
+}
+
+/**
+ * Fetch a machine's planogram version history. Polled slowly so a
+ * scheduled version flips to "active" once its time comes.
+ */
+export function usePlanogramVersionsQuery(machineId: string) {
+  return useQuery({
+    queryKey: ["fleet", "planograms", machineId],
+    queryFn: () =>
+      fetchJson<PlanogramVersions>(`/api/fleet/machines/${encodeURIComponent(machineId)}/planogram`),
+    refetchInterval: 5_000,
+  });
+}
+
+/**
+ * Fetch the optimizer's proposed planogram for a machine. The
+ * velocities behind it change hourly, so this polls slowly; saving a
+ * planogram invalidates it like every other ["fleet", ...] query.
+ */
+export function usePlanogramSuggestionQuery(machineId: string, enabled: boolean = true) {
+  return useQuery({
+    queryKey: ["fleet", "planogram-suggestion", machineId],
+    queryFn: () =>
+      fetchJson<PlanogramSuggestion>(
+        `/api/fleet/machines/${encodeURIComponent(machineId)}/planogram/suggestion`
+      ),
+    refetchInterval: 30_000,
+    enabled,
+  });
+}
+
+/** GET /api/fleet/warehouse */
+export type Warehouse = Pick<WarehouseState, "items" | "transfers" | "orders" | "reconciliations">;
+
+/** Fetch warehouse inventory, transfers, purchase orders and counts */
+export function useWarehouseQuery() {
+  return useQuery({
+    queryKey: ["fleet", "warehouse"],
+    queryFn: () => fetchJson<Warehouse>("/api/fleet/warehouse"),
+    refetchInterval: 5_000,
+  });
+}
+
+/**
+ * Fetch the waste report (expired units written off) for a range,
+ * or for the last 7 days when `range` is null.
+ */
+export function useWasteReportQuery(range: DateRange | null) {
+  const params = range
+    ? new URLSearchParams({ from: range.from.toISOString(), to: range.to.toISOString() })
+    : "";
+  return useQuery({
+    queryKey: ["fleet", "waste", range?.from.getTime(), range?.to.getTime()],
+    queryFn: () => fetchJson<WasteReport>(`/api/fleet/waste?${params}`),
+    refetchInterval: range ? false : 10_000,
+  });
+}
+
+/**
+ * Fetch predicted stock-out times and par levels for every slot.
+ * Velocities only change hourly; the stock they apply to changes
+ * with every sale, so this is polled like the machines.
+ */
+export function useStockForecastQuery(enabled: boolean = true) {
+  return useQuery({
+    queryKey: ["fleet", "forecast"],
+    queryFn: () => fetchJson<StockForecast>("/api/fleet/forecast"),
+    refetchInterval: 5_000,
+    enabled,
+  });
+}
+
+/** Fetch the alert rules */
+export function useAlertRulesQuery() {
+  return useQuery({
+    queryKey: ["fleet", "alert-rules"],
+    queryFn: () => fetchJson<AlertRule[]>("/api/fleet/alert-rules"),
+  });
+}
+
+/** Fetch the alerts the rules fired, newest first */
+export function useAlertsQuery() {
+  return useQuery({
+    queryKey: ["fleet", "alerts"],
+    queryFn: () => fetchJson<Alert[]>("/api/fleet/alerts"),
+    refetchInterval: 5_000,
+  });
+}
+
+/** Fetch incidents (alerts grouped per machine), newest first */
+export function useIncidentsQuery() {
+  return useQuery({
+    queryKey: ["fleet", "incidents"],
+    queryFn: () => fetchJson<Incident[]>("/api/fleet/incidents"),
+    refetchInterval: 5_000,
+  });
+}
+
+/** Fetch webhook subscriptions (secrets hidden) */
+export function useWebhooksQuery() {
+  return useQuery({
+    queryKey: ["fleet", "webhooks"],
+    queryFn: () => fetchJson<WebhookSubscriptionView[]>("/api/fleet/webhooks"),
+  });
+}
+
+/** Fetch the webhook delivery log – polled faster, retries happen in real time */
+export function useWebhookDeliveriesQuery() {
+  return useQuery({
+    queryKey: ["fleet", "webhook-deliveries"],
+    queryFn: () => fetchJson<WebhookDelivery[]>("/api/fleet/webhooks/deliveries"),
+    refetchInterval: 2_000,
+  });
+}
+
+/** Fetch what the local stand-in receiver got */
+export function useWebhookReceiverQuery() {
+  return useQuery({
+    queryKey: ["fleet", "webhook-receiver"],
+    queryFn: () => fetchJson<ReceivedWebhook[]>("/api/fleet/webhooks/receiver"),
+    refetchInterval: 2_000,
+  });
+}
+
+/** Fetch work orders, newest first – one machine's, or the whole fleet's */
+export function useWorkOrdersQuery(machineId?: string) {
+  return useQuery({
+    queryKey: ["fleet", "work-orders", machineId ?? "all"],
+    queryFn: () => fetchJson<WorkOrder[]>(
+      machineId ? `/api/fleet/work-orders?machineId=${encodeURIComponent(machineId)}` : "/api/fleet/work-orders"
+    ),
+    refetchInterval: 5_000,
+  });
+}
+
+/** Fetch a machine's remote commands – polled fast to follow their lifecycle */
+export function useMachineCommandsQuery(machineId: string) {
+  return useQuery({
+    queryKey: ["fleet", "commands", machineId],
+    queryFn: () =>
+      fetchJson<MachineCommand[]>(`/api/fleet/machines/${encodeURIComponent(machineId)}/commands`),
+    refetchInterval: 2_000,
+  });
+}
+
+/** Fetch firmware releases and rollouts (newest first) – polled while a rollout runs */
+export function useFirmwareQuery() {
+  return useQuery({
+    queryKey: ["fleet", "firmware"],
+    queryFn: () => fetchJson<{ releases: FirmwareRelease[]; rollouts: FirmwareRollout[] }>("/api/fleet/firmware"),
+    refetchInterval: 2_000,
+  });
+}
+
+/** Fetch the locations machines can be placed at */
+export function useLocationsQuery() {
+  return useQuery({
+    queryKey: ["fleet", "locations"],
+    queryFn: () => fetchJson<Location[]>("/api/fleet/locations"),
+    refetchInterval: 10_000,
+  });
+}
+
+/** Fetch every machine the fleet ever had, decommissioned ones included */
+export function useMachineRecordsQuery() {
+  return useQuery({
+    queryKey: ["fleet", "machine-records"],
+    queryFn: () => fetchJson<MachineRecord[]>("/api/fleet/machines/records"),
+    refetchInterval: 10_000,
+  });
+}
+
+/** Fetch which fault codes open work orders by themselves */
+export function useMaintenanceSettingsQuery() {
+  return useQuery({
+    queryKey: ["fleet", "maintenance-settings"],
+    queryFn: () => fetchJson<MaintenanceSettings>("/api/fleet/work-orders/settings"),
+  });
+}
+
+// ============================================================
+// MUTATIONS
+// ============================================================
+
+/**
+ * Restart the shared simulation from a seed (undefined = random);
+ * `replay` starts the seed over, discarding its stored history.
+ * Invalidates every ["fleet", ...] query so all views reload.
+ */
+export function useReseedMutation() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: ({ seed, replay }: { seed?: string; replay?: boolean }) =>
+      sendJson<SimulationInfo>("/api/fleet/simulation", { seed, replay }),
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: ["fleet"] }),
+  });
+}
+
+/** Change clock speed, pause/resume, or single-step the simulation */
+export function useClockMutation() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: (command: { speed?: ClockSpeed; paused?: boolean; step?: boolean }) =>
+      sendJson<ClockSnapshot>("/api/fleet/clock", command),
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: ["fleet"] }),
+  });
+}
+
+/** Who saves a planogram version, why, and when it takes effect */
+export interface PlanogramVersionDetails {
+  slots: PlanogramSlotEdit[];
+  author: string;
+  note?: string;
+  /** Omit to apply immediately */
+  effectiveAt?: Date;
+}
+
+/**
+ * Save an edited planogram as the machine's next version.
+ * Fails with "Planogram is now at vN…" if it changed since
+ * `baseVersion` was loaded.
+ */
+export function useSavePlanogramMutation() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: ({ machineId, ...edit }: PlanogramVersionDetails & { machineId: string; baseVersion: number }) =>
+      sendJson<PlanogramVersion>(
+        `/api/fleet/machines/${encodeURIComponent(machineId)}/planogram`,
+        edit,
+        "PUT"
+      ),
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: ["fleet"] }),
+  });
+}
+
+/** Roll one planogram out to every machine of a model at a location */
+export function useRollOutPlanogramMutation() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: ({ locationId, ...template }: PlanogramVersionDetails & { locationId: string; modelId: string }) =>
+      sendJson<PlanogramVersion[]>(
+        `/api/fleet/locations/${encodeURIComponent(locationId)}/planogram`,
+        template
+      ),
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: ["fleet"] }),
+  });
+}
+
+/** Cancel a scheduled planogram version before it takes effect */
+export function useCancelPlanogramMutation() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: ({ machineId, version }: { machineId: string; version: number }) =>
+      sendJson<PlanogramVersion>(
+        `/api/fleet/machines/${encodeURIComponent(machineId)}/planogram?version=${version}`,
+        undefined,
+        "DELETE"
+      ),
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: ["fleet"] }),
+  });
+}
+
+/**
+ * Load warehouse stock for a machine (every slot topped up unless
+ * `lines` says otherwise). `complete: true` restocks it right away.
+ */
+export function useCreateTransferMutation() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: (transfer: {
+      machineId: string;
+      lines?: { row: number; col: number; quantity: number }[];
+      note?: string;
+      complete?: boolean;
+    }) => sendJson<StockTransfer>("/api/fleet/warehouse/transfers", transfer),
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: ["fleet"] }),
+  });
+}
+
+/** Complete (deliver) or cancel a pending transfer */
+export function useUpdateTransferMutation() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: ({ id, status }: { id: string; status: "completed" | "cancelled" }) =>
+      sendJson<StockTransfer>(`/api/fleet/warehouse/transfers/${encodeURIComponent(id)}`, { status }, "PATCH"),
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: ["fleet"] }),
+  });
+}
+
+/** Order units of a product from the supplier */
+export function useOrderStockMutation() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: (order: { productId: string; quantity: number }) =>
+      sendJson<PurchaseOrder>("/api/fleet/warehouse/orders", order),
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: ["fleet"] }),
+  });
+}
+
+/** Count a machine and compare with the transaction log */
+export function useReconcileMutation() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: ({ machineId, counts }: { machineId: string; counts?: { row: number; col: number; stock: number }[] }) =>
+      sendJson<Reconciliation>(`/api/fleet/machines/${encodeURIComponent(machineId)}/reconcile`, { counts }),
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: ["fleet"] }),
+  });
+}
+
+/** Create an alert rule */
+export function useCreateAlertRuleMutation() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: (rule: AlertRuleInput) => sendJson<AlertRule>("/api/fleet/alert-rules", rule),
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: ["fleet"] }),
+  });
+}
+
+/** Change some fields of an alert rule (e.g. enable/disable it) */
+export function useUpdateAlertRuleMutation() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: ({ id, ...changes }: Partial<AlertRuleInput> & { id: string }) =>
+      sendJson<AlertRule>(`/api/fleet/alert-rules/${encodeURIComponent(id)}`, changes, "PATCH"),
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: ["fleet"] }),
+  });
+}
+
+/** Delete an alert rule (alerts it fired stay) */
+export function useDeleteAlertRuleMutation() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: (id: string) =>
+      sendJson<{ deleted: string }>(`/api/fleet/alert-rules/${encodeURIComponent(id)}`, undefined, "DELETE"),
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: ["fleet"] }),
+  });
+}
+
+/** Acknowledge, resolve, assign, snooze or add a note to an incident */
+export function useUpdateIncidentMutation() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: ({ id, ...update }: IncidentUpdate & { id: string }) =>
+      sendJson<Incident>(`/api/fleet/incidents/${encodeURIComponent(id)}`, update, "PATCH"),
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: ["fleet"] }),
+  });
+}
+
+/** Subscribe a URL; the response carries the (only visible) secret */
+export function useCreateWebhookMutation() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: (webhook: Omit<WebhookInput, "enabled"> & { enabled?: boolean }) =>
+      sendJson<WebhookSubscription>("/api/fleet/webhooks", webhook),
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: ["fleet"] }),
+  });
+}
+
+/** Change some fields of a subscription (e.g. enable/disable it) */
+export function useUpdateWebhookMutation() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: ({ id, ...changes }: Partial<WebhookInput> & { id: string }) =>
+      sendJson<WebhookSubscriptionView>(`/api/fleet/webhooks/${encodeURIComponent(id)}`, changes, "PATCH"),
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: ["fleet"] }),
+  });
+}
+
+/** Delete a subscription */
+export function useDeleteWebhookMutation() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: (id: string) =>
+      sendJson<{ deleted: string }>(`/api/fleet/webhooks/${encodeURIComponent(id)}`, undefined, "DELETE"),
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: ["fleet"] }),
+  });
+}
+
+/** Send a test payload to a subscription */
+export function useTestWebhookMutation() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: (id: string) =>
+      sendJson<WebhookDelivery>(`/api/fleet/webhooks/${encodeURIComponent(id)}/test`, {}),
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: ["fleet"] }),
+  });
+}
+
+/** Open a work order for a machine by hand */
+export function useCreateWorkOrderMutation() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: (input: WorkOrderInput) => sendJson<WorkOrder>("/api/fleet/work-orders", input),
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: ["fleet"] }),
+  });
+}
+
+/** Start or close a work order, assign a technician, add a part or a note */
+export function useUpdateWorkOrderMutation() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: ({ id, ...update }: WorkOrderUpdate & { id: string }) =>
+      sendJson<WorkOrder>(`/api/fleet/work-orders/${encodeURIComponent(id)}`, update, "PATCH"),
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: ["fleet"] }),
+  });
+}
+
+/** Queue a remote command for a machine */
+export function useSendCommandMutation() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: ({ machineId, ...input }: CommandInput & { machineId: string }) =>
+      sendJson<MachineCommand>(`/api/fleet/machines/${encodeURIComponent(machineId)}/commands`, input),
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: ["fleet"] }),
+  });
+}
+
+/** Add a firmware release */
+export function useCreateReleaseMutation() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: (input: ReleaseInput) => sendJson<FirmwareRelease>("/api/fleet/firmware/releases", input),
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: ["fleet"] }),
+  });
+}
+
+/** Start rolling a release out in waves */
+export function useStartRolloutMutation() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: (input: RolloutInput) => sendJson<FirmwareRollout>("/api/fleet/firmware/rollouts", input),
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: ["fleet"] }),
+  });
+}
+
+/** Pause, resume or roll back a rollout */
+export function useRolloutActionMutation() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: ({ id, ...action }: RolloutAction & { id: string }) =>
+      sendJson<FirmwareRollout>(`/api/fleet/firmware/rollouts/${encodeURIComponent(id)}`, action, "PATCH"),
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: ["fleet"] }),
+  });
+}
+
+/** Bring a new machine into service */
+export function useRegisterMachineMutation() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: (input: MachineRegistration) => sendJson<VendingMachine>("/api/fleet/machines", input),
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: ["fleet"] }),
+  });
+}
+
+/** Rename, relocate or decommission a machine */
+export function useChangeMachineMutation() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: ({ id, ...change }: MachineChange & { id: string }) =>
+      sendJson<MachineRecord>(`/api/fleet/machines/${encodeURIComponent(id)}`, change, "PATCH"),
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: ["fleet"] }),
+  });
+}
+
+/** Add a location (site details left out get the server's defaults) */
+export function useCreateLocationMutation() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: (input: Partial<LocationInput> & Pick<LocationInput, "name" | "city" | "lat" | "lng">) =>
+      sendJson<Location>("/api/fleet/locations", input),
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: ["fleet"] }),
+  });
+}
+
+/** Change some of a location's details (position, opening hours, host, …) */
+export function useUpdateLocationMutation() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: ({ id, ...input }: Partial<LocationInput> & { id: string }) =>
+      sendJson<Location>(`/api/fleet/locations/${encodeURIComponent(id)}`, input, "PATCH"),
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: ["fleet"] }),
+  });
+}
+
+/** Delete a location no machine is at */
+export function useDeleteLocationMutation() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: (id: string) =>
+      sendJson<{ deleted: string }>(`/api/fleet/locations/${encodeURIComponent(id)}`, undefined, "DELETE"),
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: ["fleet"] }),
+  });
+}
+
+/** Change which fault codes open work orders by themselves */
+export function useUpdateMaintenanceSettingsMutation() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: (settings: MaintenanceSettings) =>
+      sendJson<MaintenanceSettings>("/api/fleet/work-orders/settings", settings, "PUT"),
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: ["fleet"] }),
+  });
+}
+
+// ============================================================
+// LIVE PUSH STREAM
+// ============================================================
+
+/** Same caps as the server-side ring buffers */
+const MAX_CACHED_TRANSACTIONS = 200;
+const MAX_CACHED_EVENTS = 300;
+
+/** Prepend a pushed item to a cached list (newest first), skipping duplicates */
+function prependToCache<T extends { id: string }>(
+  queryClient: QueryClient,
+  queryKey: readonly unknown[],
+  item: T,
+  max: number
+) {
+  queryClient.setQueryData<T[]>(queryKey, (current) => {
+    // Nothing fetched yet – the initial fetch will include this item
+    if (!current) return current;
+    if (current.some(existing => existing.id === item.id)) return current;
+    return [item, ...current].slice(0, max);
+  });
+}
+
+/**
+ * Subscribe to `/api/fleet/stream` and merge pushed transactions and
+ * system events into the ["fleet", "transactions"] / ["fleet", "events"]
+ * caches. Call once, near the root (SimulationProvider does).
+ *
+ * RECONNECTING:
+ * EventSource reconnects on its own after a dropped connection and
+ * sends `Last-Event-ID`, so the server replays what we missed. If the
+ * browser gives up (readyState CLOSED) we open a new EventSource and
+ * pass the last id as `?lastEventId=` instead.
+ *
+ * A "reset" message (fleet reseeded, or we were away too long to
+ * replay) invalidates every fleet query.
+ */
+export function useFleetStream() {
+  const queryClient = useQueryClient();
+
+  useEffect(() => {
+    let source: EventSource | null = null;
+    let retryTimer: ReturnType<typeof setTimeout> | undefined;
+    let lastEventId: string | null = null;
+    let disposed = false;
+
+    const connect = () => {
+      const url = lastEventId
+        ? `/api/fleet/stream?lastEventId=${encodeURIComponent(lastEventId)}`
+        : "/api/fleet/stream";
+      source = new EventSource(url);
+
+      // A fresh connection (no id to resume from) may have missed items
+      // between the initial fetch and subscribing, so refetch once
+      source.addEventListener("open", () => {
+        if (lastEventId) return;
+        queryClient.invalidateQueries({ queryKey: ["fleet", "transactions"] });
+        queryClient.invalidateQueries({ queryKey: ["fleet", "events"] });
+      });
+
+      source.addEventListener("transaction", (message) => {
+        lastEventId = message.lastEventId;
+        const tx = parseJson<Transaction>(message.data);
+        prependToCache(queryClient, ["fleet", "transactions"], tx, MAX_CACHED_TRANSACTIONS);
+      });
+
+      source.addEventListener("event", (message) => {
+        lastEventId = message.lastEventId;
+        const ev = parseJson<SystemEvent>(message.data);
+        prependToCache(queryClient, ["fleet", "events"], ev, MAX_CACHED_EVENTS);
+      });
+
+      source.addEventListener("reset", (message) => {
+        lastEventId = message.lastEventId;
+        queryClient.invalidateQueries({ queryKey: ["fleet"] });
+      });
+
+      source.addEventListener("error", () => {
+        if (disposed || source?.readyState !== EventSource.CLOSED) return;
+        retryTimer = setTimeout(connect, 2_000);
+      });
+    };
+
+    connect();
+    return () => {
+      disposed = true;
+      clearTimeout(retryTimer);
+      source?.close();
+    };
+  }, [queryClient]);
+}
@@ -0,0 +1,80 @@
+/**
+ * ============================================================
+ * Vendral – Seedable Random Number Generator
+ * ============================================================
+ *
+ * Every "random" decision in the simulation (which machine sells,
+ * which product, whether a card is declined, which hardware fault
+ * fires) goes through an `Rng` function instead of `Math.random()`.
+ *
+ * WHY?
+ * `Math.random()` cannot be seeded, so no two sessions are alike.
+ * With a seeded generator the same seed produces the same fleet,
+ * the same transaction stream and the same events – which lets us
+ * reproduce a bug report or write stable tests.
+ *
+ * KEY CONCEPT: "Pluggable RNG"
+ * ----------------------------
+ * `Rng` is just a function returning a float in [0, 1) – the same
+ * contract as `Math.random`. Any generator that follows it can be
+ * plugged into the data generators and the simulation engine.
+ *
+ * ALGORITHM:
+ *   1. The seed string is hashed to a 32-bit integer (xmur3)
+ *   2. That integer drives a Mulberry32 generator – tiny, fast and
+ *      statistically good enough for a simulation
+ * ============================================================
+ */
+
+/** A random number source returning a float in [0, 1), like Math.random */
+export type Rng = () => number;
+
+/**
+ * Hash a seed string into a 32-bit unsigned integer (xmur3).
+ * Different strings give well-spread starting states.
+ */
+function hashSeed(seed: string): number {
+  let h = 1779033703 ^ seed.length;
+  for (let i = 0; i < seed.length; i++) {
+    h = Math.imul(h ^ seed.charCodeAt(i), 3432918353);
+    h = (h << 13) | (h >>> 19);
+  }
+  h = Math.imul(h ^ (h >>> 16), 2246822507);
+  h = Math.imul(h ^ (h >>> 13), 3266489909);
+  return (h ^= h >>> 16) >>> 0;
+}
+
+/**
+ * Create a deterministic RNG from a seed.
+ *
+ * USAGE:
+ * ```ts
+ * const rng = createRng("demo-42");
+ * rng(); // always the same first value for "demo-42"
+ * ```
+ */
+export function createRng(seed: string): Rng {
+  let a = hashSeed(seed);
+
+  // Mulberry32: one 32-bit state word, advanced on every call
+  return () => {
+    a = (a + 0x6d2b79f5) >>> 0;
+    let t = a;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/**
+ * Generate a fresh, human-friendly seed (e.g. "k3f9x2").
+ * Used when no seed is given so sessions still differ by default.
+ */
+export function generateSeed(): string {
+  return Math.random().toString(36).slice(2, 8);
+}
+
+/** Pick a uniformly random element from a non-empty array */
+export function pickRandom<T>(items: readonly T[], rng: Rng): T {
+  return items[Math.floor(rng() * items.length)];
+}
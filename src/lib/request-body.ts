@@ -0,0 +1,26 @@
+/**
+ * ============================================================
+ * Vendral – Request Bodies
+ * ============================================================
+ *
+ * Every API route that takes a body reads it the same way: a missing
+ * or malformed body counts as `{}` – every field absent – so the
+ * route's own checks say what's missing. A body that is valid JSON
+ * but not an object (`null`, an array, a number, a string) is
+ * rejected outright; `readJsonObject` returns null for it and the
+ * route answers with `notAnObject()`.
+ * ============================================================
+ */
+
+/** The request's JSON body, `{}` without one, null unless it's an object */
+export async function readJsonObject<T extends object = Record<string, unknown>>(
+  request: Request
+): Promise<T | null> {
+  const body: unknown = await request.json().catch(() => ({}));
+  return typeof body === "object" && body !== null && !Array.isArray(body) ? (body as T) : null;
+}
+
+/** 400 for a body that isn't a JSON object */
+export function notAnObject(): Response {
+  return Response.json({ error: "Request body must be a JSON object" }, { status: 400 });
+}
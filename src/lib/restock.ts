@@ -0,0 +1,268 @@
+/**
+ * ============================================================
+ * Vendral – Restock Run Planner
+ * ============================================================
+ *
+ * Turns the fleet's stock levels into a plan for the restock crew:
+ *
+ *   1. NEEDS:   every filled slot short of its capacity needs
+ *               `maxStock - stock` items (optionally only the slots
+ *               that are low or empty)
+ *   2. STOPS:   needs are grouped by location – one stop per
+ *               location, covering all of its machines
+ *   3. ROUTE:   stops are ordered nearest-first from the depot
+ *               ("nearest neighbour"), by estimated road distance
+ *   4. VEHICLES: the route is cut into consecutive legs, one per
+ *               van, so each van carries about the same number of
+ *               items, then each leg is re-ordered from the depot
+ *   5. PICK LIST: per van, the product totals to load at the depot
+ *               and, per stop and machine, which slot gets how many
+ *
+ * ROAD DISTANCE:
+ * We only have coordinates, so road distance is estimated as the
+ * great-circle distance ("as the crow flies", haversine formula)
+ * times a detour factor. Good enough to order a handful of stops.
+ *
+ * Pure functions over the machine list – used by `restock-run-view.tsx`
+ * with whatever machines the dashboard shows (live or historical).
+ * ============================================================
+ */
+
+import { getProductById, getStockLevel, type Location, type VendingMachine } from "./data";
+
+// ============================================================
+// TYPE DEFINITIONS
+// ============================================================
+
+/** Where every van is loaded and returns to */
+export interface Depot {
+  name: string;
+  city: string;
+  lat: number;
+  lng: number;
+}
+
+/** Which slots a run refills */
+export type RestockScope = "all" | "low";
+
+/** Top up one slot */
+export interface RestockSlotTask {
+  row: number;
+  col: number;
+  productId: string;
+  productName: string;
+  icon: string;
+  stock: number;
+  maxStock: number;
+  /** Items to put in (maxStock - stock) */
+  quantity: number;
+}
+
+/** One machine's share of a stop */
+export interface RestockMachineTask {
+  machineId: string;
+  machineName: string;
+  modelName: string;
+  slots: RestockSlotTask[];
+  items: number;
+}
+
+/** One location on a van's route */
+export interface RestockStop {
+  location: Location;
+  /** Road distance from the previous stop (or the depot) */
+  distanceKm: number;
+  machines: RestockMachineTask[];
+  items: number;
+}
+
+/** Product total to load onto a van */
+export interface RestockLoadItem {
+  productId: string;
+  productName: string;
+  icon: string;
+  quantity: number;
+}
+
+/** One van's run: route, load and pick list */
+export interface RestockVehicle {
+  name: string;
+  stops: RestockStop[];
+  load: RestockLoadItem[];
+  items: number;
+  /** Depot → stops → depot */
+  distanceKm: number;
+}
+
+export interface RestockRun {
+  depot: Depot;
+  scope: RestockScope;
+  vehicles: RestockVehicle[];
+  items: number;
+  distanceKm: number;
+}
+
+// ============================================================
+// CONSTANTS
+// ============================================================
+
+/** The warehouse the vans leave from (Sundahöfn, Reykjavík) */
+export const DEPOT: Depot = {
+  name: "Vendral Depot",
+  city: "Reykjavík",
+  lat: 64.1490,
+  lng: -21.8580,
+};
+
+/** Roads are longer than straight lines; a typical detour factor */
+const ROAD_FACTOR = 1.3;
+const EARTH_RADIUS_KM = 6371;
+
+// ============================================================
+// DISTANCE
+// ============================================================
+
+/** Great-circle distance between two points (haversine formula) */
+function greatCircleKm(a: { lat: number; lng: number }, b: { lat: number; lng: number }): number {
+  const rad = (deg: number) => (deg * Math.PI) / 180;
+  const dLat = rad(b.lat - a.lat);
+  const dLng = rad(b.lng - a.lng);
+  const h = Math.sin(dLat / 2) ** 2 +
+    Math.cos(rad(a.lat)) * Math.cos(rad(b.lat)) * Math.sin(dLng / 2) ** 2;
+  return 2 * EARTH_RADIUS_KM * Math.asin(Math.sqrt(h));
+}
+
+/** Estimated road distance in km */
+export function roadDistanceKm(a: { lat: number; lng: number }, b: { lat: number; lng: number }): number {
+  return greatCircleKm(a, b) * ROAD_FACTOR;
+}
+
+// ============================================================
+// PLANNING
+// ============================================================
+
+/** What one machine needs, or null if nothing */
+function machineTask(machine: VendingMachine, scope: RestockScope): RestockMachineTask | null {
+  const slots: RestockSlotTask[] = [];
+  for (const slot of machine.planogram) {
+    if (!slot.productId || slot.stock >= slot.maxStock) continue;
+    if (scope === "low" && getStockLevel(slot) === "ok") continue;
+
+    const product = getProductById(slot.productId);
+    slots.push({
+      row: slot.row,
+      col: slot.col,
+      productId: slot.productId,
+      productName: product?.name ?? slot.productId,
+      icon: product?.icon ?? "📦",
+      stock: slot.stock,
+      maxStock: slot.maxStock,
+      quantity: slot.maxStock - slot.stock,
+    });
+  }
+  if (slots.length === 0) return null;
+
+  return {
+    machineId: machine.id,
+    machineName: machine.name,
+    modelName: machine.model.name,
+    slots,
+    items: slots.reduce((sum, s) => sum + s.quantity, 0),
+  };
+}
+
+/** Order stops nearest-first starting at the depot, filling in leg distances */
+function orderStops(stops: RestockStop[], depot: Depot): RestockStop[] {
+  const remaining = [...stops];
+  const ordered: RestockStop[] = [];
+  let here: { lat: number; lng: number } = depot;
+
+  while (remaining.length > 0) {
+    let nearest = 0;
+    for (let i = 1; i < remaining.length; i++) {
+      if (roadDistanceKm(here, remaining[i].location) < roadDistanceKm(here, remaining[nearest].location)) {
+        nearest = i;
+      }
+    }
+    const [stop] = remaining.splice(nearest, 1);
+    ordered.push({ ...stop, distanceKm: roadDistanceKm(here, stop.location) });
+    here = stop.location;
+  }
+  return ordered;
+}
+
+/** Product totals across a van's stops, largest first */
+function loadList(stops: RestockStop[]): RestockLoadItem[] {
+  const totals = new Map<string, RestockLoadItem>();
+  for (const task of stops.flatMap(stop => stop.machines).flatMap(m => m.slots)) {
+    const item = totals.get(task.productId) ??
+      { productId: task.productId, productName: task.productName, icon: task.icon, quantity: 0 };
+    item.quantity += task.quantity;
+    totals.set(task.productId, item);
+  }
+  return [...totals.values()].sort((a, b) => b.quantity - a.quantity || a.productName.localeCompare(b.productName));
+}
+
+/** A van serving `stops` (re-ordered from the depot) */
+function buildVehicle(name: string, stops: RestockStop[], depot: Depot): RestockVehicle {
+  const route = orderStops(stops, depot);
+  const last = route[route.length - 1];
+  return {
+    name,
+    stops: route,
+    load: loadList(route),
+    items: route.reduce((sum, s) => sum + s.items, 0),
+    distanceKm: route.reduce((sum, s) => sum + s.distanceKm, 0) +
+      (last ? roadDistanceKm(last.location, depot) : 0),
+  };
+}
+
+/**
+ * Plan a restock run for `machines` with up to `vehicleCount` vans.
+ * Fewer vans are used when there are fewer stops than vans.
+ */
+export function planRestockRun(
+  machines: VendingMachine[],
+  { scope = "all", vehicleCount = 1, depot = DEPOT }:
+    { scope?: RestockScope; vehicleCount?: number; depot?: Depot } = {}
+): RestockRun {
+  // 1 + 2: needs per machine, grouped into one stop per location
+  const byLocation = new Map<string, RestockStop>();
+  for (const machine of machines) {
+    const task = machineTask(machine, scope);
+    if (!task) continue;
+    const stop = byLocation.get(machine.location.id) ??
+      { location: machine.location, distanceKm: 0, machines: [], items: 0 };
+    stop.machines.push(task);
+    stop.items += task.items;
+    byLocation.set(machine.location.id, stop);
+  }
+
+  // 3: one route through every stop
+  const route = orderStops([...byLocation.values()], depot);
+
+  // 4: cut it into consecutive legs of about equal items per van
+  const vans = Math.max(1, Math.min(vehicleCount, route.length));
+  const totalItems = route.reduce((sum, s) => sum + s.items, 0);
+  const legs: RestockStop[][] = Array.from({ length: vans }, () => []);
+  let carried = 0;
+  route.forEach((stop, i) => {
+    // Each van takes its share; the last stops always find a van
+    const byLoad = Math.floor((carried / Math.max(1, totalItems)) * vans);
+    const van = Math.max(Math.min(byLoad, vans - 1), vans - (route.length - i));
+    legs[van].push(stop);
+    carried += stop.items;
+  });
+
+  const vehicles = legs
+    .filter(leg => leg.length > 0)
+    .map((leg, i) => buildVehicle(`Van ${i + 1}`, leg, depot));
+
+  return {
+    depot,
+    scope,
+    vehicles,
+    items: totalItems,
+    distanceKm: vehicles.reduce((sum, v) => sum + v.distanceKm, 0),
+  };
+}
@@ -8,21 +8,45 @@
  *
  * HOW THIS WORKS:
  * 1. SimulationProvider wraps the entire app (in layout.tsx)
- * 2. It starts the simulation on mount and stops on unmount
+ * 2. It reads the shared, server-side fleet through the TanStack
+ *    Query hooks in `queries.ts` (which fetch `/api/fleet/*`)
  * 3. Any child component can call useSimulation() to get:
  *    - machines: the current list of vending machines
+ *    - locations: where machines can be (operators add and edit them)
  *    - transactions: recent sales events
  *    - events: system/hardware events
  *    - fleetStats: computed KPIs (total revenue, alerts, etc.)
  *    - And more!
  *
- * The state re-renders on a regular interval (1 second) to keep
- * the UI responsive without re-rendering on every single event.
+ * Most queries refresh on their own `refetchInterval`; transactions and
+ * events are pushed over Server-Sent Events instead (`useFleetStream`),
+ * so consumers re-render the moment something happens. Until the first
+ * response lands, empty defaults are provided so components never see
+ * undefined.
+ *
+ * SEEDING:
+ * Opening the dashboard with `?seed=demo` restarts the shared fleet
+ * from that seed (if it isn't already running it). The seed can also
+ * be changed from the Settings page via `reseed()`, which keeps the
+ * URL in sync so the link is shareable.
+ *
+ * VIRTUAL CLOCK:
+ * `clock` exposes the simulation's virtual time, speed and pause state,
+ * with `setSpeed`, `pause`, `resume` and `step` to control it. Always
+ * use `clock.time` (not `new Date()`) for "now" in the UI.
+ *
+ * HISTORICAL MODE:
+ * `setHistoryRange({ from, to })` switches every view to stored
+ * history: machines, stats, charts and feeds then describe the fleet
+ * over that range (see `getFleetAt` on the server), and `viewTime`
+ * becomes the end of the range. `setHistoryRange(null)` goes back to
+ * live. Components that fetch on their own should anchor to
+ * `viewTime` / `historyRange` instead of the clock.
  * ============================================================
  */
 
 "use client"; // This directive tells Next.js this is a Client Component
-             // (it uses browser APIs like setInterval, state, effects)
+             // (it uses browser APIs like state, effects and fetch)
 
 import React, {
   createContext,
@@ -33,19 +57,32 @@ import React, {
   useRef,
 } from "react";
 import {
-  getSimulationState,
-  startSimulation,
-  stopSimulation,
-  getFleetStats,
-  getHourlyData,
-  getTopProducts,
-  getBottomProducts,
-  getSalesHeatmap,
-} from "./simulation";
-import type {
-  VendingMachine,
-  Transaction,
-  SystemEvent,
+  useFleetStatsQuery,
+  useHourlyDataQuery,
+  useTopProductsQuery,
+  useBottomProductsQuery,
+  useMachinesQuery,
+  useLocationsQuery,
+  useTransactionsQuery,
+  useEventsQuery,
+  useSimulationInfoQuery,
+  useFleetStream,
+  useFleetHistoryQuery,
+  useReseedMutation,
+  useClockMutation,
+  type FleetStats,
+  type HourlyData,
+  type TopProducts,
+  type BottomProducts,
+  type DateRange,
+} from "./queries";
+import type { ClockSnapshot, ClockSpeed } from "./clock";
+import {
+  LOCATIONS,
+  type VendingMachine,
+  type Location,
+  type Transaction,
+  type SystemEvent,
 } from "./data";
 
 // ============================================================
@@ -54,85 +91,184 @@ import type {
 // This defines the "shape" of data available to all components.
 
 interface SimulationContextType {
-  /** All 20 vending machines with current state */
+  /** Every vending machine in service, with current state */
   machines: VendingMachine[];
+  /** Every location machines can be placed at */
+  locations: Location[];
   /** Recent transactions (up to 200) */
   transactions: Transaction[];
   /** Recent system events (up to 300) */
   events: SystemEvent[];
   /** Computed fleet KPIs */
-  fleetStats: ReturnType<typeof getFleetStats>;
+  fleetStats: FleetStats;
   /** 24-hour revenue + traffic data for charts */
-  hourlyData: ReturnType<typeof getHourlyData>;
+  hourlyData: HourlyData;
   /** Top 5 selling products */
-  topProducts: ReturnType<typeof getTopProducts>;
+  topProducts: TopProducts;
   /** Bottom 5 selling products (dead stock) */
-  bottomProducts: ReturnType<typeof getBottomProducts>;
-  /** Sales heatmap data (hour × day) */
-  salesHeatmap: ReturnType<typeof getSalesHeatmap>;
+  bottomProducts: BottomProducts;
   /** Currently selected machine for drill-down (null = fleet view) */
   selectedMachine: VendingMachine | null;
   /** Function to select a machine for drill-down */
   selectMachine: (machine: VendingMachine | null) => void;
-  /** Increments on every tick for forcing re-renders */
-  tick: number;
+  /** Seed of the running simulation (same seed = same session) */
+  seed: string;
+  /**
+   * Restart the simulation from a seed (omit for a random one);
+   * `replay` starts it over instead of resuming its history
+   */
+  reseed: (seed?: string, replay?: boolean) => void;
+  /** Virtual clock: current simulated time, speed and pause state */
+  clock: ClockSnapshot;
+  /** Change the time-acceleration factor */
+  setSpeed: (speed: ClockSpeed) => void;
+  /** Pause / resume the virtual clock */
+  pause: () => void;
+  resume: () => void;
+  /** Run exactly the next scheduled transaction or event */
+  step: () => void;
+  /** Range shown in historical mode (null = live) */
+  historyRange: DateRange | null;
+  /** Switch to historical mode, or back to live with null */
+  setHistoryRange: (range: DateRange | null) => void;
+  /**
+   * When the historical machine state was captured: null when live or
+   * when no snapshot is that old, undefined while it's loading
+   */
+  snapshotTime: Date | null | undefined;
+  /** The moment the views describe: clock.time live, the range end otherwise */
+  viewTime: Date;
+  /** What revenue/transaction totals cover: "Today" live, "In Range" otherwise */
+  periodLabel: string;
 }
 
 // Create the context with a default value of null
 // (it will always be provided by SimulationProvider)
 const SimulationContext = createContext<SimulationContextType | null>(null);
 
+// ============================================================
+// EMPTY DEFAULTS (used until the first API response arrives)
+// ============================================================
+// Declared at module level so their identity is stable across renders.
+
+const NO_MACHINES: VendingMachine[] = [];
+const NO_TRANSACTIONS: Transaction[] = [];
+const NO_EVENTS: SystemEvent[] = [];
+const NO_HOURLY_DATA: HourlyData = [];
+const NO_TOP_PRODUCTS: TopProducts = [];
+const NO_BOTTOM_PRODUCTS: BottomProducts = [];
+
+const EMPTY_FLEET_STATS: FleetStats = {
+  total: 0,
+  online: 0,
+  warning: 0,
+  error: 0,
+  offline: 0,
+  totalRevenue: 0,
+  totalTransactions: 0,
+  atv: 0,
+  criticalAlerts: 0,
+  lowStockSlots: 0,
+  incidents: { open: 0, snoozed: 0, ttaMinutes: null, ttrMinutes: null },
+};
+
+const INITIAL_CLOCK: ClockSnapshot = { time: new Date(), speed: 1, paused: false };
+
 // ============================================================
 // PROVIDER COMPONENT
 // ============================================================
 
 export function SimulationProvider({ children }: { children: React.ReactNode }) {
-  // `tick` is a counter that increments every second.
-  // When it changes, all consumers re-render with fresh data.
-  const [tick, setTick] = useState(0);
   const [selectedMachine, setSelectedMachine] = useState<VendingMachine | null>(null);
-  const tickRef = useRef(0);
+  const [historyRange, setHistoryRange] = useState<DateRange | null>(null);
 
-  useEffect(() => {
-    // Start the simulation engine
-    startSimulation();
-
-    // Set up a 1-second refresh interval
-    // This is intentionally slower than event generation to batch updates
-    const refreshInterval = setInterval(() => {
-      tickRef.current += 1;
-      setTick(tickRef.current);
-    }, 1000);
-
-    // Cleanup: stop simulation and interval when component unmounts
-    return () => {
-      stopSimulation();
-      clearInterval(refreshInterval);
-    };
-  }, []); // Empty dependency array = run once on mount
+  // Live transactions + events, pushed straight into the query cache
+  useFleetStream();
+
+  // Server-side fleet data via TanStack Query (polled, or fed by the stream)
+  const { data: machines = NO_MACHINES } = useMachinesQuery();
+  // The generated locations until the server answers (they rarely change)
+  const { data: locations = LOCATIONS } = useLocationsQuery();
+  const { data: transactions = NO_TRANSACTIONS } = useTransactionsQuery();
+  const { data: events = NO_EVENTS } = useEventsQuery();
+  const { data: fleetStats = EMPTY_FLEET_STATS } = useFleetStatsQuery();
+  const { data: hourlyData = NO_HOURLY_DATA } = useHourlyDataQuery();
+  const { data: topProducts = NO_TOP_PRODUCTS } = useTopProductsQuery(10);
+  const { data: bottomProducts = NO_BOTTOM_PRODUCTS } = useBottomProductsQuery(5);
+  const { data: info } = useSimulationInfoQuery();
+  const { data: past } = useFleetHistoryQuery(historyRange);
+
+  // `mutate` functions are stable, so they're safe in dependency arrays
+  const { mutate: reseedFleet } = useReseedMutation();
+  const { mutate: controlClock } = useClockMutation();
 
   // useCallback memoizes the function so it doesn't cause unnecessary re-renders
   const selectMachine = useCallback((machine: VendingMachine | null) => {
     setSelectedMachine(machine);
   }, []);
 
-  // Get current state snapshot
-  const state = getSimulationState();
+  /**
+   * Restart the shared simulation from a seed and mirror the
+   * resulting seed into the URL (replaceState, so the back button
+   * isn't polluted).
+   */
+  const reseed = useCallback((seed?: string, replay?: boolean) => {
+    reseedFleet({ seed, replay }, {
+      onSuccess: (next) => {
+        const url = new URL(window.location.href);
+        url.searchParams.set("seed", next.seed);
+        window.history.replaceState(null, "", url);
+        setSelectedMachine(null);
+        setHistoryRange(null); // A new seed has its own history
+      },
+    });
+  }, [reseedFleet]);
+
+  // A `?seed=` query parameter makes the session reproducible.
+  // Checked once, after we know which seed the server is running.
+  const urlSeedChecked = useRef(false);
+  useEffect(() => {
+    if (urlSeedChecked.current || !info) return;
+    urlSeedChecked.current = true;
+
+    const urlSeed = new URLSearchParams(window.location.search).get("seed");
+    if (urlSeed && urlSeed !== info.seed) reseed(urlSeed);
+  }, [info, reseed]);
+
+  const setSpeed = useCallback((speed: ClockSpeed) => controlClock({ speed }), [controlClock]);
+  const pause = useCallback(() => controlClock({ paused: true }), [controlClock]);
+  const resume = useCallback(() => controlClock({ paused: false }), [controlClock]);
+  const step = useCallback(() => controlClock({ step: true }), [controlClock]);
+
+  const clock = info?.clock ?? INITIAL_CLOCK;
 
   // Build the context value
-  // We compute all derived data here so components just consume it
+  // All derived data is computed on the server so components just consume it.
+  // In historical mode the data fields come from the stored-history query
+  // (empty while it loads, never a mix of live and past).
   const value: SimulationContextType = {
-    machines: state.machines,
-    transactions: state.transactions,
-    events: state.events,
-    fleetStats: getFleetStats(),
-    hourlyData: getHourlyData(),
-    topProducts: getTopProducts(10),
-    bottomProducts: getBottomProducts(5),
-    salesHeatmap: getSalesHeatmap(),
+    machines: historyRange ? past?.machines ?? NO_MACHINES : machines,
+    locations,
+    transactions: historyRange ? past?.transactions ?? NO_TRANSACTIONS : transactions,
+    events: historyRange ? past?.events ?? NO_EVENTS : events,
+    fleetStats: historyRange ? past?.fleetStats ?? EMPTY_FLEET_STATS : fleetStats,
+    hourlyData: historyRange ? past?.hourlyData ?? NO_HOURLY_DATA : hourlyData,
+    topProducts: historyRange ? past?.topProducts ?? NO_TOP_PRODUCTS : topProducts,
+    bottomProducts: historyRange ? past?.bottomProducts ?? NO_BOTTOM_PRODUCTS : bottomProducts,
     selectedMachine,
     selectMachine,
-    tick,
+    seed: info?.seed ?? "",
+    reseed,
+    clock,
+    setSpeed,
+    pause,
+    resume,
+    step,
+    historyRange,
+    setHistoryRange,
+    snapshotTime: historyRange ? past?.snapshotTime : null,
+    viewTime: historyRange?.to ?? clock.time,
+    periodLabel: historyRange ? "In Range" : "Today",
   };
 
   return (
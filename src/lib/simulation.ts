@@ -3,33 +3,211 @@
  * Vendral – Real-Time Simulation Engine
  * ============================================================
  *
- * This module creates a singleton simulation that runs on intervals
- * and produces realistic vending machine activity:
+ * This module creates a singleton simulation that runs on the SERVER
+ * (behind the `/api/fleet/*` route handlers) and produces realistic
+ * vending machine activity:
  *
- *   • Sales transactions every 2-5 seconds
- *   • Hardware/stock events every 5-15 seconds
+ *   • Sales transactions every 2-4 (virtual) seconds
+ *   • Hardware/stock events every 5-10 (virtual) seconds
  *   • Terminal log messages continuously
  *
  * ARCHITECTURE PATTERN: "Event Emitter with Callbacks"
  * ---------------------------------------------------
- * Instead of using WebSockets (which would need a server),
- * we use setInterval + callback functions. Components subscribe
- * to updates via the `onTransaction` and `onEvent` callbacks.
+ * A setInterval loop generates activity and notifies subscribers
+ * via the `onTransaction` and `onSystemEvent` callbacks.
+ *
+ * Because the singleton lives in the Next.js server process, every
+ * browser tab (and every team member) sees the same fleet. Client
+ * code must never import this module at runtime – it fetches the
+ * API routes through the hooks in `src/lib/queries.ts` instead.
  *
  * In a real Vendral system, these events would come via MQTT
  * or WebSocket from the IoT backend.
+ *
+ * DETERMINISM:
+ * All randomness flows through `state.rng`, a seeded generator from
+ * `src/lib/random.ts`. `resetSimulation({ seed: "my-seed" })`
+ * rebuilds the fleet so the same seed replays the same fleet,
+ * transactions and events. Never call Math.random() in this file.
+ *
+ * VIRTUAL TIME:
+ * Likewise, never call `new Date()` here – every timestamp comes from
+ * `state.clock` (see `src/lib/clock.ts`). A single real-time loop
+ * advances the clock by `elapsed × speed` and fires every transaction
+ * and event whose scheduled virtual time has come, so 3600× replays
+ * an hour of trading per second and pause/step work naturally.
+ *
+ * What needs a look at the whole fleet – alert rules, due commands,
+ * planograms and deliveries, expired stock, firmware rollouts – runs
+ * once per virtual minute as an occurrence of its own (see
+ * `runFleetChecks`), not after every sale: at 3600× that is 15 sweeps
+ * per tick instead of several hundred, and just as deterministic.
+ *
+ * HISTORY:
+ * `state.transactions` / `state.events` are small ring buffers for the
+ * live views. Every record is also appended to `state.history` (see
+ * `src/lib/history-store.ts`), which keeps the full history on disk.
+ * Restarting with the same seed resumes from it: IDs and the virtual
+ * clock continue where they stopped and today's machine totals are
+ * rebuilt from the stored transactions.
+ *
+ * That is on purpose – a seed names one ongoing fleet, which a server
+ * restart shouldn't wipe – but it means only a seed WITHOUT stored
+ * history replays the session from the start. To replay one,
+ * `resetSimulation({ seed, replay: true })` deletes its history
+ * first. A new history's clock always starts at SIMULATION_EPOCH,
+ * so the replay matches the first run record for record.
+ *
+ * Once per virtual hour the whole fleet is snapshotted into the
+ * history too, which is what `getFleetAt` (historical mode) replays.
+ * Saved planograms are restored from the newest snapshot on resume;
+ * their version history is kept in the "planograms" document.
+ *
+ * STOCK:
+ * Sales take units out of slots; the only way back in is a stock
+ * transfer from the central warehouse (see the WAREHOUSE section),
+ * kept in the "warehouse" document. Perishable units expire and are
+ * written off as waste (see the WASTE section).
  * ============================================================
  */
 
 import {
   VendingMachine,
+  Location,
+  PlanogramSlot,
   Transaction,
   SystemEvent,
   generateMachines,
+  createMachine,
   weightedRandomProduct,
   getProductById,
+  getStockLevel,
+  formatISK,
   PRODUCTS,
+  LOCATIONS,
+  FIRMWARE_VERSIONS,
 } from "./data";
+import { type Rng, createRng, generateSeed, pickRandom } from "./random";
+import {
+  type ClockSpeed,
+  type ClockSnapshot,
+  type SimulationClock,
+  createSimulationClock,
+} from "./clock";
+import { type HistoryStore, createHistoryStore, discardHistory } from "./history-store";
+import {
+  type PlanogramVersion,
+  type PlanogramVersionInput,
+  applyPlanogram,
+  validatePlanogram,
+  countChangedSlots,
+  toLayout,
+} from "./planogram";
+import {
+  type WarehouseState,
+  type WarehouseItem,
+  type StockTransfer,
+  type StockTransferLine,
+  type PurchaseOrder,
+  type StockCount,
+  type Reconciliation,
+  SUPPLIER_LEAD_TIME_MS,
+  getAvailable,
+  reconcileStock,
+  totalsByProduct,
+} from "./warehouse";
+import { type WasteRecord, addUnits, removeUnits, setUnits, takeExpired } from "./expiry";
+import {
+  type DemandModel,
+  FORECAST_LOOKBACK_DAYS,
+  RESTOCK_INTERVAL_HOURS,
+  forecastMachine,
+  learnDemand,
+} from "./forecast";
+import { suggestPlanogram } from "./planogram-optimizer";
+import {
+  type Alert,
+  type AlertCondition,
+  type AlertRule,
+  type AlertRuleInput,
+  ALERT_EVENT_CODE,
+  DEFAULT_ALERT_RULES,
+  breaksThreshold,
+  describeCondition,
+  isWithinActiveHours,
+} from "./alert-rules";
+import {
+  type Incident,
+  type IncidentUpdate,
+  MAX_INCIDENT_ALERT_IDS,
+  SEVERITY_RANK,
+  incidentMetrics,
+  formatMinutes,
+} from "./incidents";
+import {
+  type WebhookDelivery,
+  type WebhookEventType,
+  type WebhookInput,
+  type WebhookSubject,
+  type WebhookSubscription,
+  type WebhookSubscriptionView,
+  eventSeverity,
+  matchesWebhookFilters,
+} from "./webhooks";
+import { deliverWebhook, generateSecret } from "./webhook-dispatcher";
+import {
+  type MaintenanceSettings,
+  type WorkOrder,
+  type WorkOrderInput,
+  type WorkOrderUpdate,
+  DEFAULT_MAINTENANCE_SETTINGS,
+  MAX_WORK_ORDER_EVENT_IDS,
+  REPAIRED_TEMPERATURE,
+  componentLabel,
+  faultComponent,
+  statusFromHardware,
+} from "./work-orders";
+import {
+  type CommandInput,
+  type MachineCommand,
+  ACK_DELAY_SECONDS,
+  COMMAND_KINDS,
+  COMMAND_TIMEOUT_MINUTES,
+  commandLabel,
+  isCommandPending,
+  isSlotLocked,
+  slotLabel,
+} from "./commands";
+import {
+  type FirmwareRelease,
+  type FirmwareRollout,
+  type ReleaseInput,
+  type RolloutAction,
+  type RolloutInput,
+  type RolloutTarget,
+  type RolloutWave,
+  MAX_ROLLOUTS,
+  isRolloutActive,
+  latestRelease,
+  compareVersions,
+  rolloutHealth,
+} from "./firmware";
+import type { LocationInput, MachineChange, MachineRecord, MachineRegistration } from "./fleet-admin";
+import { isLocationOpen, openMinutesBetween, withSiteDetails } from "./locations";
+import {
+  DECLINE_REASONS,
+  failureReasonLabel,
+  paymentDetails,
+  paymentMethodLabel,
+  paymentFailureChance,
+  pickFailureReason,
+  pickPaymentMethod,
+  summarizePayments,
+} from "./payments";
+import { MACHINE_MODELS, getMachineModel } from "./machine-models";
+
+const HOUR_MS = 3_600_000;
+const MINUTE_MS = 60_000;
 
 // ============================================================
 // SIMULATION STATE
@@ -37,7 +215,12 @@ import {
 
 /** Singleton state – all machines and accumulated data */
 interface SimulationState {
+  /** Machines in service (decommissioned ones are only in `machineRecords`) */
   machines: VendingMachine[];
+  /** Where machines can be (persisted in the "fleet" document) */
+  locations: Location[];
+  /** Every machine ever in the fleet (persisted in the "fleet" document) */
+  machineRecords: MachineRecord[];
   transactions: Transaction[];
   events: SystemEvent[];
   /** Hourly revenue data for the last 24 hours */
@@ -48,251 +231,3046 @@ interface SimulationState {
   txCounter: number;
   evCounter: number;
   isRunning: boolean;
+  /** Seed the RNG was created from (shown in Settings, shareable via URL) */
+  seed: string;
+  /** The random source every simulation decision is drawn from */
+  rng: Rng;
+  /**
+   * How customers pay and why payments fail – a stream of its own, so
+   * a seed's sales stay what they were before payment methods existed
+   */
+  paymentRng: Rng;
+  /** Virtual clock – the only source of "now" in the simulation */
+  clock: SimulationClock;
+  /** Virtual time (ms) of the next scheduled transaction */
+  nextTxAt: number;
+  /** Virtual time (ms) of the next scheduled system event */
+  nextEvAt: number;
+  /** Virtual time (ms) of the next fleet check (on the minute) */
+  nextCheckAt: number;
+  /** Full transaction + event history on disk (per seed) */
+  history: HistoryStore;
+  /**
+   * Documents changed since the last flush, by name, with what to
+   * write – the busy ones (alerts, incidents, …) change many times a
+   * tick at high speed and are written once per tick instead
+   */
+  dirtyDocuments: Map<string, () => unknown>;
+  /** Every planogram version of every machine (persisted as a document) */
+  planograms: PlanogramVersion[];
+  /** Central warehouse inventory, transfers and counts (persisted as a document) */
+  warehouse: WarehouseState;
+  /** Expired units written off, oldest first (persisted as a document) */
+  waste: WasteRecord[];
+  /** Learned demand, rebuilt at most once per virtual hour */
+  demand: { hour: number; model: DemandModel } | null;
+  /** Operator-defined alert rules (persisted as a document) */
+  alertRules: AlertRule[];
+  /** Alerts the rules fired, newest first (persisted as a document) */
+  alerts: Alert[];
+  /** Rule evaluation bookkeeping (in memory only) */
+  alerting: AlertingState;
+  /** Alerts grouped per machine, newest first (persisted as a document) */
+  incidents: Incident[];
+  /** Repairs and which fault codes open them (both persisted as documents) */
+  maintenance: {
+    /** Newest first */
+    workOrders: WorkOrder[];
+    settings: MaintenanceSettings;
+  };
+  /** Remote commands to machines, newest first (persisted as a document) */
+  commands: MachineCommand[];
+  /** Firmware releases and rollouts, newest first (persisted as a document) */
+  firmware: { releases: FirmwareRelease[]; rollouts: FirmwareRollout[] };
+  /** Webhook subscriptions (persisted) and their delivery log (in memory) */
+  webhooks: {
+    subscriptions: WebhookSubscription[];
+    /** Newest first */
+    deliveries: WebhookDelivery[];
+    /** Numbers the delivery ids */
+    counter: number;
+  };
+}
+
+/**
+ * What rule evaluation remembers between checks, by "ruleId|machineId".
+ * Lost on restart: durations and event counts simply start over.
+ */
+interface AlertingState {
+  /** Since when (ms) a condition has held without a break */
+  since: Record<string, number>;
+  /** When (ms) the rule last fired for the machine (for the cooldown) */
+  lastFired: Record<string, number>;
+  /** Times (ms) of matching events / declined payments not yet alerted on */
+  hits: Record<string, number[]>;
+  /**
+   * Open minutes since each machine's last sale, by machine id –
+   * counted up as time passes instead of recounted on every check
+   */
+  quiet: Record<string, { lastSale: number; location: Location; at: number; minutes: number }>;
+  /** Numbers the alert ids */
+  counter: number;
+}
+
+/** Options for (re)creating the simulation */
+export interface SimulationOptions {
+  /** Seed for the default generator – same seed, same simulation */
+  seed?: string;
+  /** Plug in a custom generator instead of the seeded default */
+  rng?: Rng;
+  /**
+   * Replay the seed from its first moment: delete its stored history
+   * instead of resuming it (default false)
+   */
+  replay?: boolean;
+}
+
+/**
+ * Everything that must exist exactly once per server process.
+ *
+ * WHY globalThis?
+ * Next.js bundles each route handler separately and re-evaluates
+ * modules on hot reload, so a plain module-level `let state` could
+ * exist several times – giving each API route its own fleet. Hanging
+ * the runtime off `globalThis` guarantees a single shared instance.
+ */
+interface SimulationRuntime {
+  state: SimulationState | null;
+  /** Interval handle of the simulation loop so we can clean up */
+  loopInterval: ReturnType<typeof setInterval> | null;
+  txCallbacks: TransactionCallback[];
+  evCallbacks: EventCallback[];
+  updateCallbacks: UpdateCallback[];
+  resetCallbacks: ResetCallback[];
 }
 
-// We keep a single global state so all components share the same data
-let state: SimulationState | null = null;
+const globalForSimulation = globalThis as typeof globalThis & {
+  vendralSimulation?: SimulationRuntime;
+};
+
+const runtime: SimulationRuntime = (globalForSimulation.vendralSimulation ??= {
+  state: null,
+  loopInterval: null,
+  txCallbacks: [],
+  evCallbacks: [],
+  updateCallbacks: [],
+  resetCallbacks: [],
+});
 
 /**
  * Get or initialize the simulation state.
  * This uses the "lazy singleton" pattern – the state is created
- * only when first requested.
+ * only when first requested. The initial seed can be pinned with
+ * the VENDRAL_SEED environment variable.
  */
 export function getSimulationState(): SimulationState {
-  if (!state) {
-    // Generate initial 24-hour data for charts
-    const hourlyRevenue = Array.from({ length: 24 }, (_, hour) => {
-      // Revenue follows a realistic daily pattern:
-      // Low at night, peaks at lunch (12) and afternoon (16)
-      const base = 25000;
-      const lunchPeak = hour >= 11 && hour <= 14 ? 45000 : 0;
-      const afternoonPeak = hour >= 15 && hour <= 17 ? 30000 : 0;
-      const nightDip = hour >= 0 && hour <= 6 ? -20000 : 0;
-      return Math.max(5000, base + lunchPeak + afternoonPeak + nightDip + (Math.random() * 15000));
-    });
+  if (!runtime.state) {
+    runtime.state = createSimulationState({ seed: process.env.VENDRAL_SEED || undefined });
+    loadInitialActivity();
+  }
+  return runtime.state;
+}
 
-    const hourlyTraffic = hourlyRevenue.map((rev) =>
-      Math.floor(rev / (400 + Math.random() * 200))
-    );
+/**
+ * Get the simulation state, starting the loop on first use.
+ * API route handlers call this so the fleet comes alive on the
+ * first request without any extra bootstrapping.
+ */
+export function ensureSimulationRunning(): SimulationState {
+  const s = getSimulationState();
+  if (!s.isRunning) startSimulation();
+  return s;
+}
 
-    state = {
-      machines: generateMachines(),
-      transactions: [],
-      events: [],
-      hourlyRevenue,
-      hourlyTraffic,
-      txCounter: 0,
-      evCounter: 0,
-      isRunning: false,
-    };
+/**
+ * Where a new history's virtual clock starts: Monday 6 January 2025,
+ * 08:00 local time. Fixed rather than the wall clock, so the batch
+ * use-by dates, opening hours and everything else a seed generates
+ * are the same whenever it is first started.
+ */
+const SIMULATION_EPOCH = new Date(2025, 0, 6, 8, 0).getTime();
+
+/**
+ * Build a fresh simulation state.
+ * The order of rng() calls here is part of the "same seed, same
+ * fleet" contract – reordering them changes every seeded session.
+ *
+ * If this seed already has stored history (and `replay` isn't set),
+ * the ID counters and the virtual clock continue from it so records
+ * never collide and time never runs backwards within one history.
+ * The session then goes on from there rather than replaying the seed
+ * (see HISTORY above).
+ */
+function createSimulationState(options: SimulationOptions): SimulationState {
+  const seed = options.seed ?? generateSeed();
+  const rng = options.rng ?? createRng(seed);
+  if (options.replay) discardHistory(seed);
+  const history = createHistoryStore(seed);
+  const cursor = history.cursor();
+  const clock = createSimulationClock(cursor?.time ?? SIMULATION_EPOCH);
+  const start = clock.now().getTime();
+
+  const machines = generateMachines(rng, start);
+
+  // Generate initial 24-hour data for charts
+  const hourlyRevenue = Array.from({ length: 24 }, (_, hour) => {
+    // Revenue follows a realistic daily pattern:
+    // Low at night, peaks at lunch (12) and afternoon (16)
+    const base = 25000;
+    const lunchPeak = hour >= 11 && hour <= 14 ? 45000 : 0;
+    const afternoonPeak = hour >= 15 && hour <= 17 ? 30000 : 0;
+    const nightDip = hour >= 0 && hour <= 6 ? -20000 : 0;
+    return Math.max(5000, base + lunchPeak + afternoonPeak + nightDip + (rng() * 15000));
+  });
+
+  const hourlyTraffic = hourlyRevenue.map((rev) =>
+    Math.floor(rev / (400 + rng() * 200))
+  );
+
+  return {
+    machines,
+    locations: [],
+    machineRecords: [],
+    transactions: [],
+    events: [],
+    hourlyRevenue,
+    hourlyTraffic,
+    txCounter: cursor?.txCounter ?? 0,
+    evCounter: cursor?.evCounter ?? 0,
+    isRunning: false,
+    seed,
+    rng,
+    paymentRng: createRng(`${seed}-payments`),
+    clock,
+    nextTxAt: start + nextTxDelay(rng),
+    nextEvAt: start + nextEvDelay(rng),
+    nextCheckAt: Math.floor(start / FLEET_CHECK_MS) * FLEET_CHECK_MS + FLEET_CHECK_MS,
+    history,
+    dirtyDocuments: new Map(),
+    planograms: [],
+    warehouse: { items: [], transfers: [], orders: [], counts: [], reconciliations: [], counter: 0 },
+    waste: [],
+    demand: null,
+    alertRules: [],
+    alerts: [],
+    alerting: { since: {}, lastFired: {}, hits: {}, quiet: {}, counter: 0 },
+    incidents: [],
+    maintenance: { workOrders: [], settings: DEFAULT_MAINTENANCE_SETTINGS },
+    commands: [],
+    firmware: { releases: [], rollouts: [] },
+    webhooks: { subscriptions: [], deliveries: [], counter: 0 },
+  };
+}
+
+/**
+ * Throw away the current simulation and start over.
+ *
+ * USAGE:
+ * ```ts
+ * resetSimulation({ seed: "bug-1234" });               // reproducible session
+ * resetSimulation({ seed: "bug-1234", replay: true }); // …from the start again
+ * resetSimulation();                                   // new random seed
+ * ```
+ *
+ * If the loop was running it is restarted on the new state, and
+ * update subscribers are notified so the UI re-renders. The clock
+ * continues the seed's history (or starts at SIMULATION_EPOCH) and
+ * keeps its speed and pause.
+ */
+export function resetSimulation(options: SimulationOptions = {}): void {
+  const previous = runtime.state;
+  const wasRunning = previous?.isRunning ?? false;
+  if (wasRunning) stopSimulation();
+  if (previous) flushHistory();
+
+  const next = createSimulationState(options);
+  runtime.state = next;
+  if (previous) {
+    next.clock.setSpeed(previous.clock.getSpeed());
+    if (previous.clock.isPaused()) next.clock.pause();
+  }
+  loadInitialActivity();
+
+  if (wasRunning) startSimulation();
+  resetCallbacks.forEach(cb => cb(next.seed));
+  updateCallbacks.forEach(cb => cb());
+}
+
+// ============================================================
+// CALLBACK SUBSCRIPTIONS
+// ============================================================
+// Components register callbacks to be notified of new data.
+
+type TransactionCallback = (tx: Transaction) => void;
+type EventCallback = (ev: SystemEvent) => void;
+type UpdateCallback = () => void;
+type ResetCallback = (seed: string) => void;
+
+// Aliases into the shared runtime (the arrays themselves are shared)
+const { txCallbacks, evCallbacks, updateCallbacks, resetCallbacks } = runtime;
+
+/** Subscribe to new transactions */
+export function onTransaction(cb: TransactionCallback): () => void {
+  txCallbacks.push(cb);
+  // Return an "unsubscribe" function (cleanup for React useEffect)
+  return () => {
+    const idx = txCallbacks.indexOf(cb);
+    if (idx >= 0) txCallbacks.splice(idx, 1);
+  };
+}
+
+/** Subscribe to new system events */
+export function onSystemEvent(cb: EventCallback): () => void {
+  evCallbacks.push(cb);
+  return () => {
+    const idx = evCallbacks.indexOf(cb);
+    if (idx >= 0) evCallbacks.splice(idx, 1);
+  };
+}
+
+/** Subscribe to any state update (for re-rendering) */
+export function onUpdate(cb: UpdateCallback): () => void {
+  updateCallbacks.push(cb);
+  return () => {
+    const idx = updateCallbacks.indexOf(cb);
+    if (idx >= 0) updateCallbacks.splice(idx, 1);
+  };
+}
+
+/** Subscribe to simulation resets (a new fleet from a new seed) */
+export function onSimulationReset(cb: ResetCallback): () => void {
+  resetCallbacks.push(cb);
+  return () => {
+    const idx = resetCallbacks.indexOf(cb);
+    if (idx >= 0) resetCallbacks.splice(idx, 1);
+  };
+}
+
+// ============================================================
+// SIMULATION LOGIC
+// ============================================================
+
+/** How often (real ms) the loop advances the virtual clock */
+const LOOP_INTERVAL_MS = 250;
+
+/** Virtual gap before the next transaction: 2-4 seconds */
+function nextTxDelay(rng: Rng): number {
+  return 2000 + rng() * 2000;
+}
+
+/** Virtual gap before the next system event: 5-10 seconds */
+function nextEvDelay(rng: Rng): number {
+  return 5000 + rng() * 5000;
+}
+
+/**
+ * Start the simulation loop.
+ * Call this once from the root component (e.g., layout.tsx).
+ *
+ * Every LOOP_INTERVAL_MS we measure the real time that passed,
+ * scale it by the clock speed and run everything that was due
+ * in that slice of virtual time.
+ */
+export function startSimulation(): void {
+  const s = getSimulationState();
+  if (s.isRunning) return; // Don't start twice
+  s.isRunning = true;
+
+  let lastRealTime = Date.now();
+  runtime.loopInterval = setInterval(() => {
+    const realNow = Date.now();
+    const elapsed = realNow - lastRealTime;
+    lastRealTime = realNow;
+
+    if (s.clock.isPaused()) {
+      // Operators change documents while the clock is paused too
+      flushDocuments();
+      return;
+    }
+    runUntil(s.clock.now().getTime() + elapsed * s.clock.getSpeed());
+    flushHistory();
+  }, LOOP_INTERVAL_MS);
+}
+
+/** Stop the simulation (for cleanup) */
+export function stopSimulation(): void {
+  const s = getSimulationState();
+  s.isRunning = false;
+  if (runtime.loopInterval) clearInterval(runtime.loopInterval);
+  runtime.loopInterval = null;
+}
+
+/**
+ * Run every scheduled transaction/event up to virtual time `target`,
+ * in chronological order, then park the clock at `target`.
+ */
+function runUntil(target: number): void {
+  const s = getSimulationState();
+  while (Math.min(s.nextTxAt, s.nextEvAt) <= target) {
+    runNextOccurrence();
+  }
+  runFleetChecksUntil(target);
+  advanceClockTo(target);
+}
+
+/**
+ * Jump the clock to the earliest scheduled occurrence (transaction
+ * or system event), run it and schedule the next one of its kind.
+ * Fleet checks due before it run first.
+ */
+function runNextOccurrence(): void {
+  const s = getSimulationState();
+  runFleetChecksUntil(Math.min(s.nextTxAt, s.nextEvAt));
+  if (s.nextTxAt <= s.nextEvAt) {
+    advanceClockTo(s.nextTxAt);
+    simulateTransaction();
+    s.nextTxAt += nextTxDelay(s.rng);
+  } else {
+    advanceClockTo(s.nextEvAt);
+    simulateSystemEvent();
+    s.nextEvAt += nextEvDelay(s.rng);
+  }
+}
+
+/** Fleet checks run once per virtual minute, whatever the speed */
+const FLEET_CHECK_MS = 60_000;
+
+/** Run every fleet check due up to virtual time `target`, each on its minute */
+function runFleetChecksUntil(target: number): void {
+  const s = getSimulationState();
+  while (s.nextCheckAt <= target) {
+    advanceClockTo(s.nextCheckAt);
+    runFleetChecks();
+    s.nextCheckAt += FLEET_CHECK_MS;
+  }
+}
+
+/**
+ * Everything that scans the whole fleet for what has come due. Each
+ * step catches up on however much time passed since the last check
+ * (a command can go through several steps at once), so a minute's
+ * delay changes when things happen, never whether they do.
+ */
+function runFleetChecks(): void {
+  applyDuePlanograms();
+  applyDueDeliveries();
+  expireStock();
+  applyDueCommands();
+  applyFirmwareRollouts();
+  evaluateAlertRules();
+}
+
+/**
+ * Advance the virtual clock and roll over time-bucketed data:
+ *   • entering a new hour clears that hour's slot in the 24h charts
+ *     (it still holds yesterday's numbers) and snapshots the fleet
+ *   • crossing midnight resets every machine's "today" counters
+ */
+function advanceClockTo(time: number): void {
+  const s = getSimulationState();
+  const before = s.clock.now();
+  s.clock.advanceTo(time);
+  const after = s.clock.now();
+
+  const hoursCrossed = Math.floor(after.getTime() / HOUR_MS) - Math.floor(before.getTime() / HOUR_MS);
+  for (let i = 1; i <= Math.min(hoursCrossed, 24); i++) {
+    const hour = (before.getHours() + i) % 24;
+    s.hourlyRevenue[hour] = 0;
+    s.hourlyTraffic[hour] = 0;
+  }
+
+  if (after.toDateString() !== before.toDateString()) {
+    for (const machine of s.machines) {
+      machine.revenueToday = 0;
+      machine.transactionsToday = 0;
+    }
+  }
+
+  // Nothing ran between the hour boundary and `after`, so the fleet
+  // still looks exactly as it did on the hour
+  if (hoursCrossed > 0) {
+    const hourStart = new Date(after);
+    hourStart.setMinutes(0, 0, 0);
+    recordSnapshot(hourStart);
+  }
+}
+
+// ============================================================
+// RECORDING & HISTORY
+// ============================================================
+
+/** Keep the newest 200 transactions in memory for the live views */
+const MAX_RECENT_TRANSACTIONS = 200;
+/** Keep the newest 300 events in memory for the live views */
+const MAX_RECENT_EVENTS = 300;
+
+/** Add a transaction to the live ring buffer and the stored history */
+function recordTransaction(tx: Transaction): void {
+  const s = getSimulationState();
+  s.transactions.unshift(tx);
+  if (s.transactions.length > MAX_RECENT_TRANSACTIONS) s.transactions.pop();
+  s.history.appendTransaction(tx);
+  noteAlertTransaction(tx);
+}
+
+/** Add an event to the live ring buffer and the stored history */
+function recordEvent(ev: SystemEvent): void {
+  const s = getSimulationState();
+  s.events.unshift(ev);
+  if (s.events.length > MAX_RECENT_EVENTS) s.events.pop();
+  s.history.appendEvent(ev);
+  noteAlertEvent(ev);
+  notifyWebhooks("system_event", ev, ev.message, {
+    kind: "event",
+    category: ev.category,
+    severity: eventSeverity(ev.type),
+    locationId: s.machines.find(m => m.id === ev.machineId)?.location.id ?? null,
+  });
+  noteFirmwareEvent(ev);
+  // Last: opening a work order logs an event of its own
+  noteMaintenanceEvent(ev);
+}
+
+/** Store a deep copy of every machine, as of `time` */
+function recordSnapshot(time: Date): void {
+  const s = getSimulationState();
+  s.history.appendSnapshot({ timestamp: time, machines: structuredClone(s.machines) });
+}
+
+/** Write buffered history to disk along with the resume point */
+function flushHistory(): void {
+  const s = getSimulationState();
+  s.history.flush({
+    txCounter: s.txCounter,
+    evCounter: s.evCounter,
+    time: s.clock.now().getTime(),
+  });
+  flushDocuments();
+}
+
+/** Write the documents changed since the last flush */
+function flushDocuments(): void {
+  const s = getSimulationState();
+  for (const [name, value] of s.dirtyDocuments) s.history.saveDocument(name, value());
+  s.dirtyDocuments.clear();
+}
+
+/**
+ * Fill the live views after (re)creating the state.
+ *
+ * With stored history we reload the newest transactions and events,
+ * put back each machine's planogram from the newest snapshot (edits
+ * outlive a restart) and rebuild today's per-machine totals, so
+ * "Revenue Today" survives a restart. Without it we make up a few past sales so the feed isn't
+ * empty on first load.
+ */
+function loadInitialActivity(): void {
+  const s = getSimulationState();
+  loadFleet();
+  const { items: recentTx } = s.history.queryTransactions({ limit: MAX_RECENT_TRANSACTIONS });
+
+  if (recentTx.length === 0) {
+    seedInitialEvents();
+  } else {
+    s.transactions = recentTx;
+    s.events = s.history.queryEvents({ limit: MAX_RECENT_EVENTS }).items;
+
+    const snapshot = s.history.findSnapshot(s.clock.now());
+    for (const saved of snapshot?.machines ?? []) {
+      const machine = s.machines.find(m => m.id === saved.id);
+      // History from before a cabinet change doesn't fit the machine any more
+      if (!machine || saved.model?.id !== machine.model.id) continue;
+      machine.planogram = saved.planogram;
+      machine.planogramVersion = saved.planogramVersion ?? 1;
+    }
+
+    // The generator's made-up starting totals are replaced by real ones
+    for (const machine of s.machines) {
+      machine.revenueToday = 0;
+      machine.transactionsToday = 0;
+    }
+    const startOfDay = s.clock.now();
+    startOfDay.setHours(0, 0, 0, 0);
+    for (const tx of s.history.findTransactions({ from: startOfDay })) {
+      const machine = s.machines.find(m => m.id === tx.machineId);
+      if (!machine || !tx.success) continue;
+      machine.revenueToday += tx.amount;
+      machine.transactionsToday += 1;
+    }
+  }
+  loadPlanogramVersions();
+  loadWarehouse();
+  s.waste = s.history.loadDocument<WasteRecord[]>("waste") ?? [];
+  loadAlerts();
+  s.maintenance.workOrders = s.history.loadDocument<WorkOrder[]>("work-orders") ?? [];
+  s.maintenance.settings = s.history.loadDocument<MaintenanceSettings>("maintenance-settings") ?? DEFAULT_MAINTENANCE_SETTINGS;
+  s.commands = s.history.loadDocument<MachineCommand[]>("commands") ?? [];
+  loadFirmware();
+  s.webhooks.subscriptions = s.history.loadDocument<WebhookSubscription[]>("webhooks") ?? [];
+  recordSnapshot(s.clock.now());
+  flushHistory();
+}
+
+// ============================================================
+// CLOCK CONTROLS
+// ============================================================
+
+/** Current virtual time, speed and pause state */
+export function getClockSnapshot(): ClockSnapshot {
+  return getSimulationState().clock.snapshot();
+}
+
+/** Seed + clock – everything the UI needs to describe the session */
+export function getSimulationInfo(): { seed: string; clock: ClockSnapshot } {
+  const s = getSimulationState();
+  return { seed: s.seed, clock: s.clock.snapshot() };
+}
+
+/** Change the time-acceleration factor (1×, 10×, 60×, 3600×) */
+export function setSimulationSpeed(speed: ClockSpeed): void {
+  getSimulationState().clock.setSpeed(speed);
+  updateCallbacks.forEach(cb => cb());
+}
+
+/** Freeze virtual time – nothing happens until resumed or stepped */
+export function pauseSimulation(): void {
+  getSimulationState().clock.pause();
+  updateCallbacks.forEach(cb => cb());
+}
+
+/** Continue from where the clock was paused */
+export function resumeSimulation(): void {
+  getSimulationState().clock.resume();
+  updateCallbacks.forEach(cb => cb());
+}
+
+/**
+ * Single-step: jump straight to the next scheduled transaction or
+ * event and run just that one. Most useful while paused.
+ */
+export function stepSimulation(): void {
+  runNextOccurrence();
+  flushHistory();
+  updateCallbacks.forEach(cb => cb());
+}
+
+/**
+ * Simulate a single sales transaction.
+ *
+ * FLOW:
+ * 1. Pick a random ONLINE machine – nobody buys while its site is closed
+ * 2. Pick a random product from its planogram (weighted selection)
+ * 3. Find a slot with that product and decrement stock
+ * 4. Update machine revenue & transaction count (at the slot's price)
+ * 5. Notify all subscribers
+ */
+function simulateTransaction(): void {
+  const s = getSimulationState();
+
+  // Only online machines can make sales (and not during maintenance)
+  const onlineMachines = s.machines.filter(
+    m => (m.status === "online" || m.status === "warning") && !m.maintenanceMode
+  );
+  if (onlineMachines.length === 0) return;
+
+  const machine = pickRandom(onlineMachines, s.rng);
+  if (!isLocationOpen(machine.location, s.clock.now())) return;
+
+  // Customers can only pick what the machine's planogram offers
+  const offered = new Set(machine.planogram.map(sl => sl.productId));
+  const pool = PRODUCTS.filter(p => offered.has(p.id));
+  if (pool.length === 0) return;
+  const product = weightedRandomProduct(s.rng, pool);
+
+  // Find a slot with this product that has stock – a customer
+  // choosing a sold-out (or locked) product walks away without buying
+  const slot = machine.planogram.find(
+    sl => sl.productId === product.id && sl.stock > 0 && !isSlotLocked(machine, sl)
+  );
+  if (!slot) return;
+  // The planogram sets the price
+  const price = slot.price;
+
+  // The customer pays the way people at this kind of site do; how
+  // often that fails depends on the method and the card reader
+  const paymentMethod = pickPaymentMethod(s.paymentRng, machine.location.siteType);
+  const readerHealth = machine.hardware.cardReader;
+  const success = s.rng() >= paymentFailureChance(paymentMethod, readerHealth);
+
+  s.txCounter++;
+  const tx: Transaction = {
+    id: `TX-${String(s.txCounter).padStart(6, "0")}`,
+    machineId: machine.id,
+    machineName: machine.name,
+    locationId: machine.location.id,
+    productId: product.id,
+    productName: product.name,
+    amount: price,
+    paymentMethod,
+    timestamp: s.clock.now(),
+    success,
+    failureReason: success ? null : pickFailureReason(s.paymentRng, paymentMethod, readerHealth),
+    readerHealth,
+  };
+
+  // Add to the live buffer + stored history
+  recordTransaction(tx);
+
+  if (success) {
+    // Decrement stock (oldest batch first for perishables)
+    removeUnits(slot, 1);
+
+    // Update machine totals
+    machine.revenueToday += price;
+    machine.transactionsToday += 1;
+    machine.lastActivity = s.clock.now();
+
+    // Update the current hour's revenue
+    const currentHour = s.clock.now().getHours();
+    s.hourlyRevenue[currentHour] += price;
+    s.hourlyTraffic[currentHour] += 1;
+
+    // Check if stock is now low (triggers a warning event)
+    const level = getStockLevel(slot);
+    if (level === "low") {
+      emitStockWarning(machine, product, slot.stock);
+    } else if (level === "empty") {
+      emitStockEmpty(machine, product);
+    }
+  }
+
+  // Create corresponding terminal log event
+  const terminalEvent = createTerminalEvent(machine, tx, success);
+  recordEvent(terminalEvent);
+
+  // Notify all subscribers
+  txCallbacks.forEach(cb => cb(tx));
+  evCallbacks.forEach(cb => cb(terminalEvent));
+  updateCallbacks.forEach(cb => cb());
+}
+
+/**
+ * Simulate a random system event (hardware, connectivity, etc.)
+ */
+function simulateSystemEvent(): void {
+  const s = getSimulationState();
+  const machine = pickRandom(s.machines, s.rng);
+
+  // Weighted event types – most events are OK, some are problems
+  const roll = s.rng();
+  let event: SystemEvent;
+
+  if (roll > 0.85) {
+    // Hardware error (15% chance)
+    event = createHardwareEvent(machine, "error");
+    // Maybe change machine status (and mark the failed component)
+    if (s.rng() > 0.5) {
+      machine.status = "error";
+      const component = faultComponent(event.code);
+      if (component && component !== "temperature") machine.hardware[component] = "ERROR";
+    }
+  } else if (roll > 0.65) {
+    // Warning event (20% chance)
+    event = createHardwareEvent(machine, "warning");
+    if (machine.status === "online") {
+      machine.status = "warning";
+    }
+    // The cooler warms up until the machine recovers
+    if (event.code === "TEMP_HIGH_WARNING") machine.hardware.temperature = 9;
+    const component = faultComponent(event.code);
+    if (component && component !== "temperature" && machine.hardware[component] === "OK") {
+      machine.hardware[component] = "WARNING";
+    }
+  } else if (roll > 0.5) {
+    // Connectivity fluctuation (15% chance)
+    const newSignal = 60 + Math.floor(s.rng() * 40);
+    machine.hardware.connectivity = newSignal;
+    event = createConnectivityEvent(machine, newSignal);
+  } else {
+    // Everything fine – heartbeat (50% chance)
+    event = createHeartbeatEvent(machine);
+    // Sometimes recover from warning
+    if (machine.status === "warning" && s.rng() > 0.7) {
+      machine.status = "online";
+      for (const component of ["billValidator", "cardReader", "motorBoard", "display"] as const) {
+        // Faults need a repair (see MAINTENANCE); warnings clear by themselves
+        if (machine.hardware[component] === "WARNING") machine.hardware[component] = "OK";
+      }
+      if (machine.hardware.temperature > 8) machine.hardware.temperature = 5;
+    }
+    // Now and then an item goes missing without a sale (theft, a
+    // damaged pack thrown away) – only a stock count reveals it
+    if (s.rng() < 0.02) {
+      const stocked = machine.planogram.filter(sl => sl.stock > 0);
+      if (stocked.length > 0) removeUnits(pickRandom(stocked, s.rng), 1);
+    }
+  }
+
+  recordEvent(event);
+
+  evCallbacks.forEach(cb => cb(event));
+  updateCallbacks.forEach(cb => cb());
+}
+
+// ============================================================
+// PLANOGRAM VERSIONS
+// ============================================================
+// Every saved layout becomes a numbered version of its machine. A
+// version either takes effect at once or is SCHEDULED and activated
+// by the clock (`applyDuePlanograms`) when its time comes – also
+// while fast-forwarding, in the right order.
+
+/** Versions of one machine, newest first */
+export function getPlanogramVersions(machineId: string): PlanogramVersion[] {
+  return getSimulationState().planograms
+    .filter(v => v.machineId === machineId)
+    .sort((a, b) => b.version - a.version);
+}
+
+/**
+ * Save a layout (validated by the caller with `parsePlanogramVersionInput`) as
+ * the machine's next version. Sales use it from its effective time on.
+ * Returns the new version, or null if the machine id is unknown.
+ */
+export function createPlanogramVersion(
+  machineId: string,
+  input: PlanogramVersionInput,
+  rolloutId?: string
+): PlanogramVersion | null {
+  const s = getSimulationState();
+  const machine = s.machines.find(m => m.id === machineId);
+  if (!machine) return null;
+
+  const now = s.clock.now();
+  const scheduled = input.effectiveAt !== undefined && input.effectiveAt > now;
+  const version: PlanogramVersion = {
+    machineId,
+    version: Math.max(0, ...getPlanogramVersions(machineId).map(v => v.version)) + 1,
+    author: input.author,
+    note: input.note ?? "",
+    createdAt: now,
+    effectiveAt: scheduled ? input.effectiveAt! : now,
+    status: "scheduled",
+    slots: toLayout(input.slots),
+    ...(rolloutId && { rolloutId }),
+  };
+  s.planograms.push(version);
+
+  if (scheduled) {
+    emitMachineEvent(machine, "info", "system", "PLANOGRAM_SCHEDULED",
+      `Planogram v${version.version} scheduled for ${version.effectiveAt.toISOString()} by ${version.author}`);
+    savePlanogramVersions();
+  } else {
+    activatePlanogramVersion(version);
+  }
+  updateCallbacks.forEach(cb => cb());
+  return version;
+}
+
+/**
+ * Apply one template layout to every machine of one cabinet model at
+ * a location, as one rollout (the versions share a rolloutId).
+ */
+export function rollOutPlanogramToLocation(
+  locationId: string,
+  modelId: string,
+  input: PlanogramVersionInput
+): PlanogramVersion[] {
+  const s = getSimulationState();
+  // Numbered like the other ids – the clock doesn't move while paused,
+  // so two rollouts started then would share a time-based id
+  const last = s.planograms.reduce((max, v) => {
+    const n = /^RO-(\d+)$/.exec(v.rolloutId ?? "");
+    return n ? Math.max(max, Number(n[1])) : max;
+  }, 0);
+  const rolloutId = `RO-${String(last + 1).padStart(4, "0")}`;
+  return s.machines
+    .filter(m => m.location.id === locationId && m.model.id === modelId)
+    .map(m => createPlanogramVersion(m.id, input, rolloutId)!);
+}
+
+/** Cancel a scheduled version. Returns null unless it was scheduled. */
+export function cancelPlanogramVersion(machineId: string, versionNumber: number): PlanogramVersion | null {
+  const version = getSimulationState().planograms.find(
+    v => v.machineId === machineId && v.version === versionNumber
+  );
+  if (!version || version.status !== "scheduled") return null;
+
+  version.status = "cancelled";
+  savePlanogramVersions();
+  updateCallbacks.forEach(cb => cb());
+  return version;
+}
+
+/**
+ * Make a version the machine's live planogram: carry stock over,
+ * supersede the previous version, log PLANOGRAM_UPDATED and snapshot
+ * the fleet so restarts and historical mode see the new layout.
+ */
+function activatePlanogramVersion(version: PlanogramVersion): void {
+  const s = getSimulationState();
+  const machine = s.machines.find(m => m.id === version.machineId);
+  if (!machine) return;
+
+  const next = applyPlanogram(machine.planogram, version.slots);
+  const changed = countChangedSlots(machine.planogram, next);
+  const before = stockByProduct(machine);
+  machine.planogram = next;
+  machine.planogramVersion = version.version;
+
+  // Units that no longer fit the layout go back to the warehouse, and
+  // the new layout starts a new count
+  const after = stockByProduct(machine);
+  for (const [productId, units] of Object.entries(before)) {
+    const returned = units - (after[productId] ?? 0);
+    if (returned > 0) getWarehouseItem(productId).onHand += returned;
+  }
+  resetStockCount(machine);
+
+  for (const other of s.planograms) {
+    if (other.machineId === machine.id && other.status === "active") other.status = "superseded";
+  }
+  version.status = "active";
+
+  emitMachineEvent(machine, "info", "system", "PLANOGRAM_UPDATED",
+    `Planogram v${version.version} applied by ${version.author} (${changed} slots changed)`);
+  recordSnapshot(s.clock.now());
+  savePlanogramVersions();
+  saveWarehouse();
+  flushHistory();
+}
+
+/** Activate scheduled versions whose time has come (oldest first) */
+function applyDuePlanograms(): void {
+  const s = getSimulationState();
+  const now = s.clock.now();
+  s.planograms
+    .filter(v => v.status === "scheduled" && v.effectiveAt <= now)
+    .sort((a, b) => a.effectiveAt.getTime() - b.effectiveAt.getTime() || a.version - b.version)
+    .forEach(activatePlanogramVersion);
+}
+
+/**
+ * Load the version history for this seed. Machines without an active
+ * version (new history, or history from before versioning) get one
+ * for the layout they have now.
+ */
+function loadPlanogramVersions(): void {
+  const s = getSimulationState();
+  // Versions that don't fit the machine's cabinet (older history) are
+  // dropped; decommissioned machines keep theirs
+  s.planograms = (s.history.loadDocument<PlanogramVersion[]>("planograms") ?? []).filter(v => {
+    const machine = s.machines.find(m => m.id === v.machineId);
+    if (!machine) return s.machineRecords.some(r => r.id === v.machineId && r.decommissionedAt);
+    return validatePlanogram(v.slots, machine.model) === null;
+  });
+
+  for (const machine of s.machines) addInitialPlanogramVersion(machine);
+  savePlanogramVersions();
+}
+
+/** Record the machine's current layout as its active version, unless it has one */
+function addInitialPlanogramVersion(machine: VendingMachine): void {
+  const s = getSimulationState();
+  if (s.planograms.some(v => v.machineId === machine.id && v.status === "active")) return;
+  s.planograms.push({
+    machineId: machine.id,
+    version: machine.planogramVersion,
+    author: "system",
+    note: "Initial layout",
+    createdAt: s.clock.now(),
+    effectiveAt: s.clock.now(),
+    status: "active",
+    slots: toLayout(machine.planogram),
+  });
+}
+
+function savePlanogramVersions(): void {
+  const s = getSimulationState();
+  s.history.saveDocument("planograms", s.planograms);
+}
+
+/** Log an event raised by an operator action (planograms, restocks, counts) */
+function emitMachineEvent(
+  machine: VendingMachine,
+  type: SystemEvent["type"],
+  category: SystemEvent["category"],
+  code: string,
+  message: string
+): void {
+  const s = getSimulationState();
+  s.evCounter++;
+  const event: SystemEvent = {
+    id: `EV-${String(s.evCounter).padStart(6, "0")}`,
+    machineId: machine.id,
+    machineName: machine.name,
+    type,
+    category,
+    message,
+    timestamp: s.clock.now(),
+    code,
+  };
+  recordEvent(event);
+  evCallbacks.forEach(cb => cb(event));
+}
+
+// ============================================================
+// WAREHOUSE
+// ============================================================
+// The central warehouse (see `src/lib/warehouse.ts`) is where every
+// unit in a machine comes from: stock transfers move units into
+// slots, purchase orders refill the warehouse once the supplier's
+// lead time has passed (`applyDueDeliveries`, run by the clock), and
+// counting a machine compares its stock with the transaction log.
+
+/** Keep the newest 100 reconciliations */
+const MAX_RECONCILIATIONS = 100;
+
+/** Inventory, transfers, purchase orders and counts */
+export function getWarehouse(): WarehouseState {
+  return getSimulationState().warehouse;
+}
+
+/**
+ * Load units onto a transfer to `machineId`, reserving them in the
+ * warehouse. Without `requested` lines every filled slot is topped up.
+ * Each line is cut to what fits (minus transfers already on the way)
+ * and what the warehouse has available; lines with nothing left are
+ * dropped. A transfer without lines is returned but not stored.
+ * Returns null if the machine id is unknown.
+ */
+export function createStockTransfer(
+  machineId: string,
+  requested?: { row: number; col: number; quantity: number }[],
+  note = ""
+): StockTransfer | null {
+  const s = getSimulationState();
+  const machine = s.machines.find(m => m.id === machineId);
+  if (!machine) return null;
+
+  const wanted = requested ?? machine.planogram.map(slot => ({
+    row: slot.row,
+    col: slot.col,
+    quantity: slot.maxStock - slot.stock,
+  }));
+
+  const lines: StockTransferLine[] = [];
+  for (const { row, col, quantity } of wanted) {
+    const slot = machine.planogram.find(sl => sl.row === row && sl.col === col);
+    if (!slot?.productId) continue;
+
+    const onTheWay = s.warehouse.transfers
+      .filter(t => t.machineId === machineId && t.status === "pending")
+      .flatMap(t => t.lines)
+      .filter(l => l.row === row && l.col === col && l.productId === slot.productId)
+      .reduce((sum, l) => sum + l.quantity, 0);
+    const item = getWarehouseItem(slot.productId);
+    const units = Math.min(quantity, slot.maxStock - slot.stock - onTheWay, getAvailable(item));
+    if (units <= 0) continue;
+
+    item.reserved += units;
+    lines.push({ row, col, productId: slot.productId, quantity: units });
+  }
+
+  const transfer: StockTransfer = {
+    id: "",
+    machineId,
+    status: "pending",
+    lines,
+    createdAt: s.clock.now(),
+    note,
+  };
+  if (lines.length === 0) return transfer;
+
+  transfer.id = nextWarehouseId("TR");
+  s.warehouse.transfers.unshift(transfer);
+  saveWarehouse();
+  updateCallbacks.forEach(cb => cb());
+  return transfer;
+}
+
+/**
+ * Deliver a pending transfer: its units go into the machine's slots
+ * (as far as they fit – a slot may have changed product or been
+ * refilled meanwhile) and leave the warehouse; the rest is released.
+ * Returns null unless the transfer was pending.
+ */
+export function completeStockTransfer(id: string): StockTransfer | null {
+  const s = getSimulationState();
+  const transfer = s.warehouse.transfers.find(t => t.id === id);
+  if (!transfer || transfer.status !== "pending") return null;
+  const machine = s.machines.find(m => m.id === transfer.machineId);
+
+  let delivered = 0;
+  for (const line of transfer.lines) {
+    const item = getWarehouseItem(line.productId);
+    const slot = machine?.planogram.find(
+      sl => sl.row === line.row && sl.col === line.col && sl.productId === line.productId
+    );
+    const units = slot ? Math.min(line.quantity, slot.maxStock - slot.stock) : 0;
+    if (slot) addUnits(slot, units, transfer.id, s.clock.now());
+
+    item.reserved -= line.quantity;
+    item.onHand -= units;
+    line.delivered = units;
+    delivered += units;
+    if (machine) {
+      const count = getStockCount(machine);
+      count.delivered[line.productId] = (count.delivered[line.productId] ?? 0) + units;
+    }
+  }
+  transfer.status = "completed";
+  transfer.closedAt = s.clock.now();
+
+  if (machine) {
+    emitMachineEvent(machine, "success", "stock", "STOCK_RESTOCKED",
+      `Restocked ${delivered} items from the warehouse (${transfer.id})`);
+    recordSnapshot(s.clock.now());
+  }
+  saveWarehouse();
+  flushHistory();
+  updateCallbacks.forEach(cb => cb());
+  return transfer;
+}
+
+/** Cancel a pending transfer, releasing its reservation */
+export function cancelStockTransfer(id: string): StockTransfer | null {
+  const s = getSimulationState();
+  const transfer = s.warehouse.transfers.find(t => t.id === id);
+  if (!transfer || transfer.status !== "pending") return null;
+
+  for (const line of transfer.lines) getWarehouseItem(line.productId).reserved -= line.quantity;
+  transfer.status = "cancelled";
+  transfer.closedAt = s.clock.now();
+  saveWarehouse();
+  updateCallbacks.forEach(cb => cb());
+  return transfer;
+}
+
+/**
+ * Order units from the supplier; they arrive after the lead time.
+ * Returns null if the product id is unknown.
+ */
+export function orderStock(productId: string, quantity: number): PurchaseOrder | null {
+  const s = getSimulationState();
+  if (!getProductById(productId)) return null;
+
+  const now = s.clock.now();
+  const order: PurchaseOrder = {
+    id: nextWarehouseId("PO"),
+    productId,
+    quantity,
+    orderedAt: now,
+    dueAt: new Date(now.getTime() + SUPPLIER_LEAD_TIME_MS),
+    status: "open",
+  };
+  s.warehouse.orders.unshift(order);
+  getWarehouseItem(productId).onOrder += quantity;
+  saveWarehouse();
+  updateCallbacks.forEach(cb => cb());
+  return order;
+}
+
+/** Receive purchase orders whose delivery time has come */
+function applyDueDeliveries(): void {
+  const s = getSimulationState();
+  const now = s.clock.now();
+  const due = s.warehouse.orders.filter(o => o.status === "open" && o.dueAt <= now);
+  if (due.length === 0) return;
+
+  for (const order of due) {
+    const item = getWarehouseItem(order.productId);
+    item.onHand += order.quantity;
+    item.onOrder -= order.quantity;
+    order.status = "received";
+  }
+  saveWarehouse();
+}
+
+/**
+ * Count a machine and compare with what the records predict since the
+ * last count (see `reconcileStock`). `counts` are a crew's physical
+ * count per slot and replace the machine's stock; without them the
+ * machine's own stock is taken as counted. The count becomes the
+ * baseline for the next reconciliation; missing units are logged as
+ * STOCK_SHRINKAGE_DETECTED. Returns null if the machine id is unknown.
+ */
+export function reconcileMachine(
+  machineId: string,
+  counts?: { row: number; col: number; stock: number }[]
+): Reconciliation | null {
+  const s = getSimulationState();
+  const machine = s.machines.find(m => m.id === machineId);
+  if (!machine) return null;
+
+  const baseline = getStockCount(machine);
+  for (const { row, col, stock } of counts ?? []) {
+    const slot = machine.planogram.find(sl => sl.row === row && sl.col === col);
+    if (slot?.productId) setUnits(slot, Math.min(stock, slot.maxStock), s.clock.now());
+  }
+
+  const sales = s.history.findTransactions({ machineId, from: baseline.countedAt })
+    .filter(tx => tx.success && Number(tx.id.slice(3)) > baseline.txCounter);
+  const lines = reconcileStock(baseline, totalsByProduct(sales, () => 1), stockByProduct(machine));
+  const missing = lines.filter(l => l.variance < 0);
+  // Missing units are worth what the machine charges for them (the
+  // catalog price once no slot carries the product any more)
+  const priceOf = (productId: string) =>
+    machine.planogram.find(sl => sl.productId === productId)?.price ?? getProductById(productId)?.price ?? 0;
+
+  const reconciliation: Reconciliation = {
+    id: nextWarehouseId("RC"),
+    machineId,
+    since: baseline.countedAt,
+    countedAt: s.clock.now(),
+    lines,
+    shrinkageUnits: missing.reduce((sum, l) => sum - l.variance, 0),
+    shrinkageValue: missing.reduce((sum, l) => sum - l.variance * priceOf(l.productId), 0),
+  };
+  s.warehouse.reconciliations.unshift(reconciliation);
+  if (s.warehouse.reconciliations.length > MAX_RECONCILIATIONS) s.warehouse.reconciliations.pop();
+  resetStockCount(machine);
+
+  if (reconciliation.shrinkageUnits > 0) {
+    emitMachineEvent(machine, "warning", "stock", "STOCK_SHRINKAGE_DETECTED",
+      `Shrinkage: ${reconciliation.shrinkageUnits} items (${reconciliation.shrinkageValue} ISK) missing since last count`);
+  } else {
+    emitMachineEvent(machine, "info", "stock", "STOCK_COUNT_OK", "Stock count matches the transaction log");
+  }
+  if (counts) recordSnapshot(s.clock.now());
+  saveWarehouse();
+  flushHistory();
+  updateCallbacks.forEach(cb => cb());
+  return reconciliation;
+}
+
+/** Units per product in a machine right now */
+function stockByProduct(machine: VendingMachine): Record<string, number> {
+  const filled = machine.planogram.filter((sl): sl is PlanogramSlot & { productId: string } => sl.productId !== null);
+  return totalsByProduct(filled, sl => sl.stock);
+}
+
+/** The machine's last count (every machine has one after loading) */
+function getStockCount(machine: VendingMachine): StockCount {
+  return getSimulationState().warehouse.counts.find(c => c.machineId === machine.id) ?? resetStockCount(machine);
+}
+
+/** Take the machine's current stock as counted, now */
+function resetStockCount(machine: VendingMachine): StockCount {
+  const s = getSimulationState();
+  const count: StockCount = {
+    machineId: machine.id,
+    countedAt: s.clock.now(),
+    txCounter: s.txCounter,
+    stock: stockByProduct(machine),
+    delivered: {},
+    writtenOff: {},
+  };
+  s.warehouse.counts = [...s.warehouse.counts.filter(c => c.machineId !== machine.id), count];
+  return count;
+}
+
+/** The warehouse entry of a product (created empty on first use) */
+function getWarehouseItem(productId: string): WarehouseItem {
+  const { items } = getSimulationState().warehouse;
+  let item = items.find(i => i.productId === productId);
+  if (!item) {
+    item = { productId, onHand: 0, reserved: 0, onOrder: 0 };
+    items.push(item);
+  }
+  return item;
+}
+
+/** Next TR-/PO-/RC- id */
+function nextWarehouseId(prefix: string): string {
+  const w = getSimulationState().warehouse;
+  w.counter++;
+  return `${prefix}-${String(w.counter).padStart(6, "0")}`;
+}
+
+/**
+ * Load the warehouse for this seed, or stock a new one with one to
+ * three times what the fleet holds of each product when full (drawn
+ * from its own generator so the fleet's sequence stays unchanged).
+ *
+ * Machines are recounted on load: their stock comes back from the
+ * newest hourly snapshot, which can be behind the transaction log.
+ */
+function loadWarehouse(): void {
+  const s = getSimulationState();
+  const saved = s.history.loadDocument<WarehouseState>("warehouse");
+  if (saved) {
+    s.warehouse = saved;
+  } else {
+    const rng = createRng(`${s.seed}-warehouse`);
+    const capacity = totalsByProduct(
+      s.machines.flatMap(m => m.planogram).filter((sl): sl is PlanogramSlot & { productId: string } => sl.productId !== null),
+      sl => sl.maxStock
+    );
+    s.warehouse.items = PRODUCTS.map(p => ({
+      productId: p.id,
+      onHand: Math.round((capacity[p.id] ?? 12) * (1 + rng() * 2)),
+      reserved: 0,
+      onOrder: 0,
+    }));
+  }
+  s.warehouse.counts = [];
+  for (const machine of s.machines) resetStockCount(machine);
+  saveWarehouse();
+}
+
+function saveWarehouse(): void {
+  const s = getSimulationState();
+  s.history.saveDocument("warehouse", s.warehouse);
+}
+
+// ============================================================
+// WASTE
+// ============================================================
+// Perishable units carry batches with a use-by time (see
+// `src/lib/expiry.ts`). The clock removes every batch whose time has
+// come and writes it off; the write-offs feed the waste report and
+// count as expected removals when the machine is reconciled.
+
+/** Remove expired batches from every machine and write them off */
+function expireStock(): void {
+  const s = getSimulationState();
+  const now = s.clock.now();
+  let expired = false;
+
+  for (const machine of s.machines) {
+    for (const slot of machine.planogram) {
+      for (const batch of takeExpired(slot, now)) {
+        const product = getProductById(slot.productId!);
+        const record: WasteRecord = {
+          id: `WO-${String(s.waste.length + 1).padStart(6, "0")}`,
+          machineId: machine.id,
+          machineName: machine.name,
+          productId: slot.productId!,
+          lot: batch.lot,
+          quantity: batch.quantity,
+          value: batch.quantity * slot.price,
+          timestamp: batch.expiresAt,
+        };
+        s.waste.push(record);
+        expired = true;
+
+        const count = getStockCount(machine);
+        count.writtenOff[record.productId] = (count.writtenOff[record.productId] ?? 0) + record.quantity;
+        emitMachineEvent(machine, "warning", "stock", "STOCK_EXPIRED",
+          `Expired: ${record.quantity}× ${product?.name ?? record.productId} written off (${record.value} ISK, lot ${record.lot})`);
+      }
+    }
+  }
+  if (expired) s.history.saveDocument("waste", s.waste);
+}
+
+/** One row of the waste report */
+interface WasteTotal {
+  units: number;
+  /** ISK written off */
+  value: number;
+}
+
+/** Units and ISK written off in [from, to), by product and by machine */
+export function getWasteReport(from: Date, to: Date) {
+  const records = getSimulationState().waste.filter(r => r.timestamp >= from && r.timestamp < to);
+
+  const byProduct = new Map<string, WasteTotal & { productId: string; productName: string; icon: string }>();
+  const byMachine = new Map<string, WasteTotal & { machineId: string; machineName: string }>();
+  for (const record of records) {
+    const product = getProductById(record.productId);
+    const p = byProduct.get(record.productId) ?? {
+      productId: record.productId,
+      productName: product?.name ?? record.productId,
+      icon: product?.icon ?? "📦",
+      units: 0,
+      value: 0,
+    };
+    p.units += record.quantity;
+    p.value += record.value;
+    byProduct.set(record.productId, p);
+
+    const m = byMachine.get(record.machineId) ??
+      { machineId: record.machineId, machineName: record.machineName, units: 0, value: 0 };
+    m.units += record.quantity;
+    m.value += record.value;
+    byMachine.set(record.machineId, m);
+  }
+
+  const byValue = (a: WasteTotal, b: WasteTotal) => b.value - a.value || b.units - a.units;
+  return {
+    from,
+    to,
+    units: records.reduce((sum, r) => sum + r.quantity, 0),
+    value: records.reduce((sum, r) => sum + r.value, 0),
+    byProduct: [...byProduct.values()].sort(byValue),
+    byMachine: [...byMachine.values()].sort(byValue),
+    /** Newest write-offs first */
+    recent: records.slice(-20).reverse(),
+  };
+}
+
+// ============================================================
+// DEMAND FORECAST
+// ============================================================
+// Sales velocity and seasonality are learned from the last week of
+// history (see `src/lib/forecast.ts`) and cached for the virtual hour;
+// the forecast itself is cheap and always uses the current stock.
+
+/** The demand model for the current virtual hour */
+function getDemandModel(): DemandModel {
+  const s = getSimulationState();
+  const to = s.clock.now();
+  const hour = Math.floor(to.getTime() / HOUR_MS);
+  if (s.demand?.hour === hour) return s.demand.model;
+
+  const sales = s.history
+    .findTransactions({ from: new Date(to.getTime() - FORECAST_LOOKBACK_DAYS * 24 * HOUR_MS), to })
+    .filter(tx => tx.success);
+  // A young history only covers the time since its first sale
+  const from = sales.length > 0 ? sales[sales.length - 1].timestamp : to;
+
+  const hourly = new Map<number, number>();
+  for (const bucket of s.history.rollupTransactions(from, to)) {
+    hourly.set(bucket.hour, (hourly.get(bucket.hour) ?? 0) + bucket.units);
+  }
+  const model = learnDemand(
+    sales,
+    [...hourly].map(([start, units]) => ({ hour: new Date(start), units })),
+    from,
+    to
+  );
+  s.demand = { hour, model };
+  return model;
+}
+
+/**
+ * Predicted time-to-empty and par level for every filled slot of the
+ * fleet. A machine's next visit is one restock interval after its
+ * last completed transfer (never earlier than now); machines without
+ * one are assumed to be visited an interval from now.
+ */
+export function getStockForecast() {
+  const s = getSimulationState();
+  const now = s.clock.now();
+  const model = getDemandModel();
+
+  const lastRestock = new Map<string, Date>();
+  for (const transfer of s.warehouse.transfers) {
+    if (transfer.status !== "completed" || !transfer.closedAt) continue;
+    const last = lastRestock.get(transfer.machineId);
+    if (!last || transfer.closedAt > last) lastRestock.set(transfer.machineId, transfer.closedAt);
+  }
+  const nextVisit = (machine: VendingMachine) => new Date(Math.max(
+    now.getTime(),
+    (lastRestock.get(machine.id) ?? now).getTime() + RESTOCK_INTERVAL_HOURS * HOUR_MS
+  ));
+
+  return {
+    generatedAt: now,
+    /** Hours of sales history behind the velocities */
+    learnedFromHours: model.hours,
+    restockIntervalHours: RESTOCK_INTERVAL_HOURS,
+    slots: s.machines.flatMap(machine =>
+      forecastMachine(machine, model, { now, restockIntervalHours: RESTOCK_INTERVAL_HOURS, nextVisit })
+    ),
+  };
+}
+
+/**
+ * The optimizer's proposed planogram for one machine, from the same
+ * demand model (see `src/lib/planogram-optimizer.ts`), or undefined
+ * for an unknown machine. Nothing changes until the proposal is saved
+ * as a planogram version.
+ */
+export function getPlanogramSuggestion(machineId: string) {
+  const s = getSimulationState();
+  const machine = s.machines.find(m => m.id === machineId);
+  if (!machine) return undefined;
+  const model = getDemandModel();
+
+  // Products a version brought in while the model was learning sold
+  // for only part of the window – their velocity would look too low
+  const windowStart = s.clock.now().getTime() - model.hours * HOUR_MS;
+  const applied = getPlanogramVersions(machineId)
+    .filter(v => v.status === "active" || v.status === "superseded")
+    .reverse();
+  const recentlyAdded = new Set<string>();
+  applied.forEach((version, i) => {
+    if (i === 0 || version.effectiveAt.getTime() <= windowStart) return;
+    const before = new Set(applied[i - 1].slots.map(slot => slot.productId));
+    for (const slot of version.slots) {
+      if (slot.productId && !before.has(slot.productId)) recentlyAdded.add(slot.productId);
+    }
+  });
+
+  return suggestPlanogram(machine, model, {
+    restockIntervalHours: RESTOCK_INTERVAL_HOURS,
+    fleet: s.machines,
+    recentlyAdded,
+  });
+}
+
+// ============================================================
+// ALERTS
+// ============================================================
+// Operator-defined rules (see `src/lib/alert-rules.ts`) are checked
+// against every machine once per virtual minute (see `runFleetChecks`).
+// Events and declined payments are counted as they are recorded;
+// durations ("for 10 min") are measured from when a condition first
+// held. A fired rule stays quiet for its cooldown on that machine.
+
+/** Keep the newest 500 fired alerts */
+const MAX_ALERTS = 500;
+
+const alertKey = (ruleId: string, machineId: string) => `${ruleId}|${machineId}`;
+
+/** Whether a rule covers the machine's location */
+function inAlertScope(rule: AlertRule, machine: VendingMachine): boolean {
+  return rule.locationIds.length === 0 || rule.locationIds.includes(machine.location.id);
+}
+
+/** Count a recorded event towards the "events" rules it matches */
+function noteAlertEvent(ev: SystemEvent): void {
+  const s = getSimulationState();
+  // Alerts never count towards rules – a rule on error events would
+  // otherwise trigger itself
+  if (ev.code === ALERT_EVENT_CODE) return;
+  for (const rule of s.alertRules) {
+    const c = rule.condition;
+    if (!rule.enabled || c.kind !== "events") continue;
+    if ((c.type && ev.type !== c.type) || (c.category && ev.category !== c.category) || (c.code && ev.code !== c.code)) {
+      continue;
+    }
+    const key = alertKey(rule.id, ev.machineId);
+    (s.alerting.hits[key] ??= []).push(ev.timestamp.getTime());
+  }
+}
+
+/**
+ * Count declined payments in a row – a successful sale starts over.
+ * Timeouts and reader errors are the machine's fault, not a refused
+ * payment: they neither count nor break the run.
+ */
+function noteAlertTransaction(tx: Transaction): void {
+  const s = getSimulationState();
+  const { failureReason } = paymentDetails(tx);
+  if (failureReason && !DECLINE_REASONS.includes(failureReason)) return;
+  for (const rule of s.alertRules) {
+    if (!rule.enabled || rule.condition.kind !== "declines") continue;
+    const key = alertKey(rule.id, tx.machineId);
+    if (tx.success) delete s.alerting.hits[key];
+    else (s.alerting.hits[key] ??= []).push(tx.timestamp.getTime());
+  }
+}
+
+/**
+ * Open minutes since the machine's last sale. Counted in full once
+ * per sale (or move, or change of opening hours), then only the time
+ * since the previous check is added.
+ */
+function quietOpenMinutes(machine: VendingMachine, now: number): number {
+  const s = getSimulationState();
+  const lastSale = machine.lastActivity.getTime();
+  let quiet = s.alerting.quiet[machine.id];
+
+  if (!quiet || quiet.lastSale !== lastSale || quiet.location !== machine.location || now < quiet.at) {
+    quiet = { lastSale, location: machine.location, at: lastSale, minutes: 0 };
+    s.alerting.quiet[machine.id] = quiet;
+  }
+  if (now > quiet.at) {
+    quiet.minutes += openMinutesBetween(machine.location, new Date(quiet.at), new Date(now));
+    quiet.at = now;
+  }
+  return quiet.minutes;
+}
+
+/**
+ * What breaks the rule's condition on the machine right now, as a
+ * message ("Temperature 9°C"), or null while everything is fine.
+ */
+function observeCondition(rule: AlertRule, machine: VendingMachine, now: number): string | null {
+  const s = getSimulationState();
+  const c: AlertCondition = rule.condition;
+  const key = alertKey(rule.id, machine.id);
+
+  switch (c.kind) {
+    case "metric": {
+      const value = machine.hardware[c.metric];
+      if (!breaksThreshold(c, value)) return null;
+      return c.metric === "temperature" ? `Temperature ${value}°C` : `Connectivity ${value}%`;
+    }
+    case "status":
+      return machine.status === c.status ? `Status ${machine.status}` : null;
+    case "no-sales": {
+      // Only open time counts: a closed site has no customers
+      if ((now - machine.lastActivity.getTime()) / HOUR_MS < c.hours) return null;
+      if (!isLocationOpen(machine.location, new Date(now))) return null;
+      const quiet = quietOpenMinutes(machine, now) / 60;
+      return quiet >= c.hours ? `No sale for ${Math.floor(quiet)} h of opening hours` : null;
+    }
+    case "declines": {
+      const failures = s.alerting.hits[key]?.length ?? 0;
+      return failures >= c.count ? `${failures} declined payments in a row` : null;
+    }
+    case "events": {
+      const hits = (s.alerting.hits[key] ?? []).filter(t => t > now - c.withinMinutes * MINUTE_MS);
+      if (hits.length > 0) s.alerting.hits[key] = hits;
+      else delete s.alerting.hits[key];
+      if (hits.length < c.count) return null;
+      return `${hits.length} matching event${hits.length === 1 ? "" : "s"} in ${c.withinMinutes} min`;
+    }
+    case "stock": {
+      const low = machine.planogram.filter(slot => slot.productId && slot.stock <= c.atOrBelow).length;
+      return low >= c.slots ? `${low} slots at ≤ ${c.atOrBelow} units` : null;
+    }
+  }
+}
+
+/** Check every enabled rule against every machine and fire what is due */
+function evaluateAlertRules(): void {
+  const s = getSimulationState();
+  const now = s.clock.now();
+  const { since, lastFired } = s.alerting;
+
+  for (const rule of s.alertRules) {
+    const active = rule.enabled && isWithinActiveHours(rule.activeHours, now);
+    for (const machine of s.machines) {
+      const key = alertKey(rule.id, machine.id);
+      const detail = active && inAlertScope(rule, machine) ? observeCondition(rule, machine, now.getTime()) : null;
+      if (detail === null) {
+        delete since[key];
+        continue;
+      }
+
+      since[key] ??= now.getTime();
+      const forMinutes = "forMinutes" in rule.condition ? rule.condition.forMinutes : 0;
+      if (now.getTime() - since[key] < forMinutes * MINUTE_MS) continue;
+      if (lastFired[key] !== undefined && now.getTime() - lastFired[key] < rule.cooldownMinutes * MINUTE_MS) continue;
+
+      fireAlert(rule, machine, detail, now);
+    }
+  }
+}
+
+/** Record an alert and its system event */
+function fireAlert(rule: AlertRule, machine: VendingMachine, detail: string, now: Date): void {
+  const s = getSimulationState();
+  const key = alertKey(rule.id, machine.id);
+  s.alerting.lastFired[key] = now.getTime();
+  // Counted events and declined payments were alerted on – count afresh
+  delete s.alerting.hits[key];
+
+  s.alerting.counter++;
+  const alert: Alert = {
+    id: `AL-${String(s.alerting.counter).padStart(6, "0")}`,
+    ruleId: rule.id,
+    ruleName: rule.name,
+    severity: rule.severity,
+    machineId: machine.id,
+    machineName: machine.name,
+    locationId: machine.location.id,
+    message: `${detail} (${describeCondition(rule.condition)})`,
+    firedAt: now,
+  };
+  s.alerts.unshift(alert);
+  if (s.alerts.length > MAX_ALERTS) s.alerts.pop();
+  saveAlerts();
+
+  const type = rule.severity === "critical" ? "error" : rule.severity;
+  emitMachineEvent(machine, type, "system", ALERT_EVENT_CODE, `Alert "${rule.name}": ${alert.message}`);
+  trackIncident(alert);
+}
+
+/** All rules, in creation order */
+export function getAlertRules(): AlertRule[] {
+  return getSimulationState().alertRules;
+}
+
+/** Fired alerts, newest first */
+export function getAlerts(limit = 100): Alert[] {
+  return getSimulationState().alerts.slice(0, limit);
+}
+
+export function createAlertRule(input: AlertRuleInput): AlertRule {
+  const s = getSimulationState();
+  const last = s.alertRules.reduce((max, r) => Math.max(max, Number(r.id.slice(3))), 0);
+  const rule: AlertRule = { ...input, id: `AR-${String(last + 1).padStart(3, "0")}`, createdAt: s.clock.now() };
+  s.alertRules.push(rule);
+  saveAlertRules();
+  return rule;
+}
+
+/** Replace a rule's settings; null if the id is unknown */
+export function updateAlertRule(id: string, input: AlertRuleInput): AlertRule | null {
+  const s = getSimulationState();
+  const index = s.alertRules.findIndex(r => r.id === id);
+  if (index === -1) return null;
+  const rule: AlertRule = { ...input, id, createdAt: s.alertRules[index].createdAt };
+  s.alertRules[index] = rule;
+  clearAlertState(id);
+  saveAlertRules();
+  return rule;
+}
+
+/** Delete a rule (its fired alerts stay); false if the id is unknown */
+export function deleteAlertRule(id: string): boolean {
+  const s = getSimulationState();
+  const index = s.alertRules.findIndex(r => r.id === id);
+  if (index === -1) return false;
+  s.alertRules.splice(index, 1);
+  clearAlertState(id);
+  saveAlertRules();
+  return true;
+}
+
+/** Forget durations and counts of a changed rule (the cooldown stays) */
+function clearAlertState(ruleId: string): void {
+  const { since, hits } = getSimulationState().alerting;
+  for (const record of [since, hits]) {
+    for (const key of Object.keys(record)) {
+      if (key.startsWith(`${ruleId}|`)) delete record[key];
+    }
+  }
+}
+
+/**
+ * Load rules and fired alerts; a new history starts with the default
+ * rules. Cooldowns carry over from the stored alerts.
+ */
+function loadAlerts(): void {
+  const s = getSimulationState();
+  const rules = s.history.loadDocument<AlertRule[]>("alert-rules");
+  if (rules) {
+    s.alertRules = rules;
+  } else {
+    s.alertRules = [];
+    for (const input of DEFAULT_ALERT_RULES) createAlertRule(input);
+  }
+
+  s.alerts = s.history.loadDocument<Alert[]>("alerts") ?? [];
+  for (const alert of s.alerts) {
+    const key = alertKey(alert.ruleId, alert.machineId);
+    s.alerting.lastFired[key] ??= alert.firedAt.getTime();
+  }
+  s.alerting.counter = s.alerts.reduce((max, a) => Math.max(max, Number(a.id.slice(3))), 0);
+  s.incidents = s.history.loadDocument<Incident[]>("incidents") ?? [];
+}
+
+function saveAlertRules(): void {
+  const s = getSimulationState();
+  s.history.saveDocument("alert-rules", s.alertRules);
+}
+
+function saveAlerts(): void {
+  const s = getSimulationState();
+  s.dirtyDocuments.set("alerts", () => s.alerts);
+}
+
+// ============================================================
+// INCIDENTS
+// ============================================================
+// Every fired alert joins its machine's unresolved incident or opens
+// a new one (see `src/lib/incidents.ts`). Operators acknowledge,
+// assign, snooze and resolve incidents; each change is noted on the
+// incident and logged as a system event.
+
+/** Keep at most 500 incidents (the oldest resolved ones go first) */
+const MAX_INCIDENTS = 500;
+
+/** Add an alert to its machine's unresolved incident, or open one */
+function trackIncident(alert: Alert): void {
+  const s = getSimulationState();
+  const incident = s.incidents.find(i => i.machineId === alert.machineId && i.status !== "resolved");
+
+  if (incident) {
+    incident.alertIds = [...incident.alertIds, alert.id].slice(-MAX_INCIDENT_ALERT_IDS);
+    incident.alertCount++;
+    incident.lastAlertAt = alert.firedAt;
+    // Something worse than what was snoozed deserves a look now
+    if (SEVERITY_RANK[alert.severity] > SEVERITY_RANK[incident.severity]) {
+      incident.severity = alert.severity;
+      incident.snoozedUntil = null;
+      notifyIncidentWebhooks("incident.escalated", incident, "system");
+    }
+  } else {
+    const last = s.incidents.reduce((max, i) => Math.max(max, Number(i.id.slice(3))), 0);
+    s.incidents.unshift({
+      id: `IN-${String(last + 1).padStart(6, "0")}`,
+      machineId: alert.machineId,
+      machineName: alert.machineName,
+      locationId: alert.locationId,
+      status: "open",
+      severity: alert.severity,
+      title: `${alert.ruleName}: ${alert.message}`,
+      alertIds: [alert.id],
+      alertCount: 1,
+      openedAt: alert.firedAt,
+      lastAlertAt: alert.firedAt,
+      acknowledgedAt: null,
+      resolvedAt: null,
+      assignee: null,
+      snoozedUntil: null,
+      notes: [],
+    });
+    if (s.incidents.length > MAX_INCIDENTS) {
+      const oldestResolved = s.incidents.findLastIndex(i => i.status === "resolved");
+      s.incidents.splice(oldestResolved === -1 ? s.incidents.length - 1 : oldestResolved, 1);
+    }
+    notifyIncidentWebhooks("incident.opened", s.incidents[0], "system");
+  }
+  saveIncidents();
+}
+
+/** Incidents, newest first */
+export function getIncidents(): Incident[] {
+  return getSimulationState().incidents;
+}
+
+/**
+ * Apply an operator's change. The caller checks that the incident
+ * exists and the status change is allowed (see `canChangeStatus`).
+ */
+export function updateIncident(id: string, update: IncidentUpdate): Incident | null {
+  const s = getSimulationState();
+  const incident = s.incidents.find(i => i.id === id);
+  if (!incident) return null;
+  const now = s.clock.now();
+  const note = (text: string) => incident.notes.push({ author: update.author, text, at: now });
+  const changes: string[] = [];
+
+  if (update.assignee !== undefined && update.assignee !== incident.assignee) {
+    incident.assignee = update.assignee;
+    note(update.assignee ? `Assigned to ${update.assignee}` : "Unassigned");
+    changes.push(update.assignee ? `assigned to ${update.assignee}` : "unassigned");
+  }
+  if (update.snoozeMinutes !== undefined) {
+    incident.snoozedUntil = update.snoozeMinutes > 0 ? new Date(now.getTime() + update.snoozeMinutes * MINUTE_MS) : null;
+    note(update.snoozeMinutes > 0 ? `Snoozed for ${formatMinutes(update.snoozeMinutes)}` : "Snooze ended");
+    changes.push(update.snoozeMinutes > 0 ? `snoozed for ${formatMinutes(update.snoozeMinutes)}` : "unsnoozed");
+  }
+  if (update.status) {
+    incident.acknowledgedAt ??= now;
+    if (update.status === "resolved") {
+      incident.resolvedAt = now;
+      incident.snoozedUntil = null;
+    }
+    incident.status = update.status;
+    note(update.status === "resolved" ? "Resolved" : "Acknowledged");
+    changes.push(update.status);
+  }
+  if (update.note) note(update.note);
+  saveIncidents();
+  notifyIncidentWebhooks(
+    update.status === "resolved" ? "incident.resolved"
+      : update.status === "acknowledged" ? "incident.acknowledged"
+      : "incident.updated",
+    incident,
+    update.author
+  );
+
+  const machine = s.machines.find(m => m.id === incident.machineId);
+  if (machine && changes.length > 0) {
+    const code = update.status === "resolved" ? "INCIDENT_RESOLVED"
+      : update.status === "acknowledged" ? "INCIDENT_ACKNOWLEDGED"
+      : "INCIDENT_UPDATED";
+    emitMachineEvent(machine, "info", "system", code, `Incident ${incident.id} ${changes.join(", ")} by ${update.author}`);
+  }
+  return incident;
+}
+
+/**
+ * Why `status` can't be set on the incident (or, without a status,
+ * why it can't be snoozed), or null if it can.
+ */
+export function canChangeStatus(incident: Incident, status: IncidentUpdate["status"]): string | null {
+  if (incident.status === "resolved") return `Incident ${incident.id} is already resolved`;
+  if (status === "acknowledged" && incident.status === "acknowledged") {
+    return `Incident ${incident.id} is already acknowledged`;
+  }
+  return null;
+}
+
+function saveIncidents(): void {
+  const s = getSimulationState();
+  s.dirtyDocuments.set("incidents", () => s.incidents);
+}
+
+// ============================================================
+// MAINTENANCE
+// ============================================================
+// Hardware faults are repaired through work orders (see
+// `src/lib/work-orders.ts`): opened by hand or by a logged fault code
+// the settings list, worked on by a technician and closed – which
+// puts the component back to OK and lets the machine's status follow.
+
+/** Keep at most 500 work orders (the oldest closed ones go first) */
+const MAX_WORK_ORDERS = 500;
+
+/** The machine's unclosed work order for a component (or the machine as a whole) */
+function findUnclosedWorkOrder(machineId: string, component: WorkOrder["component"]): WorkOrder | undefined {
+  return getSimulationState().maintenance.workOrders.find(
+    w => w.machineId === machineId && w.component === component && w.status !== "closed"
+  );
+}
+
+/** Open a work order for a listed fault code, or add the fault to the one already open */
+function noteMaintenanceEvent(ev: SystemEvent): void {
+  const s = getSimulationState();
+  if (ev.category !== "hardware" || !s.maintenance.settings.autoCreateCodes.includes(ev.code)) return;
+  const machine = s.machines.find(m => m.id === ev.machineId);
+  if (!machine) return;
+
+  const component = faultComponent(ev.code);
+  const existing = findUnclosedWorkOrder(machine.id, component);
+  if (existing) {
+    existing.eventIds = [...existing.eventIds, ev.id].slice(-MAX_WORK_ORDER_EVENT_IDS);
+    saveWorkOrders();
+    return;
+  }
+  openWorkOrder(machine, {
+    component,
+    faultCode: ev.code,
+    title: ev.message,
+    eventIds: [ev.id],
+    createdBy: "system",
+    technician: null,
+  });
+}
+
+function openWorkOrder(
+  machine: VendingMachine,
+  fields: Pick<WorkOrder, "component" | "faultCode" | "title" | "eventIds" | "createdBy" | "technician">
+): WorkOrder {
+  const s = getSimulationState();
+  const last = s.maintenance.workOrders.reduce((max, w) => Math.max(max, Number(w.id.slice(3))), 0);
+  const workOrder: WorkOrder = {
+    ...fields,
+    id: `WK-${String(last + 1).padStart(6, "0")}`,
+    machineId: machine.id,
+    machineName: machine.name,
+    locationId: machine.location.id,
+    status: "open",
+    parts: [],
+    notes: [],
+    createdAt: s.clock.now(),
+    startedAt: null,
+    closedAt: null,
+  };
+  s.maintenance.workOrders.unshift(workOrder);
+  if (s.maintenance.workOrders.length > MAX_WORK_ORDERS) {
+    const oldestClosed = s.maintenance.workOrders.findLastIndex(w => w.status === "closed");
+    s.maintenance.workOrders.splice(oldestClosed === -1 ? s.maintenance.workOrders.length - 1 : oldestClosed, 1);
+  }
+  saveWorkOrders();
+  emitMachineEvent(machine, "info", "system", "WORK_ORDER_OPENED",
+    `Work order ${workOrder.id} opened (${componentLabel(workOrder.component)}: ${workOrder.title})`);
+  return workOrder;
+}
+
+/** Work orders, newest first, optionally for one machine */
+export function getWorkOrders(machineId?: string): WorkOrder[] {
+  const { workOrders } = getSimulationState().maintenance;
+  return machineId ? workOrders.filter(w => w.machineId === machineId) : workOrders;
+}
+
+/**
+ * Open a work order by hand. The caller checks that the machine exists
+ * and has no unclosed work order for the component (see
+ * `canOpenWorkOrder`).
+ */
+export function createWorkOrder(input: WorkOrderInput): WorkOrder | null {
+  const machine = getSimulationState().machines.find(m => m.id === input.machineId);
+  if (!machine) return null;
+  return openWorkOrder(machine, {
+    component: input.component,
+    faultCode: null,
+    title: input.title,
+    eventIds: [],
+    createdBy: input.author,
+    technician: input.technician,
+  });
+}
+
+/** Why a work order for the component can't be opened, or null if it can */
+export function canOpenWorkOrder(machineId: string, component: WorkOrder["component"]): string | null {
+  const existing = findUnclosedWorkOrder(machineId, component);
+  return existing ? `Work order ${existing.id} is already open for ${componentLabel(component)} on ${machineId}` : null;
+}
+
+/**
+ * Apply a change. Closing resets the repaired component and the
+ * machine's status. The caller checks that the work order exists and
+ * the status change is allowed (see `canChangeWorkOrderStatus`).
+ */
+export function updateWorkOrder(id: string, update: WorkOrderUpdate): WorkOrder | null {
+  const s = getSimulationState();
+  const workOrder = s.maintenance.workOrders.find(w => w.id === id);
+  if (!workOrder) return null;
+  const now = s.clock.now();
+  const note = (text: string) => workOrder.notes.push({ author: update.author, text, at: now });
+
+  if (update.technician !== undefined && update.technician !== workOrder.technician) {
+    workOrder.technician = update.technician;
+    note(update.technician ? `Assigned to ${update.technician}` : "Unassigned");
+  }
+  if (update.part) {
+    workOrder.parts.push({ ...update.part, addedBy: update.author, at: now });
+  }
+  if (update.note) note(update.note);
+
+  const machine = s.machines.find(m => m.id === workOrder.machineId);
+  if (update.status === "in_progress") {
+    workOrder.status = "in_progress";
+    workOrder.startedAt = now;
+    note("Work started");
+  } else if (update.status === "closed") {
+    workOrder.status = "closed";
+    workOrder.startedAt ??= now;
+    workOrder.closedAt = now;
+    note("Closed");
+    if (machine) {
+      if (workOrder.component === "temperature") machine.hardware.temperature = REPAIRED_TEMPERATURE;
+      else if (workOrder.component) machine.hardware[workOrder.component] = "OK";
+      machine.status = statusFromHardware(machine.hardware);
+    }
+  }
+  saveWorkOrders();
+
+  if (machine && update.status) {
+    const closed = update.status === "closed";
+    emitMachineEvent(machine, closed ? "success" : "info", "system",
+      closed ? "WORK_ORDER_CLOSED" : "WORK_ORDER_STARTED",
+      `Work order ${workOrder.id} ${closed ? "closed" : "started"} by ${update.author}` +
+        (closed ? ` – ${componentLabel(workOrder.component)} OK, machine ${machine.status}` : ""));
+    updateCallbacks.forEach(cb => cb());
+  }
+  return workOrder;
+}
+
+/** Why `status` can't be set on the work order, or null if it can */
+export function canChangeWorkOrderStatus(workOrder: WorkOrder, status: WorkOrderUpdate["status"]): string | null {
+  if (workOrder.status === "closed") return `Work order ${workOrder.id} is already closed`;
+  if (status === "in_progress" && workOrder.status === "in_progress") {
+    return `Work order ${workOrder.id} is already in progress`;
+  }
+  return null;
+}
+
+export function getMaintenanceSettings(): MaintenanceSettings {
+  return getSimulationState().maintenance.settings;
+}
+
+/** Change which fault codes open work orders (from the next fault on) */
+export function updateMaintenanceSettings(settings: MaintenanceSettings): MaintenanceSettings {
+  const s = getSimulationState();
+  s.maintenance.settings = settings;
+  s.history.saveDocument("maintenance-settings", settings);
+  return settings;
+}
+
+function saveWorkOrders(): void {
+  const s = getSimulationState();
+  s.dirtyDocuments.set("work-orders", () => s.maintenance.workOrders);
+}
+
+// ============================================================
+// REMOTE COMMANDS
+// ============================================================
+// Commands (see `src/lib/commands.ts`) move through their lifecycle
+// as the clock advances (`applyDueCommands`): each machine takes one
+// at a time, acknowledges it, runs it and answers with system events.
+// Unreachable machines let their queued commands expire.
+
+/** Keep at most 500 commands (the oldest finished ones go first) */
+const MAX_COMMANDS = 500;
+
+/** Queue an operator's command (sent right away if it can be); null if the machine is unknown */
+export function sendMachineCommand(machineId: string, input: CommandInput): MachineCommand | null {
+  const s = getSimulationState();
+  const machine = s.machines.find(m => m.id === machineId);
+  if (!machine) return null;
+  const command = queueCommand(machine, { ...input, issuedBy: input.author, firmware: null });
+  applyDueCommands();
+  saveCommands();
+  return command;
+}
+
+function queueCommand(
+  machine: VendingMachine,
+  fields: Pick<MachineCommand, "kind" | "slot" | "prices" | "firmware" | "issuedBy">
+): MachineCommand {
+  const s = getSimulationState();
+  const last = s.commands.reduce((max, c) => Math.max(max, Number(c.id.slice(4))), 0);
+  const now = s.clock.now();
+  const command: MachineCommand = {
+    id: `CMD-${String(last + 1).padStart(6, "0")}`,
+    machineId: machine.id,
+    machineName: machine.name,
+    kind: fields.kind,
+    slot: fields.slot,
+    prices: fields.prices,
+    firmware: fields.firmware,
+    status: "queued",
+    issuedBy: fields.issuedBy,
+    createdAt: now,
+    expiresAt: new Date(now.getTime() + COMMAND_TIMEOUT_MINUTES * MINUTE_MS),
+    sentAt: null,
+    acknowledgedAt: null,
+    completedAt: null,
+    result: null,
+  };
+  s.commands.unshift(command);
+  if (s.commands.length > MAX_COMMANDS) {
+    const oldestDone = s.commands.findLastIndex(c => !isCommandPending(c));
+    s.commands.splice(oldestDone === -1 ? s.commands.length - 1 : oldestDone, 1);
+  }
+  return command;
+}
+
+/** Commands, newest first, optionally for one machine */
+export function getMachineCommands(machineId?: string): MachineCommand[] {
+  return machineId ? getSimulationState().commands.filter(c => c.machineId === machineId) : getSimulationState().commands;
+}
+
+/**
+ * Move every pending command on as far as the clock allows: send the
+ * oldest queued one of each reachable machine that isn't busy,
+ * acknowledge, run, or expire it. Steps are timed from the previous
+ * step, so a fast-forward can take a command through several at once.
+ */
+function applyDueCommands(): void {
+  const s = getSimulationState();
+  const now = s.clock.now().getTime();
+  let changed = false;
+
+  for (const machine of s.machines) {
+    // Oldest first; a command that isn't done yet holds up the rest (`break`)
+    const pending = s.commands.filter(c => c.machineId === machine.id && isCommandPending(c)).reverse();
+    for (const command of pending) {
+      if (command.status === "queued") {
+        if (machine.status === "offline") {
+          if (now < command.expiresAt.getTime()) break;
+          failCommand(command, `Not delivered – ${machine.id} unreachable for ${COMMAND_TIMEOUT_MINUTES} min`);
+          emitMachineEvent(machine, "warning", "system", "CMD_TIMEOUT",
+            `${commandLabel(command.kind)} (${command.id}) expired – machine unreachable`);
+          changed = true;
+          continue;
+        }
+        command.status = "sent";
+        command.sentAt = new Date(now);
+        changed = true;
+      }
+      if (command.status === "sent") {
+        const ackAt = command.sentAt!.getTime() + ACK_DELAY_SECONDS * 1000;
+        if (now < ackAt) break;
+        command.status = "acknowledged";
+        command.acknowledgedAt = new Date(ackAt);
+        changed = true;
+        emitMachineEvent(machine, "info", "system", "CMD_ACK",
+          `${commandLabel(command.kind)} (${command.id}) acknowledged`);
+        if (command.kind === "reboot") {
+          machine.status = "offline";
+          emitMachineEvent(machine, "warning", "system", "SYSTEM_REBOOT",
+            `Rebooting on request of ${command.issuedBy}`);
+        } else if (command.kind === "update_firmware") {
+          machine.status = "offline";
+          emitMachineEvent(machine, "warning", "system", "FIRMWARE_INSTALLING",
+            `Installing firmware v${command.firmware} (was v${machine.firmware}) – rebooting`);
+        }
+      }
+      if (command.status === "acknowledged") {
+        const runSeconds = COMMAND_KINDS.find(k => k.id === command.kind)!.runSeconds;
+        const doneAt = command.acknowledgedAt!.getTime() + runSeconds * 1000;
+        if (now < doneAt) break;
+        command.completedAt = new Date(doneAt);
+        runCommand(machine, command);
+        changed = true;
+      }
+    }
+  }
+
+  if (changed) {
+    saveCommands();
+    updateCallbacks.forEach(cb => cb());
+  }
+}
+
+/** Carry out an acknowledged command on the machine and log its answer */
+function runCommand(machine: VendingMachine, command: MachineCommand): void {
+  const label = command.slot ? slotLabel(command.slot) : "";
+  const productName = (productId: string | null) => (productId && getProductById(productId)?.name) ?? "empty";
+
+  switch (command.kind) {
+    case "reboot": {
+      // Soft faults don't survive a restart; hardware faults need a repair
+      for (const component of ["billValidator", "cardReader", "motorBoard", "display"] as const) {
+        if (machine.hardware[component] === "WARNING") machine.hardware[component] = "OK";
+      }
+      machine.status = statusFromHardware(machine.hardware);
+      succeedCommand(machine, command, "success", "hardware", "BOOT_COMPLETE",
+        `Boot complete – firmware v${machine.firmware}, status ${machine.status}`);
+      return;
+    }
+    case "update_firmware": {
+      const previous = machine.firmware;
+      machine.firmware = command.firmware!;
+      machine.status = statusFromHardware(machine.hardware);
+      saveFirmware();
+      succeedCommand(machine, command, "success", "system", "FIRMWARE_UPDATED",
+        `Firmware updated v${previous} → v${machine.firmware}, status ${machine.status}`);
+      return;
+    }
+    case "enter_maintenance":
+    case "exit_maintenance": {
+      const enter = command.kind === "enter_maintenance";
+      if (machine.maintenanceMode === enter) {
+        rejectCommand(machine, command, `Already ${enter ? "in" : "out of"} maintenance mode`);
+        return;
+      }
+      machine.maintenanceMode = enter;
+      succeedCommand(machine, command, enter ? "warning" : "success", "system",
+        enter ? "MAINT_MODE_ENTER" : "MAINT_MODE_EXIT",
+        enter ? "Maintenance mode – sales suspended" : "Maintenance mode ended – sales resumed");
+      return;
+    }
+    case "lock_slot":
+    case "unlock_slot": {
+      const lock = command.kind === "lock_slot";
+      const slot = machine.planogram.find(sl => sl.row === command.slot!.row && sl.col === command.slot!.col);
+      if (!slot) {
+        rejectCommand(machine, command, `No slot ${label}`);
+        return;
+      }
+      if (isSlotLocked(machine, slot) === lock) {
+        rejectCommand(machine, command, `Slot ${label} is already ${lock ? "locked" : "unlocked"}`);
+        return;
+      }
+      machine.lockedSlots = lock
+        ? [...machine.lockedSlots, command.slot!]
+        : machine.lockedSlots.filter(l => l.row !== slot.row || l.col !== slot.col);
+      succeedCommand(machine, command, "info", "stock", lock ? "SLOT_LOCKED" : "SLOT_UNLOCKED",
+        `Slot ${label} (${productName(slot.productId)}) ${lock ? "locked – not for sale" : "unlocked"}`);
+      return;
+    }
+    case "push_prices": {
+      // The layout may have changed since the command was queued
+      let slots = 0;
+      for (const change of command.prices!) {
+        for (const slot of machine.planogram.filter(sl => sl.productId === change.productId)) {
+          slot.price = change.price;
+          slots++;
+        }
+      }
+      if (slots === 0) {
+        rejectCommand(machine, command, "None of the products are in the planogram any more");
+        return;
+      }
+      const list = command.prices!.map(p => `${productName(p.productId)} ${formatISK(p.price)}`).join(", ");
+      succeedCommand(machine, command, "info", "system", "PRICE_TABLE_UPDATED",
+        `Price table updated (${slots} slot${slots === 1 ? "" : "s"}): ${list}`);
+      return;
+    }
+    case "motor_self_test": {
+      const dispensers = machine.planogram.length;
+      if (machine.hardware.motorBoard === "ERROR") {
+        failCommand(command, "Motor board not responding");
+        emitMachineEvent(machine, "error", "hardware", "MOTOR_SELFTEST_FAIL",
+          `Motor self-test failed – motor board not responding (0/${dispensers} dispensers checked)`);
+        return;
+      }
+      succeedCommand(machine, command, machine.hardware.motorBoard === "WARNING" ? "warning" : "success", "hardware",
+        "MOTOR_SELFTEST_PASS",
+        `Motor self-test passed – ${dispensers}/${dispensers} dispensers OK` +
+          (machine.hardware.motorBoard === "WARNING" ? ", motor board reports a warning" : ""));
+      return;
+    }
+  }
+}
+
+function succeedCommand(
+  machine: VendingMachine,
+  command: MachineCommand,
+  type: SystemEvent["type"],
+  category: SystemEvent["category"],
+  code: string,
+  message: string
+): void {
+  command.status = "succeeded";
+  command.result = message;
+  emitMachineEvent(machine, type, category, code, message);
+}
+
+function failCommand(command: MachineCommand, reason: string): void {
+  command.status = "failed";
+  command.result = reason;
+  command.completedAt ??= getSimulationState().clock.now();
+}
+
+/** The machine ran the command but refused it */
+function rejectCommand(machine: VendingMachine, command: MachineCommand, reason: string): void {
+  failCommand(command, reason);
+  emitMachineEvent(machine, "warning", "system", "CMD_REJECTED",
+    `${commandLabel(command.kind)} (${command.id}) rejected: ${reason}`);
+}
+
+function saveCommands(): void {
+  const s = getSimulationState();
+  s.dirtyDocuments.set("commands", () => s.commands);
+}
+
+// ============================================================
+// FIRMWARE
+// ============================================================
+// Releases and staged rollouts (see `src/lib/firmware.ts`). A rollout
+// installs through update_firmware commands and moves on as the clock
+// advances (`applyFirmwareRollouts`, right after the commands). The
+// "firmware" document also keeps every machine's installed version –
+// machines are regenerated from the seed on restart.
+
+interface FirmwareDocument {
+  releases: FirmwareRelease[];
+  rollouts: FirmwareRollout[];
+  /** machineId → installed version */
+  installed: Record<string, string>;
+}
+
+/** Releases and rollouts, newest first */
+export function getFirmware(): { releases: FirmwareRelease[]; rollouts: FirmwareRollout[] } {
+  return getSimulationState().firmware;
+}
+
+export function createFirmwareRelease(input: ReleaseInput): FirmwareRelease {
+  const s = getSimulationState();
+  const release: FirmwareRelease = {
+    version: input.version,
+    notes: input.notes,
+    createdBy: input.author,
+    createdAt: s.clock.now(),
+  };
+  s.firmware.releases.unshift(release);
+  saveFirmware();
+  return release;
+}
+
+/** Why the rollout can't start (null = it can) */
+export function canStartRollout(input: RolloutInput): string | null {
+  const s = getSimulationState();
+  const active = s.firmware.rollouts.find(isRolloutActive);
+  if (active) return `Rollout ${active.id} (v${active.version}) is still ${active.status.replace("_", " ")}`;
+  const upToDate = s.machines.find(m => input.canaryMachineIds.includes(m.id) && m.firmware === input.version);
+  if (upToDate) return `Canary ${upToDate.id} already runs v${input.version}`;
+  return null;
+}
+
+/**
+ * Start rolling a release out: canary machines first, then a wave per
+ * location in the order given, then the rest of the fleet. Machines
+ * already on the version are left out.
+ */
+export function startFirmwareRollout(input: RolloutInput): FirmwareRollout {
+  const s = getSimulationState();
+  const now = s.clock.now();
+
+  const waves: RolloutWave[] = [];
+  const targets: RolloutTarget[] = [];
+  let remaining = s.machines.filter(m => m.firmware !== input.version);
+  const addWave = (name: string, belongs: (machine: VendingMachine) => boolean) => {
+    const machines = remaining.filter(belongs);
+    if (machines.length === 0) return;
+    remaining = remaining.filter(m => !belongs(m));
+    for (const machine of machines) {
+      targets.push({
+        machineId: machine.id,
+        machineName: machine.name,
+        wave: waves.length,
+        fromVersion: machine.firmware,
+        commandId: null,
+        rollbackCommandId: null,
+        status: "pending",
+        upgradedAt: null,
+        errors: 0,
+      });
+    }
+    waves.push({ name, startedAt: null, completedAt: null });
+  };
+  addWave("Canary", m => input.canaryMachineIds.includes(m.id));
+  for (const locationId of input.locationIds) {
+    // A location deleted since the request was checked has no machines
+    // left to upgrade – skip it rather than add an empty wave
+    const location = s.locations.find(l => l.id === locationId);
+    if (location) addWave(location.name, m => m.location.id === locationId);
+  }
+  addWave("All remaining", () => true);
+
+  const last = s.firmware.rollouts.reduce((max, r) => Math.max(max, Number(r.id.slice(3))), 0);
+  const rollout: FirmwareRollout = {
+    id: `FW-${String(last + 1).padStart(3, "0")}`,
+    version: input.version,
+    createdBy: input.author,
+    createdAt: now,
+    status: "running",
+    waves,
+    currentWave: 0,
+    targets,
+    soakMinutes: input.soakMinutes,
+    maxErrorRatio: input.maxErrorRatio,
+    healthSince: now,
+    upgradedErrors: 0,
+    baselineErrors: 0,
+    pausedReason: null,
+    log: [{
+      at: now,
+      author: input.author,
+      text: `Started: ${targets.length} machine${targets.length === 1 ? "" : "s"} in ${waves.length} wave${waves.length === 1 ? "" : "s"} (${waves.map(w => w.name).join(" → ")})`,
+    }],
+  };
+  s.firmware.rollouts.unshift(rollout);
+  if (s.firmware.rollouts.length > MAX_ROLLOUTS) {
+    const oldestDone = s.firmware.rollouts.findLastIndex(r => !isRolloutActive(r));
+    if (oldestDone !== -1) s.firmware.rollouts.splice(oldestDone, 1);
+  }
+
+  applyFirmwareRollouts();
+  applyDueCommands();
+  saveFirmware();
+  return rollout;
+}
+
+/** Why the action isn't possible right now (null = it is) */
+export function canChangeRollout(rollout: FirmwareRollout, action: RolloutAction["action"]): string | null {
+  if (action === "pause" && rollout.status !== "running") return `Rollout ${rollout.id} isn't running`;
+  if (action === "resume" && rollout.status !== "paused") return `Rollout ${rollout.id} isn't paused`;
+  if (action === "rollback") {
+    if (rollout.status === "rolling_back" || rollout.status === "rolled_back") {
+      return `Rollout ${rollout.id} is already ${rollout.status.replace("_", " ")}`;
+    }
+    if (getSimulationState().firmware.rollouts[0] !== rollout) {
+      return `Only the newest rollout can be rolled back`;
+    }
+  }
+  return null;
+}
+
+/** Pause, resume or roll back a rollout; null if it is unknown */
+export function changeFirmwareRollout(id: string, { author, action }: RolloutAction): FirmwareRollout | null {
+  const s = getSimulationState();
+  const rollout = s.firmware.rollouts.find(r => r.id === id);
+  if (!rollout) return null;
+  const now = s.clock.now();
+
+  switch (action) {
+    case "pause":
+      pauseRollout(rollout, author, `Paused by ${author}`);
+      break;
+    case "resume":
+      rollout.status = "running";
+      rollout.pausedReason = null;
+      rollout.healthSince = now;
+      rollout.upgradedErrors = 0;
+      rollout.baselineErrors = 0;
+      rollout.log.push({ at: now, author, text: "Resumed – health counting starts over" });
+      break;
+    case "rollback": {
+      // Installs that haven't reached their machine yet are called off;
+      // ones underway finish first and are then rolled back too
+      for (const target of rollout.targets) {
+        const command = s.commands.find(c => c.id === target.commandId);
+        if (target.status === "pending") {
+          target.status = "cancelled";
+        } else if (target.status === "installing" && command?.status === "queued") {
+          failCommand(command, `Cancelled – rollout ${rollout.id} rolled back`);
+          target.status = "cancelled";
+        }
+      }
+      rollout.status = "rolling_back";
+      rollout.pausedReason = null;
+      rollout.log.push({ at: now, author, text: "Rollback started – upgraded machines reinstall their previous firmware" });
+      applyFirmwareRollouts();
+      applyDueCommands();
+      saveCommands();
+      break;
+    }
+  }
+  saveFirmware();
+  return rollout;
+}
+
+/**
+ * Move the active rollout on as far as the clock allows: note which
+ * machines finished installing, start, finish and soak waves, pause it
+ * when upgraded machines log too many errors, and queue the reinstalls
+ * of a rollback.
+ */
+function applyFirmwareRollouts(): void {
+  const s = getSimulationState();
+  const rollout = s.firmware.rollouts.find(isRolloutActive);
+  if (!rollout) return;
+  const now = s.clock.now();
+  let changed = syncRolloutTargets(rollout);
+
+  if (rollout.status === "rolling_back") {
+    for (const target of rollout.targets.filter(t => t.status === "upgraded")) {
+      const machine = s.machines.find(m => m.id === target.machineId);
+      if (!machine) {
+        // Decommissioned since – nothing left to roll back
+        target.status = "cancelled";
+        changed = true;
+        continue;
+      }
+      const command = queueCommand(machine, {
+        kind: "update_firmware",
+        slot: null,
+        prices: null,
+        firmware: target.fromVersion,
+        issuedBy: `rollback ${rollout.id}`,
+      });
+      target.rollbackCommandId = command.id;
+      target.status = "rolling_back";
+      changed = true;
+    }
+    if (!rollout.targets.some(t => t.status === "installing" || t.status === "rolling_back")) {
+      const restored = rollout.targets.filter(t => t.status === "rolled_back").length;
+      rollout.status = "rolled_back";
+      rollout.log.push({ at: now, author: "system", text: `Rolled back: ${restored} machine${restored === 1 ? "" : "s"} on their previous firmware` });
+      changed = true;
+    }
+  } else if (rollout.status === "running") {
+    const health = rolloutHealth(rollout, s.machines.length, now);
+    if (health.breached) {
+      const reason = `Upgraded machines log ${health.upgradedRate.toFixed(1)} hardware errors/h, ` +
+        `the rest of the fleet ${health.baselineRate.toFixed(1)} (limit ×${rollout.maxErrorRatio})`;
+      pauseRollout(rollout, "system", reason);
+      const worst = rollout.targets.filter(t => t.status === "upgraded").sort((a, b) => b.errors - a.errors)[0];
+      const machine = s.machines.find(m => m.id === worst?.machineId);
+      if (machine) {
+        emitMachineEvent(machine, "error", "system", "FIRMWARE_ROLLOUT_PAUSED",
+          `Rollout ${rollout.id} (v${rollout.version}) paused – ${reason}`);
+      }
+      changed = true;
+    } else {
+      changed = advanceRollout(rollout, now) || changed;
+    }
+  }
+
+  if (changed) {
+    saveFirmware();
+    saveCommands();
+    updateCallbacks.forEach(cb => cb());
+  }
+}
+
+/** Take over the outcome of finished install commands; true if a target changed */
+function syncRolloutTargets(rollout: FirmwareRollout): boolean {
+  const s = getSimulationState();
+  let changed = false;
+  for (const target of rollout.targets) {
+    const rollingBack = target.status === "rolling_back";
+    if (target.status !== "installing" && !rollingBack) continue;
+    const command = s.commands.find(c => c.id === (rollingBack ? target.rollbackCommandId : target.commandId));
+    if (command && isCommandPending(command)) continue;
+
+    if (command?.status === "succeeded") {
+      target.status = rollingBack ? "rolled_back" : "upgraded";
+      if (!rollingBack) target.upgradedAt = command.completedAt;
+    } else {
+      target.status = "failed";
+      rollout.log.push({
+        at: s.clock.now(),
+        author: "system",
+        text: `${target.machineId}: ${rollingBack ? "reinstalling" : "installing"} failed – ${command?.result ?? "command lost"}`,
+      });
+    }
+    changed = true;
+  }
+  return changed;
+}
+
+/**
+ * Start the current wave, mark it done once all of its machines have
+ * answered, and after the soak go on to the next wave (or complete
+ * the rollout). True if anything changed.
+ */
+function advanceRollout(rollout: FirmwareRollout, now: Date): boolean {
+  const s = getSimulationState();
+  const wave = rollout.waves[rollout.currentWave];
+  const targets = rollout.targets.filter(t => t.wave === rollout.currentWave);
+  const waveLabel = `Wave ${rollout.currentWave + 1}/${rollout.waves.length} "${wave.name}"`;
+
+  if (!wave.startedAt) {
+    for (const target of targets) {
+      const machine = s.machines.find(m => m.id === target.machineId);
+      if (!machine) {
+        target.status = "cancelled";
+        continue;
+      }
+      const command = queueCommand(machine, {
+        kind: "update_firmware",
+        slot: null,
+        prices: null,
+        firmware: rollout.version,
+        issuedBy: `rollout ${rollout.id}`,
+      });
+      target.commandId = command.id;
+      target.status = "installing";
+    }
+    wave.startedAt = now;
+    rollout.log.push({ at: now, author: "system", text: `${waveLabel} started: ${targets.map(t => t.machineId).join(", ")}` });
+    return true;
+  }
+
+  let changed = false;
+  if (!wave.completedAt) {
+    if (targets.some(t => t.status === "installing")) return false;
+    const upgraded = targets.filter(t => t.status === "upgraded").length;
+    wave.completedAt = now;
+    rollout.log.push({ at: now, author: "system", text: `${waveLabel} done: ${upgraded}/${targets.length} upgraded` });
+    if (upgraded === 0) {
+      pauseRollout(rollout, "system", `No machine in wave "${wave.name}" could be upgraded`);
+      return true;
+    }
+    changed = true;
+  }
+
+  if (now.getTime() < wave.completedAt.getTime() + rollout.soakMinutes * MINUTE_MS) return changed;
+  if (rollout.currentWave === rollout.waves.length - 1) {
+    const upgraded = rollout.targets.filter(t => t.status === "upgraded").length;
+    rollout.status = "completed";
+    rollout.log.push({ at: now, author: "system", text: `Completed: ${upgraded}/${rollout.targets.length} machines on v${rollout.version}` });
+    return true;
+  }
+  rollout.currentWave++;
+  advanceRollout(rollout, now);
+  return true;
+}
+
+function pauseRollout(rollout: FirmwareRollout, author: string, reason: string): void {
+  rollout.status = "paused";
+  rollout.pausedReason = reason;
+  rollout.log.push({ at: getSimulationState().clock.now(), author, text: `Paused: ${reason}` });
+}
+
+/**
+ * Count a hardware error towards the running rollout's health: on an
+ * upgraded machine, or on the rest of the fleet. Counted in memory and
+ * stored with the next rollout change.
+ */
+function noteFirmwareEvent(ev: SystemEvent): void {
+  if (ev.type !== "error" || ev.category !== "hardware") return;
+  const rollout = getSimulationState().firmware.rollouts.find(r => r.status === "running");
+  if (!rollout) return;
+  const target = rollout.targets.find(t => t.machineId === ev.machineId);
+  if (target?.status === "upgraded") {
+    rollout.upgradedErrors++;
+    target.errors++;
+  } else {
+    rollout.baselineErrors++;
+  }
+}
 
-    // Seed some initial events so the feed isn't empty on load
-    seedInitialEvents();
+/** Put back releases, rollouts and installed versions; a new history starts with FIRMWARE_VERSIONS */
+function loadFirmware(): void {
+  const s = getSimulationState();
+  const saved = s.history.loadDocument<FirmwareDocument>("firmware");
+  if (!saved) {
+    const now = s.clock.now().getTime();
+    s.firmware.releases = FIRMWARE_VERSIONS.map((version, i) => ({
+      version,
+      notes: "Factory release",
+      createdBy: "system",
+      createdAt: new Date(now - (i + 1) * 30 * 24 * HOUR_MS),
+    }));
+    s.firmware.rollouts = [];
+    return;
+  }
+  s.firmware.releases = saved.releases;
+  s.firmware.rollouts = saved.rollouts;
+  for (const machine of s.machines) {
+    machine.firmware = saved.installed[machine.id] ?? machine.firmware;
   }
-  return state;
+}
+
+function saveFirmware(): void {
+  const s = getSimulationState();
+  const document: FirmwareDocument = {
+    releases: s.firmware.releases,
+    rollouts: s.firmware.rollouts,
+    installed: Object.fromEntries(s.machines.map(m => [m.id, m.firmware])),
+  };
+  s.history.saveDocument("firmware", document);
 }
 
 // ============================================================
-// CALLBACK SUBSCRIPTIONS
+// FLEET ADMINISTRATION
 // ============================================================
-// Components register callbacks to be notified of new data.
-
-type TransactionCallback = (tx: Transaction) => void;
-type EventCallback = (ev: SystemEvent) => void;
-type UpdateCallback = () => void;
+// Machines and locations operators register, rename, move and
+// decommission (see `src/lib/fleet-admin.ts`). The seed regenerates
+// the original fleet on every start; `loadFleet` then puts back what
+// the "fleet" document says: names, locations, registered machines,
+// and leaves decommissioned ones out of `s.machines`.
+
+interface FleetDocument {
+  locations: Location[];
+  machines: MachineRecord[];
+}
 
-const txCallbacks: TransactionCallback[] = [];
-const evCallbacks: EventCallback[] = [];
-const updateCallbacks: UpdateCallback[] = [];
+export function getLocations(): Location[] {
+  return getSimulationState().locations;
+}
 
-/** Subscribe to new transactions */
-export function onTransaction(cb: TransactionCallback): () => void {
-  txCallbacks.push(cb);
-  // Return an "unsubscribe" function (cleanup for React useEffect)
-  return () => {
-    const idx = txCallbacks.indexOf(cb);
-    if (idx >= 0) txCallbacks.splice(idx, 1);
-  };
+/** Every machine the fleet ever had, decommissioned ones included */
+export function getMachineRecords(): MachineRecord[] {
+  return getSimulationState().machineRecords;
 }
 
-/** Subscribe to new system events */
-export function onSystemEvent(cb: EventCallback): () => void {
-  evCallbacks.push(cb);
-  return () => {
-    const idx = evCallbacks.indexOf(cb);
-    if (idx >= 0) evCallbacks.splice(idx, 1);
-  };
+/** Bring a new machine into service at one of the locations */
+export function registerMachine(input: MachineRegistration): VendingMachine {
+  const s = getSimulationState();
+  const now = s.clock.now();
+  const last = s.machineRecords.reduce((max, r) => Math.max(max, Number(r.id.slice(3))), 0);
+  const id = `VM-${String(last + 1).padStart(3, "0")}`;
+  const location = s.locations.find(l => l.id === input.locationId)!;
+  const model = getMachineModel(input.modelId)!;
+
+  const machine = createMachine(
+    {
+      id,
+      name: input.name,
+      serial: input.serial,
+      location,
+      model,
+      firmware: latestRelease(s.firmware.releases)?.version ?? FIRMWARE_VERSIONS[0],
+    },
+    machineRng(id),
+    now.getTime()
+  );
+  s.machines.push(machine);
+  s.machineRecords.push({
+    id,
+    name: input.name,
+    serial: input.serial,
+    modelId: model.id,
+    locationId: location.id,
+    registeredBy: input.author,
+    registeredAt: now,
+    decommissionedBy: null,
+    decommissionedAt: null,
+  });
+  addInitialPlanogramVersion(machine);
+  emitMachineEvent(machine, "success", "system", "MACHINE_REGISTERED",
+    `Registered by ${input.author}: ${model.name}, serial ${input.serial}, at ${location.name}`);
+
+  savePlanogramVersions();
+  saveFirmware();
+  saveFleet();
+  updateCallbacks.forEach(cb => cb());
+  return machine;
 }
 
-/** Subscribe to any state update (for re-rendering) */
-export function onUpdate(cb: UpdateCallback): () => void {
-  updateCallbacks.push(cb);
-  return () => {
-    const idx = updateCallbacks.indexOf(cb);
-    if (idx >= 0) updateCallbacks.splice(idx, 1);
-  };
+/** Why the machine can't be changed (null = it can) */
+export function canChangeMachine(record: MachineRecord): string | null {
+  return record.decommissionedAt ? `${record.id} was decommissioned on ${record.decommissionedAt.toDateString()}` : null;
 }
 
-// ============================================================
-// SIMULATION LOGIC
-// ============================================================
+/**
+ * Rename, relocate and/or decommission a machine in service. Returns
+ * its record, or null if the machine is unknown.
+ */
+export function changeMachine(id: string, change: MachineChange): MachineRecord | null {
+  const s = getSimulationState();
+  const record = s.machineRecords.find(r => r.id === id);
+  const machine = s.machines.find(m => m.id === id);
+  if (!record || !machine) return null;
+
+  if (change.name !== undefined && change.name !== machine.name) {
+    const previous = machine.name;
+    machine.name = record.name = change.name;
+    emitMachineEvent(machine, "info", "system", "MACHINE_RENAMED", `Renamed from "${previous}" by ${change.author}`);
+  }
+  if (change.locationId !== undefined && change.locationId !== machine.location.id) {
+    const previous = machine.location;
+    machine.location = s.locations.find(l => l.id === change.locationId)!;
+    record.locationId = machine.location.id;
+    emitMachineEvent(machine, "info", "system", "MACHINE_RELOCATED",
+      `Moved from ${previous.name} to ${machine.location.name} by ${change.author}`);
+  }
+  if (change.decommissioned) decommissionMachine(machine, record, change.author);
 
-/** Interval handles so we can clean up */
-let txInterval: ReturnType<typeof setInterval> | null = null;
-let evInterval: ReturnType<typeof setInterval> | null = null;
+  saveFleet();
+  updateCallbacks.forEach(cb => cb());
+  return record;
+}
 
 /**
- * Start the simulation loops.
- * Call this once from the root component (e.g., layout.tsx).
+ * Take a machine out of the live fleet for good. What was still on its
+ * way to it is called off: commands fail, stock transfers are
+ * cancelled (the units go back to the warehouse), scheduled
+ * planograms are cancelled.
  */
-export function startSimulation(): void {
+function decommissionMachine(machine: VendingMachine, record: MachineRecord, author: string): void {
   const s = getSimulationState();
-  if (s.isRunning) return; // Don't start twice
-  s.isRunning = true;
+  const now = s.clock.now();
 
-  // Transaction simulation: every 2-4 seconds
-  txInterval = setInterval(() => {
-    simulateTransaction();
-  }, 2000 + Math.random() * 2000);
+  emitMachineEvent(machine, "warning", "system", "MACHINE_DECOMMISSIONED",
+    `Decommissioned by ${author} – taken out of the fleet`);
+  for (const command of s.commands.filter(c => c.machineId === machine.id && isCommandPending(c))) {
+    failCommand(command, "Machine decommissioned");
+  }
+  for (const transfer of s.warehouse.transfers.filter(t => t.machineId === machine.id && t.status === "pending")) {
+    cancelStockTransfer(transfer.id);
+  }
+  for (const version of s.planograms.filter(v => v.machineId === machine.id && v.status === "scheduled")) {
+    cancelPlanogramVersion(machine.id, version.version);
+  }
 
-  // Event simulation: every 5-10 seconds
-  evInterval = setInterval(() => {
-    simulateSystemEvent();
-  }, 5000 + Math.random() * 5000);
+  s.machines = s.machines.filter(m => m !== machine);
+  record.decommissionedBy = author;
+  record.decommissionedAt = now;
+  saveCommands();
 }
 
-/** Stop the simulation (for cleanup) */
-export function stopSimulation(): void {
+export function createLocation(input: LocationInput): Location {
   const s = getSimulationState();
-  s.isRunning = false;
-  if (txInterval) clearInterval(txInterval);
-  if (evInterval) clearInterval(evInterval);
+  const last = s.locations.reduce((max, l) => Math.max(max, Number(l.id.slice(3)) || 0), 0);
+  const location: Location = { id: `loc${last + 1}`, ...input };
+  s.locations.push(location);
+  saveFleet();
+  updateCallbacks.forEach(cb => cb());
+  return location;
+}
+
+/** Change a location's details (position, opening hours, …); null if it is unknown */
+export function updateLocation(id: string, input: LocationInput): Location | null {
+  const s = getSimulationState();
+  const index = s.locations.findIndex(l => l.id === id);
+  if (index === -1) return null;
+
+  // A new object, so snapshots already taken keep the old details
+  const location: Location = { id, ...input };
+  s.locations[index] = location;
+  for (const machine of s.machines.filter(m => m.location.id === id)) machine.location = location;
+  saveFleet();
+  updateCallbacks.forEach(cb => cb());
+  return location;
+}
+
+/** Why the location can't be deleted (null = it can) */
+export function canDeleteLocation(id: string): string | null {
+  const here = getSimulationState().machines.filter(m => m.location.id === id);
+  if (here.length === 0) return null;
+  return `${here.length} machine${here.length === 1 ? " is" : "s are"} still there (${here.map(m => m.id).join(", ")})`;
+}
+
+export function deleteLocation(id: string): boolean {
+  const s = getSimulationState();
+  const before = s.locations.length;
+  s.locations = s.locations.filter(l => l.id !== id);
+  if (s.locations.length === before) return false;
+  saveFleet();
+  updateCallbacks.forEach(cb => cb());
+  return true;
 }
 
 /**
- * Simulate a single sales transaction.
- *
- * FLOW:
- * 1. Pick a random ONLINE machine
- * 2. Pick a random product using weighted selection
- * 3. Find a slot with that product and decrement stock
- * 4. Update machine revenue & transaction count
- * 5. Notify all subscribers
+ * A registered machine's own generator, so building it (now, or again
+ * on every restart) doesn't shift the seeded sequence of the fleet
  */
-function simulateTransaction(): void {
+function machineRng(id: string): Rng {
+  return createRng(`${getSimulationState().seed}/${id}`);
+}
+
+/**
+ * Rebuild the fleet from the "fleet" document: locations, every
+ * machine's name and location, registered machines (created again
+ * from their own generator) and no decommissioned ones. A new history
+ * starts with the generated fleet at LOCATIONS.
+ */
+function loadFleet(): void {
   const s = getSimulationState();
+  const saved = s.history.loadDocument<FleetDocument>("fleet");
+  // Copies, so edits never touch the LOCATIONS constant. Locations
+  // saved before they had site details get those of LOCATIONS.
+  s.locations = saved
+    ? saved.locations.map(l => withSiteDetails(l, LOCATIONS))
+    : LOCATIONS.map(l => ({ ...l }));
+  s.machineRecords = saved?.machines ?? s.machines.map(m => ({
+    id: m.id,
+    name: m.name,
+    serial: m.serial,
+    modelId: m.model.id,
+    locationId: m.location.id,
+    registeredBy: null,
+    registeredAt: null,
+    decommissionedBy: null,
+    decommissionedAt: null,
+  }));
 
-  // Only online machines can make sales
-  const onlineMachines = s.machines.filter(m => m.status === "online" || m.status === "warning");
-  if (onlineMachines.length === 0) return;
+  const generated = s.machines;
+  s.machines = [];
+  for (const record of s.machineRecords) {
+    if (record.decommissionedAt) continue;
+    const location = s.locations.find(l => l.id === record.locationId)!;
+    const machine = generated.find(m => m.id === record.id) ?? createMachine(
+      {
+        id: record.id,
+        name: record.name,
+        serial: record.serial,
+        location,
+        model: getMachineModel(record.modelId)!,
+        firmware: FIRMWARE_VERSIONS[0],
+      },
+      machineRng(record.id),
+      (record.registeredAt ?? s.clock.now()).getTime()
+    );
+    machine.name = record.name;
+    machine.location = location;
+    s.machines.push(machine);
+  }
+}
 
-  const machine = onlineMachines[Math.floor(Math.random() * onlineMachines.length)];
-  const product = weightedRandomProduct();
+function saveFleet(): void {
+  const s = getSimulationState();
+  const document: FleetDocument = { locations: s.locations, machines: s.machineRecords };
+  s.history.saveDocument("fleet", document);
+}
 
-  // Find a slot with this product that has stock
-  const slot = machine.planogram.find(
-    sl => sl.productId === product.id && sl.stock > 0
-  );
+// ============================================================
+// WEBHOOKS
+// ============================================================
+// Subscriptions (see `src/lib/webhooks.ts`) get every recorded system
+// event and incident change their filters let through, POSTed and
+// signed by `src/lib/webhook-dispatcher.ts`. Delivery happens in the
+// background in real time; the log here shows how it went.
 
-  // 95% success rate (card transactions can fail)
-  const success = Math.random() > 0.05;
+/** Keep the newest 200 deliveries in the log */
+const MAX_WEBHOOK_DELIVERIES = 200;
 
-  s.txCounter++;
-  const tx: Transaction = {
-    id: `TX-${String(s.txCounter).padStart(6, "0")}`,
-    machineId: machine.id,
-    machineName: machine.name,
-    productId: product.id,
-    productName: product.name,
-    amount: product.price,
-    paymentMethod: "card",
-    timestamp: new Date(),
-    success,
-  };
+/**
+ * Deliveries a subscription may have pending – beyond that new ones
+ * are dropped, so a dead receiver and a fast-forwarding clock can't
+ * pile up thousands of retries
+ */
+const MAX_PENDING_DELIVERIES = 20;
 
-  // Add to history (keep last 200 transactions for performance)
-  s.transactions.unshift(tx);
-  if (s.transactions.length > 200) s.transactions.pop();
+/** A subscription without its secret */
+function toWebhookView({ secret, ...subscription }: WebhookSubscription): WebhookSubscriptionView {
+  return { ...subscription, secretHint: `…${secret.slice(-4)}` };
+}
 
-  if (success && slot) {
-    // Decrement stock
-    slot.stock = Math.max(0, slot.stock - 1);
+/**
+ * Queue a payload for every enabled subscription whose filters match
+ * `subject` – or only for `target`, whatever its filters (test sends).
+ */
+function notifyWebhooks(
+  type: WebhookEventType,
+  data: unknown,
+  summary: string,
+  subject: WebhookSubject | null,
+  target?: WebhookSubscription
+): WebhookDelivery[] {
+  const s = getSimulationState();
+  const queued: WebhookDelivery[] = [];
 
-    // Update machine totals
-    machine.revenueToday += product.price;
-    machine.transactionsToday += 1;
-    machine.lastActivity = new Date();
+  for (const subscription of s.webhooks.subscriptions) {
+    if (target ? subscription !== target : !subscription.enabled || !matchesWebhookFilters(subscription.filters, subject!)) {
+      continue;
+    }
+    s.webhooks.counter++;
+    const delivery: WebhookDelivery = {
+      id: `WD-${String(s.webhooks.counter).padStart(6, "0")}`,
+      subscriptionId: subscription.id,
+      type,
+      summary,
+      status: "pending",
+      attempts: [],
+      nextAttemptAt: null,
+      createdAt: s.clock.now(),
+    };
+    const pending = s.webhooks.deliveries.filter(d => d.subscriptionId === subscription.id && d.status === "pending");
+    if (pending.length >= MAX_PENDING_DELIVERIES) delivery.status = "dropped";
 
-    // Update the current hour's revenue
-    const currentHour = new Date().getHours();
-    s.hourlyRevenue[currentHour] += product.price;
-    s.hourlyTraffic[currentHour] += 1;
+    s.webhooks.deliveries.unshift(delivery);
+    if (s.webhooks.deliveries.length > MAX_WEBHOOK_DELIVERIES) s.webhooks.deliveries.pop();
+    queued.push(delivery);
+    if (delivery.status === "dropped") continue;
 
-    // Check if stock is now low (triggers a warning event)
-    if (slot.stock <= 2 && slot.stock > 0) {
-      emitStockWarning(machine, product, slot.stock);
-    } else if (slot.stock === 0) {
-      emitStockEmpty(machine, product);
-    }
+    const body = JSON.stringify({ id: delivery.id, type, occurredAt: s.clock.now(), data });
+    deliverWebhook(subscription, delivery, body);
   }
+  return queued;
+}
 
-  // Create corresponding terminal log event
-  const terminalEvent = createTerminalEvent(machine, tx, success);
-  s.events.unshift(terminalEvent);
-  if (s.events.length > 300) s.events.pop();
+/** Send an incident change to the subscriptions that want it */
+function notifyIncidentWebhooks(type: WebhookEventType, incident: Incident, changedBy: string): void {
+  notifyWebhooks(type, { incident, changedBy }, `${incident.id} ${incident.machineId}: ${incident.title}`, {
+    kind: "incident",
+    severity: incident.severity,
+    locationId: incident.locationId,
+  });
+}
 
-  // Notify all subscribers
-  txCallbacks.forEach(cb => cb(tx));
-  evCallbacks.forEach(cb => cb(terminalEvent));
-  updateCallbacks.forEach(cb => cb());
+/** Every subscription, secrets hidden */
+export function getWebhooks(): WebhookSubscriptionView[] {
+  return getSimulationState().webhooks.subscriptions.map(toWebhookView);
+}
+
+/** The delivery log, newest first, optionally for one subscription */
+export function getWebhookDeliveries(subscriptionId?: string): WebhookDelivery[] {
+  const { deliveries } = getSimulationState().webhooks;
+  return subscriptionId ? deliveries.filter(d => d.subscriptionId === subscriptionId) : deliveries;
 }
 
 /**
- * Simulate a random system event (hardware, connectivity, etc.)
+ * Add a subscription. Returned with its secret – the only time the
+ * secret leaves the server.
  */
-function simulateSystemEvent(): void {
+export function createWebhook(input: WebhookInput): WebhookSubscription {
   const s = getSimulationState();
-  const machine = s.machines[Math.floor(Math.random() * s.machines.length)];
+  const last = s.webhooks.subscriptions.reduce((max, w) => Math.max(max, Number(w.id.slice(3))), 0);
+  const subscription: WebhookSubscription = {
+    ...input,
+    id: `WH-${String(last + 1).padStart(3, "0")}`,
+    secret: input.secret ?? generateSecret(),
+    createdAt: s.clock.now(),
+  };
+  s.webhooks.subscriptions.push(subscription);
+  saveWebhooks();
+  return subscription;
+}
 
-  // Weighted event types – most events are OK, some are problems
-  const roll = Math.random();
-  let event: SystemEvent;
+/** Replace a subscription's settings (the secret only if given); null if unknown */
+export function updateWebhook(id: string, input: WebhookInput): WebhookSubscriptionView | null {
+  const s = getSimulationState();
+  const subscription = s.webhooks.subscriptions.find(w => w.id === id);
+  if (!subscription) return null;
+  Object.assign(subscription, input, { secret: input.secret ?? subscription.secret });
+  saveWebhooks();
+  return toWebhookView(subscription);
+}
 
-  if (roll > 0.85) {
-    // Hardware error (15% chance)
-    event = createHardwareEvent(machine, "error");
-    // Maybe change machine status
-    if (Math.random() > 0.5) {
-      machine.status = "error";
-      machine.hardware.motorBoard = "ERROR";
-    }
-  } else if (roll > 0.65) {
-    // Warning event (20% chance)
-    event = createHardwareEvent(machine, "warning");
-    if (machine.status === "online") {
-      machine.status = "warning";
-    }
-  } else if (roll > 0.5) {
-    // Connectivity fluctuation (15% chance)
-    const newSignal = 60 + Math.floor(Math.random() * 40);
-    machine.hardware.connectivity = newSignal;
-    event = createConnectivityEvent(machine, newSignal);
-  } else {
-    // Everything fine – heartbeat (50% chance)
-    event = createHeartbeatEvent(machine);
-    // Sometimes recover from warning
-    if (machine.status === "warning" && Math.random() > 0.7) {
-      machine.status = "online";
-      machine.hardware.motorBoard = "OK";
-      machine.hardware.billValidator = "OK";
-    }
-  }
+/** Delete a subscription (pending retries still run); false if unknown */
+export function deleteWebhook(id: string): boolean {
+  const s = getSimulationState();
+  const index = s.webhooks.subscriptions.findIndex(w => w.id === id);
+  if (index === -1) return false;
+  s.webhooks.subscriptions.splice(index, 1);
+  saveWebhooks();
+  return true;
+}
 
-  s.events.unshift(event);
-  if (s.events.length > 300) s.events.pop();
+/** Send a "test" payload to one subscription, enabled or not; null if unknown */
+export function sendTestWebhook(id: string): WebhookDelivery | null {
+  const s = getSimulationState();
+  const subscription = s.webhooks.subscriptions.find(w => w.id === id);
+  if (!subscription) return null;
+  const data = { message: "Test delivery from Vendral", subscription: toWebhookView(subscription) };
+  return notifyWebhooks("test", data, "Test delivery", null, subscription)[0];
+}
 
-  evCallbacks.forEach(cb => cb(event));
-  updateCallbacks.forEach(cb => cb());
+function saveWebhooks(): void {
+  const s = getSimulationState();
+  s.history.saveDocument("webhooks", s.webhooks.subscriptions);
 }
 
 // ============================================================
@@ -306,6 +3284,7 @@ function createTerminalEvent(
 ): SystemEvent {
   const s = getSimulationState();
   s.evCounter++;
+  const method = paymentMethodLabel(tx.paymentMethod);
 
   if (success) {
     return {
@@ -314,20 +3293,21 @@ function createTerminalEvent(
       machineName: machine.name,
       type: "success",
       category: "transaction",
-      message: `Payment Success: ${tx.productName} (${tx.amount} ISK)`,
-      timestamp: new Date(),
-      code: "CARD_TRANSACTION_COMPLETED",
+      message: `Payment Success: ${tx.productName} (${tx.amount} ISK, ${method})`,
+      timestamp: s.clock.now(),
+      code: "PAYMENT_COMPLETED",
     };
   } else {
+    const reason = tx.failureReason ?? "declined";
     return {
       id: `EV-${String(s.evCounter).padStart(6, "0")}`,
       machineId: machine.id,
       machineName: machine.name,
       type: "warning",
       category: "transaction",
-      message: `Payment Failed: Card declined for ${tx.productName}`,
-      timestamp: new Date(),
-      code: "CARD_DECLINED_RETRY",
+      message: `Payment Failed: ${failureReasonLabel(reason)} (${method}) for ${tx.productName}`,
+      timestamp: s.clock.now(),
+      code: `PAYMENT_${reason.toUpperCase()}`,
     };
   }
 }
@@ -343,11 +3323,11 @@ function emitStockWarning(machine: VendingMachine, product: import("./data").Pro
     type: "warning",
     category: "stock",
     message: `Low Stock: ${product.name} (${remaining} remaining)`,
-    timestamp: new Date(),
+    timestamp: s.clock.now(),
     code: "STOCK_LOW_WARNING",
   };
 
-  s.events.unshift(event);
+  recordEvent(event);
   evCallbacks.forEach(cb => cb(event));
 }
 
@@ -362,11 +3342,11 @@ function emitStockEmpty(machine: VendingMachine, product: import("./data").Produ
     type: "error",
     category: "stock",
     message: `Out of Stock: ${product.name}`,
-    timestamp: new Date(),
+    timestamp: s.clock.now(),
     code: "STOCK_EMPTY_ALERT",
   };
 
-  s.events.unshift(event);
+  recordEvent(event);
   evCallbacks.forEach(cb => cb(event));
 }
 
@@ -390,7 +3370,7 @@ function createHardwareEvent(machine: VendingMachine, severity: "warning" | "err
   ];
 
   const pool = severity === "error" ? errorMessages : warningMessages;
-  const picked = pool[Math.floor(Math.random() * pool.length)];
+  const picked = pickRandom(pool, s.rng);
 
   return {
     id: `EV-${String(s.evCounter).padStart(6, "0")}`,
@@ -399,7 +3379,7 @@ function createHardwareEvent(machine: VendingMachine, severity: "warning" | "err
     type: severity,
     category: "hardware",
     message: picked.msg,
-    timestamp: new Date(),
+    timestamp: s.clock.now(),
     code: picked.code,
   };
 }
@@ -415,7 +3395,7 @@ function createConnectivityEvent(machine: VendingMachine, signal: number): Syste
     type: signal < 70 ? "warning" : "info",
     category: "connectivity",
     message: `Signal strength: ${signal}% (${machine.hardware.connectionType})`,
-    timestamp: new Date(),
+    timestamp: s.clock.now(),
     code: signal < 70 ? "CONN_SIGNAL_WEAK" : "CONN_SIGNAL_OK",
   };
 }
@@ -425,6 +3405,13 @@ function createHeartbeatEvent(machine: VendingMachine): SystemEvent {
   s.evCounter++;
 
   const codes = ["MDB_POLL_SUCCESS", "HEARTBEAT_OK", "SYSTEM_CHECK_PASS", "FIRMWARE_UPTODATE"];
+  const code = pickRandom(codes, s.rng);
+  let message = `System heartbeat OK – Temp: ${machine.hardware.temperature}°C`;
+
+  // The firmware check only passes when nothing newer was released
+  const latest = latestRelease(s.firmware.releases);
+  const outdated = code === "FIRMWARE_UPTODATE" && latest && compareVersions(machine.firmware, latest.version) < 0;
+  if (outdated) message = `Firmware v${machine.firmware} – v${latest.version} available`;
 
   return {
     id: `EV-${String(s.evCounter).padStart(6, "0")}`,
@@ -432,9 +3419,9 @@ function createHeartbeatEvent(machine: VendingMachine): SystemEvent {
     machineName: machine.name,
     type: "info",
     category: "system",
-    message: `System heartbeat OK – Temp: ${machine.hardware.temperature}°C`,
-    timestamp: new Date(),
-    code: codes[Math.floor(Math.random() * codes.length)],
+    message,
+    timestamp: s.clock.now(),
+    code: outdated ? "FIRMWARE_OUTDATED" : code,
   };
 }
 
@@ -444,39 +3431,48 @@ function createHeartbeatEvent(machine: VendingMachine): SystemEvent {
 function seedInitialEvents(): void {
   const s = getSimulationState();
 
+  // Past sales of what each machine's planogram offers, at its price
+  const stocked = s.machines.filter(m => m.planogram.length > 0);
+  if (stocked.length === 0) return;
+
   for (let i = 0; i < 10; i++) {
-    const machine = s.machines[Math.floor(Math.random() * s.machines.length)];
-    const product = weightedRandomProduct();
+    const machine = pickRandom(stocked, s.rng);
+    const offered = new Set(machine.planogram.map(sl => sl.productId));
+    const product = weightedRandomProduct(s.rng, PRODUCTS.filter(p => offered.has(p.id)));
+    const price = machine.planogram.find(sl => sl.productId === product.id)!.price;
 
     s.evCounter++;
     s.txCounter++;
 
     // Create a past transaction
-    const pastTime = new Date(Date.now() - (10 - i) * 30000); // 30s apart
+    const pastTime = new Date(s.clock.now().getTime() - (10 - i) * 30000); // 30s apart
 
     const tx: Transaction = {
       id: `TX-${String(s.txCounter).padStart(6, "0")}`,
       machineId: machine.id,
       machineName: machine.name,
+      locationId: machine.location.id,
       productId: product.id,
       productName: product.name,
-      amount: product.price,
+      amount: price,
       paymentMethod: "card",
       timestamp: pastTime,
       success: true,
+      failureReason: null,
+      readerHealth: "OK",
     };
 
-    s.transactions.push(tx);
+    recordTransaction(tx);
 
-    s.events.push({
+    recordEvent({
       id: `EV-${String(s.evCounter).padStart(6, "0")}`,
       machineId: machine.id,
       machineName: machine.name,
       type: "success",
       category: "transaction",
-      message: `Payment Success: ${product.name} (${product.price} ISK)`,
+      message: `Payment Success: ${product.name} (${price} ISK, Card)`,
       timestamp: pastTime,
-      code: "CARD_TRANSACTION_COMPLETED",
+      code: "PAYMENT_COMPLETED",
     });
   }
 }
@@ -498,10 +3494,24 @@ export function getHourlyData() {
 /** Get Top N products by total revenue across all machines */
 export function getTopProducts(n: number = 5) {
   const s = getSimulationState();
+  return rankTopProducts(s.transactions, s.machines, n);
+}
+
+/** Get Bottom N products (dead stock) */
+export function getBottomProducts(n: number = 5) {
+  return rankBottomProducts(getSimulationState().transactions, n);
+}
+
+/**
+ * Top N products by revenue in `transactions`, with the stock those
+ * products have left in `machines`. Shared by the live view and
+ * historical mode.
+ */
+function rankTopProducts(transactions: Transaction[], machines: VendingMachine[], n: number) {
   const productSales: Record<string, { count: number; revenue: number; stock: number; maxStock: number }> = {};
 
   // Tally up sales from transactions
-  for (const tx of s.transactions) {
+  for (const tx of transactions) {
     if (!tx.success) continue;
     if (!productSales[tx.productId]) {
       productSales[tx.productId] = { count: 0, revenue: 0, stock: 0, maxStock: 0 };
@@ -511,7 +3521,7 @@ export function getTopProducts(n: number = 5) {
   }
 
   // Also tally current stock levels across all machines
-  for (const machine of s.machines) {
+  for (const machine of machines) {
     for (const slot of machine.planogram) {
       if (!slot.productId) continue;
       if (!productSales[slot.productId]) {
@@ -538,12 +3548,11 @@ export function getTopProducts(n: number = 5) {
     .slice(0, n);
 }
 
-/** Get Bottom N products (dead stock) */
-export function getBottomProducts(n: number = 5) {
-  const s = getSimulationState();
+/** Bottom N products by revenue in `transactions` (unsold ones first) */
+function rankBottomProducts(transactions: Transaction[], n: number) {
   const productSales: Record<string, { count: number; revenue: number }> = {};
 
-  for (const tx of s.transactions) {
+  for (const tx of transactions) {
     if (!tx.success) continue;
     if (!productSales[tx.productId]) {
       productSales[tx.productId] = { count: 0, revenue: 0 };
@@ -574,61 +3583,216 @@ export function getBottomProducts(n: number = 5) {
     .slice(0, n);
 }
 
-/** Generate sales heatmap data (hour × day of week) */
-export function getSalesHeatmap(): { day: string; hour: number; value: number }[] {
-  const days = ["Mon", "Tue", "Wed", "Thu", "Fri", "Sat", "Sun"];
-  const data: { day: string; hour: number; value: number }[] = [];
-
-  for (const day of days) {
-    for (let hour = 0; hour < 24; hour++) {
-      // Simulate realistic patterns
-      let base = 20;
-      // Weekdays have higher lunch peaks
-      if (["Mon", "Tue", "Wed", "Thu", "Fri"].includes(day)) {
-        if (hour >= 11 && hour <= 13) base = 80 + Math.random() * 20;
-        else if (hour >= 15 && hour <= 17) base = 60 + Math.random() * 20;
-        else if (hour >= 7 && hour <= 9) base = 50 + Math.random() * 15;
-        else if (hour >= 0 && hour <= 5) base = 5 + Math.random() * 5;
-        else base = 30 + Math.random() * 20;
-      } else {
-        // Weekends: more even distribution, lower overall
-        if (hour >= 11 && hour <= 16) base = 50 + Math.random() * 20;
-        else if (hour >= 0 && hour <= 7) base = 5 + Math.random() * 5;
-        else base = 25 + Math.random() * 15;
-      }
-      data.push({ day, hour, value: Math.round(base) });
-    }
+/**
+ * The location a sale was made at. Transactions recorded before they
+ * carried one count where the machine is now – or last was, if it has
+ * been decommissioned.
+ */
+function soldAt(machineId: string, locationId: string | null | undefined): string | undefined {
+  return locationId ?? getSimulationState().machineRecords.find(r => r.id === machineId)?.locationId;
+}
+
+/** The heatmap covers this many (virtual) weeks of history */
+const HEATMAP_WEEKS = 4;
+
+/** Weekday labels, Monday first (index = (getDay() + 6) % 7) */
+const HEATMAP_DAYS = ["Mon", "Tue", "Wed", "Thu", "Fri", "Sat", "Sun"] as const;
+
+/** Optional filters for the sales heatmap */
+export interface SalesHeatmapFilter {
+  /** Only sales made at this location (e.g. "loc1"), see `soldAt` */
+  locationId?: string;
+  /** Only products in this category (e.g. "beverage") */
+  category?: string;
+}
+
+/**
+ * Sales heatmap: stored transactions from the HEATMAP_WEEKS weeks up
+ * to `at` (default: now), bucketed by weekday × hour of day.
+ *
+ * Each of the 168 cells carries every metric so the UI can switch
+ * between them without refetching:
+ *   • revenue       – ISK from successful transactions
+ *   • units         – units vended (successful transactions)
+ *   • transactions  – payment attempts, including failed payments
+ */
+export function getSalesHeatmap(
+  filter: SalesHeatmapFilter = {},
+  at: Date = getSimulationState().clock.now()
+) {
+  const s = getSimulationState();
+
+  const cells = HEATMAP_DAYS.flatMap(day =>
+    Array.from({ length: 24 }, (_, hour) => ({ day, hour, revenue: 0, units: 0, transactions: 0 }))
+  );
+
+  const from = new Date(at);
+  from.setHours(0, 0, 0, 0);
+  from.setDate(from.getDate() - (HEATMAP_WEEKS * 7 - 1));
+
+  for (const bucket of s.history.rollupTransactions(from, at)) {
+    if (filter.locationId && soldAt(bucket.machineId, bucket.locationId) !== filter.locationId) continue;
+    if (filter.category && bucket.category !== filter.category) continue;
+
+    const hour = new Date(bucket.hour);
+    const cell = cells[((hour.getDay() + 6) % 7) * 24 + hour.getHours()];
+    cell.revenue += bucket.revenue;
+    cell.units += bucket.units;
+    cell.transactions += bucket.transactions;
+  }
+
+  return cells;
+}
+
+// ============================================================
+// PAYMENT ANALYTICS
+// ============================================================
+
+/** Windows the payment analytics can cover, in days */
+export const PAYMENT_PERIODS = { day: 1, week: 7 } as const;
+export type PaymentPeriod = keyof typeof PAYMENT_PERIODS;
+
+/**
+ * Payment analytics over the last day or week up to `at` (default:
+ * now), optionally for the sales made at one location – method
+ * shares and failure rates by method, reason and card-reader health
+ * (see `summarizePayments`).
+ */
+export function getPaymentAnalytics(
+  period: PaymentPeriod,
+  locationId?: string,
+  at: Date = getSimulationState().clock.now()
+) {
+  const s = getSimulationState();
+  const from = new Date(at.getTime() - PAYMENT_PERIODS[period] * 24 * HOUR_MS);
+  const attempts = s.history
+    .findTransactions({ from, to: at })
+    .filter(tx => !locationId || soldAt(tx.machineId, tx.locationId) === locationId);
+  return { from, to: at, ...summarizePayments(attempts) };
+}
+
+// ============================================================
+// PERIOD-OVER-PERIOD KPIs
+// ============================================================
+
+/** Periods the Sales KPI tiles can compare */
+export const KPI_PERIODS = ["day", "week", "month"] as const;
+export type KpiPeriod = (typeof KPI_PERIODS)[number];
+
+/** Sales KPIs over one time window */
+export interface KpiWindow {
+  from: Date;
+  to: Date;
+  /** ISK from successful transactions */
+  revenue: number;
+  /** Successful sales */
+  units: number;
+  /** Payment attempts, including failed payments */
+  transactions: number;
+  /** Average transaction value (revenue ÷ units) */
+  atv: number;
+  /** Share of payment attempts that completed, in % */
+  conversionRate: number;
+}
+
+/** Sum the hourly rollups of a window into KPIs */
+function kpiWindow(from: Date, to: Date): KpiWindow {
+  const totals = { revenue: 0, units: 0, transactions: 0 };
+  for (const bucket of getSimulationState().history.rollupTransactions(from, to)) {
+    totals.revenue += bucket.revenue;
+    totals.units += bucket.units;
+    totals.transactions += bucket.transactions;
+  }
+  return {
+    from,
+    to,
+    ...totals,
+    atv: totals.units > 0 ? Math.round(totals.revenue / totals.units) : 0,
+    conversionRate: totals.transactions > 0 ? (totals.units / totals.transactions) * 100 : 0,
+  };
+}
+
+/**
+ * Sales KPIs for the current period so far, and for the same stretch
+ * of the previous period (a like-for-like baseline):
+ *
+ *   day   → today so far        vs yesterday up to the same time
+ *   week  → this week (Mon–)    vs last week up to the same weekday/time
+ *   month → month-to-date       vs last month up to the same day/time
+ *
+ * The baseline is clipped to the previous period, so e.g. 31 March
+ * compares against the whole of February. Pass `now` to ask what the
+ * tiles showed at an earlier moment (historical mode).
+ */
+export function getSalesKpis(
+  period: KpiPeriod = "day",
+  now: Date = getSimulationState().clock.now()
+): {
+  period: KpiPeriod;
+  current: KpiWindow;
+  baseline: KpiWindow;
+} {
+  const currentFrom = new Date(now);
+  currentFrom.setHours(0, 0, 0, 0);
+  const baselineFrom = new Date(currentFrom);
+
+  if (period === "day") {
+    baselineFrom.setDate(baselineFrom.getDate() - 1);
+  } else if (period === "week") {
+    currentFrom.setDate(currentFrom.getDate() - ((currentFrom.getDay() + 6) % 7)); // Monday
+    baselineFrom.setTime(currentFrom.getTime());
+    baselineFrom.setDate(baselineFrom.getDate() - 7);
+  } else {
+    currentFrom.setDate(1);
+    baselineFrom.setTime(currentFrom.getTime());
+    baselineFrom.setMonth(baselineFrom.getMonth() - 1);
   }
 
-  return data;
+  const elapsed = now.getTime() - currentFrom.getTime();
+  const baselineTo = new Date(Math.min(baselineFrom.getTime() + elapsed, currentFrom.getTime()));
+
+  return {
+    period,
+    current: kpiWindow(currentFrom, now),
+    baseline: kpiWindow(baselineFrom, baselineTo),
+  };
 }
 
 /** Fleet summary statistics */
 export function getFleetStats() {
   const s = getSimulationState();
-  const total = s.machines.length;
-  const online = s.machines.filter(m => m.status === "online").length;
-  const warning = s.machines.filter(m => m.status === "warning").length;
-  const error = s.machines.filter(m => m.status === "error").length;
-  const offline = s.machines.filter(m => m.status === "offline").length;
+  return summarizeFleet(s.machines, s.events, s.incidents, s.clock.now());
+}
+
+/**
+ * Status counts, today's totals and alert counts for a set of
+ * machines. `now` decides which events count as recent alerts and
+ * which incidents were open (and how fast they were handled).
+ */
+function summarizeFleet(machines: VendingMachine[], events: SystemEvent[], incidents: Incident[], now: Date) {
+  const total = machines.length;
+  const online = machines.filter(m => m.status === "online").length;
+  const warning = machines.filter(m => m.status === "warning").length;
+  const error = machines.filter(m => m.status === "error").length;
+  const offline = machines.filter(m => m.status === "offline").length;
 
-  const totalRevenue = s.machines.reduce((sum, m) => sum + m.revenueToday, 0);
-  const totalTransactions = s.machines.reduce((sum, m) => sum + m.transactionsToday, 0);
+  const totalRevenue = machines.reduce((sum, m) => sum + m.revenueToday, 0);
+  const totalTransactions = machines.reduce((sum, m) => sum + m.transactionsToday, 0);
 
   // Average transaction value
   const atv = totalTransactions > 0 ? Math.round(totalRevenue / totalTransactions) : 0;
 
-  // Count critical alerts (recent error events in last 5 minutes)
-  const fiveMinAgo = Date.now() - 5 * 60 * 1000;
-  const criticalAlerts = s.events.filter(
-    e => e.type === "error" && e.timestamp.getTime() > fiveMinAgo
+  // Count critical alerts (critical alert rules fired in the last 5 minutes)
+  const fiveMinAgo = now.getTime() - 5 * 60 * 1000;
+  const criticalAlerts = events.filter(
+    e => e.code === ALERT_EVENT_CODE && e.type === "error" && e.timestamp.getTime() > fiveMinAgo && e.timestamp <= now
   ).length;
 
   // Low stock count
   let lowStockSlots = 0;
-  for (const machine of s.machines) {
+  for (const machine of machines) {
     for (const slot of machine.planogram) {
-      if (slot.stock <= 2 && slot.productId) lowStockSlots++;
+      if (slot.productId && getStockLevel(slot) !== "ok") lowStockSlots++;
     }
   }
 
@@ -643,5 +3807,76 @@ export function getFleetStats() {
     atv,
     criticalAlerts,
     lowStockSlots,
+    incidents: incidentMetrics(incidents, now),
+  };
+}
+
+// ============================================================
+// HISTORICAL MODE
+// ============================================================
+
+/**
+ * Everything the live dashboards show, rebuilt from stored history
+ * for the range [from, to) – "how did the fleet look last Tuesday
+ * 14:00?" is `getFleetAt(tuesdayMidnight, tuesday1400)`.
+ *
+ *   • machines       – status, stock and hardware from the newest
+ *                      hourly snapshot at or before `to` (empty if
+ *                      the history doesn't reach back that far);
+ *                      revenueToday / transactionsToday hold the
+ *                      totals for the RANGE, not the calendar day
+ *   • fleetStats     – the same summary as the live ribbon
+ *   • hourlyData     – revenue + units by hour of day over the range
+ *   • top/bottom     – product rankings from the range's sales
+ *   • transactions / events – the newest records before `to`
+ */
+export function getFleetAt(from: Date, to: Date) {
+  const s = getSimulationState();
+  const snapshot = s.history.findSnapshot(to);
+  // Copy: the store's cached snapshot must not pick up range totals
+  const machines = snapshot ? structuredClone(snapshot.machines) : [];
+
+  const hourlyRevenue = new Array<number>(24).fill(0);
+  const hourlyTraffic = new Array<number>(24).fill(0);
+  const byMachine = new Map<string, { revenue: number; units: number }>();
+  for (const bucket of s.history.rollupTransactions(from, to)) {
+    const hour = new Date(bucket.hour).getHours();
+    hourlyRevenue[hour] += bucket.revenue;
+    hourlyTraffic[hour] += bucket.units;
+
+    const totals = byMachine.get(bucket.machineId) ?? { revenue: 0, units: 0 };
+    totals.revenue += bucket.revenue;
+    totals.units += bucket.units;
+    byMachine.set(bucket.machineId, totals);
+  }
+  for (const machine of machines) {
+    machine.revenueToday = byMachine.get(machine.id)?.revenue ?? 0;
+    machine.transactionsToday = byMachine.get(machine.id)?.units ?? 0;
+    // Snapshots from before machine models existed: the cabinet on
+    // record (decommissioned machines included), else the spiral one
+    // every machine had back then
+    const record = s.machineRecords.find(r => r.id === machine.id);
+    machine.model ??= (record && getMachineModel(record.modelId)) ?? MACHINE_MODELS[0];
+  }
+
+  const sales = s.history.findTransactions({ from, to });
+  const events = s.history.queryEvents({ to, limit: MAX_RECENT_EVENTS }).items;
+
+  return {
+    from,
+    to,
+    /** When the machine state was captured (null = no snapshot yet) */
+    snapshotTime: snapshot?.timestamp ?? null,
+    machines,
+    fleetStats: summarizeFleet(machines, events, s.incidents, to),
+    hourlyData: hourlyRevenue.map((revenue, hour) => ({
+      hour: `${String(hour).padStart(2, "0")}:00`,
+      revenue,
+      traffic: hourlyTraffic[hour],
+    })),
+    topProducts: rankTopProducts(sales, machines, 10),
+    bottomProducts: rankBottomProducts(sales, 5),
+    transactions: sales.slice(0, MAX_RECENT_TRANSACTIONS),
+    events,
   };
 }
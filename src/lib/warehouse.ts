@@ -0,0 +1,221 @@
+/**
+ * ============================================================
+ * Vendral – Warehouse Inventory, Transfers & Reconciliation
+ * ============================================================
+ *
+ * Types and pure helpers for the central warehouse. The state itself
+ * lives in the simulation (see the WAREHOUSE section of
+ * `simulation.ts`) and is persisted as the "warehouse" document.
+ *
+ * INVENTORY (per product):
+ *   • onHand   – units physically in the warehouse
+ *   • reserved – units promised to pending transfers (loaded on a
+ *                van but not yet in a machine)
+ *   • onOrder  – units ordered from the supplier, not yet delivered
+ *   available = onHand - reserved is what a new transfer can take.
+ *
+ * STOCK TRANSFERS (warehouse → machine):
+ *   pending → completed   (units move into the machine's slots)
+ *   pending → cancelled   (reservation released)
+ * A slot never takes more than fits; the rest stays in the warehouse.
+ *
+ * RECONCILIATION:
+ * A machine's stock is counted and compared with what the records
+ * predict since the last count:
+ *   expected = last count + units delivered - units sold
+ *              - units written off as expired
+ * (sales come from the transaction log). Counted below expected is
+ * SHRINKAGE – theft, damage, spoilage, miscounts.
+ * ============================================================
+ */
+
+// ============================================================
+// TYPE DEFINITIONS
+// ============================================================
+
+/** Stock of one product in the warehouse */
+export interface WarehouseItem {
+  productId: string;
+  onHand: number;
+  reserved: number;
+  onOrder: number;
+}
+
+/** Units for one slot of a transfer */
+export interface StockTransferLine {
+  row: number;
+  col: number;
+  productId: string;
+  /** Units loaded for the slot (reserved while pending) */
+  quantity: number;
+  /** Units that fit into the slot on delivery (set when completed) */
+  delivered?: number;
+}
+
+export type StockTransferStatus = "pending" | "completed" | "cancelled";
+
+/** Units on their way from the warehouse to one machine */
+export interface StockTransfer {
+  id: string;
+  machineId: string;
+  status: StockTransferStatus;
+  lines: StockTransferLine[];
+  createdAt: Date;
+  /** When it was completed or cancelled */
+  closedAt?: Date;
+  /** Free text, e.g. "Van 1" for a restock run */
+  note: string;
+}
+
+export type PurchaseOrderStatus = "open" | "received";
+
+/** Units ordered from the supplier */
+export interface PurchaseOrder {
+  id: string;
+  productId: string;
+  quantity: number;
+  orderedAt: Date;
+  /** Virtual time the delivery arrives */
+  dueAt: Date;
+  status: PurchaseOrderStatus;
+}
+
+/**
+ * A machine's stock per product at the moment it was last counted,
+ * plus what has been delivered to it since. Sales since the count are
+ * the machine's transactions numbered above `txCounter` (timestamps
+ * alone can't tell apart a sale and a count in the same millisecond).
+ */
+export interface StockCount {
+  machineId: string;
+  countedAt: Date;
+  /** Value of the transaction counter when the count was taken */
+  txCounter: number;
+  stock: Record<string, number>;
+  /** Units delivered by completed transfers since the count */
+  delivered: Record<string, number>;
+  /** Units written off as expired since the count (see `expiry.ts`) */
+  writtenOff: Record<string, number>;
+}
+
+/** Counted vs. expected for one product in one machine */
+export interface ReconciliationLine {
+  productId: string;
+  expected: number;
+  counted: number;
+  /** counted - expected (negative = shrinkage) */
+  variance: number;
+}
+
+/** The result of counting one machine */
+export interface Reconciliation {
+  id: string;
+  machineId: string;
+  /** Previous count the expectation starts from */
+  since: Date;
+  countedAt: Date;
+  lines: ReconciliationLine[];
+  /** Units missing (sum of negative variances, as a positive number) */
+  shrinkageUnits: number;
+  /** Missing units at the machine's slot prices (ISK) */
+  shrinkageValue: number;
+}
+
+/** Everything the warehouse persists */
+export interface WarehouseState {
+  items: WarehouseItem[];
+  transfers: StockTransfer[];
+  orders: PurchaseOrder[];
+  /** The latest count per machine (baseline for the next reconciliation) */
+  counts: StockCount[];
+  reconciliations: Reconciliation[];
+  /** Counter for TR-/PO-/RC- ids */
+  counter: number;
+}
+
+// ============================================================
+// CONSTANTS
+// ============================================================
+
+/** Supplier deliveries arrive this long after ordering (virtual time) */
+export const SUPPLIER_LEAD_TIME_MS = 24 * 60 * 60 * 1000;
+
+/** Largest single purchase order (units) */
+export const MAX_ORDER_QUANTITY = 5_000;
+
+// ============================================================
+// HELPERS
+// ============================================================
+
+/** Units a new transfer can take */
+export function getAvailable(item: WarehouseItem): number {
+  return item.onHand - item.reserved;
+}
+
+/** Sum a list of `{ productId, <field> }` into units per product */
+export function totalsByProduct<T extends { productId: string }>(
+  rows: T[],
+  units: (row: T) => number
+): Record<string, number> {
+  const totals: Record<string, number> = {};
+  for (const row of rows) totals[row.productId] = (totals[row.productId] ?? 0) + units(row);
+  return totals;
+}
+
+/**
+ * Compare counted stock with the expectation built from the last
+ * count, plus deliveries and minus write-offs and successful sales
+ * since then. Products with nothing expected and nothing counted are
+ * left out.
+ */
+export function reconcileStock(
+  { stock: baseline, delivered, writtenOff }: Pick<StockCount, "stock" | "delivered" | "writtenOff">,
+  sold: Record<string, number>,
+  counted: Record<string, number>
+): ReconciliationLine[] {
+  const products = new Set([
+    ...Object.keys(baseline),
+    ...Object.keys(delivered),
+    ...Object.keys(sold),
+    ...Object.keys(counted),
+  ]);
+
+  const lines: ReconciliationLine[] = [];
+  for (const productId of products) {
+    // Can't sell more than was there – a negative expectation means
+    // the records missed a delivery, not that stock appeared
+    const expected = Math.max(0, (baseline[productId] ?? 0) + (delivered[productId] ?? 0) -
+      (sold[productId] ?? 0) - (writtenOff[productId] ?? 0));
+    const count = counted[productId] ?? 0;
+    if (expected === 0 && count === 0) continue;
+    lines.push({ productId, expected, counted: count, variance: count - expected });
+  }
+  return lines.sort((a, b) => a.variance - b.variance);
+}
+
+// ============================================================
+// REQUEST PARSING
+// ============================================================
+
+type SlotQuantity<K extends string> = { row: number; col: number } & Record<K, number>;
+
+/**
+ * Validate a request body's `[{ row, col, <field> }]` list (transfer
+ * quantities, counted stock) – all non-negative integers.
+ */
+export function parseSlotQuantities<K extends string>(
+  value: unknown,
+  field: K
+): SlotQuantity<K>[] | { error: string } {
+  if (!Array.isArray(value)) return { error: `Expected a list of { row, col, ${field} }` };
+
+  const parsed: SlotQuantity<K>[] = [];
+  for (const entry of value as Record<string, unknown>[]) {
+    const numbers = [entry?.row, entry?.col, entry?.[field]];
+    if (!numbers.every(n => Number.isInteger(n) && (n as number) >= 0)) {
+      return { error: `row, col and ${field} must be non-negative integers` };
+    }
+    parsed.push({ row: entry.row, col: entry.col, [field]: entry[field] } as SlotQuantity<K>);
+  }
+  return parsed;
+}
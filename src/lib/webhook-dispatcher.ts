@@ -0,0 +1,168 @@
+/**
+ * ============================================================
+ * Vendral – Webhook Dispatcher
+ * ============================================================
+ *
+ * Sends webhook payloads (see `src/lib/webhooks.ts`) over HTTP:
+ *
+ * SIGNING:
+ *   X-Vendral-Signature: t=<unix seconds>,v1=<hex HMAC-SHA256>
+ *   The HMAC covers "<t>.<raw body>" with the subscription's secret,
+ *   so a receiver can check both who sent it and that it's fresh.
+ *
+ * RETRIES:
+ *   A delivery counts as done on any 2xx response. Network errors,
+ *   timeouts, 408, 429 and 5xx are retried after 10s, 30s, 2 min and
+ *   10 min (real time – the virtual clock doesn't matter to the
+ *   receiver); other 4xx responses won't get better and fail at once.
+ *   Pending retries are lost when the server restarts.
+ *
+ * LOCAL STAND-IN:
+ *   `/api/fleet/webhooks/receiver` accepts deliveries like a real
+ *   receiver would, checks their signature and keeps the last ones
+ *   (`recordReceived` / `getReceived`) – subscribe it to try
+ *   everything without leaving the machine.
+ *
+ * Server-only: like `simulation.ts`, never import this from the client
+ * except with `import type`.
+ * ============================================================
+ */
+
+import { createHmac, randomBytes, timingSafeEqual } from "node:crypto";
+import type { WebhookDelivery } from "./webhooks";
+
+/** Wait before each attempt after the first */
+const RETRY_DELAYS_MS = [10_000, 30_000, 120_000, 600_000];
+
+/** Give up on an attempt after this long */
+const ATTEMPT_TIMEOUT_MS = 5_000;
+
+/** Signatures older than this are rejected by `verifySignature` */
+const SIGNATURE_TOLERANCE_S = 300;
+
+/** Deliveries the local stand-in remembers */
+const MAX_RECEIVED = 50;
+
+/** One request the local stand-in received */
+export interface ReceivedWebhook {
+  receivedAt: Date;
+  subscriptionId: string | null;
+  deliveryId: string | null;
+  type: string | null;
+  /** Whether X-Vendral-Signature matched the subscription's secret */
+  signatureValid: boolean;
+  /** The status the stand-in answered with */
+  respondedWith: number;
+  body: unknown;
+}
+
+const globalForWebhooks = globalThis as typeof globalThis & {
+  vendralWebhookReceiver?: ReceivedWebhook[];
+};
+
+// ============================================================
+// SIGNING
+// ============================================================
+
+/** A new random signing secret */
+export function generateSecret(): string {
+  return `whsec_${randomBytes(24).toString("hex")}`;
+}
+
+/** The X-Vendral-Signature header for `body`, signed at `timestamp` (unix seconds) */
+export function signPayload(body: string, secret: string, timestamp: number): string {
+  const hmac = createHmac("sha256", secret).update(`${timestamp}.${body}`).digest("hex");
+  return `t=${timestamp},v1=${hmac}`;
+}
+
+/** Whether a signature header matches `body` and is recent enough */
+export function verifySignature(body: string, header: string | null, secret: string, now = Date.now()): boolean {
+  const parts = Object.fromEntries((header ?? "").split(",").map(part => part.split("=", 2)));
+  const timestamp = Number(parts.t);
+  if (!Number.isInteger(timestamp) || !parts.v1) return false;
+  if (Math.abs(now / 1000 - timestamp) > SIGNATURE_TOLERANCE_S) return false;
+
+  const expected = Buffer.from(signPayload(body, secret, timestamp).split("v1=")[1], "hex");
+  const actual = Buffer.from(parts.v1, "hex");
+  return actual.length === expected.length && timingSafeEqual(actual, expected);
+}
+
+// ============================================================
+// DELIVERY
+// ============================================================
+
+/** Whether a failed attempt is worth retrying */
+function isRetryable(status: number | null): boolean {
+  return status === null || status === 408 || status === 429 || status >= 500;
+}
+
+/**
+ * Send `body` to the subscription, retrying with backoff. Updates
+ * `delivery` in place (attempts, status, next retry). Never throws.
+ */
+export function deliverWebhook(
+  target: { id: string; url: string; secret: string },
+  delivery: WebhookDelivery,
+  body: string
+): void {
+  const attempt = async () => {
+    const started = Date.now();
+    let status: number | null = null;
+    let error: string | null = null;
+    try {
+      const response = await fetch(target.url, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          "User-Agent": "Vendral-Webhooks/1.0",
+          "X-Vendral-Event": delivery.type,
+          "X-Vendral-Delivery": delivery.id,
+          "X-Vendral-Subscription": target.id,
+          "X-Vendral-Signature": signPayload(body, target.secret, Math.floor(started / 1000)),
+        },
+        body,
+        signal: AbortSignal.timeout(ATTEMPT_TIMEOUT_MS),
+        redirect: "manual",
+      });
+      status = response.status;
+      if (!response.ok) error = `HTTP ${response.status}`;
+      // Nobody reads the body; release the connection
+      await response.body?.cancel();
+    } catch (e) {
+      error = e instanceof Error && e.name === "TimeoutError"
+        ? `No response within ${ATTEMPT_TIMEOUT_MS / 1000}s`
+        : e instanceof Error ? (e.cause as Error | undefined)?.message ?? e.message : String(e);
+    }
+
+    delivery.attempts.push({ at: new Date(started), status, error, durationMs: Date.now() - started });
+    const retryIn = RETRY_DELAYS_MS[delivery.attempts.length - 1];
+    if (!error) {
+      delivery.status = "delivered";
+      delivery.nextAttemptAt = null;
+    } else if (retryIn !== undefined && isRetryable(status)) {
+      delivery.nextAttemptAt = new Date(Date.now() + retryIn);
+      // Don't keep the process alive just for a retry
+      setTimeout(() => void attempt(), retryIn).unref?.();
+    } else {
+      delivery.status = "failed";
+      delivery.nextAttemptAt = null;
+    }
+  };
+  void attempt();
+}
+
+// ============================================================
+// LOCAL STAND-IN
+// ============================================================
+
+/** Remember a request the stand-in received (newest first) */
+export function recordReceived(received: ReceivedWebhook): void {
+  const log = (globalForWebhooks.vendralWebhookReceiver ??= []);
+  log.unshift(received);
+  if (log.length > MAX_RECEIVED) log.pop();
+}
+
+/** What the stand-in received, newest first */
+export function getReceived(): ReceivedWebhook[] {
+  return globalForWebhooks.vendralWebhookReceiver ?? [];
+}
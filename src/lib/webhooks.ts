@@ -0,0 +1,249 @@
+/**
+ * ============================================================
+ * Vendral – Webhook Subscriptions
+ * ============================================================
+ *
+ * On-call tools live outside the dashboard, so the server can POST
+ * what happens to any URL that subscribes:
+ *
+ *   subscription  name, URL, signing secret and filters:
+ *     events        system events (category, severity, location)
+ *     incidents     incident changes – opened, escalated,
+ *                   acknowledged, resolved, updated
+ *
+ * Every delivery is a JSON body
+ *
+ *   { "id": "WD-000042", "type": "system_event", "occurredAt": "…", "data": { … } }
+ *
+ * with headers
+ *
+ *   X-Vendral-Event:        the type ("incident.acknowledged", …)
+ *   X-Vendral-Delivery:     the delivery id (the same on every retry)
+ *   X-Vendral-Subscription: the subscription id
+ *   X-Vendral-Signature:    t=<unix seconds>,v1=<hex HMAC-SHA256 of "<t>.<body>">
+ *
+ * A receiver recomputes the HMAC with its secret and rejects old
+ * timestamps. Failed deliveries are retried with backoff (see
+ * `src/lib/webhook-dispatcher.ts`); the delivery log keeps the
+ * outcome of every attempt.
+ *
+ * Types, filter matching and request parsing – no server imports,
+ * safe to bundle for the browser.
+ * ============================================================
+ */
+
+import type { SystemEvent } from "./data";
+import { ALERT_SEVERITIES, type AlertSeverity } from "./alert-rules";
+import { SEVERITY_RANK } from "./incidents";
+
+// ============================================================
+// TYPE DEFINITIONS
+// ============================================================
+
+export type WebhookEventType =
+  | "system_event"
+  | "incident.opened"
+  | "incident.escalated"
+  | "incident.acknowledged"
+  | "incident.resolved"
+  | "incident.updated"
+  | "test";
+
+/** What a subscription wants to receive */
+export interface WebhookFilters {
+  /** Send system events */
+  events: boolean;
+  /** Send incident changes */
+  incidents: boolean;
+  /** Event categories sent (empty = every category; incidents always pass) */
+  categories: SystemEvent["category"][];
+  /** The least severe level sent (error events count as critical) */
+  minSeverity: AlertSeverity;
+  /** Machines at these locations only (empty = every location) */
+  locationIds: string[];
+}
+
+export interface WebhookSubscription {
+  id: string;
+  name: string;
+  url: string;
+  /** HMAC key for X-Vendral-Signature – never sent to the browser */
+  secret: string;
+  enabled: boolean;
+  filters: WebhookFilters;
+  createdAt: Date;
+}
+
+/** A subscription as the API lists it: the secret is only hinted at */
+export type WebhookSubscriptionView = Omit<WebhookSubscription, "secret"> & { secretHint: string };
+
+/** What a client sends to create or change a subscription */
+export interface WebhookInput {
+  name: string;
+  url: string;
+  enabled: boolean;
+  filters: WebhookFilters;
+  /** Omit to keep the current secret (or generate one for a new subscription) */
+  secret?: string;
+}
+
+/** The JSON body of a delivery */
+export interface WebhookPayload {
+  id: string;
+  type: WebhookEventType;
+  /** Virtual time of what happened */
+  occurredAt: Date;
+  data: unknown;
+}
+
+/** One try to deliver a payload */
+export interface WebhookAttempt {
+  /** Real time of the attempt */
+  at: Date;
+  /** HTTP status of the response (null = no response) */
+  status: number | null;
+  error: string | null;
+  durationMs: number;
+}
+
+/** A payload on its way to one subscription, and how that went */
+export interface WebhookDelivery {
+  id: string;
+  subscriptionId: string;
+  type: WebhookEventType;
+  /** One line about the payload, e.g. the event message */
+  summary: string;
+  /**
+   * pending (being sent or waiting to retry), delivered (2xx),
+   * failed (retries used up), dropped (too many pending – not sent)
+   */
+  status: "pending" | "delivered" | "failed" | "dropped";
+  attempts: WebhookAttempt[];
+  /** Real time of the next retry (null = none planned) */
+  nextAttemptAt: Date | null;
+  /** Virtual time of what it reports (attempts run on real time) */
+  createdAt: Date;
+}
+
+/** What a payload is about, for filtering */
+export interface WebhookSubject {
+  kind: "event" | "incident";
+  category?: SystemEvent["category"];
+  severity: AlertSeverity;
+  locationId: string | null;
+}
+
+// ============================================================
+// CONSTANTS
+// ============================================================
+
+export const WEBHOOK_CATEGORIES: SystemEvent["category"][] = [
+  "transaction",
+  "hardware",
+  "stock",
+  "connectivity",
+  "system",
+];
+
+/** What a new subscription starts with – problems only */
+export const DEFAULT_WEBHOOK_FILTERS: WebhookFilters = {
+  events: true,
+  incidents: true,
+  categories: [],
+  minSeverity: "warning",
+  locationIds: [],
+};
+
+const MAX_NAME_LENGTH = 60;
+const MAX_URL_LENGTH = 500;
+const MIN_SECRET_LENGTH = 16;
+
+// ============================================================
+// HELPERS
+// ============================================================
+
+/** An event's type as a severity (error → critical, success → info) */
+export function eventSeverity(type: SystemEvent["type"]): AlertSeverity {
+  return type === "error" ? "critical" : type === "warning" ? "warning" : "info";
+}
+
+/** Whether a subscription wants a payload about `subject` */
+export function matchesWebhookFilters(filters: WebhookFilters, subject: WebhookSubject): boolean {
+  if (subject.kind === "event" ? !filters.events : !filters.incidents) return false;
+  if (SEVERITY_RANK[subject.severity] < SEVERITY_RANK[filters.minSeverity]) return false;
+  if (subject.kind === "event" && filters.categories.length > 0 && !filters.categories.includes(subject.category!)) {
+    return false;
+  }
+  return filters.locationIds.length === 0 || (subject.locationId !== null && filters.locationIds.includes(subject.locationId));
+}
+
+/** "events + incidents · warning+ · hardware, stock" */
+export function describeFilters(filters: WebhookFilters): string {
+  const kinds = [filters.events && "events", filters.incidents && "incidents"].filter(Boolean).join(" + ") || "nothing";
+  const categories = filters.categories.length > 0 ? filters.categories.join(", ") : "all categories";
+  return `${kinds} · ${filters.minSeverity}+ · ${categories}`;
+}
+
+// ============================================================
+// REQUEST PARSING
+// ============================================================
+
+function parseFilters(value: unknown, locationIds: string[]): WebhookFilters | { error: string } {
+  const f = { ...DEFAULT_WEBHOOK_FILTERS, ...(value ?? {}) } as Record<string, unknown>;
+
+  if (typeof f.events !== "boolean" || typeof f.incidents !== "boolean") {
+    return { error: "filters.events and filters.incidents must be booleans" };
+  }
+  if (!Array.isArray(f.categories) || f.categories.some(c => !WEBHOOK_CATEGORIES.includes(c))) {
+    return { error: `filters.categories must list ${WEBHOOK_CATEGORIES.join(", ")}` };
+  }
+  if (!ALERT_SEVERITIES.includes(f.minSeverity as AlertSeverity)) {
+    return { error: `filters.minSeverity must be one of ${ALERT_SEVERITIES.join(", ")}` };
+  }
+  if (!Array.isArray(f.locationIds) || f.locationIds.some(id => !locationIds.includes(id))) {
+    return { error: "filters.locationIds must list known locations" };
+  }
+  return {
+    events: f.events,
+    incidents: f.incidents,
+    categories: [...new Set(f.categories as SystemEvent["category"][])],
+    minSeverity: f.minSeverity as AlertSeverity,
+    locationIds: [...new Set(f.locationIds as string[])],
+  };
+}
+
+/**
+ * Read a subscription request body `{ name, url, enabled?, filters?,
+ * secret? }`. `locationIds` lists the known locations. Returns an
+ * error message instead when something is invalid.
+ */
+export function parseWebhookInput(body: unknown, locationIds: string[]): WebhookInput | { error: string } {
+  const b = (body ?? {}) as Record<string, unknown>;
+
+  if (typeof b.name !== "string" || !b.name.trim() || b.name.length > MAX_NAME_LENGTH) {
+    return { error: `name must be 1–${MAX_NAME_LENGTH} characters` };
+  }
+  if (typeof b.url !== "string" || b.url.length > MAX_URL_LENGTH || !URL.canParse(b.url)) {
+    return { error: "url must be an absolute URL" };
+  }
+  const { protocol } = new URL(b.url);
+  if (protocol !== "http:" && protocol !== "https:") {
+    return { error: "url must use http or https" };
+  }
+  if (b.enabled !== undefined && typeof b.enabled !== "boolean") {
+    return { error: "enabled must be a boolean" };
+  }
+  if (b.secret !== undefined && (typeof b.secret !== "string" || b.secret.length < MIN_SECRET_LENGTH)) {
+    return { error: `secret must be at least ${MIN_SECRET_LENGTH} characters` };
+  }
+  const filters = parseFilters(b.filters, locationIds);
+  if ("error" in filters) return filters;
+
+  return {
+    name: b.name.trim(),
+    url: b.url,
+    enabled: b.enabled ?? true,
+    filters,
+    ...(b.secret !== undefined && { secret: b.secret as string }),
+  };
+}
@@ -0,0 +1,281 @@
+/**
+ * ============================================================
+ * Vendral – Maintenance Work Orders
+ * ============================================================
+ *
+ * A hardware fault (MOTOR_JAM_DETECTED, MDB_POLL_TIMEOUT, …) needs
+ * someone on site. A WORK ORDER tracks that repair:
+ *
+ *   open ──start──▶ in_progress ──close──▶ closed
+ *     └──────────────close───────────────────┘
+ *
+ *   - Created by hand from a machine in Device Health, or
+ *     automatically when a fault code listed in the maintenance
+ *     settings is logged. Further faults of the same component join
+ *     the unclosed work order instead of opening another one.
+ *   - A technician is assigned, the parts used and on-site notes are
+ *     recorded on the work order
+ *   - Closing it puts the repaired hardware component back to OK (a
+ *     cooling repair brings the cabinet back to 5°C) and the machine's
+ *     status follows what is still faulty
+ *
+ * Types, fault codes and request parsing – no server imports, safe to
+ * bundle for the browser.
+ * ============================================================
+ */
+
+import type { HardwareStatus, MachineStatus } from "./data";
+
+// ============================================================
+// TYPE DEFINITIONS
+// ============================================================
+
+export type WorkOrderStatus = "open" | "in_progress" | "closed";
+
+/** The hardware a work order repairs (null = the machine in general) */
+export type RepairComponent = "billValidator" | "cardReader" | "motorBoard" | "display" | "temperature";
+
+/** A note someone left on a work order (status changes add one too) */
+export interface WorkOrderNote {
+  author: string;
+  text: string;
+  at: Date;
+}
+
+/** A spare part used for the repair */
+export interface WorkOrderPart {
+  name: string;
+  quantity: number;
+  addedBy: string;
+  at: Date;
+}
+
+export interface WorkOrder {
+  /** "WK-000001" – not "WO-", which numbers waste write-offs */
+  id: string;
+  machineId: string;
+  machineName: string;
+  locationId: string;
+  status: WorkOrderStatus;
+  component: RepairComponent | null;
+  /** The fault code that opened it (null = created by hand) */
+  faultCode: string | null;
+  title: string;
+  /** Fault events that led to it, oldest first (the newest 50) */
+  eventIds: string[];
+  /** Who created it ("system" for automatic work orders) */
+  createdBy: string;
+  technician: string | null;
+  parts: WorkOrderPart[];
+  notes: WorkOrderNote[];
+  createdAt: Date;
+  startedAt: Date | null;
+  closedAt: Date | null;
+}
+
+/** A work order created by hand, as sent by Device Health */
+export interface WorkOrderInput {
+  author: string;
+  machineId: string;
+  component: RepairComponent | null;
+  title: string;
+  technician: string | null;
+}
+
+/** A change to a work order */
+export interface WorkOrderUpdate {
+  /** Who makes the change (recorded with status changes, parts and notes) */
+  author: string;
+  status?: "in_progress" | "closed";
+  /** null unassigns */
+  technician?: string | null;
+  part?: { name: string; quantity: number };
+  note?: string;
+}
+
+/** Which logged fault codes open a work order by themselves */
+export interface MaintenanceSettings {
+  autoCreateCodes: string[];
+}
+
+// ============================================================
+// CONSTANTS
+// ============================================================
+
+/**
+ * Every hardware fault code the machines log, the component it
+ * concerns and how bad it is. PSU_VOLTAGE_WARN is about the machine
+ * as a whole.
+ */
+export const HARDWARE_FAULTS: { code: string; component: RepairComponent | null; severity: "warning" | "error" }[] = [
+  { code: "MOTOR_JAM_DETECTED", component: "motorBoard", severity: "error" },
+  { code: "MDB_POLL_TIMEOUT", component: "billValidator", severity: "error" },
+  { code: "TEMP_SENSOR_ANOMALY", component: "temperature", severity: "error" },
+  { code: "CARD_READER_MAG_ERR", component: "cardReader", severity: "error" },
+  { code: "DISPLAY_BACKLIGHT_ERR", component: "display", severity: "error" },
+  { code: "TEMP_HIGH_WARNING", component: "temperature", severity: "warning" },
+  { code: "MDB_CLEAN_WARNING", component: "billValidator", severity: "warning" },
+  { code: "PSU_VOLTAGE_WARN", component: null, severity: "warning" },
+  { code: "COMPRESSOR_CYCLE_WARN", component: "temperature", severity: "warning" },
+];
+
+export const REPAIR_COMPONENTS: { id: RepairComponent; label: string }[] = [
+  { id: "billValidator", label: "Bill Validator" },
+  { id: "cardReader", label: "Card Reader" },
+  { id: "motorBoard", label: "Motor Board" },
+  { id: "display", label: "Display" },
+  { id: "temperature", label: "Cooling" },
+];
+
+/** What a new history starts with: every error-level fault */
+export const DEFAULT_MAINTENANCE_SETTINGS: MaintenanceSettings = {
+  autoCreateCodes: HARDWARE_FAULTS.filter(f => f.severity === "error").map(f => f.code),
+};
+
+/** The cabinet temperature after a cooling repair */
+export const REPAIRED_TEMPERATURE = 5;
+
+/** Above this the cooling counts as faulty (as Device Health shows it) */
+export const MAX_OK_TEMPERATURE = 7;
+
+/** Event ids kept per work order */
+export const MAX_WORK_ORDER_EVENT_IDS = 50;
+
+const MAX_NAME_LENGTH = 60;
+const MAX_TITLE_LENGTH = 120;
+const MAX_NOTE_LENGTH = 500;
+const MAX_PART_QUANTITY = 99;
+
+// ============================================================
+// HELPERS
+// ============================================================
+
+/** The component a fault code concerns (null = none, or an unknown code) */
+export function faultComponent(code: string): RepairComponent | null {
+  return HARDWARE_FAULTS.find(f => f.code === code)?.component ?? null;
+}
+
+/** "Motor Board" / "Machine" */
+export function componentLabel(component: RepairComponent | null): string {
+  return REPAIR_COMPONENTS.find(c => c.id === component)?.label ?? "Machine";
+}
+
+/** Whether a component is currently faulty */
+export function isComponentFaulty(hardware: HardwareStatus, component: RepairComponent): boolean {
+  return component === "temperature"
+    ? hardware.temperature > MAX_OK_TEMPERATURE
+    : hardware[component] !== "OK";
+}
+
+/**
+ * The machine's status once the hardware is as given: error while a
+ * component is in ERROR, warning while one is in WARNING (or the
+ * cabinet is too warm), online otherwise.
+ */
+export function statusFromHardware(hardware: HardwareStatus): MachineStatus {
+  const levels = [hardware.billValidator, hardware.cardReader, hardware.motorBoard, hardware.display];
+  if (levels.includes("ERROR")) return "error";
+  if (levels.includes("WARNING") || hardware.temperature > MAX_OK_TEMPERATURE) return "warning";
+  return "online";
+}
+
+// ============================================================
+// REQUEST PARSING
+// ============================================================
+
+function parseName(value: unknown, field: string): string | { error: string } {
+  if (typeof value !== "string" || !value.trim() || value.length > MAX_NAME_LENGTH) {
+    return { error: `${field} must be 1–${MAX_NAME_LENGTH} characters` };
+  }
+  return value.trim();
+}
+
+function isRepairComponent(value: unknown): value is RepairComponent {
+  return REPAIR_COMPONENTS.some(c => c.id === value);
+}
+
+/**
+ * Read a work order POST body `{ author, machineId, component, title,
+ * technician? }` (component null = the machine in general). Returns an
+ * error message instead when something is invalid.
+ */
+export function parseWorkOrderInput(body: unknown): WorkOrderInput | { error: string } {
+  const b = (body ?? {}) as Record<string, unknown>;
+
+  const author = parseName(b.author, "author");
+  if (typeof author !== "string") return author;
+  if (typeof b.machineId !== "string" || !b.machineId) {
+    return { error: "machineId is required" };
+  }
+  if (b.component !== null && !isRepairComponent(b.component)) {
+    return { error: `component must be null or one of ${REPAIR_COMPONENTS.map(c => c.id).join(", ")}` };
+  }
+  if (typeof b.title !== "string" || !b.title.trim() || b.title.length > MAX_TITLE_LENGTH) {
+    return { error: `title must be 1–${MAX_TITLE_LENGTH} characters` };
+  }
+  let technician: string | null = null;
+  if (b.technician !== undefined && b.technician !== null) {
+    const name = parseName(b.technician, "technician");
+    if (typeof name !== "string") return name;
+    technician = name;
+  }
+  return { author, machineId: b.machineId, component: b.component, title: b.title.trim(), technician };
+}
+
+/**
+ * Read a work order PATCH body `{ author, status?, technician?,
+ * part?: { name, quantity }, note? }`. Returns an error message
+ * instead when something is invalid.
+ */
+export function parseWorkOrderUpdate(body: unknown): WorkOrderUpdate | { error: string } {
+  const b = (body ?? {}) as Record<string, unknown>;
+
+  const author = parseName(b.author, "author");
+  if (typeof author !== "string") return author;
+  const update: WorkOrderUpdate = { author };
+
+  if (b.status !== undefined) {
+    if (b.status !== "in_progress" && b.status !== "closed") {
+      return { error: "status must be in_progress or closed" };
+    }
+    update.status = b.status;
+  }
+  if (b.technician !== undefined) {
+    if (b.technician === null) {
+      update.technician = null;
+    } else {
+      const name = parseName(b.technician, "technician");
+      if (typeof name !== "string") return name;
+      update.technician = name;
+    }
+  }
+  if (b.part !== undefined) {
+    const part = (b.part ?? {}) as Record<string, unknown>;
+    const name = parseName(part.name, "part.name");
+    if (typeof name !== "string") return name;
+    const quantity = part.quantity;
+    if (!Number.isInteger(quantity) || (quantity as number) < 1 || (quantity as number) > MAX_PART_QUANTITY) {
+      return { error: `part.quantity must be 1–${MAX_PART_QUANTITY}` };
+    }
+    update.part = { name, quantity: quantity as number };
+  }
+  if (b.note !== undefined) {
+    if (typeof b.note !== "string" || !b.note.trim() || b.note.length > MAX_NOTE_LENGTH) {
+      return { error: `note must be 1–${MAX_NOTE_LENGTH} characters` };
+    }
+    update.note = b.note.trim();
+  }
+  if (Object.keys(update).length === 1) {
+    return { error: "Nothing to change – send status, technician, part or note" };
+  }
+  return update;
+}
+
+/** Read a settings PUT body `{ autoCreateCodes }` */
+export function parseMaintenanceSettings(body: unknown): MaintenanceSettings | { error: string } {
+  const codes = ((body ?? {}) as Record<string, unknown>).autoCreateCodes;
+  if (!Array.isArray(codes) || codes.some(code => !HARDWARE_FAULTS.some(f => f.code === code))) {
+    return { error: `autoCreateCodes must list hardware fault codes (${HARDWARE_FAULTS.map(f => f.code).join(", ")})` };
+  }
+  return { autoCreateCodes: [...new Set(codes as string[])] };
+}